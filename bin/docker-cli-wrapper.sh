@@ -5,7 +5,7 @@ set -euo pipefail
 # This script restricts Docker commands to only those needed for session management.
 #
 # Security features:
-# - Only allows specific Docker subcommands (run, stop, rm, ps, inspect)
+# - Only allows specific Docker subcommands (run, stop, rm, ps, inspect, logs)
 # - Container names must match pattern: session-{appId}-{sessionId}
 # - Only allows {appId}-gestures-app images for 'run' command
 #
@@ -16,7 +16,7 @@ set -euo pipefail
 #   The container has access to the host Docker daemon via mounted socket.
 
 # Allowed subcommands
-ALLOWED_CMDS=("run" "stop" "rm" "ps" "inspect")
+ALLOWED_CMDS=("run" "stop" "rm" "ps" "inspect" "logs")
 
 # Container name pattern: session-{appId}-{sessionId}
 # appId can contain lowercase letters, numbers, and hyphens
@@ -128,6 +128,21 @@ if [[ "${cmd}" == "inspect" ]]; then
   do_exec inspect "$@"
 fi
 
+# Handle 'logs' command (only: logs --tail <lines> <container>)
+if [[ "${cmd}" == "logs" ]]; then
+  if [[ $# -ne 3 ]] || [[ "${1}" != "--tail" ]] || [[ ! "${2}" =~ ^[0-9]+$ ]]; then
+    echo "Denied: logs only accepts --tail <lines> <container>" >&2
+    exit 1
+  fi
+
+  if [[ ! "${3}" =~ ${CONTAINER_RE} ]]; then
+    echo "Denied: invalid container name for logs" >&2
+    exit 1
+  fi
+
+  do_exec logs --tail "${2}" "${3}"
+fi
+
 # Handle 'stop' and 'rm' commands (require container name as first arg)
 if [[ "${cmd}" == "stop" ]] || [[ "${cmd}" == "rm" ]]; then
   name="${1:-}"
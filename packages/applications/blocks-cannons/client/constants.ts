@@ -2,6 +2,8 @@
  * @fileoverview Client-specific constants for rendering and interaction.
  */
 
+import type { CodecName } from '@gesture-app/framework-protocol';
+
 // Re-export shared constants
 export {
   BLOCK_COLORS,
@@ -74,6 +76,43 @@ export const ANIMATION = {
  */
 export const GRAB_RELEASE_GRACE_MS = 150;
 
+// ============ Reconnection Constants ============
+
+/** Delay between attempts to resume a match after the connection dropped */
+export const RECONNECT_DELAY_MS = 1000;
+
+/** Attempts to resume before giving up (should cover the server's grace period) */
+export const MAX_RECONNECT_ATTEMPTS = 10;
+
+// ============ Network Constants ============
+
+/** Smoothing of server-driven motion (opponent blocks, projectiles) */
+export const INTERPOLATION = {
+  /** Render this far behind the newest server update (two 50ms ticks) */
+  RENDER_DELAY_MS: 100,
+  /** Keep projectiles moving along their velocity this long when updates are late */
+  MAX_EXTRAPOLATION_MS: 250,
+} as const;
+
+/** Wire codec requested from the server (projectile updates are mostly numbers) */
+export const WIRE_CODEC: CodecName = 'msgpack';
+
+/** Interval between clock sync pings (RTT/jitter shown in the status overlay) */
+export const CLOCK_SYNC_INTERVAL_MS = 2000;
+
+// ============ Replay Constants ============
+
+export const REPLAY = {
+  /** Playback speeds offered by the replay controls */
+  SPEEDS: [0.25, 0.5, 1, 2, 4],
+  /** Free-fly camera speed in world units per second */
+  FLY_SPEED: 6,
+  /** Speed multiplier while Shift is held */
+  FAST_MULTIPLIER: 3,
+  /** Camera rotation per pixel of mouse drag (radians) */
+  LOOK_SENSITIVITY: 0.004,
+} as const;
+
 // ============ Starfield Constants ============
 
 export const STARFIELD = {
@@ -2,12 +2,23 @@
  * @fileoverview Main entry point - orchestrates all game modules.
  */
 
-import { resolveSessionConfig, type SessionConfig } from '@gesture-app/framework-client';
+import {
+  type ClockSyncStats,
+  resolveSessionConfig,
+  type SessionConfig,
+} from '@gesture-app/framework-client';
 import * as THREE from 'three';
 import { InteractionManager } from './game/index.js';
 import { GestureDetector, HandTracker, HandVisualizer } from './input/index.js';
 import { GameClient } from './network/index.js';
-import { BlockRenderer, EffectsManager, RoomRenderer, SceneManager } from './scene/index.js';
+import { type MatchRecording, parseMatchRecording, ReplayPlayer } from './replay/index.js';
+import {
+  BlockRenderer,
+  EffectsManager,
+  FreeFlyCamera,
+  RoomRenderer,
+  SceneManager,
+} from './scene/index.js';
 import type {
   Block,
   ConnectionState,
@@ -18,7 +29,7 @@ import type {
   RoomBounds,
   TrackedHand,
 } from './types.js';
-import { StatusDisplay } from './ui/index.js';
+import { ReplayControls, StatusDisplay } from './ui/index.js';
 
 /**
  * Main game application.
@@ -35,6 +46,8 @@ class Game {
   private readonly gameClient: GameClient;
   private readonly interactionManager: InteractionManager;
   private readonly statusDisplay: StatusDisplay;
+  private readonly freeFlyCamera: FreeFlyCamera;
+  private readonly replayControls: ReplayControls;
 
   // Game state
   private playerId: string | null = null;
@@ -45,10 +58,18 @@ class Game {
   private lastFrameTime = 0;
   private gamePhase: GamePhase = 'waiting';
   private playerReadySent = false;
+  private isPaused = false;
+  private resumeReadySent = false;
 
   // Current tracked hands for interaction processing (supports multiple hands)
   private currentHands: MultiHandResult = [];
 
+  // Replay viewer state (player is null during live games)
+  private replayPlayer: ReplayPlayer | null = null;
+  /** True while the replay jumps to a new time; one-off effects are skipped */
+  private replaySeeking = false;
+  private replayCameraPlaced = false;
+
   private constructor(sessionConfig: SessionConfig | null) {
     // Get container element
     const container = document.getElementById('container');
@@ -77,6 +98,8 @@ class Game {
       onWelcome: this.handleWelcome.bind(this),
       onOpponentJoined: this.handleOpponentJoined.bind(this),
       onOpponentLeft: this.handleOpponentLeft.bind(this),
+      onOpponentDisconnected: this.handleOpponentDisconnected.bind(this),
+      onOpponentReconnected: this.handleOpponentReconnected.bind(this),
       onBlockGrabbed: this.handleBlockGrabbed.bind(this),
       onBlockMoved: this.handleBlockMoved.bind(this),
       onBlockReleased: this.handleBlockReleased.bind(this),
@@ -85,18 +108,37 @@ class Game {
       onProjectileDestroyed: this.handleProjectileDestroyed.bind(this),
       onBlockDestroyed: this.handleBlockDestroyed.bind(this),
       onWallHit: this.handleWallHit.bind(this),
+      onCountdown: this.handleCountdown.bind(this),
+      onCountdownCancelled: this.handleCountdownCancelled.bind(this),
       onGameStarted: this.handleGameStarted.bind(this),
+      onGamePaused: this.handleGamePaused.bind(this),
+      onGameResumed: this.handleGameResumed.bind(this),
       onGameOver: this.handleGameOver.bind(this),
       onPlayAgainStatus: this.handlePlayAgainStatus.bind(this),
       onGameReset: this.handleGameReset.bind(this),
+      onClockSync: this.handleClockSync.bind(this),
       onError: this.handleError.bind(this),
     });
 
     // Initialize interaction manager
     this.interactionManager = new InteractionManager(this.blockRenderer, this.gameClient);
 
+    // Initialize replay viewer
+    this.freeFlyCamera = new FreeFlyCamera(
+      this.sceneManager.camera,
+      this.sceneManager.renderer.domElement
+    );
+    this.replayControls = new ReplayControls({
+      onTogglePlay: () => this.replayPlayer?.togglePlay(),
+      onSeek: (time) => this.replayPlayer?.seek(time),
+      onSpeedChange: (speed) => this.replayPlayer?.setSpeed(speed),
+      onExit: () => this.stopReplay(),
+    });
+
     // Setup UI handlers
     this.statusDisplay.setupConnectButton((url) => this.connect(url));
+    this.statusDisplay.setupReplayFileInput((file) => this.loadReplay(file));
+    this.statusDisplay.setupSaveMatchButton(() => this.saveMatch());
 
     // Auto-connect if we have session config
     if (sessionConfig) {
@@ -135,11 +177,29 @@ class Game {
 
     if (state === 'disconnected') {
       this.cleanup();
+      this.statusDisplay.updateNetworkStats(null);
       this.statusDisplay.showServerConfig();
     }
   }
 
+  private handleClockSync(stats: ClockSyncStats): void {
+    this.statusDisplay.updateNetworkStats(stats);
+  }
+
   private handleWelcome(data: GameInitData): void {
+    if (data.resumed) {
+      this.handleResume(data);
+      return;
+    }
+
+    // A resume attempt that arrived after the grace period joins as a new player
+    const rejoined = this.playerId !== null;
+    if (rejoined) {
+      this.blockRenderer.clear();
+      this.interactionManager.clear();
+      this.playerReadySent = false;
+    }
+
     this.playerId = data.playerId;
     this.playerNumber = data.playerNumber;
     this.room = data.room;
@@ -153,9 +213,12 @@ class Game {
     this.effectsManager.setRoom(data.room);
     this.effectsManager.setWallGridConfig(data.wallGrid, data.projectileSize);
 
-    // Setup room and camera
+    // Setup room and camera (a replay keeps the free-fly camera where the viewer left it)
     this.roomRenderer.createRoomWireframe(data.room);
-    this.sceneManager.setupCameraForPlayer(data.playerNumber, data.room, data.cameraDistance);
+    if (!this.replayPlayer || !this.replayCameraPlaced) {
+      this.sceneManager.setupCameraForPlayer(data.playerNumber, data.room, data.cameraDistance);
+      this.replayCameraPlaced = this.replayPlayer !== null;
+    }
 
     // Create initial blocks
     for (const blockData of data.blocks) {
@@ -170,22 +233,95 @@ class Game {
     // Update UI
     this.statusDisplay.hideServerConfig();
     this.statusDisplay.updatePlayerInfo(data.playerId, data.playerNumber);
+    if (this.replayPlayer) return;
+
+    // Start hand tracking (already running if we rejoined)
+    if (!rejoined) {
+      this.initHandTracking();
+    } else if (this.gamePhase === 'waiting') {
+      this.statusDisplay.showHandRaiseOverlay();
+    }
+  }
+
+  /**
+   * Restore the match after a connection loss.
+   * Scene, camera and hand tracking are still set up; only entities are resynced.
+   */
+  private handleResume(data: GameInitData): void {
+    console.log('Match resumed after connection loss', { gamePhase: data.gamePhase });
+    this.gamePhase = data.gamePhase;
+
+    // Replace local entities with the server's snapshot
+    this.blockRenderer.clear();
+    this.interactionManager.clear();
+    this.blockRenderer.setPlayer(data.playerId, data.playerNumber);
+    this.blockRenderer.setRoom(data.room);
+
+    for (const blockData of data.blocks) {
+      this.blockRenderer.createBlock(blockData);
+    }
+    for (const projData of data.projectiles) {
+      this.blockRenderer.createProjectile(projData, this.projectileSize);
+    }
+
+    this.statusDisplay.updateConnectionStatus('connected', 'Match resumed');
+
+    if (data.paused && !this.isPaused) {
+      this.handleGamePaused(null);
+    }
+  }
 
-    // Start hand tracking
-    this.initHandTracking();
+  private handleCountdown(secondsRemaining: number): void {
+    this.statusDisplay.showCountdown(secondsRemaining);
+    this.statusDisplay.updateStatus(`Game starts in ${secondsRemaining}...`);
+  }
+
+  private handleCountdownCancelled(): void {
+    this.statusDisplay.hideCountdown();
+    this.statusDisplay.updateStatus('Countdown cancelled - waiting for players...');
   }
 
   private handleGameStarted(): void {
     this.gamePhase = 'playing';
+    this.statusDisplay.hideCountdown();
     console.log('Game started!');
     this.statusDisplay.updateStatus('Game started - pinch to grab your blocks');
   }
 
+  private handleGamePaused(pausedBy: string | null): void {
+    console.log('Game paused', { pausedBy, myPlayerId: this.playerId });
+    this.isPaused = true;
+    this.resumeReadySent = false;
+
+    // Drop any grabs; the arena is frozen until both players are back
+    this.interactionManager.clear();
+
+    if (this.replayPlayer) {
+      this.statusDisplay.updateStatus('Game paused');
+      return;
+    }
+    this.statusDisplay.showPauseOverlay(pausedBy === null ? undefined : pausedBy === this.playerId);
+    this.statusDisplay.updateStatus('Game paused');
+  }
+
+  private handleGameResumed(): void {
+    console.log('Game resumed');
+    this.isPaused = false;
+    this.statusDisplay.hidePauseOverlay();
+    this.statusDisplay.updateStatus('Game resumed - pinch to grab your blocks');
+  }
+
   private handleGameOver(winnerId: string, winnerNumber: 1 | 2, _reason: string): void {
     this.gamePhase = 'finished';
+    this.clearPauseState();
     const isWinner = winnerId === this.playerId;
     console.log('Game over!', { winnerId, winnerNumber, isWinner, myPlayerId: this.playerId });
 
+    if (this.replayPlayer) {
+      this.statusDisplay.updateStatus(`Game over - player ${winnerNumber} wins`);
+      return;
+    }
+
     this.statusDisplay.showGameOverOverlay(isWinner, () => {
       console.log('Sending play again vote to server');
       this.gameClient.sendPlayAgainVote();
@@ -225,6 +361,7 @@ class Game {
     // Reset game phase to waiting
     this.gamePhase = 'waiting';
     this.playerReadySent = false;
+    if (this.replayPlayer) return;
 
     // Show hand raise overlay again
     this.statusDisplay.showHandRaiseOverlay();
@@ -268,12 +405,30 @@ class Game {
     }
   }
 
+  private handleOpponentDisconnected(gracePeriodMs: number): void {
+    const seconds = Math.round(gracePeriodMs / 1000);
+    this.statusDisplay.updateConnectionStatus(
+      'connected',
+      `Opponent connection lost - waiting up to ${seconds}s for them to return`
+    );
+  }
+
+  private handleOpponentReconnected(): void {
+    this.statusDisplay.updateConnectionStatus('connected', 'Opponent reconnected');
+  }
+
   private handleBlockGrabbed(_playerId: string, blockId: string): void {
     this.blockRenderer.setBlockGrabbed(blockId, true);
   }
 
-  private handleBlockMoved(_playerId: string, blockId: string, position: Position): void {
-    this.blockRenderer.updateBlockPosition(blockId, position);
+  private handleBlockMoved(playerId: string, blockId: string, position: Position): void {
+    // Replays apply recorded positions directly; interpolation would lag at higher speeds
+    if (playerId === this.playerId || this.replayPlayer) {
+      // Echo of our own move: the local hand is already there
+      this.blockRenderer.updateBlockPosition(blockId, position);
+    } else {
+      this.blockRenderer.pushBlockPosition(blockId, position);
+    }
   }
 
   private handleBlockReleased(_playerId: string, blockId: string): void {
@@ -301,8 +456,10 @@ class Game {
   ): void {
     for (const projData of projectiles) {
       const existing = this.blockRenderer.projectiles.get(projData.id);
-      if (existing) {
+      if (existing && this.replayPlayer) {
         this.blockRenderer.updateProjectilePosition(projData.id, projData.position);
+      } else if (existing) {
+        this.blockRenderer.pushProjectileState(projData);
       } else {
         this.blockRenderer.createProjectile(projData, this.projectileSize);
       }
@@ -315,10 +472,12 @@ class Game {
 
   private handleBlockDestroyed(blockId: string, position: Position, color: number): void {
     // Create explosion effect
-    this.effectsManager.createExplosion(
-      new THREE.Vector3(position.x, position.y, position.z),
-      color
-    );
+    if (!this.replaySeeking) {
+      this.effectsManager.createExplosion(
+        new THREE.Vector3(position.x, position.y, position.z),
+        color
+      );
+    }
     // Remove block
     this.blockRenderer.removeBlock(blockId);
 
@@ -329,6 +488,7 @@ class Game {
   }
 
   private handleWallHit(position: Position, wallSide: 'minZ' | 'maxZ'): void {
+    if (this.replaySeeking) return;
     this.effectsManager.createWallHitHighlight(position, wallSide);
   }
 
@@ -337,6 +497,81 @@ class Game {
     this.statusDisplay.updateStatus(`Error: ${message}`);
   }
 
+  // ============ Replay Viewer ============
+
+  /**
+   * Load a saved match file and play it back without a server.
+   */
+  private async loadReplay(file: File): Promise<void> {
+    let recording: MatchRecording;
+    try {
+      recording = parseMatchRecording(await file.text());
+    } catch (err) {
+      console.error('Failed to load match file:', err);
+      this.statusDisplay.updateStatus(
+        `Cannot load match: ${err instanceof Error ? err.message : String(err)}`
+      );
+      return;
+    }
+
+    this.stopReplay();
+    this.replayPlayer = new ReplayPlayer(recording, {
+      dispatch: (message, seeking) => {
+        this.replaySeeking = seeking;
+        this.gameClient.replay(message);
+        this.replaySeeking = false;
+      },
+      reset: () => this.resetReplayScene(),
+    });
+
+    this.statusDisplay.hideServerConfig();
+    this.statusDisplay.updateConnectionStatus('disconnected', `Replaying ${file.name}`);
+    this.replayControls.show(this.replayPlayer.duration);
+    this.freeFlyCamera.enable();
+    this.replayPlayer.seek(0);
+    this.replayPlayer.play();
+  }
+
+  /**
+   * Leave the replay viewer and return to the connection dialog.
+   */
+  private stopReplay(): void {
+    if (!this.replayPlayer) return;
+
+    this.replayPlayer = null;
+    this.replayCameraPlaced = false;
+    this.freeFlyCamera.disable();
+    this.replayControls.hide();
+    this.resetReplayScene();
+    this.statusDisplay.updateConnectionStatus('disconnected');
+    this.statusDisplay.updateStatus('');
+    this.statusDisplay.showServerConfig();
+  }
+
+  /**
+   * Drop all replayed entities (before replaying from the start).
+   */
+  private resetReplayScene(): void {
+    this.cleanup();
+    this.gameClient.resetReplication();
+  }
+
+  /**
+   * Download the messages of the current match as a match file.
+   */
+  private saveMatch(): void {
+    const recording = this.gameClient.getMatchRecording();
+    if (!recording) return;
+
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `blocks-cannons-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   // ============ Hand Tracking ============
 
   private async initHandTracking(): Promise<void> {
@@ -370,9 +605,19 @@ class Game {
   private processHandUpdate(hands: MultiHandResult): void {
     if (hands.length === 0) {
       this.handVisualizer.hide();
+      this.gameClient.reportHandPresence(false);
       return;
     }
 
+    this.gameClient.reportHandPresence(true);
+
+    // Raising a hand while paused signals we are ready to continue
+    if (this.isPaused && !this.resumeReadySent) {
+      this.resumeReadySent = true;
+      this.gameClient.sendPlayerReady();
+      this.statusDisplay.updatePauseStatus('Waiting for opponent...');
+    }
+
     // Send player_ready on first hand detection
     if (!this.playerReadySent) {
       this.playerReadySent = true;
@@ -403,8 +648,19 @@ class Game {
     const deltaTime = elapsed - this.lastFrameTime;
     this.lastFrameTime = elapsed;
 
+    // Advance the replay (messages update the scene through the regular handlers)
+    if (this.replayPlayer) {
+      this.replayPlayer.update(deltaTime * 1000);
+      this.replayControls.update(
+        this.replayPlayer.currentTime,
+        this.replayPlayer.duration,
+        this.replayPlayer.isPlaying
+      );
+      this.freeFlyCamera.update(deltaTime);
+    }
+
     // Process interaction only when game is playing
-    if (this.playerId && this.gamePhase === 'playing') {
+    if (this.playerId && this.gamePhase === 'playing' && !this.isPaused && !this.replayPlayer) {
       // Track which hands we've seen this frame
       const seenHands = new Set<'Left' | 'Right'>();
       const statuses: string[] = [];
@@ -449,6 +705,14 @@ class Game {
 
   // ============ Cleanup ============
 
+  private clearPauseState(): void {
+    if (this.isPaused) {
+      this.statusDisplay.hidePauseOverlay();
+    }
+    this.isPaused = false;
+    this.resumeReadySent = false;
+  }
+
   private cleanup(): void {
     this.playerId = null;
     this.playerNumber = null;
@@ -457,6 +721,8 @@ class Game {
     this.currentHands = [];
     this.gamePhase = 'waiting';
     this.playerReadySent = false;
+    this.clearPauseState();
+    this.statusDisplay.hideCountdown();
 
     this.blockRenderer.clear();
     this.interactionManager.clear();
@@ -2,7 +2,25 @@
  * @fileoverview WebSocket client for game server communication.
  */
 
-import type { Block, ServerMessage } from '../../src/shared/index.js';
+import { ClockSync, type ClockSyncStats, HandLossMonitor } from '@gesture-app/framework-client';
+import {
+  applyStateDelta,
+  getCodecForFrame,
+  JSON_CODEC,
+  type MessageCodec,
+  type ReplicatedState,
+  type WireData,
+  withCodec,
+  withResumeToken,
+} from '@gesture-app/framework-protocol';
+import { type Block, projectilesFromState, type ServerMessage } from '../../src/shared/index.js';
+import {
+  CLOCK_SYNC_INTERVAL_MS,
+  MAX_RECONNECT_ATTEMPTS,
+  RECONNECT_DELAY_MS,
+  WIRE_CODEC,
+} from '../constants.js';
+import { MatchRecorder, type MatchRecording } from '../replay/index.js';
 import type { ConnectionState, GameInitData, Position } from '../types.js';
 
 /**
@@ -17,6 +35,10 @@ export interface GameClientEvents {
   onOpponentJoined?: (blocks: Block[]) => void;
   /** Called when opponent leaves */
   onOpponentLeft?: () => void;
+  /** Called when opponent lost its connection but may still resume */
+  onOpponentDisconnected?: (gracePeriodMs: number) => void;
+  /** Called when a disconnected opponent resumed the match */
+  onOpponentReconnected?: () => void;
   /** Called when opponent grabs a block */
   onBlockGrabbed?: (playerId: string, blockId: string) => void;
   /** Called when a block is moved */
@@ -31,7 +53,7 @@ export interface GameClientEvents {
     ownerId: string;
     color: number;
   }) => void;
-  /** Called when projectile positions are updated */
+  /** Called when projectile positions are updated (reconstructed from state deltas) */
   onProjectilesUpdate?: (
     projectiles: Array<{
       id: string;
@@ -47,14 +69,24 @@ export interface GameClientEvents {
   onBlockDestroyed?: (blockId: string, position: Position, color: number) => void;
   /** Called when a projectile hits a wall */
   onWallHit?: (position: Position, wallSide: 'minZ' | 'maxZ') => void;
+  /** Called for each countdown tick before the game starts */
+  onCountdown?: (secondsRemaining: number) => void;
+  /** Called when the countdown was aborted (e.g., opponent left) */
+  onCountdownCancelled?: () => void;
   /** Called when game starts (all humans ready) */
   onGameStarted?: () => void;
+  /** Called when a player paused the game */
+  onGamePaused?: (pausedBy: string) => void;
+  /** Called when the paused game resumes (all humans ready again) */
+  onGameResumed?: () => void;
   /** Called when game is over */
   onGameOver?: (winnerId: string, winnerNumber: 1 | 2, reason: string) => void;
   /** Called when play again voting status updates */
   onPlayAgainStatus?: (votedPlayerIds: string[], totalPlayers: number) => void;
   /** Called when game is reset for a new round */
   onGameReset?: (blocks: Block[]) => void;
+  /** Called after each clock sync round trip */
+  onClockSync?: (stats: ClockSyncStats) => void;
   /** Called on server error */
   onError?: (message: string) => void;
 }
@@ -66,6 +98,23 @@ export class GameClient {
   private ws: WebSocket | null = null;
   private connectionState: ConnectionState = 'disconnected';
   private readonly events: GameClientEvents;
+  private lastUrl: string | null = null;
+  private resumeToken: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  /** Codec the server answers in; outgoing messages follow it */
+  private wireCodec: MessageCodec = JSON_CODEC;
+  /** Replicated projectile state, rebuilt from keyframes and deltas */
+  private replicatedState: ReplicatedState | null = null;
+  private replicationSeq: number | null = null;
+  private readonly clock = new ClockSync();
+  private clockSyncInterval: ReturnType<typeof setInterval> | null = null;
+  /** Server messages of the current match, for saving a match file */
+  private readonly matchRecorder = new MatchRecorder();
+  /** Requests a pause when no hand is tracked for a while during play */
+  private readonly handLoss = new HandLossMonitor(() => this.sendPauseRequest());
+  /** Whether the match is running (not waiting, paused or over) */
+  private isPlaying = false;
 
   constructor(events: GameClientEvents = {}) {
     this.events = events;
@@ -76,17 +125,31 @@ export class GameClient {
    * @param url - WebSocket URL (e.g., ws://localhost:3001)
    */
   connect(url: string): void {
+    this.lastUrl = url;
     this.setConnectionState('connecting');
 
-    this.ws = new WebSocket(url);
+    const codecUrl = withCodec(url, WIRE_CODEC);
+    this.wireCodec = JSON_CODEC;
+    this.replicatedState = null;
+    this.replicationSeq = null;
+    this.ws = new WebSocket(
+      this.resumeToken ? withResumeToken(codecUrl, this.resumeToken) : codecUrl
+    );
+    this.ws.binaryType = 'arraybuffer';
 
     this.ws.onopen = () => {
+      this.reconnectAttempts = 0;
       this.setConnectionState('connected');
+      this.startClockSync();
     };
 
     this.ws.onmessage = (event) => {
       try {
-        const message = JSON.parse(event.data as string) as ServerMessage;
+        const data: WireData =
+          typeof event.data === 'string' ? event.data : new Uint8Array(event.data as ArrayBuffer);
+        this.wireCodec = getCodecForFrame(data);
+        const message = this.wireCodec.decode(data) as ServerMessage;
+        this.recordMessage(message);
         this.handleMessage(message);
       } catch {
         console.error('Failed to parse server message');
@@ -94,7 +157,11 @@ export class GameClient {
     };
 
     this.ws.onclose = () => {
-      this.setConnectionState('disconnected');
+      this.stopClockSync();
+      this.setPlaying(false);
+      if (!this.maybeReconnect()) {
+        this.setConnectionState('disconnected');
+      }
     };
 
     this.ws.onerror = () => {
@@ -106,6 +173,11 @@ export class GameClient {
    * Disconnect from the server.
    */
   disconnect(): void {
+    // Forget the token first so the close handler does not try to resume
+    this.resumeToken = null;
+    this.cancelReconnect();
+    this.stopClockSync();
+    this.clock.reset();
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -127,6 +199,45 @@ export class GameClient {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
 
+  /**
+   * Estimate the current server time (epoch milliseconds).
+   */
+  getServerTime(): number {
+    return this.clock.getServerTime();
+  }
+
+  /**
+   * Get RTT, jitter and clock offset statistics (null before the first pong).
+   */
+  getClockStats(): ClockSyncStats | null {
+    return this.clock.getStats();
+  }
+
+  /**
+   * Get the server messages captured since joining (null before the first welcome).
+   */
+  getMatchRecording(): MatchRecording | null {
+    return this.matchRecorder.getRecording();
+  }
+
+  // ============ Replay ============
+
+  /**
+   * Feed a recorded server message through the regular event handlers.
+   * Used by the replay viewer instead of a live connection.
+   */
+  replay(message: ServerMessage): void {
+    this.handleMessage(message);
+  }
+
+  /**
+   * Forget the replicated projectile state (e.g., before replaying from the start).
+   */
+  resetReplication(): void {
+    this.replicatedState = null;
+    this.replicationSeq = null;
+  }
+
   // ============ Outgoing Messages ============
 
   /**
@@ -164,6 +275,25 @@ export class GameClient {
     this.send({ type: 'participant_ready' });
   }
 
+  /**
+   * Send pause request message (e.g., hand lost for too long).
+   */
+  sendPauseRequest(): void {
+    this.send({ type: 'pause_request' });
+  }
+
+  /**
+   * Report whether a hand is currently tracked.
+   * Losing it for a while during play sends a pause request.
+   */
+  reportHandPresence(present: boolean): void {
+    if (!this.isPlaying) {
+      this.handLoss.cancel();
+      return;
+    }
+    this.handLoss.report(present);
+  }
+
   /**
    * Send play again vote message.
    */
@@ -174,14 +304,68 @@ export class GameClient {
 
   // ============ Private Methods ============
 
+  private setPlaying(playing: boolean): void {
+    this.isPlaying = playing;
+    if (!playing) this.handLoss.cancel();
+  }
+
   private setConnectionState(state: ConnectionState): void {
     this.connectionState = state;
     this.events.onConnectionStateChange?.(state);
   }
 
+  /**
+   * Try to resume the match after an unexpected close.
+   * Only possible once the server has issued a resume token.
+   * @returns true if a reconnect attempt was scheduled
+   */
+  private maybeReconnect(): boolean {
+    if (!this.resumeToken || !this.lastUrl) return false;
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn('GameClient: Giving up on resuming the match');
+      this.resumeToken = null;
+      return false;
+    }
+
+    this.reconnectAttempts++;
+    this.setConnectionState('reconnecting');
+
+    const url = this.lastUrl;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect(url);
+    }, RECONNECT_DELAY_MS);
+    return true;
+  }
+
+  private startClockSync(): void {
+    this.stopClockSync();
+    this.sendClockPing();
+    this.clockSyncInterval = setInterval(() => this.sendClockPing(), CLOCK_SYNC_INTERVAL_MS);
+  }
+
+  private stopClockSync(): void {
+    if (this.clockSyncInterval) {
+      clearInterval(this.clockSyncInterval);
+      this.clockSyncInterval = null;
+    }
+  }
+
+  private sendClockPing(): void {
+    this.send({ type: 'clock_ping', clientTime: this.clock.now() });
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+  }
+
   private send(message: Record<string, unknown>): void {
     if (this.isConnected && this.ws) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(this.wireCodec.encode(message));
     } else {
       console.warn('GameClient: Cannot send message - not connected', {
         messageType: message.type,
@@ -192,10 +376,22 @@ export class GameClient {
     }
   }
 
+  private recordMessage(message: ServerMessage): void {
+    // Clock pongs only matter to the live connection
+    if (message.type === 'clock_pong') return;
+    // A fresh join starts a new match file; a resume continues the current one
+    if (message.type === 'welcome' && !message.resumed) {
+      this.matchRecorder.start();
+    }
+    this.matchRecorder.record(message);
+  }
+
   private handleMessage(message: ServerMessage): void {
     switch (message.type) {
       // Framework messages (from SessionRuntime)
       case 'welcome':
+        this.resumeToken = message.resumeToken ?? null;
+        this.setPlaying(message.sessionPhase === 'playing');
         this.events.onWelcome?.({
           // Framework uses participantId/participantNumber, we expose as playerId/playerNumber
           playerId: message.participantId,
@@ -208,6 +404,8 @@ export class GameClient {
           wallGrid: message.appData?.wallGrid,
           projectileSize: message.appData?.projectileSize,
           gamePhase: message.appData?.gamePhase ?? 'waiting',
+          resumed: message.resumed ?? false,
+          paused: message.sessionPhase === 'paused',
         });
         break;
 
@@ -219,11 +417,39 @@ export class GameClient {
         this.events.onOpponentLeft?.();
         break;
 
+      case 'opponent_disconnected':
+        this.events.onOpponentDisconnected?.(message.gracePeriodMs);
+        break;
+
+      case 'opponent_reconnected':
+        this.events.onOpponentReconnected?.();
+        break;
+
+      case 'countdown':
+        this.events.onCountdown?.(message.secondsRemaining);
+        break;
+
+      case 'countdown_cancelled':
+        this.events.onCountdownCancelled?.();
+        break;
+
       case 'session_started':
+        this.setPlaying(true);
         this.events.onGameStarted?.();
         break;
 
+      case 'session_paused':
+        this.setPlaying(false);
+        this.events.onGamePaused?.(message.pausedBy);
+        break;
+
+      case 'session_resumed':
+        this.setPlaying(true);
+        this.events.onGameResumed?.();
+        break;
+
       case 'session_ended':
+        this.setPlaying(false);
         console.log('GameClient received session_ended:', message);
         this.events.onGameOver?.(
           message.winnerId ?? '',
@@ -241,10 +467,17 @@ export class GameClient {
         break;
 
       case 'session_reset':
+        this.setPlaying(false);
         console.log('GameClient received session_reset:', message);
         this.events.onGameReset?.(message.appData?.blocks ?? []);
         break;
 
+      case 'clock_pong': {
+        const stats = this.clock.addSample(message.clientTime, message.serverTime);
+        if (stats) this.events.onClockSync?.(stats);
+        break;
+      }
+
       case 'error':
         this.events.onError?.(message.message);
         break;
@@ -266,8 +499,19 @@ export class GameClient {
         this.events.onProjectileSpawned?.(message.projectile);
         break;
 
-      case 'projectiles_update':
-        this.events.onProjectilesUpdate?.(message.projectiles);
+      case 'state_keyframe':
+        this.replicatedState = message.state;
+        this.replicationSeq = message.seq;
+        this.events.onProjectilesUpdate?.(projectilesFromState(this.replicatedState));
+        break;
+
+      case 'state_delta':
+        // A delta only applies to the state it was computed against;
+        // after a gap we wait for the next keyframe
+        if (!this.replicatedState || message.baseSeq !== this.replicationSeq) break;
+        this.replicatedState = applyStateDelta(this.replicatedState, message.changes);
+        this.replicationSeq = message.seq;
+        this.events.onProjectilesUpdate?.(projectilesFromState(this.replicatedState));
         break;
 
       case 'projectile_destroyed':
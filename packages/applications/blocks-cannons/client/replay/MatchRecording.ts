@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Match files: server messages captured during a live game.
+ *
+ * Handles:
+ * - Capturing decoded server messages with their arrival time
+ * - Serializing a match to JSON for download
+ * - Parsing and validating a loaded match file
+ */
+
+import type { ServerMessage } from '../../src/shared/index.js';
+
+/**
+ * Version of the match file format.
+ */
+export const MATCH_FILE_VERSION = 1;
+
+/**
+ * A server message and when it arrived.
+ */
+export interface MatchEntry {
+  /** Milliseconds since the first message of the match */
+  readonly t: number;
+  readonly message: ServerMessage;
+}
+
+/**
+ * A captured match.
+ */
+export interface MatchRecording {
+  readonly version: number;
+  /** ISO timestamp of the first message */
+  readonly recordedAt: string;
+  readonly entries: readonly MatchEntry[];
+}
+
+/**
+ * Error thrown when a match file cannot be loaded.
+ */
+export class InvalidMatchFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMatchFileError';
+  }
+}
+
+/**
+ * Collects server messages while a match is played.
+ */
+export class MatchRecorder {
+  private entries: MatchEntry[] = [];
+  private startedAt: number | null = null;
+
+  /**
+   * Drop everything captured so far and start a new match.
+   */
+  start(now = Date.now()): void {
+    this.entries = [];
+    this.startedAt = now;
+  }
+
+  /**
+   * Capture a message. Ignored until start() was called.
+   */
+  record(message: ServerMessage, now = Date.now()): void {
+    if (this.startedAt === null) return;
+    this.entries.push({ t: Math.max(0, now - this.startedAt), message });
+  }
+
+  /**
+   * Whether anything has been captured.
+   */
+  get hasEntries(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Get the captured match, or null before start().
+   */
+  getRecording(): MatchRecording | null {
+    if (this.startedAt === null) return null;
+    return {
+      version: MATCH_FILE_VERSION,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      entries: [...this.entries],
+    };
+  }
+}
+
+/**
+ * Parse a match file.
+ * @throws InvalidMatchFileError if the file is not a supported match file
+ */
+export function parseMatchRecording(text: string): MatchRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InvalidMatchFileError('Match file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new InvalidMatchFileError('Match file is not an object');
+  }
+  const { version, recordedAt, entries } = data as Record<string, unknown>;
+  if (version !== MATCH_FILE_VERSION) {
+    throw new InvalidMatchFileError(`Unsupported match file version ${String(version)}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new InvalidMatchFileError('Match file has no entries');
+  }
+
+  let previousTime = 0;
+  for (const [index, entry] of entries.entries()) {
+    const { t, message } = (entry ?? {}) as { t?: unknown; message?: unknown };
+    if (typeof t !== 'number' || !Number.isFinite(t) || t < previousTime) {
+      throw new InvalidMatchFileError(`Entry ${index} has an invalid time`);
+    }
+    if (
+      !message ||
+      typeof message !== 'object' ||
+      typeof (message as { type?: unknown }).type !== 'string'
+    ) {
+      throw new InvalidMatchFileError(`Entry ${index} has no message`);
+    }
+    previousTime = t;
+  }
+
+  return {
+    version,
+    recordedAt: typeof recordedAt === 'string' ? recordedAt : '',
+    entries: entries as MatchEntry[],
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Playback timeline for a captured match.
+ *
+ * Handles:
+ * - Play/pause and speed control
+ * - Dispatching recorded messages as playback time passes
+ * - Seeking (backwards seeks rebuild the scene from the start)
+ */
+
+import type { ServerMessage } from '../../src/shared/index.js';
+import type { MatchEntry, MatchRecording } from './MatchRecording.js';
+
+/**
+ * Where replayed messages go.
+ */
+export interface ReplayTarget {
+  /**
+   * Handle a recorded message.
+   * @param seeking - True while jumping to a new time (skip one-off effects)
+   */
+  dispatch(message: ServerMessage, seeking: boolean): void;
+  /** Drop everything dispatched so far (before replaying from the start) */
+  reset(): void;
+}
+
+/**
+ * Replays a match recording against a target.
+ */
+export class ReplayPlayer {
+  private readonly entries: readonly MatchEntry[];
+  private readonly target: ReplayTarget;
+  /** Index of the next entry to dispatch */
+  private cursor = 0;
+  private time = 0;
+  private playing = false;
+  private playbackSpeed = 1;
+
+  constructor(recording: MatchRecording, target: ReplayTarget) {
+    this.entries = recording.entries;
+    this.target = target;
+  }
+
+  /**
+   * Length of the match in milliseconds.
+   */
+  get duration(): number {
+    return this.entries[this.entries.length - 1]?.t ?? 0;
+  }
+
+  /**
+   * Current playback position in milliseconds.
+   */
+  get currentTime(): number {
+    return this.time;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get speed(): number {
+    return this.playbackSpeed;
+  }
+
+  /**
+   * Start playback. Restarts from the beginning once the end was reached.
+   */
+  play(): void {
+    if (this.time >= this.duration) {
+      this.seek(0);
+    }
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  togglePlay(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Set the playback speed multiplier.
+   */
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new RangeError(`Playback speed must be positive, got ${speed}`);
+    }
+    this.playbackSpeed = speed;
+  }
+
+  /**
+   * Jump to a position (clamped to the match).
+   * Messages up to that time are dispatched with seeking=true.
+   */
+  seek(time: number): void {
+    const target = Math.min(Math.max(time, 0), this.duration);
+    if (target < this.time || this.cursor === 0) {
+      this.target.reset();
+      this.cursor = 0;
+    }
+    this.advanceTo(target, true);
+  }
+
+  /**
+   * Advance playback (call each frame).
+   * @param deltaMs - Real time since the last frame
+   */
+  update(deltaMs: number): void {
+    if (!this.playing) return;
+
+    this.advanceTo(Math.min(this.time + deltaMs * this.playbackSpeed, this.duration), false);
+    if (this.time >= this.duration) {
+      this.playing = false;
+    }
+  }
+
+  private advanceTo(time: number, seeking: boolean): void {
+    let entry = this.entries[this.cursor];
+    while (entry && entry.t <= time) {
+      this.cursor++;
+      this.target.dispatch(entry.message, seeking);
+      entry = this.entries[this.cursor];
+    }
+    this.time = time;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Replay module exports.
+ */
+
+export {
+  InvalidMatchFileError,
+  MATCH_FILE_VERSION,
+  type MatchEntry,
+  MatchRecorder,
+  type MatchRecording,
+  parseMatchRecording,
+} from './MatchRecording.js';
+export { ReplayPlayer, type ReplayTarget } from './ReplayPlayer.js';
@@ -1,13 +1,16 @@
 /**
  * @fileoverview Block and projectile mesh management.
  * Handles creation, updates, and removal of game entities.
+ * Server-driven motion is smoothed through interpolation buffers.
  */
 
+import { InterpolationBuffer } from '@gesture-app/framework-client';
 import * as THREE from 'three';
 import {
   BLOCK_FLOAT_AMPLITUDE,
   CANNON_VISUAL,
   HIGHLIGHT_COLORS,
+  INTERPOLATION,
   LASER_BEAM,
   PROJECTILE_COLORS,
 } from '../constants.js';
@@ -243,6 +246,15 @@ export class BlockRenderer {
   private readonly _projectiles: Map<string, ProjectileEntity> = new Map();
   private readonly myBlockIds: Set<string> = new Set();
 
+  // Buffered server positions, applied once per frame
+  private readonly blockMotion = new InterpolationBuffer({
+    renderDelayMs: INTERPOLATION.RENDER_DELAY_MS,
+  });
+  private readonly projectileMotion = new InterpolationBuffer({
+    renderDelayMs: INTERPOLATION.RENDER_DELAY_MS,
+    maxExtrapolationMs: INTERPOLATION.MAX_EXTRAPOLATION_MS,
+  });
+
   /** Read-only access to blocks collection */
   get blocks(): ReadonlyMap<string, BlockEntity> {
     return this._blocks;
@@ -607,9 +619,33 @@ export class BlockRenderer {
   }
 
   /**
-   * Update a block's position.
+   * Update a block's position immediately.
+   * Discards buffered motion for the block, so direct updates always win.
    */
   updateBlockPosition(blockId: string, position: { x: number; y: number; z: number }): void {
+    this.blockMotion.remove(blockId);
+    this.setBlockPosition(blockId, position);
+  }
+
+  /**
+   * Queue a server position for a block moved by the opponent.
+   * The block glides there in updateAnimations instead of jumping.
+   */
+  pushBlockPosition(blockId: string, position: { x: number; y: number; z: number }): void {
+    if (!this._blocks.has(blockId)) return;
+    this.blockMotion.push(blockId, position);
+  }
+
+  /**
+   * Queue a server position for a projectile. The velocity keeps it moving
+   * if the next update is late.
+   */
+  pushProjectileState(projectileData: Projectile): void {
+    if (!this._projectiles.has(projectileData.id)) return;
+    this.projectileMotion.push(projectileData.id, projectileData.position, projectileData.velocity);
+  }
+
+  private setBlockPosition(blockId: string, position: { x: number; y: number; z: number }): void {
     const entity = this._blocks.get(blockId);
     if (entity) {
       entity.mesh.position.set(position.x, position.y, position.z);
@@ -639,6 +675,7 @@ export class BlockRenderer {
    * Remove a block from the scene.
    */
   removeBlock(blockId: string): void {
+    this.blockMotion.remove(blockId);
     const entity = this._blocks.get(blockId);
     if (entity) {
       this.scene.remove(entity.mesh);
@@ -672,6 +709,7 @@ export class BlockRenderer {
    * Remove a projectile from the scene.
    */
   removeProjectile(projectileId: string): void {
+    this.projectileMotion.remove(projectileId);
     const entity = this._projectiles.get(projectileId);
     if (entity) {
       this.scene.remove(entity.mesh);
@@ -784,6 +822,8 @@ export class BlockRenderer {
     grabbedBlockId: string | null,
     grabbedBlockIds?: string[]
   ): void {
+    this.applyBufferedMotion();
+
     // Build set of all grabbed IDs for efficient lookup
     const grabbedSet = new Set(grabbedBlockIds ?? (grabbedBlockId ? [grabbedBlockId] : []));
 
@@ -942,6 +982,20 @@ export class BlockRenderer {
     this.roomBounds = null;
   }
 
+  /**
+   * Move buffered entities to their interpolated positions for this frame.
+   */
+  private applyBufferedMotion(): void {
+    for (const blockId of this.blockMotion.entityIds()) {
+      const position = this.blockMotion.sample(blockId);
+      if (position) this.setBlockPosition(blockId, position);
+    }
+    for (const projectileId of this.projectileMotion.entityIds()) {
+      const position = this.projectileMotion.sample(projectileId);
+      if (position) this.updateProjectilePosition(projectileId, position);
+    }
+  }
+
   /**
    * Dispose of all resources.
    */
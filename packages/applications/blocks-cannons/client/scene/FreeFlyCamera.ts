@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Free-fly camera for the replay viewer.
+ * Handles keyboard movement (WASD/arrows, Q/E for height) and mouse-drag look.
+ */
+
+import * as THREE from 'three';
+import { REPLAY } from '../constants.js';
+
+/** Keys mapped to a movement direction in camera space */
+const MOVE_KEYS: Readonly<Record<string, readonly [number, number, number]>> = {
+  KeyW: [0, 0, -1],
+  ArrowUp: [0, 0, -1],
+  KeyS: [0, 0, 1],
+  ArrowDown: [0, 0, 1],
+  KeyA: [-1, 0, 0],
+  ArrowLeft: [-1, 0, 0],
+  KeyD: [1, 0, 0],
+  ArrowRight: [1, 0, 0],
+  KeyE: [0, 1, 0],
+  KeyQ: [0, -1, 0],
+};
+
+/**
+ * Moves a camera freely through the scene while enabled.
+ */
+export class FreeFlyCamera {
+  private readonly camera: THREE.Camera;
+  private readonly element: HTMLElement;
+  private readonly pressedKeys = new Set<string>();
+  private readonly euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  private readonly direction = new THREE.Vector3();
+  private dragging = false;
+  private enabled = false;
+
+  /**
+   * @param camera - Camera to move
+   * @param element - Element that receives mouse drags (the renderer canvas)
+   */
+  constructor(camera: THREE.Camera, element: HTMLElement) {
+    this.camera = camera;
+    this.element = element;
+  }
+
+  /**
+   * Start listening to keyboard and mouse input.
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+    this.element.addEventListener('pointerdown', this.handlePointerDown);
+    window.addEventListener('pointerup', this.handlePointerUp);
+    window.addEventListener('pointermove', this.handlePointerMove);
+  }
+
+  /**
+   * Stop listening to input.
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    this.handleBlur();
+  }
+
+  /**
+   * Move the camera for the keys currently held (call each frame).
+   * @param deltaTime - Time since last frame in seconds
+   */
+  update(deltaTime: number): void {
+    if (!this.enabled || this.pressedKeys.size === 0) return;
+
+    this.direction.set(0, 0, 0);
+    for (const code of this.pressedKeys) {
+      const move = MOVE_KEYS[code];
+      if (move) {
+        this.direction.x += move[0];
+        this.direction.y += move[1];
+        this.direction.z += move[2];
+      }
+    }
+    if (this.direction.lengthSq() === 0) return;
+
+    const fast = this.pressedKeys.has('ShiftLeft') || this.pressedKeys.has('ShiftRight');
+    const speed = REPLAY.FLY_SPEED * (fast ? REPLAY.FAST_MULTIPLIER : 1);
+    this.direction.normalize().multiplyScalar(speed * deltaTime);
+    // Horizontal movement follows the view direction; Q/E stay vertical
+    const vertical = this.direction.y;
+    this.direction.y = 0;
+    this.direction.applyQuaternion(this.camera.quaternion);
+    this.direction.y += vertical;
+    this.camera.position.add(this.direction);
+  }
+
+  private readonly handleKeyDown = (event: KeyboardEvent): void => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement) return;
+    this.pressedKeys.add(event.code);
+  };
+
+  private readonly handleKeyUp = (event: KeyboardEvent): void => {
+    this.pressedKeys.delete(event.code);
+  };
+
+  private readonly handleBlur = (): void => {
+    this.pressedKeys.clear();
+    this.dragging = false;
+  };
+
+  private readonly handlePointerDown = (): void => {
+    this.dragging = true;
+  };
+
+  private readonly handlePointerUp = (): void => {
+    this.dragging = false;
+  };
+
+  private readonly handlePointerMove = (event: PointerEvent): void => {
+    if (!this.dragging) return;
+
+    this.euler.setFromQuaternion(this.camera.quaternion);
+    this.euler.y -= event.movementX * REPLAY.LOOK_SENSITIVITY;
+    this.euler.x -= event.movementY * REPLAY.LOOK_SENSITIVITY;
+    // Stop just short of straight up/down to avoid flipping over
+    const limit = Math.PI / 2 - 0.01;
+    this.euler.x = Math.max(-limit, Math.min(limit, this.euler.x));
+    this.camera.quaternion.setFromEuler(this.euler);
+  };
+}
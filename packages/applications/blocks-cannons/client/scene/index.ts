@@ -4,5 +4,6 @@
 
 export { BlockRenderer } from './BlockRenderer.js';
 export { EffectsManager } from './EffectsManager.js';
+export { FreeFlyCamera } from './FreeFlyCamera.js';
 export { RoomRenderer } from './RoomRenderer.js';
 export { SceneManager } from './SceneManager.js';
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { ServerMessage } from '../../src/shared/index.js';
+import {
+  InvalidMatchFileError,
+  MatchRecorder,
+  parseMatchRecording,
+} from '../replay/MatchRecording.js';
+
+const COUNTDOWN: ServerMessage = { type: 'countdown', secondsRemaining: 3 };
+const STARTED: ServerMessage = { type: 'session_started' };
+
+describe('MatchRecorder', () => {
+  it('should ignore messages before start', () => {
+    const recorder = new MatchRecorder();
+
+    recorder.record(COUNTDOWN, 1000);
+
+    expect(recorder.getRecording()).toBeNull();
+  });
+
+  it('should stamp messages relative to the start', () => {
+    const recorder = new MatchRecorder();
+
+    recorder.start(1000);
+    recorder.record(COUNTDOWN, 1000);
+    recorder.record(STARTED, 4250);
+
+    expect(recorder.getRecording()).toEqual({
+      version: 1,
+      recordedAt: new Date(1000).toISOString(),
+      entries: [
+        { t: 0, message: COUNTDOWN },
+        { t: 3250, message: STARTED },
+      ],
+    });
+  });
+
+  it('should drop earlier messages when restarted', () => {
+    const recorder = new MatchRecorder();
+
+    recorder.start(0);
+    recorder.record(COUNTDOWN, 10);
+    recorder.start(100);
+
+    expect(recorder.getRecording()?.entries).toEqual([]);
+  });
+});
+
+describe('parseMatchRecording', () => {
+  it('should round-trip a recording', () => {
+    const recorder = new MatchRecorder();
+    recorder.start(0);
+    recorder.record(COUNTDOWN, 0);
+    recorder.record(STARTED, 3000);
+    const recording = recorder.getRecording();
+
+    expect(parseMatchRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseMatchRecording('{')).toThrow(InvalidMatchFileError);
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => parseMatchRecording('{"version":2,"entries":[]}')).toThrow(
+      'Unsupported match file version 2'
+    );
+  });
+
+  it('should reject entries out of order', () => {
+    const text = JSON.stringify({
+      version: 1,
+      recordedAt: '',
+      entries: [
+        { t: 100, message: COUNTDOWN },
+        { t: 50, message: STARTED },
+      ],
+    });
+
+    expect(() => parseMatchRecording(text)).toThrow('Entry 1 has an invalid time');
+  });
+
+  it('should reject entries without a message type', () => {
+    const text = JSON.stringify({ version: 1, recordedAt: '', entries: [{ t: 0, message: {} }] });
+
+    expect(() => parseMatchRecording(text)).toThrow('Entry 0 has no message');
+  });
+});
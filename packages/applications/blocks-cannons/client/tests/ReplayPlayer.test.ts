@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ServerMessage } from '../../src/shared/index.js';
+import type { MatchRecording } from '../replay/MatchRecording.js';
+import { ReplayPlayer, type ReplayTarget } from '../replay/ReplayPlayer.js';
+
+// ============ Test Utilities ============
+
+function countdown(secondsRemaining: number): ServerMessage {
+  return { type: 'countdown', secondsRemaining };
+}
+
+const RECORDING: MatchRecording = {
+  version: 1,
+  recordedAt: '',
+  entries: [
+    { t: 0, message: countdown(3) },
+    { t: 1000, message: countdown(2) },
+    { t: 2000, message: countdown(1) },
+    { t: 3000, message: { type: 'session_started' } },
+  ],
+};
+
+/**
+ * Target that logs what the player dispatches.
+ */
+function createTarget() {
+  const log: string[] = [];
+  const target: ReplayTarget = {
+    dispatch: (message, seeking) => {
+      const label =
+        message.type === 'countdown' ? `countdown ${message.secondsRemaining}` : message.type;
+      log.push(seeking ? `${label} (seek)` : label);
+    },
+    reset: () => log.push('reset'),
+  };
+  return { log, target };
+}
+
+// ============ Tests ============
+
+describe('ReplayPlayer', () => {
+  let log: string[];
+  let player: ReplayPlayer;
+
+  beforeEach(() => {
+    const created = createTarget();
+    log = created.log;
+    player = new ReplayPlayer(RECORDING, created.target);
+  });
+
+  it('should span the recording', () => {
+    expect(player.duration).toBe(3000);
+  });
+
+  it('should not advance while paused', () => {
+    player.seek(0);
+    player.update(5000);
+
+    expect(player.currentTime).toBe(0);
+    expect(log).toEqual(['reset', 'countdown 3 (seek)']);
+  });
+
+  it('should dispatch messages as playback time passes', () => {
+    player.seek(0);
+    player.play();
+    player.update(999);
+    player.update(1);
+
+    expect(log).toEqual(['reset', 'countdown 3 (seek)', 'countdown 2']);
+  });
+
+  it('should scale time by the playback speed', () => {
+    player.seek(0);
+    player.setSpeed(4);
+    player.play();
+    player.update(500);
+
+    expect(player.currentTime).toBe(2000);
+    expect(log.slice(-2)).toEqual(['countdown 2', 'countdown 1']);
+  });
+
+  it('should pause at the end', () => {
+    player.play();
+    player.update(10_000);
+
+    expect(player.currentTime).toBe(3000);
+    expect(player.isPlaying).toBe(false);
+  });
+
+  it('should restart from the beginning when played at the end', () => {
+    player.seek(3000);
+    log.length = 0;
+
+    player.play();
+
+    expect(player.currentTime).toBe(0);
+    expect(log).toEqual(['reset', 'countdown 3 (seek)']);
+  });
+
+  it('should only dispatch new messages when seeking forward', () => {
+    player.seek(1000);
+    log.length = 0;
+
+    player.seek(2500);
+
+    expect(log).toEqual(['countdown 1 (seek)']);
+  });
+
+  it('should rebuild from the start when seeking backwards', () => {
+    player.seek(2500);
+    log.length = 0;
+
+    player.seek(1500);
+
+    expect(log).toEqual(['reset', 'countdown 3 (seek)', 'countdown 2 (seek)']);
+    expect(player.currentTime).toBe(1500);
+  });
+
+  it('should clamp seeks to the recording', () => {
+    player.seek(-100);
+    expect(player.currentTime).toBe(0);
+
+    player.seek(99_999);
+    expect(player.currentTime).toBe(3000);
+  });
+
+  it('should reject non-positive speeds', () => {
+    expect(() => player.setSpeed(0)).toThrow(RangeError);
+  });
+});
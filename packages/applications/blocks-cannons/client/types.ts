@@ -98,9 +98,18 @@ export interface GameInitData {
   wallGrid: WallGridConfig;
   projectileSize: number;
   gamePhase: GamePhase;
+  /** Whether this welcome resumed the match after a connection loss */
+  resumed: boolean;
+  /** Whether the session is currently paused */
+  paused: boolean;
 }
 
 /**
  * Connection state.
  */
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'error';
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Playback controls for the replay viewer.
+ */
+
+import { REPLAY } from '../constants.js';
+
+/**
+ * Callbacks for replay control input.
+ */
+export interface ReplayControlsHandlers {
+  onTogglePlay: () => void;
+  /** Called with the target time in milliseconds */
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+/**
+ * Get a required DOM element by ID, throwing if not found.
+ */
+function getRequiredElement(id: string): HTMLElement {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error(`Required DOM element not found: #${id}`);
+  }
+  return element;
+}
+
+/**
+ * Format milliseconds as m:ss.
+ */
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Play/pause button, seek bar, time label and speed selector.
+ */
+export class ReplayControls {
+  private readonly container: HTMLElement;
+  private readonly playButton: HTMLButtonElement;
+  private readonly seekInput: HTMLInputElement;
+  private readonly timeLabel: HTMLElement;
+  private readonly speedSelect: HTMLSelectElement;
+  /** Don't move the seek bar under the user's cursor while they drag it */
+  private scrubbing = false;
+
+  constructor(handlers: ReplayControlsHandlers) {
+    this.container = getRequiredElement('replay-controls');
+    this.playButton = getRequiredElement('replay-play-btn') as HTMLButtonElement;
+    this.seekInput = getRequiredElement('replay-seek') as HTMLInputElement;
+    this.timeLabel = getRequiredElement('replay-time');
+    this.speedSelect = getRequiredElement('replay-speed') as HTMLSelectElement;
+
+    for (const speed of REPLAY.SPEEDS) {
+      const option = document.createElement('option');
+      option.value = String(speed);
+      option.textContent = `${speed}×`;
+      option.selected = speed === 1;
+      this.speedSelect.appendChild(option);
+    }
+
+    this.playButton.addEventListener('click', handlers.onTogglePlay);
+    this.seekInput.addEventListener('input', () => {
+      this.scrubbing = true;
+      handlers.onSeek(Number(this.seekInput.value));
+    });
+    this.seekInput.addEventListener('change', () => {
+      this.scrubbing = false;
+    });
+    this.speedSelect.addEventListener('change', () => {
+      handlers.onSpeedChange(Number(this.speedSelect.value));
+    });
+    getRequiredElement('replay-exit-btn').addEventListener('click', handlers.onExit);
+  }
+
+  /**
+   * Show the controls for a match of the given length.
+   */
+  show(duration: number): void {
+    this.seekInput.max = String(duration);
+    this.speedSelect.value = '1';
+    this.update(0, duration, false);
+    this.container.classList.remove('hidden');
+  }
+
+  /**
+   * Hide the controls.
+   */
+  hide(): void {
+    this.container.classList.add('hidden');
+  }
+
+  /**
+   * Reflect the playback position and state (call each frame).
+   */
+  update(currentTime: number, duration: number, playing: boolean): void {
+    if (!this.scrubbing) {
+      this.seekInput.value = String(currentTime);
+    }
+    this.timeLabel.textContent = `${formatTime(currentTime)} / ${formatTime(duration)}`;
+    this.playButton.textContent = playing ? '⏸' : '▶';
+  }
+}
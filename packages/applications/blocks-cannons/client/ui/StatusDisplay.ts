@@ -2,6 +2,7 @@
  * @fileoverview DOM-based status display management.
  */
 
+import type { ClockSyncStats } from '@gesture-app/framework-client';
 import type { ConnectionState } from '../types.js';
 
 /**
@@ -21,11 +22,16 @@ function getRequiredElement(id: string): HTMLElement {
 export class StatusDisplay {
   private readonly statusElement: HTMLElement;
   private readonly connectionElement: HTMLElement;
+  private readonly networkStatsElement: HTMLElement;
   private readonly playerInfoElement: HTMLElement;
   private readonly serverConfigElement: HTMLElement;
   private readonly fallbackElement: HTMLElement;
   private readonly handRaiseOverlay: HTMLElement;
   private readonly overlayWebcam: HTMLVideoElement;
+  private readonly countdownElement: HTMLElement;
+  private readonly pauseOverlay: HTMLElement;
+  private readonly pauseSubtitle: HTMLElement;
+  private readonly pauseStatus: HTMLElement;
   private readonly gameOverOverlay: HTMLElement;
   private readonly gameOverIcon: HTMLElement;
   private readonly gameOverTitle: HTMLElement;
@@ -37,15 +43,23 @@ export class StatusDisplay {
   /** Lobby URL injected from session config, or null if not in a session */
   private readonly lobbyUrl: string | null;
 
+  /** Pending hide of the pause overlay after its fade-out */
+  private pauseHideTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor(lobbyUrl: string | null = null) {
     this.lobbyUrl = lobbyUrl;
     this.statusElement = getRequiredElement('status');
     this.connectionElement = getRequiredElement('connection-status');
+    this.networkStatsElement = getRequiredElement('network-stats');
     this.playerInfoElement = getRequiredElement('player-info');
     this.serverConfigElement = getRequiredElement('server-config');
     this.fallbackElement = getRequiredElement('fallback');
     this.handRaiseOverlay = getRequiredElement('hand-raise-overlay');
     this.overlayWebcam = getRequiredElement('overlay-webcam') as HTMLVideoElement;
+    this.countdownElement = getRequiredElement('countdown');
+    this.pauseOverlay = getRequiredElement('pause-overlay');
+    this.pauseSubtitle = getRequiredElement('pause-subtitle');
+    this.pauseStatus = getRequiredElement('pause-status');
     this.gameOverOverlay = getRequiredElement('game-over-overlay');
     this.gameOverIcon = getRequiredElement('game-over-icon');
     this.gameOverTitle = getRequiredElement('game-over-title');
@@ -81,6 +95,15 @@ export class StatusDisplay {
     this.connectionElement.textContent = text;
   }
 
+  /**
+   * Show round-trip time and jitter, or clear them (e.g., when disconnected).
+   */
+  updateNetworkStats(stats: ClockSyncStats | null): void {
+    this.networkStatsElement.textContent = stats
+      ? `RTT ${Math.round(stats.rttMs)} ms · jitter ${Math.round(stats.jitterMs)} ms`
+      : '';
+  }
+
   /**
    * Update player info display.
    */
@@ -147,6 +170,67 @@ export class StatusDisplay {
     }, 400);
   }
 
+  /**
+   * Show a countdown number before the game starts.
+   */
+  showCountdown(secondsRemaining: number): void {
+    this.countdownElement.textContent = String(secondsRemaining);
+    this.countdownElement.classList.remove('hidden');
+    // Restart the tick animation
+    this.countdownElement.classList.remove('tick');
+    void this.countdownElement.offsetWidth;
+    this.countdownElement.classList.add('tick');
+  }
+
+  /**
+   * Hide the countdown.
+   */
+  hideCountdown(): void {
+    this.countdownElement.classList.add('hidden');
+    this.countdownElement.classList.remove('tick');
+  }
+
+  /**
+   * Show the pause overlay.
+   * @param pausedByMe - Whether the local player paused the game (undefined if unknown)
+   */
+  showPauseOverlay(pausedByMe?: boolean): void {
+    if (pausedByMe === undefined) {
+      this.pauseSubtitle.textContent = 'The game is paused';
+    } else {
+      this.pauseSubtitle.textContent = pausedByMe
+        ? 'Your hand left the camera view'
+        : 'Your opponent paused the game';
+    }
+    this.pauseStatus.textContent = 'Raise your hand to continue';
+    // A fade-out still running from the last resume must not hide this pause
+    if (this.pauseHideTimer !== null) {
+      clearTimeout(this.pauseHideTimer);
+      this.pauseHideTimer = null;
+    }
+    this.pauseOverlay.classList.remove('hidden');
+    this.pauseOverlay.classList.remove('fade-out');
+  }
+
+  /**
+   * Update the waiting text on the pause overlay.
+   */
+  updatePauseStatus(text: string): void {
+    this.pauseStatus.textContent = text;
+  }
+
+  /**
+   * Hide the pause overlay with a fade animation.
+   */
+  hidePauseOverlay(): void {
+    this.pauseOverlay.classList.add('fade-out');
+    if (this.pauseHideTimer !== null) clearTimeout(this.pauseHideTimer);
+    this.pauseHideTimer = setTimeout(() => {
+      this.pauseHideTimer = null;
+      this.pauseOverlay.classList.add('hidden');
+    }, 400);
+  }
+
   /**
    * Set up connect button handler.
    */
@@ -166,6 +250,29 @@ export class StatusDisplay {
     });
   }
 
+  /**
+   * Set up the match file picker for the replay viewer.
+   */
+  setupReplayFileInput(onFile: (file: File) => void): void {
+    const fileInput = getRequiredElement('replay-file') as HTMLInputElement;
+
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      // Reset so picking the same file again still fires a change
+      fileInput.value = '';
+      if (file) {
+        onFile(file);
+      }
+    });
+  }
+
+  /**
+   * Set up the save match button on the game over overlay.
+   */
+  setupSaveMatchButton(onSave: () => void): void {
+    getRequiredElement('save-match-btn').addEventListener('click', onSave);
+  }
+
   // Store current click handler so we can remove it properly
   private playAgainClickHandler: (() => void) | null = null;
 
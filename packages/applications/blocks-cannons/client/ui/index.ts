@@ -2,4 +2,5 @@
  * @fileoverview UI module exports.
  */
 
+export { ReplayControls, type ReplayControlsHandlers } from './ReplayControls.js';
 export { StatusDisplay } from './StatusDisplay.js';
@@ -4,20 +4,22 @@
  * Tracks full game state for AI decision-making.
  */
 
+import { logger } from '@gesture-app/framework-logging';
+import { applyStateDelta, type ReplicatedState } from '@gesture-app/framework-protocol';
 import WebSocket from 'ws';
-import type {
-  Block,
-  BlocksOpponentJoinedData,
-  BlocksResetData,
-  BlocksSessionEndedData,
-  BlocksWelcomeData,
-  GamePhase,
-  Position,
-  Projectile,
-  RoomBounds,
-  ServerMessage,
+import {
+  type Block,
+  type BlocksOpponentJoinedData,
+  type BlocksResetData,
+  type BlocksSessionEndedData,
+  type BlocksWelcomeData,
+  type GamePhase,
+  type Position,
+  type Projectile,
+  projectilesFromState,
+  type RoomBounds,
+  type ServerMessage,
 } from '../../shared/index.js';
-import { logger } from '../utils/logger.js';
 import { type AIDerivedParams, type BotGameState, decideAction, deriveAIParams } from './BotAI.js';
 import { type BehaviorConfig, decideNextAction } from './BotBehavior.js';
 import {
@@ -84,6 +86,15 @@ type FrameworkSessionStartedMessage = {
   type: 'session_started';
 };
 
+type FrameworkSessionPausedMessage = {
+  type: 'session_paused';
+  pausedBy: string;
+};
+
+type FrameworkSessionResumedMessage = {
+  type: 'session_resumed';
+};
+
 type FrameworkSessionEndedMessage = {
   type: 'session_ended';
   winnerId?: string;
@@ -114,17 +125,23 @@ type BotServerMessage =
   | FrameworkOpponentJoinedMessage
   | FrameworkOpponentLeftMessage
   | FrameworkSessionStartedMessage
+  | FrameworkSessionPausedMessage
+  | FrameworkSessionResumedMessage
   | FrameworkSessionEndedMessage
   | FrameworkPlayAgainStatusMessage
   | FrameworkSessionResetMessage
   | FrameworkErrorMessage;
 
+const botLogger = logger.child({ component: 'bot' });
+
 /**
  * Automated game client that plays the block game.
  * Tracks full game state including opponent blocks and projectiles for AI decision-making.
  */
 export class BotClient {
   private ws: WebSocket | null = null;
+  /** Carries the participant ID once the server welcomed the bot */
+  private log = botLogger;
   private playerId: string | null = null;
   private playerNumber: 1 | 2 | null = null;
   private room: RoomBounds | null = null;
@@ -138,6 +155,8 @@ export class BotClient {
   private opponentBlocks: Map<string, Block> = new Map();
   private opponentCannonId: string | null = null;
   private allProjectiles: Map<string, Projectile> = new Map();
+  private replicatedState: ReplicatedState | null = null;
+  private replicationSeq: number | null = null;
 
   // AI parameters (derived from difficulty)
   private readonly aiParams: AIDerivedParams;
@@ -155,7 +174,7 @@ export class BotClient {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.aiParams = deriveAIParams({ difficulty: this.config.difficulty ?? 0.5 });
 
-    logger.info('Bot AI configured', {
+    this.log.info('Bot AI configured', {
       useAI: this.config.useAI,
       difficulty: this.config.difficulty,
       aiParams: this.aiParams,
@@ -167,12 +186,12 @@ export class BotClient {
    * @param url - WebSocket URL (e.g., ws://localhost:3001)
    */
   connect(url: string): void {
-    logger.info('Bot connecting', { url });
+    this.log.info('Bot connecting', { url });
 
     this.ws = new WebSocket(url);
 
     this.ws.on('open', () => {
-      logger.info('Bot connected to server');
+      this.log.info('Bot connected to server');
     });
 
     this.ws.on('message', (data: Buffer) => {
@@ -180,17 +199,17 @@ export class BotClient {
         const message = JSON.parse(data.toString()) as BotServerMessage;
         this.onMessage(message);
       } catch {
-        logger.error('Failed to parse server message');
+        this.log.error('Failed to parse server message');
       }
     });
 
     this.ws.on('close', () => {
-      logger.info('Bot disconnected');
+      this.log.info('Bot disconnected');
       this.cleanup();
     });
 
     this.ws.on('error', (error: Error) => {
-      logger.error('Bot WebSocket error', { error: error.message });
+      this.log.error('Bot WebSocket error', { error: error.message });
     });
   }
 
@@ -276,7 +295,7 @@ export class BotClient {
         break;
 
       case 'opponent_left':
-        logger.info('Opponent (real player) left');
+        this.log.info('Opponent (real player) left');
         this.opponentBlocks.clear();
         this.opponentCannonId = null;
         break;
@@ -297,8 +316,9 @@ export class BotClient {
         this.handleProjectileSpawned(message);
         break;
 
-      case 'projectiles_update':
-        this.handleProjectilesUpdate(message);
+      case 'state_keyframe':
+      case 'state_delta':
+        this.handleReplicatedState(message);
         break;
 
       case 'projectile_destroyed':
@@ -317,6 +337,16 @@ export class BotClient {
         this.handleGameStarted();
         break;
 
+      case 'session_paused':
+        this.log.info('Game paused - bot holding still', { pausedBy: message.pausedBy });
+        this.stopBehaviorLoop();
+        break;
+
+      case 'session_resumed':
+        this.log.info('Game resumed - bot resuming behavior loop');
+        this.scheduleNextAction();
+        break;
+
       case 'session_ended':
         this.handleGameOver(message);
         break;
@@ -330,13 +360,13 @@ export class BotClient {
         break;
 
       case 'error':
-        logger.error('Server error', { message: message.message });
+        this.log.error('Server error', { message: message.message });
         break;
     }
   }
 
   private handleGameStarted(): void {
-    logger.info('Game started! Bot beginning behavior loop');
+    this.log.info('Game started! Bot beginning behavior loop');
     this.gamePhase = 'playing';
     // Now start the behavior loop
     this.scheduleNextAction();
@@ -344,7 +374,7 @@ export class BotClient {
 
   private handleGameOver(message: Extract<BotServerMessage, { type: 'session_ended' }>): void {
     const isWinner = message.winnerId === this.playerId;
-    logger.info('Game over!', {
+    this.log.info('Game over!', {
       winnerId: message.winnerId,
       winnerNumber: message.winnerNumber,
       isWinner,
@@ -352,6 +382,14 @@ export class BotClient {
 
     // Stop the behavior loop
     this.gamePhase = 'finished';
+    this.stopBehaviorLoop();
+
+    // Auto-vote to play again
+    this.log.info('Bot automatically voting to play again');
+    this.send({ type: 'play_again_vote' });
+  }
+
+  private stopBehaviorLoop(): void {
     if (this.actionTimer) {
       clearTimeout(this.actionTimer);
       this.actionTimer = null;
@@ -360,14 +398,13 @@ export class BotClient {
       clearInterval(this.moveTimer);
       this.moveTimer = null;
     }
-
-    // Auto-vote to play again
-    logger.info('Bot automatically voting to play again');
-    this.send({ type: 'play_again_vote' });
+    // An interrupted move is not resumed; the next action starts fresh
+    this.movementState = null;
+    this.state = 'idle';
   }
 
   private handleGameReset(message: Extract<BotServerMessage, { type: 'session_reset' }>): void {
-    logger.info('Game reset - preparing for new round');
+    this.log.info('Game reset - preparing for new round');
 
     // Clear current state
     this.myBlocks.clear();
@@ -397,7 +434,7 @@ export class BotClient {
     // Reset to waiting phase (bot is already ready as a bot)
     this.gamePhase = 'waiting';
 
-    logger.info('Bot ready for new round', {
+    this.log.info('Bot ready for new round', {
       myBlocks: this.myBlocks.size,
       myCannonId: this.myCannonId,
       opponentBlocks: this.opponentBlocks.size,
@@ -408,7 +445,7 @@ export class BotClient {
     message: Extract<BotServerMessage, { type: 'opponent_joined' }>
   ): void {
     const blocks = message.appData?.blocks ?? [];
-    logger.info('Opponent joined', { blocks: blocks.length });
+    this.log.info('Opponent joined', { blocks: blocks.length });
 
     // Store opponent's blocks
     for (const block of blocks) {
@@ -418,7 +455,7 @@ export class BotClient {
       }
     }
 
-    logger.info('Opponent blocks tracked', {
+    this.log.info('Opponent blocks tracked', {
       count: this.opponentBlocks.size,
       cannonId: this.opponentCannonId,
     });
@@ -447,7 +484,7 @@ export class BotClient {
         this.opponentCannonId = blockId;
       }
 
-      logger.info('Discovered opponent block from grab', { blockId, isCannon });
+      this.log.info('Discovered opponent block from grab', { blockId, isCannon });
     }
   }
 
@@ -482,7 +519,7 @@ export class BotClient {
           this.opponentCannonId = blockId;
         }
 
-        logger.info('Discovered opponent block', { blockId, isCannon });
+        this.log.info('Discovered opponent block', { blockId, isCannon });
       }
     }
   }
@@ -494,12 +531,22 @@ export class BotClient {
     this.allProjectiles.set(projectile.id, projectile);
   }
 
-  private handleProjectilesUpdate(
-    message: Extract<ServerMessage, { type: 'projectiles_update' }>
+  private handleReplicatedState(
+    message: Extract<ServerMessage, { type: 'state_keyframe' | 'state_delta' }>
   ): void {
+    if (message.type === 'state_keyframe') {
+      this.replicatedState = message.state;
+    } else if (this.replicatedState && message.baseSeq === this.replicationSeq) {
+      this.replicatedState = applyStateDelta(this.replicatedState, message.changes);
+    } else {
+      // Missed a delta; wait for the next keyframe
+      return;
+    }
+    this.replicationSeq = message.seq;
+
     // Replace all projectile data with latest positions
     this.allProjectiles.clear();
-    for (const projectile of message.projectiles) {
+    for (const projectile of projectilesFromState(this.replicatedState)) {
       this.allProjectiles.set(projectile.id, projectile);
     }
   }
@@ -527,11 +574,11 @@ export class BotClient {
   private handleWelcome(message: Extract<BotServerMessage, { type: 'welcome' }>): void {
     this.playerId = message.participantId;
     this.playerNumber = message.participantNumber;
+    this.log = botLogger.child({ participantId: message.participantId });
     this.room = message.appData?.room ?? null;
     this.gamePhase = message.sessionPhase as GamePhase;
 
-    logger.info('Bot joined as player', {
-      playerId: this.playerId,
+    this.log.info('Bot joined as player', {
       playerNumber: message.participantNumber,
       room: this.room,
       gamePhase: this.gamePhase,
@@ -558,7 +605,7 @@ export class BotClient {
       this.allProjectiles.set(projectile.id, projectile);
     }
 
-    logger.info('Bot has blocks', {
+    this.log.info('Bot has blocks', {
       count: this.myBlocks.size,
       cannonId: this.myCannonId,
       opponentBlocks: this.opponentBlocks.size,
@@ -567,15 +614,15 @@ export class BotClient {
 
     // Identify as bot to the server
     this.send({ type: 'bot_identify' });
-    logger.info('Bot identified itself to server');
+    this.log.info('Bot identified itself to server');
 
     // If game is already playing (reconnect scenario), start behavior
     // Otherwise wait for game_started message
     if (this.gamePhase === 'playing') {
-      logger.info('Game already in progress, starting behavior loop');
+      this.log.info('Game already in progress, starting behavior loop');
       this.scheduleNextAction();
     } else {
-      logger.info('Waiting for game to start (human player must raise hand)');
+      this.log.info('Waiting for game to start (human player must raise hand)');
     }
   }
 
@@ -636,7 +683,7 @@ export class BotClient {
     // Get AI decision
     const decision = decideAction(gameState, this.aiParams, this.playerId);
 
-    logger.debug('AI decision', {
+    this.log.debug('AI decision', {
       action: decision.action.type,
       reason: decision.reason,
       myBlocks: this.myBlocks.size,
@@ -650,7 +697,7 @@ export class BotClient {
     if (this.state !== 'idle') {
       // Only interrupt for defensive evasion of a DIFFERENT block than we're moving
       if (decision.action.type === 'evade' && decision.action.blockId !== this.grabbedBlockId) {
-        logger.info('Interrupting for defensive evasion', {
+        this.log.info('Interrupting for defensive evasion', {
           currentBlock: this.grabbedBlockId,
           threatBlock: decision.action.blockId,
         });
@@ -725,7 +772,7 @@ export class BotClient {
         break;
 
       case 'idle':
-        logger.warn('Bot has no blocks to move');
+        this.log.warn('Bot has no blocks to move');
         this.scheduleNextAction();
         break;
     }
@@ -734,7 +781,7 @@ export class BotClient {
   private fireCannon(): void {
     if (!this.myCannonId) return;
 
-    logger.info('Bot firing cannon!', { cannonId: this.myCannonId });
+    this.log.info('Bot firing cannon!', { cannonId: this.myCannonId });
     this.send({ type: 'cannon_fire', cannonId: this.myCannonId });
     this.lastFireTime = Date.now();
   }
@@ -743,7 +790,7 @@ export class BotClient {
     this.state = 'grabbing';
     this.grabbedBlockId = block.id;
 
-    logger.info('Bot grabbing block', { blockId: block.id });
+    this.log.info('Bot grabbing block', { blockId: block.id });
     this.send({ type: 'block_grab', blockId: block.id });
 
     // Start moving immediately (legacy random movement)
@@ -757,14 +804,14 @@ export class BotClient {
     this.state = 'grabbing';
     this.grabbedBlockId = block.id;
 
-    logger.info('Bot AI grabbing block', { blockId: block.id });
+    this.log.info('Bot AI grabbing block', { blockId: block.id });
     this.send({ type: 'block_grab', blockId: block.id });
 
     // Start moving to target
     this.state = 'moving';
     this.movementState = createMovementState(block.position, targetPos, this.config.moveDuration);
 
-    logger.info('Bot AI moving block', {
+    this.log.info('Bot AI moving block', {
       blockId: block.id,
       from: block.position,
       to: targetPos,
@@ -805,7 +852,7 @@ export class BotClient {
     // Create movement state
     this.movementState = createMovementState(block.position, targetPos, this.config.moveDuration);
 
-    logger.info('Bot moving block', {
+    this.log.info('Bot moving block', {
       blockId: block.id,
       from: block.position,
       to: targetPos,
@@ -853,7 +900,7 @@ export class BotClient {
     this.state = 'releasing';
 
     if (this.grabbedBlockId) {
-      logger.info('Bot releasing block', { blockId: this.grabbedBlockId });
+      this.log.info('Bot releasing block', { blockId: this.grabbedBlockId });
       this.send({ type: 'block_release', blockId: this.grabbedBlockId });
     }
 
@@ -1,6 +1,8 @@
-import { logger } from '../utils/logger.js';
+import { logger as processLogger } from '@gesture-app/framework-logging';
 import { BotClient } from './BotClient.js';
 
+const logger = processLogger.child({ component: 'bot' });
+
 // Parse command line arguments
 const args = process.argv.slice(2);
 const serverUrl = args[0] ?? 'ws://localhost:3001';
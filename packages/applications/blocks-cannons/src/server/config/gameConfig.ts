@@ -5,6 +5,7 @@
 
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
+import { logger } from '@gesture-app/framework-logging';
 import { parse as parseYaml } from 'yaml';
 import { z } from 'zod';
 
@@ -41,10 +42,16 @@ const GameConfigSchema = z.object({
     highlightIntensity: z.number().min(0).max(1),
   }),
   tickRate: z.number().int().positive(),
+  countdown: z.object({
+    seconds: z.number().int().min(0),
+  }),
   inactivity: z.object({
     timeoutMs: z.number().int().positive(),
     checkIntervalMs: z.number().int().positive(),
   }),
+  reconnection: z.object({
+    gracePeriodMs: z.number().int().min(0),
+  }),
 });
 
 export type GameConfigYaml = z.infer<typeof GameConfigSchema>;
@@ -76,7 +83,7 @@ export function loadGameConfig(): GameConfigYaml {
     return validatedConfig;
   } catch (error) {
     if (error instanceof z.ZodError) {
-      console.error('Invalid game configuration:', error.issues);
+      logger.error('Invalid game configuration', { issues: error.issues });
       throw new Error(`Invalid game configuration: ${error.message}`);
     }
     throw error;
@@ -115,6 +115,7 @@ export function setCannonCooldown(
  * @param blocks - Map of blocks
  * @param cooldowns - Map of cannon cooldowns
  * @param nextProjectileId - Next projectile ID to use
+ * @param now - Current timestamp (default: Date.now())
  * @returns Fire result with projectile (or null) and updated state
  */
 export function fireCannon(
@@ -123,7 +124,8 @@ export function fireCannon(
   players: ReadonlyMap<PlayerId, Player>,
   blocks: ReadonlyMap<BlockId, Block>,
   cooldowns: ReadonlyMap<BlockId, number>,
-  nextProjectileId: number
+  nextProjectileId: number,
+  now: number = Date.now()
 ): CannonFireResult {
   const player = players.get(playerId);
   const cannon = blocks.get(cannonId);
@@ -156,7 +158,7 @@ export function fireCannon(
   }
 
   // Check cooldown
-  if (!isCannonReady(cannonId, cooldowns)) {
+  if (!isCannonReady(cannonId, cooldowns, now)) {
     return {
       projectile: null,
       cooldowns: new Map(cooldowns),
@@ -167,7 +169,7 @@ export function fireCannon(
   // Fire the cannon
   const projectileId = `projectile-${nextProjectileId}`;
   const projectile = createProjectile(cannon, player.number, projectileId);
-  const newCooldowns = setCannonCooldown(cannonId, cooldowns);
+  const newCooldowns = setCannonCooldown(cannonId, cooldowns, now);
 
   return {
     projectile,
@@ -186,6 +188,7 @@ export function fireCannon(
  * @param players - Map of players (to get owner's player number)
  * @param cooldowns - Map of cannon cooldowns
  * @param nextProjectileId - Next projectile ID to use
+ * @param now - Current timestamp (default: Date.now())
  * @returns Fire result with projectile (or null) and updated state
  */
 export function fireCannonAuto(
@@ -193,7 +196,8 @@ export function fireCannonAuto(
   blocks: ReadonlyMap<BlockId, Block>,
   players: ReadonlyMap<PlayerId, Player>,
   cooldowns: ReadonlyMap<BlockId, number>,
-  nextProjectileId: number
+  nextProjectileId: number,
+  now: number = Date.now()
 ): CannonFireResult {
   const cannon = blocks.get(cannonId);
 
@@ -207,7 +211,7 @@ export function fireCannonAuto(
   }
 
   // Check cooldown
-  if (!isCannonReady(cannonId, cooldowns)) {
+  if (!isCannonReady(cannonId, cooldowns, now)) {
     return {
       projectile: null,
       cooldowns: new Map(cooldowns),
@@ -228,7 +232,7 @@ export function fireCannonAuto(
   // Fire the cannon
   const projectileId = `projectile-${nextProjectileId}`;
   const projectile = createProjectile(cannon, owner.number, projectileId);
-  const newCooldowns = setCannonCooldown(cannonId, cooldowns);
+  const newCooldowns = setCannonCooldown(cannonId, cooldowns, now);
 
   return {
     projectile,
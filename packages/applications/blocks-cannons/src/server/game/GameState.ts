@@ -121,9 +121,10 @@ export class GameState {
   /**
    * Check if a cannon is ready to fire.
    * @param cannonId - ID of the cannon to check
+   * @param now - Current timestamp (default: Date.now())
    */
-  isCannonReady(cannonId: BlockId): boolean {
-    return cannonSystemIsReady(cannonId, this._cannonCooldowns);
+  isCannonReady(cannonId: BlockId, now: number = Date.now()): boolean {
+    return cannonSystemIsReady(cannonId, this._cannonCooldowns, now);
   }
 
   /**
@@ -172,9 +173,14 @@ export class GameState {
    * Add a player to the game and create their initial blocks.
    * @param playerId - Unique ID for the player
    * @param playerNumber - Player number (1 or 2)
+   * @param random - Random number source for block placement (default: Math.random)
    * @returns New game state with the player added
    */
-  addPlayer(playerId: PlayerId, playerNumber: PlayerNumber): GameState {
+  addPlayer(
+    playerId: PlayerId,
+    playerNumber: PlayerNumber,
+    random: () => number = Math.random
+  ): GameState {
     if (this._players.has(playerId)) {
       return this; // Player already exists
     }
@@ -191,7 +197,7 @@ export class GameState {
     newPlayers.set(playerId, newPlayer);
 
     // Create blocks for this player
-    const newBlocks = this.createPlayerBlocks(playerId, playerNumber);
+    const newBlocks = this.createPlayerBlocks(playerId, playerNumber, random);
 
     return new GameState(
       newBlocks,
@@ -210,6 +216,7 @@ export class GameState {
    * @param spawnZ - Z coordinate for spawning
    * @param room - Room bounds
    * @param includeY - Whether to randomize Y (true for regular blocks, false for cannon)
+   * @param random - Random number source
    * @param maxAttempts - Maximum attempts before giving up
    * @returns A valid position or the last attempted position if max attempts reached
    */
@@ -218,14 +225,15 @@ export class GameState {
     spawnZ: number,
     room: { minX: number; maxX: number; minY: number; maxY: number },
     includeY: boolean,
+    random: () => number,
     maxAttempts = 50
   ): Position {
     const minSeparation = 1.2; // Slightly larger than block size to ensure no overlap
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       const candidate: Position = {
-        x: (Math.random() - 0.5) * (room.maxX - room.minX - 2),
-        y: includeY ? (Math.random() - 0.5) * (room.maxY - room.minY - 2) : 0,
+        x: (random() - 0.5) * (room.maxX - room.minX - 2),
+        y: includeY ? (random() - 0.5) * (room.maxY - room.minY - 2) : 0,
         z: spawnZ,
       };
 
@@ -245,20 +253,24 @@ export class GameState {
 
     // Fallback: return a position even if it might overlap (shouldn't happen with reasonable block counts)
     return {
-      x: (Math.random() - 0.5) * (room.maxX - room.minX - 2),
-      y: includeY ? (Math.random() - 0.5) * (room.maxY - room.minY - 2) : 0,
+      x: (random() - 0.5) * (room.maxX - room.minX - 2),
+      y: includeY ? (random() - 0.5) * (room.maxY - room.minY - 2) : 0,
       z: spawnZ,
     };
   }
 
-  private createPlayerBlocks(playerId: PlayerId, playerNumber: PlayerNumber): Map<BlockId, Block> {
+  private createPlayerBlocks(
+    playerId: PlayerId,
+    playerNumber: PlayerNumber,
+    random: () => number
+  ): Map<BlockId, Block> {
     const newBlocks = new Map(this._blocks);
     const spawnZ = getPlayerSpawnZ(playerNumber, this._config.room);
     const { room } = this._config;
 
     // Create cannon block with collision-free position
     const cannonId = `${playerId}-cannon`;
-    const cannonPosition = this.findValidSpawnPosition(newBlocks, spawnZ, room, false);
+    const cannonPosition = this.findValidSpawnPosition(newBlocks, spawnZ, room, false, random);
     const cannonBlock: Block = {
       id: cannonId,
       position: clampToRoom(cannonPosition, room),
@@ -276,7 +288,7 @@ export class GameState {
 
       if (color === undefined) continue;
 
-      const rawPosition = this.findValidSpawnPosition(newBlocks, spawnZ, room, true);
+      const rawPosition = this.findValidSpawnPosition(newBlocks, spawnZ, room, true, random);
 
       const block: Block = {
         id: blockId,
@@ -518,9 +530,10 @@ export class GameState {
    * Reset the game for a new round.
    * Clears all blocks and projectiles, creates fresh blocks for existing players.
    * Resets players' ready and wantsPlayAgain status.
+   * @param random - Random number source for block placement (default: Math.random)
    * @returns New game state ready for a new round
    */
-  resetForNewRound(): GameState {
+  resetForNewRound(random: () => number = Math.random): GameState {
     // Start with empty blocks and projectiles
     let newBlocks = new Map<BlockId, Block>();
     const newProjectiles = new Map<ProjectileId, Projectile>();
@@ -551,7 +564,7 @@ export class GameState {
 
     // Create fresh blocks for each player
     for (const player of newPlayers.values()) {
-      newBlocks = newState.createPlayerBlocks(player.id, player.number);
+      newBlocks = newState.createPlayerBlocks(player.id, player.number, random);
       newState = new GameState(
         newBlocks,
         newPlayers,
@@ -723,11 +736,13 @@ export class GameState {
    * Fire a cannon as a specific player.
    * @param playerId - ID of the player firing
    * @param cannonId - ID of the cannon to fire
+   * @param now - Current timestamp (default: Date.now())
    * @returns Object containing new state and spawned projectile (or null)
    */
   fireCannon(
     playerId: PlayerId,
-    cannonId: BlockId
+    cannonId: BlockId,
+    now: number = Date.now()
   ): { state: GameState; projectile: Projectile | null } {
     const result = cannonSystemFire(
       playerId,
@@ -735,7 +750,8 @@ export class GameState {
       this._players,
       this._blocks,
       this._cannonCooldowns,
-      this._nextProjectileId
+      this._nextProjectileId,
+      now
     );
 
     if (!result.projectile) {
@@ -761,15 +777,20 @@ export class GameState {
   /**
    * Auto-fire a cannon (server-initiated).
    * @param cannonId - ID of the cannon to fire
+   * @param now - Current timestamp (default: Date.now())
    * @returns Object containing new state and spawned projectile (or null)
    */
-  fireCannonAuto(cannonId: BlockId): { state: GameState; projectile: Projectile | null } {
+  fireCannonAuto(
+    cannonId: BlockId,
+    now: number = Date.now()
+  ): { state: GameState; projectile: Projectile | null } {
     const result = cannonSystemFireAuto(
       cannonId,
       this._blocks,
       this._players,
       this._cannonCooldowns,
-      this._nextProjectileId
+      this._nextProjectileId,
+      now
     );
 
     if (!result.projectile) {
@@ -61,6 +61,9 @@ export const BLOCK_COLLISION_ENABLED = yamlConfig.blocks.collision;
 /** Server tick rate in milliseconds */
 export const TICK_RATE_MS = yamlConfig.tickRate;
 
+/** Seconds counted down before the game starts */
+export const COUNTDOWN_SECONDS = yamlConfig.countdown.seconds;
+
 // ============ Inactivity / Cleanup Constants ============
 
 /** Inactivity timeout in milliseconds before server auto-shutdown */
@@ -74,6 +77,11 @@ export const INACTIVITY_TIMEOUT_MS = inactivityEnvValue
 /** Interval in milliseconds between inactivity checks */
 export const INACTIVITY_CHECK_INTERVAL_MS = yamlConfig.inactivity.checkIntervalMs;
 
+// ============ Reconnection Constants ============
+
+/** How long a disconnected player's slot is held for resumption */
+export const RESUME_GRACE_PERIOD_MS = yamlConfig.reconnection.gracePeriodMs;
+
 /** Camera distance from room edge (units) */
 export const CAMERA_DISTANCE = yamlConfig.camera.distance;
 
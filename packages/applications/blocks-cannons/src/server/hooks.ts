@@ -0,0 +1,374 @@
+/**
+ * @fileoverview Blocks & Cannons session hooks and runtime configuration.
+ *
+ * Hooks take their clock and random numbers from the session context, so
+ * recorded sessions replay identically (see `npm run replay`).
+ */
+
+import type {
+  ParticipantId,
+  ParticipantNumber,
+  SessionEndedReason,
+  SessionPhase,
+} from '@gesture-app/framework-protocol';
+import {
+  type AppHooks,
+  DEFAULT_RUNTIME_CONFIG,
+  type MessageResponse,
+  type ReplicatedState,
+  type SessionContext,
+  type SessionRuntimeConfig,
+  withPlayerLimits,
+} from '@gesture-app/framework-server';
+import { APP_MANIFEST } from '../index.js';
+import type {
+  ServerMessage as AppServerMessage,
+  BlocksOpponentJoinedData,
+  BlocksResetData,
+  BlocksSessionEndedData,
+  BlocksWelcomeData,
+  ClientMessage,
+} from '../shared/protocol.js';
+import { toReplicatedState } from '../shared/replication.js';
+import { GameState } from './game/GameState.js';
+import {
+  CAMERA_DISTANCE,
+  COUNTDOWN_SECONDS,
+  DEFAULT_ROOM,
+  PROJECTILE_SIZE,
+  RESUME_GRACE_PERIOD_MS,
+  TICK_RATE_MS,
+  WALL_GRID_CONFIG,
+} from './game/types.js';
+
+interface RuntimeConfig extends SessionRuntimeConfig {
+  /** Enable cannon auto fire loop */
+  tickIntervalMs: number;
+}
+
+export const RUNTIME_CONFIG: RuntimeConfig = withPlayerLimits(
+  {
+    ...DEFAULT_RUNTIME_CONFIG,
+    tickEnabled: true,
+    tickIntervalMs: TICK_RATE_MS,
+    countdownSeconds: COUNTDOWN_SECONDS,
+    resumeGracePeriodMs: RESUME_GRACE_PERIOD_MS,
+  },
+  APP_MANIFEST
+);
+
+/**
+ * Application hooks implementation for Blocks & Cannons.
+ */
+export class BlocksCannonsHooks
+  implements
+    AppHooks<
+      ClientMessage,
+      AppServerMessage,
+      BlocksWelcomeData,
+      BlocksResetData,
+      BlocksOpponentJoinedData,
+      BlocksSessionEndedData,
+      BlocksWelcomeData
+    >
+{
+  constructor(
+    private gameState: GameState,
+    private readonly context: SessionContext
+  ) {}
+
+  generateParticipantId(participantNumber: ParticipantNumber): ParticipantId {
+    const suffix = Math.floor(this.context.random() * 0x100000000)
+      .toString(16)
+      .padStart(8, '0');
+    return `player-${participantNumber}-${suffix}`;
+  }
+
+  onParticipantJoin(participant: {
+    id: ParticipantId;
+    number: ParticipantNumber;
+  }): BlocksWelcomeData {
+    this.gameState = this.gameState.addPlayer(
+      participant.id,
+      participant.number,
+      this.context.random
+    );
+    return this.getSnapshot();
+  }
+
+  onParticipantResume(): BlocksWelcomeData {
+    // The player's blocks and cannon were kept while they were away
+    return this.getSnapshot();
+  }
+
+  onSpectatorJoin(): BlocksWelcomeData {
+    return this.getSnapshot();
+  }
+
+  onParticipantLeave(participantId: ParticipantId): void {
+    this.gameState = this.gameState.removePlayer(participantId);
+  }
+
+  onOpponentJoined(joiningParticipant: {
+    id: ParticipantId;
+    number: ParticipantNumber;
+  }): BlocksOpponentJoinedData {
+    return {
+      blocks: this.getPlayerBlocksArray(joiningParticipant.id),
+    };
+  }
+
+  onMessage(
+    message: ClientMessage,
+    senderId: ParticipantId,
+    phase: SessionPhase
+  ): MessageResponse<AppServerMessage>[] {
+    // The arena is frozen while paused
+    if (phase === 'paused') return [];
+
+    switch (message.type) {
+      case 'block_grab': {
+        const result = this.gameState.grabBlock(senderId, message.blockId);
+        this.gameState = result.state;
+
+        const responses: MessageResponse<AppServerMessage>[] = [
+          {
+            target: 'all',
+            message: {
+              type: 'block_grabbed',
+              playerId: senderId,
+              blockId: message.blockId,
+            },
+          },
+        ];
+
+        if (result.releasedBlockId) {
+          responses.push({
+            target: 'all',
+            message: {
+              type: 'block_released',
+              playerId: senderId,
+              blockId: result.releasedBlockId,
+            },
+          });
+        }
+
+        return responses;
+      }
+
+      case 'block_move': {
+        const result = this.gameState.moveBlock(message.blockId, message.position);
+        this.gameState = result.state;
+
+        const responses: MessageResponse<AppServerMessage>[] = [
+          {
+            target: 'all',
+            message: {
+              type: 'block_moved',
+              playerId: senderId,
+              blockId: message.blockId,
+              position: message.position,
+            },
+          },
+        ];
+
+        for (const pushed of result.pushedBlocks) {
+          responses.push({
+            target: 'all',
+            message: {
+              type: 'block_moved',
+              playerId: senderId,
+              blockId: pushed.id,
+              position: pushed.position,
+            },
+          });
+        }
+        return responses;
+      }
+
+      case 'block_release': {
+        this.gameState = this.gameState.releaseBlock(senderId, message.blockId);
+        return [
+          {
+            target: 'all',
+            message: {
+              type: 'block_released',
+              playerId: senderId,
+              blockId: message.blockId,
+            },
+          },
+        ];
+      }
+
+      case 'cannon_fire': {
+        const result = this.gameState.fireCannon(senderId, message.cannonId, this.context.now());
+        this.gameState = result.state;
+
+        const responses: MessageResponse<AppServerMessage>[] = [];
+        if (result.projectile) {
+          responses.push({
+            target: 'all',
+            message: {
+              type: 'projectile_spawned',
+              projectile: {
+                id: result.projectile.id,
+                position: result.projectile.position,
+                velocity: result.projectile.velocity,
+                ownerId: result.projectile.ownerId,
+                color: result.projectile.color,
+              },
+            },
+          });
+        }
+        return responses;
+      }
+    }
+
+    return [];
+  }
+
+  onSessionStart(): void {
+    // Transition game state to playing phase
+    this.gameState = this.gameState.setGamePhase('playing');
+  }
+
+  onReset(): BlocksResetData {
+    this.gameState = this.gameState.resetForNewRound(this.context.random);
+    return {
+      blocks: this.getBlocksArray(),
+    };
+  }
+
+  onSessionEnd(info: { reason: SessionEndedReason }): BlocksSessionEndedData | undefined {
+    if (info.reason === 'app_condition') {
+      return { appReason: 'blocks_destroyed' };
+    }
+  }
+
+  onTick(deltaTime: number): AppServerMessage[] {
+    const messages: AppServerMessage[] = [];
+
+    // Auto-fire all cannons that are off cooldown
+    const now = this.context.now();
+    for (const block of this.gameState.blocks.values()) {
+      if (block.blockType === 'cannon') {
+        const fireResult = this.gameState.fireCannonAuto(block.id, now);
+        if (fireResult.projectile) {
+          this.gameState = fireResult.state;
+          messages.push({
+            type: 'projectile_spawned',
+            projectile: {
+              id: fireResult.projectile.id,
+              position: fireResult.projectile.position,
+              velocity: fireResult.projectile.velocity,
+              ownerId: fireResult.projectile.ownerId,
+              color: fireResult.projectile.color,
+            },
+          });
+        }
+      }
+    }
+
+    // Update projectiles (positions reach clients via getReplicatedState)
+    const result = this.gameState.updateProjectiles(deltaTime);
+    this.gameState = result.state;
+
+    for (const projectileId of result.destroyedProjectileIds) {
+      messages.push({ type: 'projectile_destroyed', projectileId });
+    }
+
+    for (const destroyed of result.destroyedBlocks) {
+      messages.push({
+        type: 'block_destroyed',
+        blockId: destroyed.blockId,
+        position: destroyed.position,
+        color: destroyed.color,
+      });
+    }
+
+    for (const hit of result.wallHits) {
+      messages.push({
+        type: 'wall_hit',
+        position: hit.position,
+        wallSide: hit.wallSide,
+      });
+    }
+
+    return messages;
+  }
+
+  getReplicatedState(): ReplicatedState {
+    return toReplicatedState(this.gameState.projectiles.values());
+  }
+
+  checkSessionEnd(): {
+    winnerId: ParticipantId;
+    winnerNumber: ParticipantNumber;
+    appData?: BlocksSessionEndedData;
+  } | null {
+    if (this.gameState.gamePhase !== 'playing') return null;
+
+    for (const player of this.gameState.players.values()) {
+      const playerBlocks = Array.from(this.gameState.blocks.values()).filter(
+        (b) => b.ownerId === player.id && b.blockType !== 'cannon'
+      );
+
+      if (playerBlocks.length === 0) {
+        const winner = Array.from(this.gameState.players.values()).find((p) => p.id !== player.id);
+        if (winner) {
+          this.gameState = this.gameState.setGamePhase('finished');
+          return {
+            winnerId: winner.id,
+            winnerNumber: winner.number,
+            appData: { appReason: 'blocks_destroyed' },
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private getSnapshot(): BlocksWelcomeData {
+    return {
+      blocks: this.getBlocksArray(),
+      projectiles: this.getProjectilesArray(),
+      room: DEFAULT_ROOM,
+      cameraDistance: CAMERA_DISTANCE,
+      wallGrid: WALL_GRID_CONFIG,
+      projectileSize: PROJECTILE_SIZE,
+      gamePhase: this.gameState.gamePhase,
+    };
+  }
+
+  private getBlocksArray() {
+    return Array.from(this.gameState.blocks.values()).map((block) => ({
+      id: block.id,
+      position: block.position,
+      color: block.color,
+      ownerId: block.ownerId,
+      blockType: block.blockType,
+    }));
+  }
+
+  private getProjectilesArray() {
+    return Array.from(this.gameState.projectiles.values()).map((p) => ({
+      id: p.id,
+      position: p.position,
+      velocity: p.velocity,
+      ownerId: p.ownerId,
+      color: p.color,
+    }));
+  }
+
+  private getPlayerBlocksArray(playerId: string) {
+    return this.getBlocksArray().filter((b) => b.ownerId === playerId);
+  }
+}
+
+/**
+ * Create the hooks for a new Blocks & Cannons session.
+ */
+export function createBlocksCannonsHooks(context: SessionContext): BlocksCannonsHooks {
+  return new BlocksCannonsHooks(GameState.create(), context);
+}
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Blocks & Cannons multi-room host: many matches in one process.
+ *
+ * Serves a match per path (`ws://host:3001/ws/<sessionId>`), creating it on
+ * the first connection. Idle matches close on their own while the host
+ * keeps running, so no container per match is needed.
+ */
+
+import { logger } from '@gesture-app/framework-logging';
+import { createSessionHost } from '@gesture-app/framework-server';
+import { WebSocketServer } from 'ws';
+import {
+  type ServerMessage as AppServerMessage,
+  type BlocksOpponentJoinedData,
+  type BlocksResetData,
+  type BlocksSessionEndedData,
+  type BlocksWelcomeData,
+  type ClientMessage,
+  parseClientMessage,
+} from '../shared/protocol.js';
+import { INACTIVITY_CHECK_INTERVAL_MS, INACTIVITY_TIMEOUT_MS } from './game/types.js';
+import { createBlocksCannonsHooks, RUNTIME_CONFIG } from './hooks.js';
+
+// ============ Host Setup ============
+
+logger.info('Starting Blocks & Cannons session host...');
+
+createSessionHost<
+  ClientMessage,
+  AppServerMessage,
+  BlocksWelcomeData,
+  BlocksResetData,
+  BlocksOpponentJoinedData,
+  BlocksSessionEndedData,
+  BlocksWelcomeData
+>(
+  {
+    runtimeConfig: RUNTIME_CONFIG,
+    // Every match gets its own game state and seeded context
+    hooks: createBlocksCannonsHooks,
+    parser: (data: string) => parseClientMessage(JSON.parse(data) as unknown),
+    validator: parseClientMessage,
+    inactivity: {
+      enabled: true,
+      timeoutMs: INACTIVITY_TIMEOUT_MS,
+      checkIntervalMs: INACTIVITY_CHECK_INTERVAL_MS,
+    },
+  },
+  WebSocketServer
+);
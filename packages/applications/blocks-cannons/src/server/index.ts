@@ -35,7 +35,6 @@ export * from './bot/BotMovement.js';
 export type { GameConfigYaml } from './config/gameConfig.js';
 export { clearConfigCache, loadGameConfig } from './config/gameConfig.js';
 export * from './game/index.js';
-export { logger } from './utils/logger.js';
 
 // Note: InactivityMonitor has been moved to @gesture-app/framework-server
 // and is now automatically integrated via createAppServer
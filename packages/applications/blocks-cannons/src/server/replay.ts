@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Replays a recorded Blocks & Cannons session.
+ *
+ * Usage: npm run replay -- <recording.ndjson>
+ *
+ * Record a session by starting the server with SESSION_RECORDING_PATH set.
+ * Exits with status 1 if the replay does not reproduce the recorded outputs.
+ */
+
+import { readFileSync } from 'node:fs';
+import { logger } from '@gesture-app/framework-logging';
+import { replaySession } from '@gesture-app/framework-server';
+import {
+  type ServerMessage as AppServerMessage,
+  type BlocksOpponentJoinedData,
+  type BlocksResetData,
+  type BlocksSessionEndedData,
+  type BlocksWelcomeData,
+  type ClientMessage,
+  parseClientMessage,
+} from '../shared/protocol.js';
+import { createBlocksCannonsHooks } from './hooks.js';
+
+const recordingPath = process.argv[2];
+if (!recordingPath) {
+  logger.error('Usage: npm run replay -- <recording.ndjson>');
+  process.exit(2);
+}
+
+const result = replaySession<
+  ClientMessage,
+  AppServerMessage,
+  BlocksWelcomeData,
+  BlocksResetData,
+  BlocksOpponentJoinedData,
+  BlocksSessionEndedData,
+  BlocksWelcomeData
+>(readFileSync(recordingPath, 'utf8'), {
+  hooks: createBlocksCannonsHooks,
+  parser: (data: string) => parseClientMessage(JSON.parse(data) as unknown),
+  validator: parseClientMessage,
+});
+
+if (result.ok) {
+  logger.info('Replay matches the recording', { outputs: result.outputs.length });
+} else {
+  logger.error('Replay diverged from the recording', {
+    mismatches: result.mismatches.length,
+    first: result.mismatches[0],
+  });
+  process.exit(1);
+}
@@ -1,4 +0,0 @@
-export { logger } from './logger.js';
-
-// Note: InactivityMonitor has been moved to @gesture-app/framework-server
-// and is now automatically integrated via createAppServer
@@ -50,13 +50,18 @@ export {
   ProjectileDestroyedMessage,
   ProjectileSchema,
   ProjectileSpawnedMessage,
-  ProjectilesUpdateMessage,
   parseClientMessage,
   RoomBoundsSchema,
   serializeServerMessage,
   WallGridConfigSchema,
   WallHitMessage,
 } from './protocol.js';
+// Replication
+export {
+  PROJECTILES_COLLECTION,
+  projectilesFromState,
+  toReplicatedState,
+} from './replication.js';
 // Types
 export type {
   Block,
@@ -3,6 +3,7 @@
  * Uses Zod for runtime validation of incoming messages.
  */
 
+import { ReplicatedStateSchema, StateDeltaSchema } from '@gesture-app/framework-protocol';
 import { z } from 'zod';
 
 // ============ Shared Schemas ============
@@ -163,14 +164,6 @@ export const ProjectileSpawnedMessage = z.object({
   projectile: ProjectileSchema,
 });
 
-/**
- * Batch update of projectile positions.
- */
-export const ProjectilesUpdateMessage = z.object({
-  type: z.literal('projectiles_update'),
-  projectiles: z.array(ProjectileSchema),
-});
-
 /**
  * Notification that a projectile was destroyed.
  */
@@ -238,6 +231,8 @@ export const FrameworkWelcomeMessage = z.object({
   participantId: z.string(),
   participantNumber: z.union([z.literal(1), z.literal(2)]),
   sessionPhase: z.string(),
+  resumeToken: z.string().optional(),
+  resumed: z.boolean().optional(),
   appData: BlocksWelcomeDataSchema.optional(),
 });
 
@@ -256,6 +251,36 @@ export const FrameworkOpponentLeftMessage = z.object({
   type: z.literal('opponent_left'),
 });
 
+/**
+ * Framework opponent disconnected message (opponent may still resume).
+ */
+export const FrameworkOpponentDisconnectedMessage = z.object({
+  type: z.literal('opponent_disconnected'),
+  gracePeriodMs: z.number(),
+});
+
+/**
+ * Framework opponent reconnected message.
+ */
+export const FrameworkOpponentReconnectedMessage = z.object({
+  type: z.literal('opponent_reconnected'),
+});
+
+/**
+ * Framework countdown tick before the session starts.
+ */
+export const FrameworkCountdownMessage = z.object({
+  type: z.literal('countdown'),
+  secondsRemaining: z.number(),
+});
+
+/**
+ * Framework countdown cancelled message.
+ */
+export const FrameworkCountdownCancelledMessage = z.object({
+  type: z.literal('countdown_cancelled'),
+});
+
 /**
  * Framework session started message.
  */
@@ -263,6 +288,21 @@ export const FrameworkSessionStartedMessage = z.object({
   type: z.literal('session_started'),
 });
 
+/**
+ * Framework session paused message.
+ */
+export const FrameworkSessionPausedMessage = z.object({
+  type: z.literal('session_paused'),
+  pausedBy: z.string(),
+});
+
+/**
+ * Framework session resumed message.
+ */
+export const FrameworkSessionResumedMessage = z.object({
+  type: z.literal('session_resumed'),
+});
+
 /**
  * Framework session ended message.
  */
@@ -291,6 +331,38 @@ export const FrameworkSessionResetMessage = z.object({
   appData: BlocksResetDataSchema.optional(),
 });
 
+/**
+ * Framework replicated state keyframe (projectiles).
+ */
+export const FrameworkStateKeyframeMessage = z.object({
+  type: z.literal('state_keyframe'),
+  seq: z.number(),
+  tick: z.number(),
+  serverTime: z.number(),
+  state: ReplicatedStateSchema,
+});
+
+/**
+ * Framework replicated state delta (projectiles).
+ */
+export const FrameworkStateDeltaMessage = z.object({
+  type: z.literal('state_delta'),
+  seq: z.number(),
+  baseSeq: z.number(),
+  tick: z.number(),
+  serverTime: z.number(),
+  changes: StateDeltaSchema,
+});
+
+/**
+ * Framework clock sync answer.
+ */
+export const FrameworkClockPongMessage = z.object({
+  type: z.literal('clock_pong'),
+  clientTime: z.number(),
+  serverTime: z.number(),
+});
+
 /**
  * Union of all valid server-to-client messages (app + framework).
  */
@@ -299,16 +371,24 @@ export const ServerMessage = z.discriminatedUnion('type', [
   FrameworkWelcomeMessage,
   FrameworkOpponentJoinedMessage,
   FrameworkOpponentLeftMessage,
+  FrameworkOpponentDisconnectedMessage,
+  FrameworkOpponentReconnectedMessage,
+  FrameworkCountdownMessage,
+  FrameworkCountdownCancelledMessage,
   FrameworkSessionStartedMessage,
+  FrameworkSessionPausedMessage,
+  FrameworkSessionResumedMessage,
   FrameworkSessionEndedMessage,
   FrameworkPlayAgainStatusMessage,
   FrameworkSessionResetMessage,
+  FrameworkStateKeyframeMessage,
+  FrameworkStateDeltaMessage,
+  FrameworkClockPongMessage,
   // App-specific messages
   BlockGrabbedMessage,
   BlockMovedMessage,
   BlockReleasedMessage,
   ProjectileSpawnedMessage,
-  ProjectilesUpdateMessage,
   ProjectileDestroyedMessage,
   BlockDestroyedMessage,
   WallHitMessage,
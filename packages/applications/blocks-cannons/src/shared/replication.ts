@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Replicated state layout for Blocks & Cannons.
+ *
+ * Projectiles are replicated through the framework's keyframes and deltas,
+ * so each tick only carries the positions that moved instead of the full
+ * projectile list.
+ */
+
+import type { ReplicatedState } from '@gesture-app/framework-protocol';
+import { ProjectileSchema } from './protocol.js';
+import type { Projectile } from './types.js';
+
+/**
+ * Name of the replicated projectile collection.
+ */
+export const PROJECTILES_COLLECTION = 'projectiles';
+
+/**
+ * Build the replicated state from the server's projectiles.
+ */
+export function toReplicatedState(projectiles: Iterable<Projectile>): ReplicatedState {
+  const collection: Record<string, Omit<Projectile, 'id'>> = {};
+  for (const { id, position, velocity, ownerId, color } of projectiles) {
+    collection[id] = { position, velocity, ownerId, color };
+  }
+  return { [PROJECTILES_COLLECTION]: collection };
+}
+
+/**
+ * Read the projectiles back from a reconstructed replicated state.
+ * Entities that do not form a valid projectile are skipped.
+ */
+export function projectilesFromState(state: ReplicatedState): Projectile[] {
+  const projectiles: Projectile[] = [];
+  for (const [id, fields] of Object.entries(state[PROJECTILES_COLLECTION] ?? {})) {
+    const result = ProjectileSchema.safeParse({ ...fields, id });
+    if (result.success) {
+      projectiles.push(result.data);
+    }
+  }
+  return projectiles;
+}
@@ -7,7 +7,7 @@ import {
   isCannonReady,
   setCannonCooldown,
 } from '../../src/server/game/CannonSystem.js';
-import type { Block, Player } from '../../src/server/game/types.js';
+import { type Block, CANNON_COOLDOWN_MS, type Player } from '../../src/server/game/types.js';
 
 describe('CannonSystem', () => {
   const createCannon = (overrides: Partial<Block> = {}): Block => ({
@@ -165,5 +165,18 @@ describe('CannonSystem', () => {
 
       expect(result.projectile).toBeNull();
     });
+
+    it('should check the cooldown against the given time', () => {
+      const players = new Map([['player-1', createPlayer()]]);
+      const blocks = new Map([['cannon-1', createCannon()]]);
+      const cooldowns = new Map([['cannon-1', 5000]]);
+
+      const early = fireCannonAuto('cannon-1', blocks, players, cooldowns, 1, 4999);
+      const ready = fireCannonAuto('cannon-1', blocks, players, cooldowns, 1, 5000);
+
+      expect(early.projectile).toBeNull();
+      expect(ready.projectile).not.toBeNull();
+      expect(ready.cooldowns.get('cannon-1')).toBe(5000 + CANNON_COOLDOWN_MS);
+    });
   });
 });
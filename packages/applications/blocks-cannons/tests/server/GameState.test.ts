@@ -59,6 +59,21 @@ describe('GameState', () => {
         expect(block.ownerId).toBe('player-1');
       }
     });
+
+    it('should place blocks from the given random source', () => {
+      const createRandom = () => {
+        let value = 0.1;
+        return () => {
+          value = (value * 9301 + 0.49297) % 1;
+          return value;
+        };
+      };
+
+      const a = GameState.create().addPlayer('player-1', 1, createRandom());
+      const b = GameState.create().addPlayer('player-1', 1, createRandom());
+
+      expect(a.getBlocksArray()).toEqual(b.getBlocksArray());
+    });
   });
 
   describe('removePlayer', () => {
@@ -515,6 +530,15 @@ describe('GameState', () => {
       expect(newState.projectiles.size).toBe(0);
     });
 
+    it('should place fresh blocks from the given random source', () => {
+      const state = GameState.create().addPlayer('player-1', 1).addPlayer('player-2', 2);
+
+      const a = state.resetForNewRound(() => 0.25);
+      const b = state.resetForNewRound(() => 0.25);
+
+      expect(a.getBlocksArray()).toEqual(b.getBlocksArray());
+    });
+
     it('should create fresh blocks for all players', () => {
       const state = GameState.create()
         .addPlayer('player-1', 1)
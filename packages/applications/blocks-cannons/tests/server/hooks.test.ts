@@ -0,0 +1,105 @@
+import {
+  type Connection,
+  createSeededRandom,
+  EventClock,
+  replaySession,
+  SessionRecorder,
+  SessionRuntime,
+  SYSTEM_SCHEDULER,
+} from '@gesture-app/framework-server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBlocksCannonsHooks, RUNTIME_CONFIG } from '../../src/server/hooks.js';
+import { type ClientMessage, parseClientMessage } from '../../src/shared/protocol.js';
+
+function createMockConnection(): Connection {
+  return { readyState: 1, OPEN: 1, send: () => {}, close: () => {} };
+}
+
+function parseData(data: string): ClientMessage | null {
+  return parseClientMessage(JSON.parse(data) as unknown);
+}
+
+/**
+ * Play a short match through a recording runtime, the way createAppServer does.
+ */
+function recordMatch(seed: number): string {
+  const lines: string[] = [];
+  const clock = new EventClock();
+  const recorder = new SessionRecorder((line) => lines.push(line), clock.now);
+  recorder.start(seed, RUNTIME_CONFIG);
+
+  const hooks = createBlocksCannonsHooks({ random: createSeededRandom(seed), now: clock.now });
+  const runtime = new SessionRuntime(
+    RUNTIME_CONFIG,
+    hooks,
+    (message) => JSON.stringify(message),
+    parseData,
+    parseClientMessage,
+    {
+      now: clock.now,
+      scheduler: recorder.wrapScheduler(clock.wrapScheduler(SYSTEM_SCHEDULER)),
+      generateResumeToken: recorder.wrapResumeTokens(() => 'token'),
+      observer: recorder.observer,
+    }
+  );
+
+  const connect = () => {
+    const conn = createMockConnection();
+    clock.advance();
+    recorder.recordConnection(conn, 'participant');
+    runtime.handleConnection(conn);
+    return conn;
+  };
+  const send = (conn: Connection, message: object) => {
+    const data = JSON.stringify(message);
+    clock.advance();
+    recorder.recordMessage(conn, data);
+    runtime.handleMessage(conn, data);
+  };
+
+  const conn1 = connect();
+  const conn2 = connect();
+  send(conn1, { type: 'participant_ready' });
+  send(conn2, { type: 'participant_ready' });
+  vi.advanceTimersByTime((RUNTIME_CONFIG.countdownSeconds ?? 0) * 1000 + 500);
+
+  const player1 = runtime.getAllParticipants().find((p) => p.number === 1);
+  if (!player1) throw new Error('Player 1 not found');
+  send(conn1, { type: 'cannon_fire', cannonId: `${player1.id}-cannon` });
+  vi.advanceTimersByTime(1000);
+
+  runtime.stop();
+  return lines.join('\n');
+}
+
+describe('BlocksCannonsHooks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should replay a recorded match identically', () => {
+    const recording = recordMatch(1234);
+
+    const result = replaySession(recording, {
+      hooks: createBlocksCannonsHooks,
+      parser: parseData,
+      validator: parseClientMessage,
+    });
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.outputs.some((output) => output.kind === 'tick')).toBe(true);
+  });
+
+  it('should place blocks from the session seed', () => {
+    const welcome = (recording: string) =>
+      recording.split('\n').find((line) => line.includes('"type":"welcome"'));
+
+    expect(welcome(recordMatch(1))).toBe(welcome(recordMatch(1)));
+    expect(welcome(recordMatch(1))).not.toBe(welcome(recordMatch(2)));
+  });
+});
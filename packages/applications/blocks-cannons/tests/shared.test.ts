@@ -1,3 +1,4 @@
+import { applyStateDelta, diffReplicatedState } from '@gesture-app/framework-protocol';
 import { describe, expect, it } from 'vitest';
 import {
   // Constants
@@ -21,11 +22,14 @@ import {
   type PlayerNumber,
   type Position,
   PositionSchema,
+  PROJECTILES_COLLECTION,
   type Projectile,
   parseClientMessage,
+  projectilesFromState,
   type RoomBounds,
   type ServerMessage,
   serializeServerMessage,
+  toReplicatedState,
 } from '../src/shared/index.js';
 
 describe('blocks-cannons/shared', () => {
@@ -191,4 +195,36 @@ describe('blocks-cannons/shared', () => {
       expect(json).toBe('{"type":"block_grabbed","playerId":"p1","blockId":"b1"}');
     });
   });
+
+  describe('replication', () => {
+    const projectile: Projectile = {
+      id: 'proj-1',
+      position: { x: 0, y: 1, z: 2 },
+      velocity: { x: 0, y: 0, z: 10 },
+      ownerId: 'player-1',
+      color: 0xff0000,
+    };
+
+    it('should round-trip projectiles through the replicated state', () => {
+      const state = toReplicatedState([projectile]);
+      expect(Object.keys(state[PROJECTILES_COLLECTION] ?? {})).toEqual(['proj-1']);
+      expect(projectilesFromState(state)).toEqual([projectile]);
+    });
+
+    it('should only send moved positions between ticks', () => {
+      const before = toReplicatedState([projectile]);
+      const after = toReplicatedState([{ ...projectile, position: { x: 0, y: 1, z: 2.5 } }]);
+
+      const delta = diffReplicatedState(before, after);
+      expect(delta).toEqual({
+        [PROJECTILES_COLLECTION]: { updated: { 'proj-1': { position: { x: 0, y: 1, z: 2.5 } } } },
+      });
+      expect(projectilesFromState(applyStateDelta(before, delta ?? {}))[0]?.position.z).toBe(2.5);
+    });
+
+    it('should skip malformed entities', () => {
+      expect(projectilesFromState({ [PROJECTILES_COLLECTION]: { bad: { color: 1 } } })).toEqual([]);
+      expect(projectilesFromState({})).toEqual([]);
+    });
+  });
 });
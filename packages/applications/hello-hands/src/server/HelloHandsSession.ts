@@ -5,17 +5,20 @@
  * Participants can see each other's hand positions and wave to each other.
  */
 
+import { logger } from '@gesture-app/framework-logging';
 import type {
   ParticipantId,
   ParticipantNumber,
   SessionPhase,
 } from '@gesture-app/framework-protocol';
-import type {
-  AppHooks,
-  MessageResponse,
-  Participant,
-  SessionRuntimeConfig,
+import {
+  type AppHooks,
+  type MessageResponse,
+  type Participant,
+  type SessionRuntimeConfig,
+  withPlayerLimits,
 } from '@gesture-app/framework-server';
+import { APP_MANIFEST } from '../index.js';
 import type {
   ClientMessage,
   HandState,
@@ -215,7 +218,7 @@ export class HelloHandsHooks
 
   onSessionStart(): void {
     // Nothing special needed for hello-hands
-    console.log('[HelloHands] Session started!');
+    logger.info('Session started');
   }
 
   onReset(): HelloHandsResetData {
@@ -228,15 +231,18 @@ export class HelloHandsHooks
 }
 
 /**
- * Create a runtime configuration for Hello Hands.
+ * Create a runtime configuration for Hello Hands, seating the players its manifest declares.
  * No tick loop needed - we just relay hand updates.
  */
 export function createHelloHandsConfig(): SessionRuntimeConfig {
-  return {
-    maxParticipants: 2,
-    tickEnabled: false,
-    tickIntervalMs: 16,
-  };
+  return withPlayerLimits(
+    {
+      maxParticipants: 2,
+      tickEnabled: false,
+      tickIntervalMs: 16,
+    },
+    APP_MANIFEST
+  );
 }
 
 /**
@@ -6,6 +6,7 @@
  * container cleanup when idle.
  */
 
+import { logger } from '@gesture-app/framework-logging';
 import { createAppServer } from '@gesture-app/framework-server';
 import { WebSocketServer } from 'ws';
 import type {
@@ -16,12 +17,6 @@ import type {
 } from '../shared/protocol.js';
 import { createHelloHandsConfig, HelloHandsHooks, parseMessage } from './HelloHandsSession.js';
 
-const logger = {
-  info: (msg: string, data?: object) => console.log(`[HelloHands] ${msg}`, data ?? ''),
-  error: (msg: string, data?: object) => console.error(`[HelloHands] ${msg}`, data ?? ''),
-  debug: (msg: string, data?: object) => console.log(`[HelloHands] DEBUG: ${msg}`, data ?? ''),
-};
-
 logger.info('Starting server...');
 
 // Create the session runtime with built-in inactivity monitoring
@@ -30,11 +25,12 @@ const config = createHelloHandsConfig();
 
 createAppServer<ClientMessage, ServerMessage, HelloHandsWelcomeData, HelloHandsResetData>(
   {
-    port: 8080, // Default port for hello-hands
+    // Default port for hello-hands; PORT overrides it (e.g. when spawned by the lobby)
+    // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+    port: Number(process.env['PORT']) || 8080,
     runtimeConfig: config,
     hooks,
     parser: parseMessage,
-    logger,
     // Inactivity monitoring with hand_update messages ignored
     // (continuous hand tracking shouldn't reset the activity timer)
     inactivity: {
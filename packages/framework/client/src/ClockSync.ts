@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Server clock estimation from ping/pong round trips.
+ *
+ * Handles:
+ * - Round-trip time and jitter statistics over a sliding window
+ * - Offset between the local and the server clock
+ * - Server time estimates for aligning tick-stamped messages
+ *
+ * Each sample assumes the server answered halfway through the round trip.
+ * The offset is taken from the sample with the shortest round trip, since
+ * it was delayed least by queueing and is therefore the most accurate.
+ */
+
+/**
+ * Clock synchronization statistics.
+ */
+export interface ClockSyncStats {
+  /** Mean round-trip time over the window, in milliseconds */
+  readonly rttMs: number;
+  /** Mean change in round-trip time between consecutive samples, in milliseconds */
+  readonly jitterMs: number;
+  /** Estimated server clock minus local clock, in milliseconds */
+  readonly offsetMs: number;
+  /** Samples in the window */
+  readonly sampleCount: number;
+}
+
+/**
+ * Clock sync configuration.
+ */
+export interface ClockSyncConfig {
+  /** Round trips kept for the statistics */
+  maxSamples?: number;
+  /** Local clock in epoch milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Default clock sync configuration.
+ */
+export const DEFAULT_CLOCK_SYNC_CONFIG: Required<Omit<ClockSyncConfig, 'now'>> = {
+  maxSamples: 8,
+};
+
+interface ClockSample {
+  readonly rttMs: number;
+  readonly offsetMs: number;
+}
+
+/**
+ * Estimates the server clock from `clock_ping`/`clock_pong` round trips.
+ *
+ * @example
+ * ```typescript
+ * const clock = new ClockSync();
+ *
+ * // Send a ping
+ * send({ type: 'clock_ping', clientTime: clock.now() });
+ *
+ * // On the pong
+ * clock.addSample(pong.clientTime, pong.serverTime);
+ *
+ * // How long ago (server time) a tick-stamped message was produced
+ * const age = clock.getServerTime() - message.serverTime;
+ * ```
+ */
+export class ClockSync {
+  private readonly samples: ClockSample[] = [];
+  private readonly maxSamples: number;
+  /** Local clock; stamp pings with it so samples compare like with like */
+  readonly now: () => number;
+
+  constructor(config: ClockSyncConfig = {}) {
+    this.maxSamples = config.maxSamples ?? DEFAULT_CLOCK_SYNC_CONFIG.maxSamples;
+    this.now = config.now ?? (() => Date.now());
+  }
+
+  /**
+   * Record a completed round trip.
+   * @param clientTime - Local time the ping was sent (echoed by the server)
+   * @param serverTime - Server time the ping was answered
+   * @param receivedAt - Local time the pong arrived (default: now)
+   * @returns Updated statistics, or null if the sample was discarded
+   */
+  addSample(
+    clientTime: number,
+    serverTime: number,
+    receivedAt = this.now()
+  ): ClockSyncStats | null {
+    const rttMs = receivedAt - clientTime;
+    // A pong from before a local clock jump cannot be trusted
+    if (rttMs < 0) return null;
+
+    this.samples.push({ rttMs, offsetMs: serverTime + rttMs / 2 - receivedAt });
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+    return this.getStats();
+  }
+
+  /**
+   * Estimate the server clock.
+   * Equals the local clock until the first sample arrived.
+   */
+  getServerTime(localTime = this.now()): number {
+    return localTime + this.getOffset();
+  }
+
+  /**
+   * Get statistics over the current window, or null without samples.
+   */
+  getStats(): ClockSyncStats | null {
+    if (this.samples.length === 0) return null;
+
+    const rttTotal = this.samples.reduce((sum, sample) => sum + sample.rttMs, 0);
+    let variation = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      variation += Math.abs((this.samples[i]?.rttMs ?? 0) - (this.samples[i - 1]?.rttMs ?? 0));
+    }
+
+    return {
+      rttMs: rttTotal / this.samples.length,
+      jitterMs: this.samples.length > 1 ? variation / (this.samples.length - 1) : 0,
+      offsetMs: this.getOffset(),
+      sampleCount: this.samples.length,
+    };
+  }
+
+  /**
+   * Forget all samples (e.g., after connecting to a different server).
+   */
+  reset(): void {
+    this.samples.length = 0;
+  }
+
+  private getOffset(): number {
+    let best: ClockSample | undefined;
+    for (const sample of this.samples) {
+      if (!best || sample.rttMs < best.rttMs) best = sample;
+    }
+    return best?.offsetMs ?? 0;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Detection of a hand that stayed out of view for too long.
+ *
+ * Handles:
+ * - Timing how long no hand has been tracked
+ * - Firing once per loss that outlasts the delay
+ * - Stopping the clock when the hand returns or play stops
+ *
+ * Used by SessionClient for `handLossPauseMs`; apps with their own socket
+ * client feed it hand presence directly.
+ */
+
+/**
+ * How long a hand may be out of view while playing before the game pauses.
+ */
+export const DEFAULT_HAND_LOSS_PAUSE_MS = 5000;
+
+/**
+ * Calls back once the hand has been gone for the configured delay.
+ */
+export class HandLossMonitor {
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param onHandLost - Called once per loss lasting delayMs
+   * @param delayMs - How long the hand may be gone, in milliseconds
+   */
+  constructor(
+    private readonly onHandLost: () => void,
+    private readonly delayMs = DEFAULT_HAND_LOSS_PAUSE_MS
+  ) {}
+
+  /**
+   * Report whether a hand is currently tracked.
+   * The first report of a missing hand starts the clock; a tracked hand stops it.
+   */
+  report(present: boolean): void {
+    if (present) {
+      this.cancel();
+      return;
+    }
+    if (this.timeout) return;
+
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.onHandLost();
+    }, this.delayMs);
+  }
+
+  /**
+   * Stop timing a loss (e.g., when play pauses or ends).
+   */
+  cancel(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Interpolation buffer for server-authoritative entities.
+ *
+ * Handles:
+ * - Timestamped position snapshots per entity
+ * - Rendering a configurable delay behind the newest snapshot, so motion
+ *   can be interpolated between two known positions
+ * - Velocity-based extrapolation when snapshots arrive late
+ *
+ * Positions from the server arrive unevenly; setting them directly makes
+ * motion stutter. Instead, push every received position and sample the
+ * buffer once per rendered frame.
+ */
+
+/**
+ * Position or velocity in 3D space.
+ */
+export interface Vector3Like {
+  readonly x: number;
+  readonly y: number;
+  readonly z: number;
+}
+
+/**
+ * Interpolation buffer configuration.
+ */
+export interface InterpolationBufferConfig {
+  /** How far behind the clock entities are rendered, in milliseconds */
+  renderDelayMs?: number;
+  /** Longest time to extrapolate past the newest snapshot, in milliseconds */
+  maxExtrapolationMs?: number;
+  /** Snapshots kept per entity */
+  maxSnapshots?: number;
+  /** Clock in milliseconds (default: performance.now) */
+  now?: () => number;
+}
+
+/**
+ * Default interpolation buffer configuration.
+ */
+export const DEFAULT_INTERPOLATION_CONFIG: Required<Omit<InterpolationBufferConfig, 'now'>> = {
+  renderDelayMs: 100,
+  maxExtrapolationMs: 250,
+  maxSnapshots: 20,
+};
+
+interface Snapshot {
+  readonly time: number;
+  readonly position: Vector3Like;
+  /** Units per second, if known */
+  readonly velocity: Vector3Like | undefined;
+}
+
+/**
+ * Buffers timestamped positions per entity and yields smoothed positions.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new InterpolationBuffer({ renderDelayMs: 100 });
+ *
+ * // On every server update
+ * buffer.push(projectile.id, projectile.position, projectile.velocity);
+ *
+ * // On every frame
+ * const position = buffer.sample(projectile.id);
+ * if (position) mesh.position.set(position.x, position.y, position.z);
+ * ```
+ */
+export class InterpolationBuffer {
+  private readonly snapshots = new Map<string, Snapshot[]>();
+  private readonly renderDelayMs: number;
+  private readonly maxExtrapolationMs: number;
+  private readonly maxSnapshots: number;
+  private readonly now: () => number;
+
+  constructor(config: InterpolationBufferConfig = {}) {
+    const resolved = { ...DEFAULT_INTERPOLATION_CONFIG, ...config };
+    this.renderDelayMs = resolved.renderDelayMs;
+    this.maxExtrapolationMs = resolved.maxExtrapolationMs;
+    this.maxSnapshots = resolved.maxSnapshots;
+    this.now = config.now ?? (() => performance.now());
+  }
+
+  /**
+   * Record a position received from the server.
+   * @param velocity - Units per second; enables extrapolation when updates are late
+   * @param time - Timestamp of the snapshot (default: now)
+   */
+  push(entityId: string, position: Vector3Like, velocity?: Vector3Like, time = this.now()): void {
+    let entitySnapshots = this.snapshots.get(entityId);
+    if (!entitySnapshots) {
+      entitySnapshots = [];
+      this.snapshots.set(entityId, entitySnapshots);
+    }
+
+    const snapshot: Snapshot = { time, position: { ...position }, velocity };
+
+    // Keep snapshots ordered even if timestamps arrive out of order
+    let index = entitySnapshots.length;
+    while (index > 0 && (entitySnapshots[index - 1]?.time ?? 0) > time) {
+      index--;
+    }
+    entitySnapshots.splice(index, 0, snapshot);
+
+    if (entitySnapshots.length > this.maxSnapshots) {
+      entitySnapshots.splice(0, entitySnapshots.length - this.maxSnapshots);
+    }
+  }
+
+  /**
+   * Get the position to render for an entity.
+   * @param time - Current time (default: now); the buffer renders
+   *   `renderDelayMs` behind it
+   * @returns The smoothed position, or null if the entity is unknown
+   */
+  sample(entityId: string, time = this.now()): Vector3Like | null {
+    const entitySnapshots = this.snapshots.get(entityId);
+    const first = entitySnapshots?.[0];
+    if (!entitySnapshots || !first) return null;
+
+    const renderTime = time - this.renderDelayMs;
+
+    if (renderTime <= first.time) {
+      return first.position;
+    }
+
+    // Interpolate between the two snapshots around the render time
+    for (let i = 1; i < entitySnapshots.length; i++) {
+      const to = entitySnapshots[i];
+      const from = entitySnapshots[i - 1];
+      if (!to || !from || renderTime > to.time) continue;
+
+      // Older snapshots are no longer needed
+      if (i > 1) entitySnapshots.splice(0, i - 1);
+
+      const span = to.time - from.time;
+      const t = span > 0 ? (renderTime - from.time) / span : 1;
+      return lerp(from.position, to.position, t);
+    }
+
+    // Past the newest snapshot: extrapolate if the velocity is known
+    const last = entitySnapshots[entitySnapshots.length - 1] ?? first;
+    if (entitySnapshots.length > 1) entitySnapshots.splice(0, entitySnapshots.length - 1);
+    if (!last.velocity) return last.position;
+
+    const seconds = Math.min(renderTime - last.time, this.maxExtrapolationMs) / 1000;
+    return {
+      x: last.position.x + last.velocity.x * seconds,
+      y: last.position.y + last.velocity.y * seconds,
+      z: last.position.z + last.velocity.z * seconds,
+    };
+  }
+
+  /**
+   * Check whether any snapshot is buffered for an entity.
+   */
+  has(entityId: string): boolean {
+    return this.snapshots.has(entityId);
+  }
+
+  /**
+   * IDs of all buffered entities.
+   */
+  entityIds(): IterableIterator<string> {
+    return this.snapshots.keys();
+  }
+
+  /**
+   * Forget an entity (e.g., it was destroyed).
+   */
+  remove(entityId: string): void {
+    this.snapshots.delete(entityId);
+  }
+
+  /**
+   * Forget all entities.
+   */
+  clear(): void {
+    this.snapshots.clear();
+  }
+}
+
+function lerp(from: Vector3Like, to: Vector3Like, t: number): Vector3Like {
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    z: from.z + (to.z - from.z) * t,
+  };
+}
@@ -3,18 +3,40 @@
  *
  * Handles:
  * - WebSocket connection management
- * - Session lifecycle (waiting → playing → finished)
+ * - Session lifecycle (waiting → playing ⇄ paused → finished)
  * - Ready-state signaling
  * - Play-again voting coordination
  * - Message routing to app handlers
+ * - Read-only spectator mode
+ * - Session resumption after connection loss
+ * - Wire codec negotiation (JSON or MessagePack)
+ * - Replicated state reconstruction from keyframes and deltas
+ * - Server clock synchronization (ping/pong) and tick tracking
  */
 
-import type {
-  ParticipantId,
-  ParticipantNumber,
-  SessionEndedReason,
-  SessionPhase,
+import {
+  applyStateDelta,
+  type CodecName,
+  type ConnectionRole,
+  getCodecForFrame,
+  JSON_CODEC,
+  type MessageCodec,
+  type ParticipantId,
+  type ParticipantNumber,
+  type ReplicatedState,
+  type ResumeToken,
+  type SessionEndedReason,
+  type SessionPhase,
+  type SpectatorId,
+  type StateDelta,
+  type TeamId,
+  type WireData,
+  withCodec,
+  withConnectionRole,
+  withResumeToken,
 } from '@gesture-app/framework-protocol';
+import { ClockSync, type ClockSyncStats } from './ClockSync.js';
+import { HandLossMonitor } from './HandLossMonitor.js';
 
 /**
  * Connection state for the session client.
@@ -23,14 +45,31 @@ export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'err
 
 /**
  * Welcome data received from the server.
+ * Clients of sessions with more than two participants pass `number` as
+ * `TParticipantNumber`.
  */
-export interface SessionWelcomeData<TAppData = unknown> {
+export interface SessionWelcomeData<
+  TAppData = unknown,
+  TParticipantNumber extends number = ParticipantNumber,
+> {
   participantId: ParticipantId;
-  participantNumber: ParticipantNumber;
+  participantNumber: TParticipantNumber;
+  teamId: TeamId;
   sessionPhase: SessionPhase;
+  /** Whether this welcome resumed a previous participation after a reconnect */
+  resumed: boolean;
   appData: TAppData;
 }
 
+/**
+ * Spectator welcome data received from the server.
+ */
+export interface SpectatorWelcomeData<TAppData = unknown> {
+  spectatorId: SpectatorId;
+  sessionPhase: SessionPhase;
+  appData: TAppData | undefined;
+}
+
 /**
  * Session client event handlers.
  */
@@ -40,28 +79,57 @@ export interface SessionClientEvents<
   TOpponentJoinedData = undefined,
   TResetData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   /** Called when connection state changes */
   onConnectionStateChange?: (state: ConnectionState) => void;
 
   /** Called when welcome message is received */
-  onSessionJoin?: (data: SessionWelcomeData<TWelcomeData>) => void;
+  onSessionJoin?: (data: SessionWelcomeData<TWelcomeData, TParticipantNumber>) => void;
+
+  /** Called when spectator welcome message is received (spectator mode only) */
+  onSpectatorJoin?: (data: SpectatorWelcomeData<TSpectatorWelcomeData>) => void;
+
+  /** Called when another participant joins */
+  onOpponentJoined?: (
+    appData: TOpponentJoinedData | undefined,
+    participantId: ParticipantId,
+    participantNumber: TParticipantNumber,
+    teamId: TeamId
+  ) => void;
+
+  /** Called when another participant leaves */
+  onOpponentLeft?: (participantId: ParticipantId) => void;
 
-  /** Called when opponent joins */
-  onOpponentJoined?: (appData?: TOpponentJoinedData) => void;
+  /** Called when another participant lost its connection and may still resume */
+  onOpponentDisconnected?: (gracePeriodMs: number, participantId: ParticipantId) => void;
 
-  /** Called when opponent leaves */
-  onOpponentLeft?: () => void;
+  /** Called when a disconnected participant resumed its participation */
+  onOpponentReconnected?: (participantId: ParticipantId) => void;
+
+  /** Called for each pre-start countdown tick (all participants ready) */
+  onCountdown?: (secondsRemaining: number) => void;
+
+  /** Called when the pre-start countdown was aborted */
+  onCountdownCancelled?: () => void;
 
   /** Called when session starts (all participants ready) */
   onSessionStart?: () => void;
 
-  /** Called when session ends */
+  /** Called when a participant paused the session */
+  onSessionPause?: (pausedBy: ParticipantId) => void;
+
+  /** Called when a paused session resumes (all participants ready again) */
+  onSessionResume?: () => void;
+
+  /** Called when session ends (a team may win without a single winner) */
   onSessionEnd?: (
     winnerId: ParticipantId | undefined,
-    winnerNumber: ParticipantNumber | undefined,
+    winnerNumber: TParticipantNumber | undefined,
     reason: SessionEndedReason,
-    appData?: TSessionEndedData
+    appData?: TSessionEndedData,
+    winnerTeamId?: TeamId
   ) => void;
 
   /** Called when play again voting status updates */
@@ -73,6 +141,15 @@ export interface SessionClientEvents<
   /** Called on server error */
   onError?: (message: string) => void;
 
+  /**
+   * Called when the replicated state changed.
+   * @param changes - The applied delta, or null for a full keyframe
+   */
+  onStateUpdate?: (state: ReplicatedState, changes: StateDelta | null) => void;
+
+  /** Called after each clock sync round trip with the updated statistics */
+  onClockSync?: (stats: ClockSyncStats) => void;
+
   /** Called for app-specific messages */
   onAppMessage?: (message: TAppServerMessage) => void;
 }
@@ -87,6 +164,21 @@ export interface SessionClientConfig {
   reconnectDelayMs?: number;
   /** Maximum reconnection attempts */
   maxReconnectAttempts?: number;
+  /**
+   * Request a pause after the hand has been lost for this long while playing,
+   * in milliseconds (0 disables). Requires `reportHandPresence()` calls.
+   */
+  handLossPauseMs?: number;
+  /**
+   * Wire codec to request from the server (default: 'json'). Servers that
+   * do not support it answer in JSON; the client then keeps using JSON.
+   */
+  codec?: CodecName;
+  /**
+   * Ping the server this often to estimate its clock, in milliseconds
+   * (0 disables; `syncClock()` can still be called manually).
+   */
+  clockSyncIntervalMs?: number;
 }
 
 /**
@@ -96,6 +188,9 @@ export const DEFAULT_CLIENT_CONFIG: Required<SessionClientConfig> = {
   autoReconnect: false,
   reconnectDelayMs: 1000,
   maxReconnectAttempts: 5,
+  handLossPauseMs: 0,
+  codec: 'json',
+  clockSyncIntervalMs: 0,
 };
 
 /**
@@ -103,12 +198,22 @@ export const DEFAULT_CLIENT_CONFIG: Required<SessionClientConfig> = {
  */
 const FRAMEWORK_MESSAGE_TYPES = new Set([
   'welcome',
+  'spectator_welcome',
   'opponent_joined',
   'opponent_left',
+  'opponent_disconnected',
+  'opponent_reconnected',
+  'countdown',
+  'countdown_cancelled',
   'session_started',
+  'session_paused',
+  'session_resumed',
   'session_ended',
   'play_again_status',
   'session_reset',
+  'state_keyframe',
+  'state_delta',
+  'clock_pong',
   'error',
 ]);
 
@@ -122,16 +227,31 @@ export class SessionClient<
   TOpponentJoinedData = undefined,
   TResetData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   private ws: WebSocket | null = null;
   private connectionState: ConnectionState = 'disconnected';
   private reconnectAttempts = 0;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private readonly handLoss: HandLossMonitor;
+  private clockSyncInterval: ReturnType<typeof setInterval> | null = null;
+  private readonly clock = new ClockSync();
   private lastUrl: string | null = null;
+  private role: ConnectionRole = 'participant';
+  /** Codec the server answers in; outgoing messages follow it */
+  private wireCodec: MessageCodec = JSON_CODEC;
 
   private participantId: ParticipantId | null = null;
-  private participantNumber: ParticipantNumber | null = null;
+  private participantNumber: TParticipantNumber | null = null;
+  private teamId: TeamId | null = null;
+  private spectatorId: SpectatorId | null = null;
+  private resumeToken: ResumeToken | null = null;
   private sessionPhase: SessionPhase = 'waiting';
+  private replicatedState: ReplicatedState | null = null;
+  /** Sequence number of replicatedState; null until a keyframe arrived */
+  private replicationSeq: number | null = null;
+  private serverTick: number | null = null;
 
   constructor(
     private readonly events: SessionClientEvents<
@@ -139,10 +259,19 @@ export class SessionClient<
       TWelcomeData,
       TOpponentJoinedData,
       TResetData,
-      TSessionEndedData
+      TSessionEndedData,
+      TSpectatorWelcomeData,
+      TParticipantNumber
     > = {},
     private readonly config: SessionClientConfig = DEFAULT_CLIENT_CONFIG
-  ) {}
+  ) {
+    const { handLossPauseMs } = { ...DEFAULT_CLIENT_CONFIG, ...config };
+    this.handLoss = new HandLossMonitor(() => {
+      if (this.sessionPhase === 'playing') {
+        this.sendPauseRequest();
+      }
+    }, handLossPauseMs);
+  }
 
   // ============ Connection Management ============
 
@@ -151,19 +280,41 @@ export class SessionClient<
    * @param url - WebSocket URL (e.g., ws://localhost:3001)
    */
   connect(url: string): void {
+    this.role = 'participant';
+    this.open(url);
+  }
+
+  /**
+   * Connect to the session server as a read-only spectator.
+   * Spectators receive session broadcasts but cannot send messages.
+   * @param url - WebSocket URL (e.g., ws://localhost:3001)
+   */
+  connectAsSpectator(url: string): void {
+    this.role = 'spectator';
+    this.open(url);
+  }
+
+  private open(url: string): void {
     this.lastUrl = url;
     this.setConnectionState('connecting');
 
-    this.ws = new WebSocket(url);
+    this.wireCodec = JSON_CODEC;
+    // Deltas sent to an earlier connection do not apply anymore
+    this.replicationSeq = null;
+    this.ws = new WebSocket(this.buildConnectionUrl(url));
+    this.ws.binaryType = 'arraybuffer';
 
     this.ws.onopen = () => {
       this.reconnectAttempts = 0;
       this.setConnectionState('connected');
+      this.startClockSync();
     };
 
     this.ws.onmessage = (event) => {
       try {
-        const message = JSON.parse(event.data as string) as {
+        const data = toWireData(event.data);
+        this.wireCodec = getCodecForFrame(data);
+        const message = this.wireCodec.decode(data) as {
           type: string;
           [key: string]: unknown;
         };
@@ -174,6 +325,7 @@ export class SessionClient<
     };
 
     this.ws.onclose = () => {
+      this.stopClockSync();
       this.setConnectionState('disconnected');
       this.maybeReconnect();
     };
@@ -183,6 +335,23 @@ export class SessionClient<
     };
   }
 
+  /**
+   * Spectators declare their role; participants holding a resume token
+   * present it so the server can hand back their previous slot. A
+   * non-default codec is requested for either role.
+   */
+  private buildConnectionUrl(url: string): string {
+    const { codec } = { ...DEFAULT_CLIENT_CONFIG, ...this.config };
+    const withRequestedCodec = codec === 'json' ? url : withCodec(url, codec);
+
+    if (this.role === 'spectator') {
+      return withConnectionRole(withRequestedCodec, 'spectator');
+    }
+    return this.resumeToken
+      ? withResumeToken(withRequestedCodec, this.resumeToken)
+      : withRequestedCodec;
+  }
+
   /**
    * Disconnect from the server.
    */
@@ -195,6 +364,8 @@ export class SessionClient<
     }
     // Cancel again after close, since close handler may have triggered maybeReconnect
     this.cancelReconnect();
+    this.handLoss.cancel();
+    this.stopClockSync();
     this.setConnectionState('disconnected');
     this.reset();
   }
@@ -223,10 +394,38 @@ export class SessionClient<
   /**
    * Get current participant number (set after welcome).
    */
-  getParticipantNumber(): ParticipantNumber | null {
+  getParticipantNumber(): TParticipantNumber | null {
     return this.participantNumber;
   }
 
+  /**
+   * Get the team this participant plays for (set after welcome).
+   */
+  getTeamId(): TeamId | null {
+    return this.teamId;
+  }
+
+  /**
+   * Get the resume token issued in the last welcome, if resumption is enabled.
+   */
+  getResumeToken(): ResumeToken | null {
+    return this.resumeToken;
+  }
+
+  /**
+   * Get current spectator ID (set after spectator welcome).
+   */
+  getSpectatorId(): SpectatorId | null {
+    return this.spectatorId;
+  }
+
+  /**
+   * Check if this client is connected in spectator mode.
+   */
+  get isSpectator(): boolean {
+    return this.role === 'spectator';
+  }
+
   /**
    * Get current session phase.
    */
@@ -234,6 +433,38 @@ export class SessionClient<
     return this.sessionPhase;
   }
 
+  /**
+   * Get the replicated state reconstructed from keyframes and deltas.
+   * Null until the first keyframe arrived.
+   */
+  getReplicatedState(): ReplicatedState | null {
+    return this.replicatedState;
+  }
+
+  /**
+   * Estimate the current server time (epoch milliseconds).
+   * Equals the local clock until the first clock sync round trip completed.
+   */
+  getServerTime(): number {
+    return this.clock.getServerTime();
+  }
+
+  /**
+   * Get round-trip time, jitter and clock offset statistics.
+   * Null until the first clock sync round trip completed.
+   */
+  getClockStats(): ClockSyncStats | null {
+    return this.clock.getStats();
+  }
+
+  /**
+   * Get the latest tick number stamped on a server tick broadcast.
+   * Null until a tick-stamped message arrived.
+   */
+  getServerTick(): number | null {
+    return this.serverTick;
+  }
+
   // ============ Outgoing Framework Messages ============
 
   /**
@@ -244,6 +475,38 @@ export class SessionClient<
     this.send({ type: 'participant_ready' });
   }
 
+  /**
+   * Withdraw the ready signal before the session starts.
+   * Cancels a running countdown.
+   */
+  sendUnready(): void {
+    this.send({ type: 'participant_unready' });
+  }
+
+  /**
+   * Request a pause of the running session.
+   * The session resumes once all participants signal ready again.
+   */
+  sendPauseRequest(): void {
+    this.send({ type: 'pause_request' });
+  }
+
+  /**
+   * Report whether a hand is currently tracked.
+   * With `handLossPauseMs` configured, losing the hand for that long while
+   * playing sends a pause request.
+   */
+  reportHandPresence(present: boolean): void {
+    const { handLossPauseMs } = { ...DEFAULT_CLIENT_CONFIG, ...this.config };
+
+    if (handLossPauseMs <= 0 || this.sessionPhase !== 'playing') {
+      this.handLoss.cancel();
+      return;
+    }
+
+    this.handLoss.report(present);
+  }
+
   /**
    * Send play again vote.
    * Called when participant wants to play again after session ends.
@@ -252,6 +515,14 @@ export class SessionClient<
     this.send({ type: 'play_again_vote' });
   }
 
+  /**
+   * Ping the server to refine the clock estimate.
+   * Allowed for spectators, who otherwise cannot send messages.
+   */
+  syncClock(): void {
+    this.transmit({ type: 'clock_ping', clientTime: this.clock.now() });
+  }
+
   // ============ Outgoing App Messages ============
 
   /**
@@ -269,8 +540,19 @@ export class SessionClient<
   }
 
   private send(message: Record<string, unknown>): void {
+    if (this.isSpectator) {
+      console.warn('SessionClient: Cannot send message - connected as spectator', {
+        messageType: message['type'],
+      });
+      return;
+    }
+
+    this.transmit(message);
+  }
+
+  private transmit(message: Record<string, unknown>): void {
     if (this.isConnected && this.ws) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(this.wireCodec.encode(message));
     } else {
       console.warn('SessionClient: Cannot send message - not connected', {
         messageType: message['type'],
@@ -280,6 +562,11 @@ export class SessionClient<
   }
 
   private handleMessage(message: { type: string; [key: string]: unknown }): void {
+    const tick = message['tick'];
+    if (typeof tick === 'number' && tick > (this.serverTick ?? -1)) {
+      this.serverTick = tick;
+    }
+
     // Handle framework-level messages
     if (FRAMEWORK_MESSAGE_TYPES.has(message.type)) {
       this.handleFrameworkMessage(message);
@@ -295,12 +582,40 @@ export class SessionClient<
         this.handleWelcome(message);
         break;
 
+      case 'spectator_welcome':
+        this.handleSpectatorWelcome(message);
+        break;
+
       case 'opponent_joined':
-        this.events.onOpponentJoined?.(message['appData'] as TOpponentJoinedData | undefined);
+        this.events.onOpponentJoined?.(
+          message['appData'] as TOpponentJoinedData | undefined,
+          message['participantId'] as ParticipantId,
+          message['participantNumber'] as TParticipantNumber,
+          message['teamId'] as TeamId
+        );
         break;
 
       case 'opponent_left':
-        this.events.onOpponentLeft?.();
+        this.events.onOpponentLeft?.(message['participantId'] as ParticipantId);
+        break;
+
+      case 'opponent_disconnected':
+        this.events.onOpponentDisconnected?.(
+          (message['gracePeriodMs'] as number) ?? 0,
+          message['participantId'] as ParticipantId
+        );
+        break;
+
+      case 'opponent_reconnected':
+        this.events.onOpponentReconnected?.(message['participantId'] as ParticipantId);
+        break;
+
+      case 'countdown':
+        this.events.onCountdown?.((message['secondsRemaining'] as number) ?? 0);
+        break;
+
+      case 'countdown_cancelled':
+        this.events.onCountdownCancelled?.();
         break;
 
       case 'session_started':
@@ -308,13 +623,26 @@ export class SessionClient<
         this.events.onSessionStart?.();
         break;
 
+      case 'session_paused':
+        this.sessionPhase = 'paused';
+        this.handLoss.cancel();
+        this.events.onSessionPause?.(message['pausedBy'] as ParticipantId);
+        break;
+
+      case 'session_resumed':
+        this.sessionPhase = 'playing';
+        this.events.onSessionResume?.();
+        break;
+
       case 'session_ended':
         this.sessionPhase = 'finished';
+        this.handLoss.cancel();
         this.events.onSessionEnd?.(
           message['winnerId'] as ParticipantId | undefined,
-          message['winnerNumber'] as ParticipantNumber | undefined,
+          message['winnerNumber'] as TParticipantNumber | undefined,
           (message['reason'] as SessionEndedReason) ?? 'completed',
-          message['appData'] as TSessionEndedData | undefined
+          message['appData'] as TSessionEndedData | undefined,
+          message['winnerTeamId'] as TeamId | undefined
         );
         break;
 
@@ -330,27 +658,101 @@ export class SessionClient<
         this.events.onSessionReset?.(message['appData'] as TResetData | undefined);
         break;
 
+      case 'state_keyframe':
+        this.replicatedState = message['state'] as ReplicatedState;
+        this.replicationSeq = message['seq'] as number;
+        this.events.onStateUpdate?.(this.replicatedState, null);
+        break;
+
+      case 'state_delta':
+        this.handleStateDelta(message);
+        break;
+
+      case 'clock_pong':
+        this.handleClockPong(message);
+        break;
+
       case 'error':
         this.events.onError?.(message['message'] as string);
         break;
     }
   }
 
+  private handleClockPong(message: { type: string; [key: string]: unknown }): void {
+    const stats = this.clock.addSample(
+      message['clientTime'] as number,
+      message['serverTime'] as number
+    );
+    if (stats) {
+      this.events.onClockSync?.(stats);
+    }
+  }
+
+  /**
+   * Start pinging the server, beginning right away so an estimate is
+   * available soon after connecting.
+   */
+  private startClockSync(): void {
+    const { clockSyncIntervalMs } = { ...DEFAULT_CLIENT_CONFIG, ...this.config };
+    this.stopClockSync();
+    if (clockSyncIntervalMs <= 0) return;
+
+    this.syncClock();
+    this.clockSyncInterval = setInterval(() => this.syncClock(), clockSyncIntervalMs);
+  }
+
+  private stopClockSync(): void {
+    if (this.clockSyncInterval) {
+      clearInterval(this.clockSyncInterval);
+      this.clockSyncInterval = null;
+    }
+  }
+
+  /**
+   * Apply a delta if it builds on the state we hold. Otherwise (a message
+   * was missed) ignore deltas until the next keyframe resynchronizes us.
+   */
+  private handleStateDelta(message: { type: string; [key: string]: unknown }): void {
+    if (!this.replicatedState || message['baseSeq'] !== this.replicationSeq) {
+      return;
+    }
+
+    const changes = message['changes'] as StateDelta;
+    this.replicatedState = applyStateDelta(this.replicatedState, changes);
+    this.replicationSeq = message['seq'] as number;
+    this.events.onStateUpdate?.(this.replicatedState, changes);
+  }
+
   private handleWelcome(message: { type: string; [key: string]: unknown }): void {
     // Extract framework fields
     this.participantId = message['participantId'] as ParticipantId;
-    this.participantNumber = message['participantNumber'] as ParticipantNumber;
+    this.participantNumber = message['participantNumber'] as TParticipantNumber;
+    this.teamId = message['teamId'] as TeamId;
     this.sessionPhase = (message['sessionPhase'] as SessionPhase) ?? 'waiting';
+    this.resumeToken = (message['resumeToken'] as ResumeToken | undefined) ?? null;
 
     // Pass through to handler with app data
     this.events.onSessionJoin?.({
       participantId: this.participantId,
       participantNumber: this.participantNumber,
+      teamId: this.teamId,
       sessionPhase: this.sessionPhase,
+      resumed: message['resumed'] === true,
       appData: message['appData'] as TWelcomeData,
     });
   }
 
+  private handleSpectatorWelcome(message: { type: string; [key: string]: unknown }): void {
+    this.spectatorId = message['spectatorId'] as SpectatorId;
+    this.sessionPhase = (message['sessionPhase'] as SessionPhase) ?? 'waiting';
+
+    this.events.onSpectatorJoin?.({
+      spectatorId: this.spectatorId,
+      sessionPhase: this.sessionPhase,
+      appData: message['appData'] as TSpectatorWelcomeData | undefined,
+    });
+  }
+
   private maybeReconnect(): void {
     const { autoReconnect, reconnectDelayMs, maxReconnectAttempts } = {
       ...DEFAULT_CLIENT_CONFIG,
@@ -370,7 +772,7 @@ export class SessionClient<
 
     this.reconnectTimeout = setTimeout(() => {
       if (this.lastUrl) {
-        this.connect(this.lastUrl);
+        this.open(this.lastUrl);
       }
     }, reconnectDelayMs);
   }
@@ -386,6 +788,22 @@ export class SessionClient<
   private reset(): void {
     this.participantId = null;
     this.participantNumber = null;
+    this.teamId = null;
+    this.spectatorId = null;
+    this.resumeToken = null;
     this.sessionPhase = 'waiting';
+    this.replicatedState = null;
+    this.replicationSeq = null;
+    this.serverTick = null;
+    this.clock.reset();
   }
 }
+
+/**
+ * Normalize a WebSocket message payload: text stays text, binary becomes bytes.
+ */
+function toWireData(data: unknown): WireData {
+  if (typeof data === 'string' || data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  throw new TypeError('Unsupported WebSocket message payload');
+}
@@ -3,11 +3,23 @@
  *
  * This module provides a way to inject session configuration at runtime,
  * eliminating hard-coded domain patterns. Configuration can be provided via:
- * 1. `window.__SESSION_CONFIG__` (injected by nginx/entrypoint before app loads)
- * 2. Fetched from `/session.json` endpoint (fallback)
- * 3. Local development mode (auto-detected, shows manual connection UI)
+ * 1. `?appId=&wsUrl=&lobbyUrl=` query parameters (set by a lobby running locally)
+ * 2. `window.__SESSION_CONFIG__` (injected by nginx/entrypoint before app loads)
+ * 3. Fetched from `/session.json` endpoint (fallback)
+ * 4. Local development mode (auto-detected, shows manual connection UI)
+ *
+ * A `?playerToken=` query parameter (added by the lobby to a signed-in
+ * player's own link) and an `?access=` key (on links to private sessions)
+ * are forwarded to the server on the WebSocket URL.
  */
 
+import {
+  ACCESS_KEY_PARAM,
+  PLAYER_TOKEN_QUERY_PARAM,
+  withAccessKey,
+  withPlayerToken,
+} from '@gesture-app/framework-protocol';
+
 /**
  * Runtime session configuration injected by the hosting environment.
  */
@@ -45,6 +57,46 @@ export function isLocalDevelopment(): boolean {
   return hostname === 'localhost' || hostname === '127.0.0.1';
 }
 
+/**
+ * Get session config from the page's query parameters.
+ * A lobby using local session processes links to the app's dev client this
+ * way, since there is no container to serve `/session.json`.
+ * Returns null unless all required parameters are present.
+ */
+export function getQueryConfig(): SessionConfig | null {
+  const params = new URLSearchParams(window.location.search);
+  const appId = params.get('appId');
+  const wsUrl = params.get('wsUrl');
+  const lobbyUrl = params.get('lobbyUrl');
+  if (!appId || !wsUrl || !lobbyUrl) {
+    return null;
+  }
+  return { appId, wsUrl, lobbyUrl };
+}
+
+/**
+ * Forward the page's player token, if any, on the config's WebSocket URL.
+ */
+export function applyPlayerToken(config: SessionConfig): SessionConfig {
+  const token = new URLSearchParams(window.location.search).get(PLAYER_TOKEN_QUERY_PARAM);
+  return token ? { ...config, wsUrl: withPlayerToken(config.wsUrl, token) } : config;
+}
+
+/**
+ * Forward the page's access key to a private session, if any, on the config's WebSocket URL.
+ */
+export function applyAccessKey(config: SessionConfig): SessionConfig {
+  const key = new URLSearchParams(window.location.search).get(ACCESS_KEY_PARAM);
+  return key ? { ...config, wsUrl: withAccessKey(config.wsUrl, key) } : config;
+}
+
+/**
+ * Forward every credential the session link carries.
+ */
+function applyLinkCredentials(config: SessionConfig): SessionConfig {
+  return applyAccessKey(applyPlayerToken(config));
+}
+
 /**
  * Get session config from the window global (injected by server).
  * Returns null if not present.
@@ -102,15 +154,24 @@ export async function fetchSessionConfig(): Promise<SessionConfig | null> {
  * Resolve session configuration.
  *
  * Resolution order:
- * 1. If in local development mode → return development mode (manual connection)
- * 2. Check window.__SESSION_CONFIG__ → use if present
- * 3. Fetch /session.json → use if available
- * 4. Fall back to development mode
+ * 1. Check the query parameters → use if present
+ *
+ * Session configs carry the page's player token on their WebSocket URL.
+ * 2. If in local development mode → return development mode (manual connection)
+ * 3. Check window.__SESSION_CONFIG__ → use if present
+ * 4. Fetch /session.json → use if available
+ * 5. Fall back to development mode
  *
  * @returns SessionConfigResult indicating either session mode with config, or development mode
  */
 export async function resolveSessionConfig(): Promise<SessionConfigResult> {
-  // Local development always uses manual connection
+  // An explicit session link wins, even on localhost
+  const fromQuery = getQueryConfig();
+  if (fromQuery) {
+    return { mode: 'session', config: applyLinkCredentials(fromQuery) };
+  }
+
+  // Local development otherwise uses manual connection
   if (isLocalDevelopment()) {
     return { mode: 'development' };
   }
@@ -118,13 +179,13 @@ export async function resolveSessionConfig(): Promise<SessionConfigResult> {
   // Try injected config first (synchronous, preferred)
   const injected = getInjectedConfig();
   if (injected) {
-    return { mode: 'session', config: injected };
+    return { mode: 'session', config: applyLinkCredentials(injected) };
   }
 
   // Try fetching from endpoint
   const fetched = await fetchSessionConfig();
   if (fetched) {
-    return { mode: 'session', config: fetched };
+    return { mode: 'session', config: applyLinkCredentials(fetched) };
   }
 
   // No config available - fall back to development mode
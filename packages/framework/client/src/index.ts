@@ -8,17 +8,59 @@
  * - Ready-state signaling
  * - Play-again voting coordination
  * - Message routing to app handlers
+ * - Read-only spectator mode
+ * - Wire codec negotiation (JSON or MessagePack)
+ * - Replicated state reconstruction
+ * - Interpolation/extrapolation of server-authoritative positions
+ * - Server clock synchronization with RTT/jitter statistics
+ * - Pausing after the hand was lost for too long
  */
 
 import type {
+  CodecName,
   ParticipantId,
   ParticipantNumber,
+  ReplicatedState,
+  ResumeToken,
   SessionEndedReason,
   SessionPhase,
+  SpectatorId,
+  StateDelta,
+  TickStamp,
 } from '@gesture-app/framework-protocol';
 
 // Re-export protocol types for convenience
-export type { ParticipantId, ParticipantNumber, SessionPhase, SessionEndedReason };
+export type {
+  CodecName,
+  ParticipantId,
+  ParticipantNumber,
+  ReplicatedState,
+  ResumeToken,
+  SessionPhase,
+  SessionEndedReason,
+  SpectatorId,
+  StateDelta,
+  TickStamp,
+};
+
+// Export clock sync
+export {
+  ClockSync,
+  type ClockSyncConfig,
+  type ClockSyncStats,
+  DEFAULT_CLOCK_SYNC_CONFIG,
+} from './ClockSync.js';
+
+// Export hand loss detection
+export { DEFAULT_HAND_LOSS_PAUSE_MS, HandLossMonitor } from './HandLossMonitor.js';
+
+// Export interpolation buffer
+export {
+  DEFAULT_INTERPOLATION_CONFIG,
+  InterpolationBuffer,
+  type InterpolationBufferConfig,
+  type Vector3Like,
+} from './InterpolationBuffer.js';
 
 // Export session client
 export {
@@ -28,12 +70,16 @@ export {
   type SessionClientConfig,
   type SessionClientEvents,
   type SessionWelcomeData,
+  type SpectatorWelcomeData,
 } from './SessionClient.js';
 
 // Export session config
 export {
+  applyAccessKey,
+  applyPlayerToken,
   fetchSessionConfig,
   getInjectedConfig,
+  getQueryConfig,
   isLocalDevelopment,
   resolveSessionConfig,
   type SessionConfig,
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ClockSync } from '../src/index.js';
+
+describe('ClockSync', () => {
+  it('should fall back to the local clock without samples', () => {
+    const clock = new ClockSync({ now: () => 1000 });
+
+    expect(clock.getStats()).toBeNull();
+    expect(clock.getServerTime()).toBe(1000);
+  });
+
+  it('should estimate the offset assuming a symmetric round trip', () => {
+    const clock = new ClockSync({ now: () => 1100 });
+
+    // Sent at 1000, answered at server time 5050, received at 1100
+    const stats = clock.addSample(1000, 5050, 1100);
+
+    expect(stats).toEqual({ rttMs: 100, jitterMs: 0, offsetMs: 4000, sampleCount: 1 });
+    expect(clock.getServerTime(2000)).toBe(6000);
+  });
+
+  it('should take the offset from the shortest round trip', () => {
+    const clock = new ClockSync();
+    clock.addSample(0, 4100, 200);
+    clock.addSample(1000, 5020, 1040);
+    clock.addSample(2000, 6080, 2100);
+
+    const stats = clock.getStats();
+    expect(stats?.offsetMs).toBe(4000);
+    expect(stats?.rttMs).toBeCloseTo(340 / 3);
+    // |40 - 200| and |100 - 40|
+    expect(stats?.jitterMs).toBe(110);
+  });
+
+  it('should keep a sliding window of samples', () => {
+    const clock = new ClockSync({ maxSamples: 2 });
+    clock.addSample(0, 0, 10);
+    clock.addSample(100, 100, 130);
+    clock.addSample(200, 200, 250);
+
+    expect(clock.getStats()).toMatchObject({ rttMs: 40, sampleCount: 2 });
+  });
+
+  it('should discard pongs received before they were sent', () => {
+    const clock = new ClockSync();
+
+    expect(clock.addSample(1000, 5000, 900)).toBeNull();
+    expect(clock.getStats()).toBeNull();
+  });
+
+  it('should forget samples on reset', () => {
+    const clock = new ClockSync({ now: () => 0 });
+    clock.addSample(0, 500, 0);
+
+    clock.reset();
+
+    expect(clock.getServerTime()).toBe(0);
+  });
+});
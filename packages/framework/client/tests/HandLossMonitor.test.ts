@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_HAND_LOSS_PAUSE_MS, HandLossMonitor } from '../src/index.js';
+
+describe('HandLossMonitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fire once the hand has been gone for the delay', () => {
+    const onHandLost = vi.fn();
+    const monitor = new HandLossMonitor(onHandLost, 3000);
+
+    monitor.report(false);
+    vi.advanceTimersByTime(2000);
+    monitor.report(false);
+    expect(onHandLost).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(onHandLost).toHaveBeenCalledOnce();
+  });
+
+  it('should start over when the hand returns or the loss is cancelled', () => {
+    const onHandLost = vi.fn();
+    const monitor = new HandLossMonitor(onHandLost);
+
+    monitor.report(false);
+    vi.advanceTimersByTime(DEFAULT_HAND_LOSS_PAUSE_MS - 1);
+    monitor.report(true);
+    monitor.report(false);
+    vi.advanceTimersByTime(DEFAULT_HAND_LOSS_PAUSE_MS - 1);
+    monitor.cancel();
+    vi.advanceTimersByTime(DEFAULT_HAND_LOSS_PAUSE_MS);
+
+    expect(onHandLost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { InterpolationBuffer } from '../src/index.js';
+
+describe('InterpolationBuffer', () => {
+  function createBuffer(config = {}) {
+    return new InterpolationBuffer({ renderDelayMs: 100, maxExtrapolationMs: 200, ...config });
+  }
+
+  it('should return null for unknown entities', () => {
+    expect(createBuffer().sample('missing', 1000)).toBeNull();
+  });
+
+  it('should hold the oldest position until the render time reaches it', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 1, y: 2, z: 3 }, undefined, 1000);
+
+    expect(buffer.sample('a', 1050)).toEqual({ x: 1, y: 2, z: 3 });
+  });
+
+  it('should interpolate between snapshots around the render time', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 0, y: 0, z: 0 }, undefined, 1000);
+    buffer.push('a', { x: 10, y: 20, z: -10 }, undefined, 1050);
+
+    // Render time 1025 is halfway between the snapshots
+    expect(buffer.sample('a', 1125)).toEqual({ x: 5, y: 10, z: -5 });
+  });
+
+  it('should order snapshots that arrive out of order', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 10, y: 0, z: 0 }, undefined, 1100);
+    buffer.push('a', { x: 0, y: 0, z: 0 }, undefined, 1000);
+
+    expect(buffer.sample('a', 1150)?.x).toBeCloseTo(5);
+  });
+
+  it('should extrapolate with velocity when updates are late', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 10 }, 1000);
+
+    // 50ms past the newest snapshot at 10 units/s
+    expect(buffer.sample('a', 1150)?.z).toBeCloseTo(0.5);
+  });
+
+  it('should cap extrapolation', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 10 }, 1000);
+
+    expect(buffer.sample('a', 5000)?.z).toBeCloseTo(2);
+  });
+
+  it('should hold the newest position without velocity', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 0, y: 0, z: 0 }, undefined, 1000);
+    buffer.push('a', { x: 4, y: 0, z: 0 }, undefined, 1050);
+
+    expect(buffer.sample('a', 2000)).toEqual({ x: 4, y: 0, z: 0 });
+  });
+
+  it('should keep interpolating correctly after pruning old snapshots', () => {
+    const buffer = createBuffer();
+    for (let i = 0; i <= 10; i++) {
+      buffer.push('a', { x: i, y: 0, z: 0 }, undefined, 1000 + i * 50);
+    }
+
+    expect(buffer.sample('a', 1425)?.x).toBeCloseTo(6.5);
+    expect(buffer.sample('a', 1525)?.x).toBeCloseTo(8.5);
+  });
+
+  it('should limit the number of snapshots per entity', () => {
+    const buffer = createBuffer({ maxSnapshots: 2 });
+    buffer.push('a', { x: 0, y: 0, z: 0 }, undefined, 1000);
+    buffer.push('a', { x: 1, y: 0, z: 0 }, undefined, 1050);
+    buffer.push('a', { x: 2, y: 0, z: 0 }, undefined, 1100);
+
+    // The first snapshot was dropped, so early samples hold the second one
+    expect(buffer.sample('a', 1100)).toEqual({ x: 1, y: 0, z: 0 });
+  });
+
+  it('should use the configured clock by default', () => {
+    let now = 1000;
+    const buffer = createBuffer({ now: () => now });
+    buffer.push('a', { x: 0, y: 0, z: 0 });
+    now = 1050;
+    buffer.push('a', { x: 10, y: 0, z: 0 });
+
+    now = 1125;
+    expect(buffer.sample('a')?.x).toBeCloseTo(5);
+  });
+
+  it('should track, remove and clear entities', () => {
+    const buffer = createBuffer();
+    buffer.push('a', { x: 0, y: 0, z: 0 }, undefined, 1000);
+    buffer.push('b', { x: 0, y: 0, z: 0 }, undefined, 1000);
+
+    expect([...buffer.entityIds()]).toEqual(['a', 'b']);
+    buffer.remove('a');
+    expect(buffer.has('a')).toBe(false);
+    expect(buffer.has('b')).toBe(true);
+    buffer.clear();
+    expect(buffer.sample('b', 1000)).toBeNull();
+  });
+});
@@ -1,3 +1,4 @@
+import { MSGPACK_CODEC } from '@gesture-app/framework-protocol';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { type ConnectionState, SessionClient, type SessionClientEvents } from '../src/index.js';
 
@@ -8,11 +9,11 @@ interface MockWebSocket {
   readyState: number;
   onopen: (() => void) | null;
   onclose: (() => void) | null;
-  onmessage: ((event: { data: string }) => void) | null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null;
   onerror: (() => void) | null;
-  sentMessages: string[];
+  sentMessages: (string | Uint8Array)[];
   close: () => void;
-  send: (data: string) => void;
+  send: (data: string | Uint8Array) => void;
 }
 
 const mockWebSockets: MockWebSocket[] = [];
@@ -27,9 +28,10 @@ class MockWebSocketClass implements MockWebSocket {
   readyState = MockWebSocketClass.CONNECTING;
   onopen: (() => void) | null = null;
   onclose: (() => void) | null = null;
-  onmessage: ((event: { data: string }) => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
   onerror: (() => void) | null = null;
-  sentMessages: string[] = [];
+  sentMessages: (string | Uint8Array)[] = [];
+  binaryType = 'blob';
 
   constructor(url: string) {
     this.url = url;
@@ -41,7 +43,7 @@ class MockWebSocketClass implements MockWebSocket {
     this.onclose?.();
   }
 
-  send(data: string): void {
+  send(data: string | Uint8Array): void {
     this.sentMessages.push(data);
   }
 
@@ -55,6 +57,11 @@ class MockWebSocketClass implements MockWebSocket {
     this.onmessage?.({ data: JSON.stringify(data) });
   }
 
+  simulateBinaryMessage(data: object): void {
+    const bytes = MSGPACK_CODEC.encode(data) as Uint8Array;
+    this.onmessage?.({ data: bytes.slice().buffer });
+  }
+
   simulateClose(): void {
     this.readyState = MockWebSocketClass.CLOSED;
     this.onclose?.();
@@ -86,7 +93,7 @@ function getLastWebSocket(): MockWebSocket {
 }
 
 function parseMessage(ws: MockWebSocket, index = 0): TestMessage {
-  return JSON.parse(ws.sentMessages[index] ?? '{}') as TestMessage;
+  return JSON.parse((ws.sentMessages[index] as string | undefined) ?? '{}') as TestMessage;
 }
 
 // ============ Tests ============
@@ -233,6 +240,26 @@ describe('SessionClient', () => {
       expect(opponentLeft).toBe(true);
     });
 
+    it('should identify which participant joined or left', () => {
+      const onOpponentJoined = vi.fn();
+      const onOpponentLeft = vi.fn();
+      const client = createClient({ onOpponentJoined, onOpponentLeft });
+
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'opponent_joined',
+        participantId: 'p3',
+        participantNumber: 3,
+        teamId: 1,
+        appData: { team: 'red' },
+      });
+      getLastWebSocket().simulateMessage({ type: 'opponent_left', participantId: 'p3' });
+
+      expect(onOpponentJoined).toHaveBeenCalledWith({ team: 'red' }, 'p3', 3, 1);
+      expect(onOpponentLeft).toHaveBeenCalledWith('p3');
+    });
+
     it('should handle session_started message', () => {
       let started = false;
       const client = createClient({
@@ -272,6 +299,36 @@ describe('SessionClient', () => {
       expect(client.getSessionPhase()).toBe('finished');
     });
 
+    it('should track teams from welcome and session_ended', () => {
+      const onSessionEnd = vi.fn();
+      const client = createClient({ onSessionEnd });
+
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'welcome',
+        participantId: 'player-3',
+        participantNumber: 3,
+        teamId: 1,
+        sessionPhase: 'waiting',
+        appData: {},
+      });
+      getLastWebSocket().simulateMessage({
+        type: 'session_ended',
+        reason: 'app_condition',
+        winnerTeamId: 1,
+      });
+
+      expect(client.getTeamId()).toBe(1);
+      expect(onSessionEnd).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+        'app_condition',
+        undefined,
+        1
+      );
+    });
+
     it('should handle error message', () => {
       let errorMessage: string | null = null;
       const client = createClient({
@@ -493,6 +550,437 @@ describe('SessionClient', () => {
     });
   });
 
+  describe('countdown', () => {
+    it('should surface countdown ticks and cancellation', () => {
+      const onCountdown = vi.fn();
+      const onCountdownCancelled = vi.fn();
+      const client = createClient({ onCountdown, onCountdownCancelled });
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+
+      getLastWebSocket().simulateMessage({ type: 'countdown', secondsRemaining: 3 });
+      getLastWebSocket().simulateMessage({ type: 'countdown', secondsRemaining: 2 });
+      getLastWebSocket().simulateMessage({ type: 'countdown_cancelled' });
+
+      expect(onCountdown.mock.calls).toEqual([[3], [2]]);
+      expect(onCountdownCancelled).toHaveBeenCalledTimes(1);
+      expect(client.getSessionPhase()).toBe('waiting');
+    });
+
+    it('should send an un-ready signal', () => {
+      const client = createClient();
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+
+      client.sendUnready();
+
+      expect(parseMessage(getLastWebSocket())).toEqual({ type: 'participant_unready' });
+    });
+  });
+
+  describe('pause and resume', () => {
+    function startPlaying(client: SessionClient<TestMessage, TestMessage, TestMessage>) {
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({ type: 'session_started' });
+    }
+
+    function getSentTypes(): unknown[] {
+      return getLastWebSocket().sentMessages.map(
+        (m) => (JSON.parse(m as string) as TestMessage).type
+      );
+    }
+
+    it('should send a pause request', () => {
+      const client = createClient();
+      startPlaying(client);
+
+      client.sendPauseRequest();
+
+      expect(parseMessage(getLastWebSocket())).toEqual({ type: 'pause_request' });
+    });
+
+    it('should track the paused phase and notify handlers', () => {
+      const onSessionPause = vi.fn();
+      const onSessionResume = vi.fn();
+      const client = createClient({ onSessionPause, onSessionResume });
+      startPlaying(client);
+
+      getLastWebSocket().simulateMessage({ type: 'session_paused', pausedBy: 'player-2' });
+      expect(client.getSessionPhase()).toBe('paused');
+      expect(onSessionPause).toHaveBeenCalledWith('player-2');
+
+      getLastWebSocket().simulateMessage({ type: 'session_resumed' });
+      expect(client.getSessionPhase()).toBe('playing');
+      expect(onSessionResume).toHaveBeenCalledTimes(1);
+    });
+
+    it('should request a pause after sustained hand loss', () => {
+      const client = new SessionClient<TestMessage, TestMessage, TestMessage>(
+        {},
+        { handLossPauseMs: 3000 }
+      );
+      startPlaying(client);
+
+      client.reportHandPresence(false);
+      vi.advanceTimersByTime(2000);
+      client.reportHandPresence(false);
+      expect(getSentTypes()).toEqual([]);
+
+      vi.advanceTimersByTime(1000);
+      expect(getSentTypes()).toEqual(['pause_request']);
+    });
+
+    it('should not pause if the hand returns in time', () => {
+      const client = new SessionClient<TestMessage, TestMessage, TestMessage>(
+        {},
+        { handLossPauseMs: 3000 }
+      );
+      startPlaying(client);
+
+      client.reportHandPresence(false);
+      vi.advanceTimersByTime(2000);
+      client.reportHandPresence(true);
+      vi.advanceTimersByTime(5000);
+
+      expect(getSentTypes()).toEqual([]);
+    });
+
+    it('should not auto-pause unless configured or while not playing', () => {
+      const client = createClient();
+      startPlaying(client);
+      client.reportHandPresence(false);
+      vi.advanceTimersByTime(60000);
+      expect(getSentTypes()).toEqual([]);
+
+      const configured = new SessionClient<TestMessage, TestMessage, TestMessage>(
+        {},
+        { handLossPauseMs: 1000 }
+      );
+      configured.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      configured.reportHandPresence(false);
+      vi.advanceTimersByTime(5000);
+      expect(getSentTypes()).toEqual([]);
+    });
+  });
+
+  describe('session resumption', () => {
+    function createReconnectingClient(events: SessionClientEvents<TestMessage, TestMessage> = {}) {
+      return new SessionClient<TestMessage, TestMessage, TestMessage>(events, {
+        autoReconnect: true,
+        reconnectDelayMs: 100,
+        maxReconnectAttempts: 3,
+      });
+    }
+
+    it('should present the resume token when reconnecting', () => {
+      const client = createReconnectingClient();
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'welcome',
+        participantId: 'player-1',
+        participantNumber: 1,
+        sessionPhase: 'playing',
+        resumeToken: 'token-1',
+      });
+
+      getLastWebSocket().simulateClose();
+      vi.advanceTimersByTime(200);
+
+      expect(client.getResumeToken()).toBe('token-1');
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001/?resume=token-1');
+    });
+
+    it('should report resumed welcomes', () => {
+      const joins: boolean[] = [];
+      const client = createReconnectingClient({
+        onSessionJoin: (data) => joins.push(data.resumed),
+      });
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'welcome',
+        participantId: 'player-1',
+        participantNumber: 1,
+        sessionPhase: 'playing',
+        resumeToken: 'token-1',
+      });
+      getLastWebSocket().simulateClose();
+      vi.advanceTimersByTime(200);
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'welcome',
+        participantId: 'player-1',
+        participantNumber: 1,
+        sessionPhase: 'playing',
+        resumeToken: 'token-2',
+        resumed: true,
+      });
+
+      expect(joins).toEqual([false, true]);
+      expect(client.getResumeToken()).toBe('token-2');
+    });
+
+    it('should forget the resume token on explicit disconnect', () => {
+      const client = createReconnectingClient();
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'welcome',
+        participantId: 'player-1',
+        participantNumber: 1,
+        sessionPhase: 'waiting',
+        resumeToken: 'token-1',
+      });
+
+      client.disconnect();
+      client.connect('ws://localhost:3001');
+
+      expect(client.getResumeToken()).toBeNull();
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001');
+    });
+
+    it('should notify about opponent connectivity', () => {
+      const onOpponentDisconnected = vi.fn();
+      const onOpponentReconnected = vi.fn();
+      const client = createClient({ onOpponentDisconnected, onOpponentReconnected });
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+
+      getLastWebSocket().simulateMessage({
+        type: 'opponent_disconnected',
+        participantId: 'p2',
+        gracePeriodMs: 15000,
+      });
+      getLastWebSocket().simulateMessage({ type: 'opponent_reconnected', participantId: 'p2' });
+
+      expect(onOpponentDisconnected).toHaveBeenCalledWith(15000, 'p2');
+      expect(onOpponentReconnected).toHaveBeenCalledWith('p2');
+    });
+  });
+
+  describe('spectator mode', () => {
+    it('should connect with the spectator role', () => {
+      const client = createClient();
+      client.connectAsSpectator('ws://localhost:3001');
+
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001/?role=spectator');
+      expect(client.isSpectator).toBe(true);
+    });
+
+    it('should handle spectator_welcome via onSpectatorJoin', () => {
+      let joined: { spectatorId: string; sessionPhase: string; appData: unknown } | null = null;
+      const client = new SessionClient<
+        TestMessage,
+        TestMessage,
+        TestMessage,
+        undefined,
+        undefined,
+        undefined,
+        { blocks: string[] }
+      >({
+        onSpectatorJoin: (data) => {
+          joined = data;
+        },
+      });
+
+      client.connectAsSpectator('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateMessage({
+        type: 'spectator_welcome',
+        spectatorId: 'spectator-1',
+        sessionPhase: 'playing',
+        appData: { blocks: ['b1'] },
+      });
+
+      expect(joined).toEqual({
+        spectatorId: 'spectator-1',
+        sessionPhase: 'playing',
+        appData: { blocks: ['b1'] },
+      });
+      expect(client.getSpectatorId()).toBe('spectator-1');
+      expect(client.getParticipantId()).toBeNull();
+      expect(client.getSessionPhase()).toBe('playing');
+    });
+
+    it('should not send messages as a spectator', () => {
+      const client = createClient();
+      client.connectAsSpectator('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+
+      client.sendReady();
+      client.sendAppMessage({ type: 'block_grab', blockId: 'block-1' });
+
+      expect(getLastWebSocket().sentMessages).toHaveLength(0);
+    });
+
+    it('should reconnect as a spectator', () => {
+      const client = new SessionClient(
+        {},
+        { autoReconnect: true, reconnectDelayMs: 100, maxReconnectAttempts: 1 }
+      );
+      client.connectAsSpectator('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+      getLastWebSocket().simulateClose();
+
+      vi.advanceTimersByTime(200);
+
+      expect(mockWebSockets).toHaveLength(2);
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001/?role=spectator');
+    });
+  });
+
+  describe('state replication', () => {
+    function connectClient(events: SessionClientEvents<TestMessage, TestMessage> = {}) {
+      const client = createClient(events);
+      client.connect('ws://localhost:3001');
+      const ws = getLastWebSocket();
+      ws.simulateOpen();
+      return { client, ws };
+    }
+
+    it('should start without replicated state', () => {
+      expect(createClient().getReplicatedState()).toBeNull();
+    });
+
+    it('should reconstruct the state from a keyframe and deltas', () => {
+      const onStateUpdate = vi.fn();
+      const { client, ws } = connectClient({ onStateUpdate });
+
+      ws.simulateMessage({
+        type: 'state_keyframe',
+        seq: 1,
+        state: { projectiles: { p1: { x: 0, color: 1 } } },
+      });
+      ws.simulateMessage({
+        type: 'state_delta',
+        seq: 2,
+        baseSeq: 1,
+        changes: { projectiles: { updated: { p1: { x: 5 }, p2: { x: 1, color: 2 } } } },
+      });
+      ws.simulateMessage({
+        type: 'state_delta',
+        seq: 3,
+        baseSeq: 2,
+        changes: { projectiles: { removed: ['p1'] } },
+      });
+
+      expect(client.getReplicatedState()).toEqual({ projectiles: { p2: { x: 1, color: 2 } } });
+      expect(onStateUpdate).toHaveBeenCalledTimes(3);
+      expect(onStateUpdate.mock.calls[0]?.[1]).toBeNull();
+      expect(onStateUpdate.mock.calls[2]?.[1]).toEqual({ projectiles: { removed: ['p1'] } });
+    });
+
+    it('should ignore deltas after a gap until the next keyframe', () => {
+      const onStateUpdate = vi.fn();
+      const { client, ws } = connectClient({ onStateUpdate });
+
+      ws.simulateMessage({ type: 'state_keyframe', seq: 1, state: { items: { a: { v: 1 } } } });
+      ws.simulateMessage({
+        type: 'state_delta',
+        seq: 3,
+        baseSeq: 2,
+        changes: { items: { updated: { a: { v: 3 } } } },
+      });
+      expect(client.getReplicatedState()).toEqual({ items: { a: { v: 1 } } });
+
+      ws.simulateMessage({ type: 'state_keyframe', seq: 4, state: { items: { a: { v: 4 } } } });
+      expect(client.getReplicatedState()).toEqual({ items: { a: { v: 4 } } });
+      expect(onStateUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore deltas before the first keyframe', () => {
+      const { client, ws } = connectClient();
+
+      ws.simulateMessage({ type: 'state_delta', seq: 1, baseSeq: 0, changes: {} });
+
+      expect(client.getReplicatedState()).toBeNull();
+    });
+
+    it('should not pass replication messages to the app handler', () => {
+      const onAppMessage = vi.fn();
+      const { ws } = connectClient({ onAppMessage });
+
+      ws.simulateMessage({ type: 'state_keyframe', seq: 1, state: {} });
+
+      expect(onAppMessage).not.toHaveBeenCalled();
+    });
+
+    it('should clear the state on disconnect', () => {
+      const { client, ws } = connectClient();
+      ws.simulateMessage({ type: 'state_keyframe', seq: 1, state: { items: {} } });
+
+      client.disconnect();
+
+      expect(client.getReplicatedState()).toBeNull();
+    });
+  });
+
+  describe('wire codecs', () => {
+    it('should not request a codec by default', () => {
+      createClient().connect('ws://localhost:3001');
+
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001');
+    });
+
+    it('should request the configured codec for participants and spectators', () => {
+      const client = new SessionClient({}, { codec: 'msgpack' });
+
+      client.connect('ws://localhost:3001');
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001/?codec=msgpack');
+
+      client.connectAsSpectator('ws://localhost:3001');
+      expect(getLastWebSocket().url).toBe('ws://localhost:3001/?codec=msgpack&role=spectator');
+    });
+
+    it('should decode binary frames and answer in MessagePack', () => {
+      const onSessionJoin = vi.fn();
+      const client = new SessionClient<TestMessage, TestMessage, TestMessage>(
+        { onSessionJoin },
+        { codec: 'msgpack' }
+      );
+      client.connect('ws://localhost:3001');
+      const ws = getLastWebSocket();
+      ws.simulateOpen();
+      ws.simulateBinaryMessage({
+        type: 'welcome',
+        participantId: 'participant-1',
+        participantNumber: 1,
+        sessionPhase: 'waiting',
+        appData: { type: 'data' },
+      });
+
+      client.sendReady();
+
+      expect(onSessionJoin).toHaveBeenCalledWith(
+        expect.objectContaining({ participantId: 'participant-1', appData: { type: 'data' } })
+      );
+      const sent = ws.sentMessages[0];
+      expect(sent).toBeInstanceOf(Uint8Array);
+      expect(MSGPACK_CODEC.decode(sent as Uint8Array)).toEqual({ type: 'participant_ready' });
+    });
+
+    it('should keep using JSON when the server answers in JSON', () => {
+      const client = new SessionClient({}, { codec: 'msgpack' });
+      client.connect('ws://localhost:3001');
+      const ws = getLastWebSocket();
+      ws.simulateOpen();
+      ws.simulateMessage({
+        type: 'welcome',
+        participantId: 'participant-1',
+        participantNumber: 1,
+        sessionPhase: 'waiting',
+        appData: {},
+      });
+
+      client.sendReady();
+
+      expect(ws.sentMessages[0]).toBe(JSON.stringify({ type: 'participant_ready' }));
+    });
+  });
+
   describe('state reset', () => {
     it('should reset participant info on disconnect', () => {
       const client = createClient();
@@ -514,4 +1002,109 @@ describe('SessionClient', () => {
       expect(client.getSessionPhase()).toBe('waiting');
     });
   });
+  describe('clock sync', () => {
+    function connectClient(
+      events: SessionClientEvents<TestMessage, TestMessage> = {},
+      clockSyncIntervalMs = 1000
+    ) {
+      const client = new SessionClient<TestMessage, TestMessage, TestMessage>(events, {
+        clockSyncIntervalMs,
+      });
+      client.connect('ws://localhost:3001');
+      const ws = getLastWebSocket();
+      ws.simulateOpen();
+      return { client, ws };
+    }
+
+    beforeEach(() => {
+      vi.setSystemTime(10_000);
+    });
+
+    it('should not ping by default', () => {
+      const client = createClient();
+      client.connect('ws://localhost:3001');
+      getLastWebSocket().simulateOpen();
+
+      vi.advanceTimersByTime(60_000);
+
+      expect(getLastWebSocket().sentMessages).toHaveLength(0);
+    });
+
+    it('should ping on open and then periodically', () => {
+      const { ws } = connectClient();
+
+      expect(parseMessage(ws, 0)).toEqual({ type: 'clock_ping', clientTime: 10_000 });
+
+      vi.advanceTimersByTime(2000);
+
+      expect(ws.sentMessages).toHaveLength(3);
+      expect(parseMessage(ws, 2)).toEqual({ type: 'clock_ping', clientTime: 12_000 });
+    });
+
+    it('should estimate the server time from pongs', () => {
+      const onClockSync = vi.fn();
+      const { client, ws } = connectClient({ onClockSync });
+      expect(client.getClockStats()).toBeNull();
+
+      vi.advanceTimersByTime(80);
+      ws.simulateMessage({ type: 'clock_pong', clientTime: 10_000, serverTime: 50_040 });
+
+      const stats = { rttMs: 80, jitterMs: 0, offsetMs: 40_000, sampleCount: 1 };
+      expect(onClockSync).toHaveBeenCalledWith(stats);
+      expect(client.getClockStats()).toEqual(stats);
+      expect(client.getServerTime()).toBe(50_080);
+    });
+
+    it('should stop pinging after the connection closed', () => {
+      const { ws } = connectClient();
+      ws.simulateClose();
+
+      vi.advanceTimersByTime(5000);
+
+      expect(ws.sentMessages).toHaveLength(1);
+    });
+
+    it('should let spectators sync their clock', () => {
+      const client = createClient();
+      client.connectAsSpectator('ws://localhost:3001');
+      const ws = getLastWebSocket();
+      ws.simulateOpen();
+
+      client.syncClock();
+
+      expect(parseMessage(ws)).toMatchObject({ type: 'clock_ping' });
+    });
+
+    it('should track the latest server tick', () => {
+      const onAppMessage = vi.fn();
+      const { client, ws } = connectClient({ onAppMessage }, 0);
+      expect(client.getServerTick()).toBeNull();
+
+      ws.simulateMessage({ type: 'world_update', tick: 7, serverTime: 50_000 });
+      ws.simulateMessage({
+        type: 'state_keyframe',
+        seq: 1,
+        tick: 8,
+        serverTime: 50_016,
+        state: {},
+      });
+
+      expect(client.getServerTick()).toBe(8);
+      expect(onAppMessage).toHaveBeenCalledWith({
+        type: 'world_update',
+        tick: 7,
+        serverTime: 50_000,
+      });
+    });
+
+    it('should forget the estimate on disconnect', () => {
+      const { client, ws } = connectClient();
+      ws.simulateMessage({ type: 'clock_pong', clientTime: 10_000, serverTime: 50_000 });
+
+      client.disconnect();
+
+      expect(client.getClockStats()).toBeNull();
+      expect(client.getServerTick()).toBeNull();
+    });
+  });
 });
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   fetchSessionConfig,
   getInjectedConfig,
+  getQueryConfig,
   isLocalDevelopment,
   resolveSessionConfig,
   type SessionConfig,
@@ -11,6 +12,7 @@ import {
 const mockLocation = {
   hostname: 'example.com',
   protocol: 'https:',
+  search: '',
 };
 
 // Store original values
@@ -26,6 +28,7 @@ describe('SessionConfig', () => {
 
     // Reset location for each test
     mockLocation.hostname = 'example.com';
+    mockLocation.search = '';
 
     // Reset fetch mock
     vi.restoreAllMocks();
@@ -57,6 +60,25 @@ describe('SessionConfig', () => {
     });
   });
 
+  describe('getQueryConfig', () => {
+    it('should read the config from query parameters', () => {
+      mockLocation.search =
+        '?appId=blocks-cannons&wsUrl=ws%3A%2F%2Flocalhost%3A41000&lobbyUrl=http%3A%2F%2Flocalhost%3A3002';
+
+      expect(getQueryConfig()).toEqual({
+        appId: 'blocks-cannons',
+        wsUrl: 'ws://localhost:41000',
+        lobbyUrl: 'http://localhost:3002',
+      });
+    });
+
+    it('should return null when a parameter is missing', () => {
+      mockLocation.search = '?appId=blocks-cannons&wsUrl=ws%3A%2F%2Flocalhost%3A41000';
+
+      expect(getQueryConfig()).toBeNull();
+    });
+  });
+
   describe('getInjectedConfig', () => {
     it('should return null when __SESSION_CONFIG__ is not set', () => {
       expect(getInjectedConfig()).toBeNull();
@@ -191,6 +213,57 @@ describe('SessionConfig', () => {
       expect(result).toEqual({ mode: 'development' });
     });
 
+    it('should use query parameters even on localhost', async () => {
+      mockLocation.hostname = 'localhost';
+      mockLocation.search =
+        '?appId=hello-hands&wsUrl=ws%3A%2F%2Flocalhost%3A41001&lobbyUrl=http%3A%2F%2Flocalhost%3A3002';
+
+      const result = await resolveSessionConfig();
+      expect(result).toEqual({
+        mode: 'session',
+        config: {
+          appId: 'hello-hands',
+          wsUrl: 'ws://localhost:41001',
+          lobbyUrl: 'http://localhost:3002',
+        },
+      });
+    });
+
+    it('should forward the player token on the WebSocket URL', async () => {
+      mockLocation.search =
+        '?appId=hello-hands&wsUrl=ws%3A%2F%2Flocalhost%3A41001&lobbyUrl=http%3A%2F%2Flocalhost%3A3002&playerToken=abc.sig';
+
+      const result = await resolveSessionConfig();
+      expect(result).toEqual({
+        mode: 'session',
+        config: {
+          appId: 'hello-hands',
+          wsUrl: 'ws://localhost:41001/?player=abc.sig',
+          lobbyUrl: 'http://localhost:3002',
+        },
+      });
+    });
+
+    it('should forward the access key of a private session on the WebSocket URL', async () => {
+      mockLocation.hostname = 'session-abc.example.com';
+      mockLocation.search = '?access=invite-123';
+      window.__SESSION_CONFIG__ = {
+        appId: 'blocks-cannons',
+        wsUrl: 'wss://session-abc.example.com/ws',
+        lobbyUrl: 'https://lobby.example.com',
+      };
+
+      const result = await resolveSessionConfig();
+      expect(result).toEqual({
+        mode: 'session',
+        config: {
+          appId: 'blocks-cannons',
+          wsUrl: 'wss://session-abc.example.com/ws?access=invite-123',
+          lobbyUrl: 'https://lobby.example.com',
+        },
+      });
+    });
+
     it('should use injected config when available (non-local)', async () => {
       mockLocation.hostname = 'session-abc.example.com';
       const validConfig: SessionConfig = {
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Framework logging.
+ *
+ * This package provides the structured logger shared by the lobby, the
+ * session servers and bots. Entries are JSON lines carrying the session and
+ * app of the process (from `SESSION_ID` and `APP_ID`), so the logs of one
+ * match can be correlated across all of them.
+ */
+
+export {
+  createLogger,
+  formatLogEntry,
+  getEnvLogFields,
+  LOG_LEVELS,
+  type LogFields,
+  type Logger,
+  type LoggerOptions,
+  type LogLevel,
+  logger,
+  parseLogLevel,
+} from './logger.js';
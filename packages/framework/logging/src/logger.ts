@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Structured logger writing JSON lines.
+ *
+ * Handles:
+ * - One JSON object per entry with time, level, message and fields
+ * - Level filtering (`LOG_LEVEL`, default info)
+ * - Child loggers adding fields to every entry (e.g. a participant ID)
+ * - Correlation fields from the container environment (`SESSION_ID`, `APP_ID`)
+ * - Errors serialized with their name, message and stack
+ */
+
+/**
+ * Severity of a log entry, least severe first.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** All levels, least severe first */
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Structured data attached to a log entry.
+ */
+export type LogFields = Readonly<Record<string, unknown>>;
+
+/**
+ * Writes structured log entries.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger adding `fields` to every entry, on top of this logger's own */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Options for creating a logger.
+ */
+export interface LoggerOptions {
+  /** Least severe level written (default: LOG_LEVEL env var, or info) */
+  readonly level?: LogLevel;
+  /** Fields added to every entry (default: correlation fields from the environment) */
+  readonly fields?: LogFields;
+  /** Writes one formatted entry (default: stdout below warn, stderr from warn up) */
+  readonly write?: (line: string, level: LogLevel) => void;
+  /** Clock for entry timestamps */
+  readonly now?: () => Date;
+}
+
+/** Environment variables identifying a session's processes, by the field they become */
+const ENV_FIELDS: Readonly<Record<string, string>> = {
+  sessionId: 'SESSION_ID',
+  appId: 'APP_ID',
+};
+
+/**
+ * Parse a level name, ignoring case.
+ * @returns The level, or undefined if the name is unknown
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  const name = value?.toLowerCase();
+  return LOG_LEVELS.find((level) => level === name);
+}
+
+/**
+ * Correlation fields of the current process, from `SESSION_ID` and `APP_ID`.
+ * The lobby sets both for every session server and bot it starts.
+ */
+export function getEnvLogFields(env: NodeJS.ProcessEnv = process.env): LogFields {
+  const fields: Record<string, string> = {};
+  for (const [field, variable] of Object.entries(ENV_FIELDS)) {
+    const value = env[variable];
+    if (value) fields[field] = value;
+  }
+  return fields;
+}
+
+/**
+ * Format one entry as a JSON line.
+ * Entry fields never replace `time`, `level` or `msg`.
+ */
+export function formatLogEntry(
+  time: Date,
+  level: LogLevel,
+  message: string,
+  fields: LogFields = {}
+): string {
+  const base = { time: time.toISOString(), level, msg: message };
+  const seen = new WeakSet<object>();
+  return JSON.stringify({ ...base, ...fields, ...base }, (_key, value: unknown) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'object' && value !== null) {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  // Through the console rather than the streams, so test spies still silence it
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger.
+ *
+ * @example
+ * ```typescript
+ * const log = createLogger({ fields: { component: 'bot' } });
+ * log.info('Bot connected', { url });
+ * // {"time":"…","level":"info","msg":"Bot connected","component":"bot","url":"…"}
+ * ```
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const level = options.level ?? parseLogLevel(process.env['LOG_LEVEL']) ?? 'info';
+  const minimum = LOG_LEVELS.indexOf(level);
+  const write = options.write ?? writeToConsole;
+  const now = options.now ?? (() => new Date());
+
+  const build = (bound: LogFields): Logger => {
+    const entry =
+      (entryLevel: LogLevel) =>
+      (message: string, fields?: LogFields): void => {
+        if (LOG_LEVELS.indexOf(entryLevel) < minimum) return;
+        write(formatLogEntry(now(), entryLevel, message, { ...bound, ...fields }), entryLevel);
+      };
+
+    return {
+      debug: entry('debug'),
+      info: entry('info'),
+      warn: entry('warn'),
+      error: entry('error'),
+      child: (fields) => build({ ...bound, ...fields }),
+    };
+  };
+
+  return build(options.fields ?? getEnvLogFields());
+}
+
+/**
+ * Process-wide logger carrying the correlation fields of the environment.
+ * Derive component loggers from it with `child`.
+ */
+export const logger: Logger = createLogger();
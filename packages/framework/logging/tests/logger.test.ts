@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createLogger,
+  formatLogEntry,
+  getEnvLogFields,
+  type LogLevel,
+  parseLogLevel,
+} from '../src/index.js';
+
+const TIME = new Date('2025-01-01T10:00:00.000Z');
+
+function createTestLogger(level?: LogLevel) {
+  const lines: { entry: Record<string, unknown>; level: LogLevel }[] = [];
+  const logger = createLogger({
+    level,
+    fields: { sessionId: 'abc', appId: 'blocks-cannons' },
+    now: () => TIME,
+    write: (line, entryLevel) => lines.push({ entry: JSON.parse(line), level: entryLevel }),
+  });
+  return { logger, lines };
+}
+
+describe('createLogger', () => {
+  it('should write one JSON entry per call with the bound fields', () => {
+    const { logger, lines } = createTestLogger();
+
+    logger.info('Server started', { port: 3001 });
+
+    expect(lines).toEqual([
+      {
+        level: 'info',
+        entry: {
+          time: '2025-01-01T10:00:00.000Z',
+          level: 'info',
+          msg: 'Server started',
+          sessionId: 'abc',
+          appId: 'blocks-cannons',
+          port: 3001,
+        },
+      },
+    ]);
+  });
+
+  it('should skip entries below the level', () => {
+    const { logger, lines } = createTestLogger('warn');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should add child fields without changing the parent', () => {
+    const { logger, lines } = createTestLogger();
+    const participant = logger.child({ participantId: 'p1' });
+
+    participant.child({ component: 'bot' }).info('Joined');
+    logger.info('Parent');
+
+    expect(lines[0]?.entry).toMatchObject({
+      sessionId: 'abc',
+      participantId: 'p1',
+      component: 'bot',
+    });
+    expect(lines[1]?.entry).not.toHaveProperty('participantId');
+  });
+
+  it('should default to the console and the environment', () => {
+    vi.stubEnv('SESSION_ID', 'xyz');
+    vi.stubEnv('LOG_LEVEL', 'ERROR');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const logger = createLogger();
+      logger.info('Hidden');
+      logger.error('Shown');
+
+      expect(log).not.toHaveBeenCalled();
+      expect(JSON.parse(String(error.mock.calls[0]?.[0]))).toMatchObject({
+        msg: 'Shown',
+        sessionId: 'xyz',
+      });
+    } finally {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('formatLogEntry', () => {
+  it('should serialize errors, big integers and circular references', () => {
+    const cyclic: Record<string, unknown> = { name: 'loop' };
+    cyclic['self'] = cyclic;
+
+    const entry = JSON.parse(
+      formatLogEntry(TIME, 'error', 'Failed', {
+        error: new TypeError('bad input'),
+        count: 10n,
+        cyclic,
+      })
+    );
+
+    expect(entry.error).toMatchObject({ name: 'TypeError', message: 'bad input' });
+    expect(entry.error.stack).toContain('bad input');
+    expect(entry.count).toBe('10');
+    expect(entry.cyclic).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+
+  it('should keep time, level and message when fields collide', () => {
+    const entry = JSON.parse(formatLogEntry(TIME, 'info', 'Real', { msg: 'fake', level: 'x' }));
+
+    expect(entry).toMatchObject({ msg: 'Real', level: 'info' });
+    expect(Object.keys(entry).slice(0, 3)).toEqual(['time', 'level', 'msg']);
+  });
+});
+
+describe('parseLogLevel', () => {
+  it('should accept known levels in any case', () => {
+    expect(parseLogLevel('DEBUG')).toBe('debug');
+    expect(parseLogLevel('verbose')).toBeUndefined();
+    expect(parseLogLevel(undefined)).toBeUndefined();
+  });
+});
+
+describe('getEnvLogFields', () => {
+  it('should map the session and app of the container', () => {
+    expect(getEnvLogFields({ SESSION_ID: 'abc', APP_ID: 'hello-hands', PORT: '3001' })).toEqual({
+      sessionId: 'abc',
+      appId: 'hello-hands',
+    });
+    expect(getEnvLogFields({ SESSION_ID: '' })).toEqual({});
+  });
+});
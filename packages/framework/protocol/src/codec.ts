@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Wire codecs for session messages.
+ *
+ * Handles:
+ * - JSON text frames (the default, always supported)
+ * - MessagePack binary frames for high-frequency apps
+ * - Codec lookup by name and by frame type
+ *
+ * The codec is negotiated per connection: clients request one through a
+ * query parameter on the WebSocket URL and the server answers in that codec
+ * if it supports it, otherwise in JSON. Text frames are always JSON and
+ * binary frames are always MessagePack, so either side can decode a frame
+ * without knowing what was negotiated.
+ */
+
+import type { CodecName } from './types.js';
+
+/**
+ * Raw WebSocket frame payload.
+ */
+export type WireData = string | Uint8Array;
+
+/**
+ * Encodes and decodes session messages for the wire.
+ */
+export interface MessageCodec {
+  readonly name: CodecName;
+  /** Encode a message into a frame payload */
+  encode(message: unknown): WireData;
+  /** Decode a frame payload (throws on malformed input) */
+  decode(data: WireData): unknown;
+}
+
+/**
+ * Error thrown when a frame cannot be decoded.
+ */
+export class CodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodecError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * JSON codec producing text frames.
+ */
+export const JSON_CODEC: MessageCodec = {
+  name: 'json',
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+};
+
+/**
+ * MessagePack codec producing binary frames.
+ *
+ * Supports the subset of MessagePack needed for JSON-compatible values plus
+ * `Uint8Array` (bin). Like `JSON.stringify`, object properties holding
+ * `undefined` are omitted and non-finite numbers become nil.
+ */
+export const MSGPACK_CODEC: MessageCodec = {
+  name: 'msgpack',
+  encode: (message) => {
+    const writer = new Writer();
+    writer.write(message);
+    return writer.finish();
+  },
+  decode: (data) => {
+    const bytes = typeof data === 'string' ? textEncoder.encode(data) : data;
+    const reader = new Reader(bytes);
+    const value = reader.read();
+    if (!reader.isAtEnd()) {
+      throw new CodecError('Trailing bytes after MessagePack value');
+    }
+    return value;
+  },
+};
+
+const CODECS: Readonly<Record<CodecName, MessageCodec>> = {
+  json: JSON_CODEC,
+  msgpack: MSGPACK_CODEC,
+};
+
+/**
+ * Look up a codec by name.
+ */
+export function getCodec(name: CodecName): MessageCodec {
+  return CODECS[name];
+}
+
+/**
+ * Pick the codec that decodes a received frame.
+ * Text frames are JSON; binary frames are MessagePack.
+ */
+export function getCodecForFrame(data: WireData): MessageCodec {
+  return typeof data === 'string' ? JSON_CODEC : MSGPACK_CODEC;
+}
+
+// ============ MessagePack Encoding ============
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  write(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.writeByte(0xc0);
+    } else if (value === false) {
+      this.writeByte(0xc2);
+    } else if (value === true) {
+      this.writeByte(0xc3);
+    } else if (typeof value === 'number') {
+      this.writeNumber(value);
+    } else if (typeof value === 'string') {
+      this.writeString(value);
+    } else if (value instanceof Uint8Array) {
+      this.writeBinary(value);
+    } else if (Array.isArray(value)) {
+      this.writeArray(value);
+    } else if (typeof value === 'object') {
+      this.writeMap(value as Record<string, unknown>);
+    } else {
+      throw new CodecError(`Cannot encode value of type ${typeof value}`);
+    }
+  }
+
+  private writeNumber(value: number): void {
+    if (!Number.isFinite(value)) {
+      this.writeByte(0xc0);
+      return;
+    }
+
+    if (Number.isInteger(value)) {
+      if (value >= 0) {
+        if (value < 0x80) {
+          this.writeByte(value);
+          return;
+        }
+        if (value <= 0xff) {
+          this.writeByte(0xcc);
+          this.writeByte(value);
+          return;
+        }
+        if (value <= 0xffff) {
+          this.writeByte(0xcd);
+          this.ensure(2);
+          this.view.setUint16(this.offset, value);
+          this.offset += 2;
+          return;
+        }
+        if (value <= 0xffffffff) {
+          this.writeByte(0xce);
+          this.ensure(4);
+          this.view.setUint32(this.offset, value);
+          this.offset += 4;
+          return;
+        }
+      } else {
+        if (value >= -0x20) {
+          this.writeByte(value & 0xff);
+          return;
+        }
+        if (value >= -0x80) {
+          this.writeByte(0xd0);
+          this.ensure(1);
+          this.view.setInt8(this.offset, value);
+          this.offset += 1;
+          return;
+        }
+        if (value >= -0x8000) {
+          this.writeByte(0xd1);
+          this.ensure(2);
+          this.view.setInt16(this.offset, value);
+          this.offset += 2;
+          return;
+        }
+        if (value >= -0x80000000) {
+          this.writeByte(0xd2);
+          this.ensure(4);
+          this.view.setInt32(this.offset, value);
+          this.offset += 4;
+          return;
+        }
+      }
+    }
+
+    // Fractions and integers beyond 32 bits
+    this.writeByte(0xcb);
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  private writeString(value: string): void {
+    const bytes = textEncoder.encode(value);
+    const length = bytes.length;
+    if (length < 0x20) {
+      this.writeByte(0xa0 | length);
+    } else if (length <= 0xff) {
+      this.writeByte(0xd9);
+      this.writeByte(length);
+    } else if (length <= 0xffff) {
+      this.writeHeader16(0xda, length);
+    } else {
+      this.writeHeader32(0xdb, length);
+    }
+    this.writeBytes(bytes);
+  }
+
+  private writeBinary(value: Uint8Array): void {
+    const length = value.length;
+    if (length <= 0xff) {
+      this.writeByte(0xc4);
+      this.writeByte(length);
+    } else if (length <= 0xffff) {
+      this.writeHeader16(0xc5, length);
+    } else {
+      this.writeHeader32(0xc6, length);
+    }
+    this.writeBytes(value);
+  }
+
+  private writeArray(value: readonly unknown[]): void {
+    const length = value.length;
+    if (length < 0x10) {
+      this.writeByte(0x90 | length);
+    } else if (length <= 0xffff) {
+      this.writeHeader16(0xdc, length);
+    } else {
+      this.writeHeader32(0xdd, length);
+    }
+    for (const item of value) {
+      this.write(item);
+    }
+  }
+
+  private writeMap(value: Record<string, unknown>): void {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    const length = entries.length;
+    if (length < 0x10) {
+      this.writeByte(0x80 | length);
+    } else if (length <= 0xffff) {
+      this.writeHeader16(0xde, length);
+    } else {
+      this.writeHeader32(0xdf, length);
+    }
+    for (const [key, item] of entries) {
+      this.writeString(key);
+      this.write(item);
+    }
+  }
+
+  private writeHeader16(type: number, length: number): void {
+    this.writeByte(type);
+    this.ensure(2);
+    this.view.setUint16(this.offset, length);
+    this.offset += 2;
+  }
+
+  private writeHeader32(type: number, length: number): void {
+    this.writeByte(type);
+    this.ensure(4);
+    this.view.setUint32(this.offset, length);
+    this.offset += 4;
+  }
+
+  private writeByte(byte: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = byte;
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  private ensure(size: number): void {
+    const required = this.offset + size;
+    if (required <= this.buffer.length) return;
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < required) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+// ============ MessagePack Decoding ============
+
+class Reader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  isAtEnd(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  read(): unknown {
+    const type = this.readUint8();
+
+    // Fixed-size formats
+    if (type < 0x80) return type;
+    if (type < 0x90) return this.readMap(type & 0x0f);
+    if (type < 0xa0) return this.readArray(type & 0x0f);
+    if (type < 0xc0) return this.readString(type & 0x1f);
+    if (type >= 0xe0) return type - 0x100;
+
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return this.readBinary(this.readUint8());
+      case 0xc5:
+        return this.readBinary(this.readUint16());
+      case 0xc6:
+        return this.readBinary(this.readUint32());
+      case 0xca:
+        return this.readNumber(4, (offset) => this.view.getFloat32(offset));
+      case 0xcb:
+        return this.readNumber(8, (offset) => this.view.getFloat64(offset));
+      case 0xcc:
+        return this.readUint8();
+      case 0xcd:
+        return this.readUint16();
+      case 0xce:
+        return this.readUint32();
+      case 0xcf:
+        return this.readNumber(8, (offset) => Number(this.view.getBigUint64(offset)));
+      case 0xd0:
+        return this.readNumber(1, (offset) => this.view.getInt8(offset));
+      case 0xd1:
+        return this.readNumber(2, (offset) => this.view.getInt16(offset));
+      case 0xd2:
+        return this.readNumber(4, (offset) => this.view.getInt32(offset));
+      case 0xd3:
+        return this.readNumber(8, (offset) => Number(this.view.getBigInt64(offset)));
+      case 0xd9:
+        return this.readString(this.readUint8());
+      case 0xda:
+        return this.readString(this.readUint16());
+      case 0xdb:
+        return this.readString(this.readUint32());
+      case 0xdc:
+        return this.readArray(this.readUint16());
+      case 0xdd:
+        return this.readArray(this.readUint32());
+      case 0xde:
+        return this.readMap(this.readUint16());
+      case 0xdf:
+        return this.readMap(this.readUint32());
+      default:
+        throw new CodecError(`Unsupported MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  private readArray(length: number): unknown[] {
+    const result: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      result.push(this.read());
+    }
+    return result;
+  }
+
+  private readMap(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.read();
+      if (typeof key !== 'string') {
+        throw new CodecError('MessagePack map keys must be strings');
+      }
+      // Define rather than assign so a `__proto__` key stays a plain property
+      Object.defineProperty(result, key, {
+        value: this.read(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  private readString(length: number): string {
+    return textDecoder.decode(this.take(length));
+  }
+
+  private readBinary(length: number): Uint8Array {
+    return this.take(length).slice();
+  }
+
+  private readUint8(): number {
+    return this.readNumber(1, (offset) => this.view.getUint8(offset));
+  }
+
+  private readUint16(): number {
+    return this.readNumber(2, (offset) => this.view.getUint16(offset));
+  }
+
+  private readUint32(): number {
+    return this.readNumber(4, (offset) => this.view.getUint32(offset));
+  }
+
+  private readNumber(size: number, get: (offset: number) => number): number {
+    this.require(size);
+    const value = get(this.offset);
+    this.offset += size;
+    return value;
+  }
+
+  private take(length: number): Uint8Array {
+    this.require(length);
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private require(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new CodecError('Unexpected end of MessagePack data');
+    }
+  }
+}
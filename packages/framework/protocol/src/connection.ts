@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Connection role negotiation.
+ *
+ * Clients declare their role through a query parameter on the WebSocket URL,
+ * so the server knows whether to admit a connection as a participant or as a
+ * read-only spectator before it sends the first message. Reconnecting
+ * participants present their resume token the same way, players with an
+ * account present their signed player token, players of private sessions
+ * present the session's access key, and clients request a wire codec
+ * through the same query string.
+ */
+
+import { type CodecName, CodecNameSchema, type ConnectionRole, type ResumeToken } from './types.js';
+
+/**
+ * Query parameter carrying the requested connection role.
+ */
+export const CONNECTION_ROLE_PARAM = 'role';
+
+/**
+ * Query parameter carrying a participant's resume token.
+ */
+export const RESUME_TOKEN_PARAM = 'resume';
+
+/**
+ * Query parameter carrying a signed player token.
+ */
+export const PLAYER_TOKEN_PARAM = 'player';
+
+/**
+ * Query parameter carrying the access key of a private session (its invite
+ * token or password). Session links use the same parameter, so the client
+ * forwards it from the page URL.
+ */
+export const ACCESS_KEY_PARAM = 'access';
+
+/**
+ * Query parameter carrying the requested wire codec.
+ */
+export const CODEC_PARAM = 'codec';
+
+/**
+ * Resolve the connection role from a WebSocket request URL.
+ * Accepts absolute URLs and request paths (e.g. `/ws?role=spectator`).
+ * Anything other than an explicit spectator request is a participant.
+ */
+export function getConnectionRole(url: string | undefined): ConnectionRole {
+  if (!url) return 'participant';
+
+  try {
+    const role = new URL(url, 'http://localhost').searchParams.get(CONNECTION_ROLE_PARAM);
+    return role === 'spectator' ? 'spectator' : 'participant';
+  } catch {
+    return 'participant';
+  }
+}
+
+/**
+ * Add the connection role to a WebSocket URL.
+ * @param url - Absolute WebSocket URL (e.g., ws://localhost:3001)
+ * @param role - Role to request
+ */
+export function withConnectionRole(url: string, role: ConnectionRole): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(CONNECTION_ROLE_PARAM, role);
+  return parsed.toString();
+}
+
+/**
+ * Resolve the resume token from a WebSocket request URL.
+ * @returns The token, or undefined if none was presented
+ */
+export function getResumeToken(url: string | undefined): ResumeToken | undefined {
+  if (!url) return undefined;
+
+  try {
+    const token = new URL(url, 'http://localhost').searchParams.get(RESUME_TOKEN_PARAM);
+    return token || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add a resume token to a WebSocket URL.
+ * @param url - Absolute WebSocket URL (e.g., ws://localhost:3001)
+ * @param token - Token issued in the previous welcome message
+ */
+export function withResumeToken(url: string, token: ResumeToken): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(RESUME_TOKEN_PARAM, token);
+  return parsed.toString();
+}
+
+/**
+ * Resolve the player token from a WebSocket request URL.
+ * @returns The token, or undefined if none was presented
+ */
+export function getPlayerToken(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+
+  try {
+    const token = new URL(url, 'http://localhost').searchParams.get(PLAYER_TOKEN_PARAM);
+    return token || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add a player token to a WebSocket URL.
+ * @param url - Absolute WebSocket URL (e.g., ws://localhost:3001)
+ * @param token - Token issued by the lobby
+ */
+export function withPlayerToken(url: string, token: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(PLAYER_TOKEN_PARAM, token);
+  return parsed.toString();
+}
+
+/**
+ * Resolve the access key from a WebSocket request URL.
+ * @returns The key, or undefined if none was presented
+ */
+export function getAccessKey(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+
+  try {
+    const key = new URL(url, 'http://localhost').searchParams.get(ACCESS_KEY_PARAM);
+    return key || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add an access key to a WebSocket URL or session link.
+ * @param url - Absolute URL (e.g., ws://localhost:3001)
+ * @param key - Invite token or password of the private session
+ */
+export function withAccessKey(url: string, key: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(ACCESS_KEY_PARAM, key);
+  return parsed.toString();
+}
+
+/**
+ * Resolve the requested wire codec from a WebSocket request URL.
+ * Missing or unknown codecs fall back to JSON.
+ */
+export function getRequestedCodec(url: string | undefined): CodecName {
+  if (!url) return 'json';
+
+  try {
+    const codec = new URL(url, 'http://localhost').searchParams.get(CODEC_PARAM);
+    const result = CodecNameSchema.safeParse(codec);
+    return result.success ? result.data : 'json';
+  } catch {
+    return 'json';
+  }
+}
+
+/**
+ * Request a wire codec on a WebSocket URL.
+ * @param url - Absolute WebSocket URL (e.g., ws://localhost:3001)
+ * @param codec - Codec to request
+ */
+export function withCodec(url: string, codec: CodecName): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(CODEC_PARAM, codec);
+  return parsed.toString();
+}
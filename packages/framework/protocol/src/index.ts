@@ -7,26 +7,113 @@
  * their own domain-specific messages.
  */
 
+export {
+  CodecError,
+  getCodec,
+  getCodecForFrame,
+  JSON_CODEC,
+  type MessageCodec,
+  MSGPACK_CODEC,
+  type WireData,
+} from './codec.js';
+export {
+  ACCESS_KEY_PARAM,
+  CODEC_PARAM,
+  CONNECTION_ROLE_PARAM,
+  getAccessKey,
+  getConnectionRole,
+  getPlayerToken,
+  getRequestedCodec,
+  getResumeToken,
+  PLAYER_TOKEN_PARAM,
+  RESUME_TOKEN_PARAM,
+  withAccessKey,
+  withCodec,
+  withConnectionRole,
+  withPlayerToken,
+  withResumeToken,
+} from './connection.js';
+export {
+  LIFECYCLE_SECRET_HEADER,
+  type LifecycleEvent,
+  LifecycleEventSchema,
+  type LifecycleWebhookPayload,
+  LifecycleWebhookPayloadSchema,
+  type MatchParticipant,
+  MatchParticipantSchema,
+  ParticipantJoinedEventSchema,
+  ParticipantLeftEventSchema,
+  SessionEndedEventSchema,
+  SessionStartedEventSchema,
+  ShutdownEventSchema,
+  type ShutdownReason,
+  ShutdownReasonSchema,
+} from './lifecycle.js';
 export {
   BotIdentifyMessageSchema,
+  ClockPingMessageSchema,
+  ClockPongMessageSchema,
+  CountdownCancelledMessageSchema,
+  CountdownMessageSchema,
   createSessionClientMessageSchema,
   createSessionServerMessageSchema,
   ErrorMessageSchema,
   type FrameworkClientMessage,
   FrameworkClientMessageSchema,
+  OpponentDisconnectedMessageSchema,
+  OpponentReconnectedMessageSchema,
+  ParticipantUnreadyMessageSchema,
+  PauseRequestMessageSchema,
   PlayAgainStatusMessageSchema,
   PlayAgainVoteMessageSchema,
   type SessionEndedReason,
   SessionEndedReasonSchema,
+  SessionPausedMessageSchema,
+  SessionResumedMessageSchema,
   SessionStartedMessageSchema,
+  StateDeltaMessageSchema,
+  StateKeyframeMessageSchema,
+  type TickStamp,
+  TickStampSchema,
 } from './messages.js';
 export {
+  PLAYER_TOKEN_QUERY_PARAM,
+  type PlayerId,
+  PlayerIdSchema,
+  type PlayerProfile,
+  PlayerProfileSchema,
+  type PlayerTokenClaims,
+  PlayerTokenClaimsSchema,
+} from './player.js';
+export {
+  applyStateDelta,
+  type CollectionDelta,
+  diffReplicatedState,
+  type EntityId,
+  type ReplicatedCollection,
+  type ReplicatedEntity,
+  type ReplicatedState,
+  ReplicatedStateSchema,
+  type StateDelta,
+  StateDeltaSchema,
+} from './replication.js';
+export {
+  type CodecName,
+  CodecNameSchema,
+  type ConnectionRole,
+  ConnectionRoleSchema,
   type ParticipantId,
   ParticipantIdSchema,
   type ParticipantNumber,
   ParticipantNumberSchema,
+  type ResumeToken,
+  ResumeTokenSchema,
   type SessionPhase,
   SessionPhaseSchema,
+  type SpectatorId,
+  SpectatorIdSchema,
+  type TeamId,
+  TeamIdSchema,
 } from './types.js';
 
 /**
@@ -35,15 +122,28 @@ export {
 export function isFrameworkMessage(message: { type: string }): boolean {
   return new Set([
     'participant_ready',
+    'participant_unready',
     'bot_identify',
     'play_again_vote',
+    'pause_request',
+    'clock_ping',
     'welcome',
+    'spectator_welcome',
     'opponent_joined',
     'opponent_left',
+    'opponent_disconnected',
+    'opponent_reconnected',
+    'countdown',
+    'countdown_cancelled',
     'session_started',
+    'session_paused',
+    'session_resumed',
     'session_ended',
     'play_again_status',
     'session_reset',
+    'state_keyframe',
+    'state_delta',
+    'clock_pong',
     'error',
   ]).has(message.type);
 }
@@ -59,7 +159,9 @@ export {
   type AppManifest,
   AppNotFoundError,
   AppRegistry,
+  DEFAULT_PLAYER_COUNT,
   DuplicateAppError,
+  getPlayerLimits,
   globalRegistry,
   InvalidManifestError,
   validateManifest,
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Session lifecycle events reported by app servers to the lobby.
+ *
+ * Handles:
+ * - Event schemas shared by the posting server and the receiving lobby
+ * - The webhook payload envelope
+ * - The header carrying the shared secret
+ */
+
+import { z } from 'zod';
+import { SessionEndedReasonSchema } from './messages.js';
+import { PlayerIdSchema, PlayerProfileSchema } from './player.js';
+import { ParticipantIdSchema, ParticipantNumberSchema, TeamIdSchema } from './types.js';
+
+/**
+ * Header carrying the shared secret, as `Bearer <secret>`.
+ */
+export const LIFECYCLE_SECRET_HEADER = 'authorization';
+
+export const ParticipantJoinedEventSchema = z.object({
+  type: z.literal('participant_joined'),
+  participantId: ParticipantIdSchema,
+  participantNumber: ParticipantNumberSchema,
+  /** Account of the participant, if it presented a valid player token */
+  playerId: PlayerIdSchema.optional(),
+  /** Participants in the session after the join */
+  participantCount: z.number().int().nonnegative(),
+});
+
+export const ParticipantLeftEventSchema = z.object({
+  type: z.literal('participant_left'),
+  participantId: ParticipantIdSchema,
+  participantNumber: ParticipantNumberSchema,
+  playerId: PlayerIdSchema.optional(),
+  /** Participants in the session after the leave */
+  participantCount: z.number().int().nonnegative(),
+});
+
+export const SessionStartedEventSchema = z.object({
+  type: z.literal('session_started'),
+});
+
+/**
+ * A participant of a finished match.
+ */
+export const MatchParticipantSchema = z.object({
+  participantId: ParticipantIdSchema,
+  participantNumber: ParticipantNumberSchema,
+  teamId: TeamIdSchema,
+  isBot: z.boolean(),
+  /** Account the participant played with, if signed in */
+  player: PlayerProfileSchema.optional(),
+});
+
+export type MatchParticipant = z.infer<typeof MatchParticipantSchema>;
+
+export const SessionEndedEventSchema = z.object({
+  type: z.literal('session_ended'),
+  reason: SessionEndedReasonSchema,
+  winnerTeamId: TeamIdSchema.optional(),
+  /** Participants when the match started (absent from servers predating results) */
+  participants: z.array(MatchParticipantSchema).optional(),
+  /**
+   * 1-based number of the match within the session; with the session ID it
+   * identifies the match, so the lobby can ignore repeated deliveries
+   */
+  matchNumber: z.number().int().positive().optional(),
+  durationMs: z.number().nonnegative().optional(),
+  /** App-specific results, as sent to clients with session_ended */
+  appData: z.unknown().optional(),
+});
+
+export const ShutdownReasonSchema = z.enum(['inactivity', 'signal', 'stopped']);
+
+export type ShutdownReason = z.infer<typeof ShutdownReasonSchema>;
+
+export const ShutdownEventSchema = z.object({
+  type: z.literal('shutdown'),
+  reason: ShutdownReasonSchema,
+});
+
+export const LifecycleEventSchema = z.discriminatedUnion('type', [
+  ParticipantJoinedEventSchema,
+  ParticipantLeftEventSchema,
+  SessionStartedEventSchema,
+  SessionEndedEventSchema,
+  ShutdownEventSchema,
+]);
+
+export type LifecycleEvent = z.infer<typeof LifecycleEventSchema>;
+
+/**
+ * Body of a lifecycle webhook request.
+ */
+export const LifecycleWebhookPayloadSchema = z.object({
+  event: LifecycleEventSchema,
+  /** When the server observed the event, in epoch milliseconds */
+  timestamp: z.number(),
+});
+
+export type LifecycleWebhookPayload = z.infer<typeof LifecycleWebhookPayloadSchema>;
@@ -1,5 +1,13 @@
 import { z } from 'zod';
-import { ParticipantIdSchema, ParticipantNumberSchema, SessionPhaseSchema } from './types.js';
+import { ReplicatedStateSchema, StateDeltaSchema } from './replication.js';
+import {
+  ParticipantIdSchema,
+  ParticipantNumberSchema,
+  ResumeTokenSchema,
+  SessionPhaseSchema,
+  SpectatorIdSchema,
+  TeamIdSchema,
+} from './types.js';
 
 /**
  * Framework client → server messages.
@@ -8,6 +16,10 @@ export const ParticipantReadyMessageSchema = z.object({
   type: z.literal('participant_ready'),
 });
 
+export const ParticipantUnreadyMessageSchema = z.object({
+  type: z.literal('participant_unready'),
+});
+
 export const BotIdentifyMessageSchema = z.object({
   type: z.literal('bot_identify'),
 });
@@ -16,10 +28,23 @@ export const PlayAgainVoteMessageSchema = z.object({
   type: z.literal('play_again_vote'),
 });
 
+export const PauseRequestMessageSchema = z.object({
+  type: z.literal('pause_request'),
+});
+
+export const ClockPingMessageSchema = z.object({
+  type: z.literal('clock_ping'),
+  /** Client clock when the ping was sent, echoed back in the pong */
+  clientTime: z.number(),
+});
+
 export const FrameworkClientMessageSchema = z.discriminatedUnion('type', [
   ParticipantReadyMessageSchema,
+  ParticipantUnreadyMessageSchema,
   BotIdentifyMessageSchema,
   PlayAgainVoteMessageSchema,
+  PauseRequestMessageSchema,
+  ClockPingMessageSchema,
 ]);
 
 export type FrameworkClientMessage = z.infer<typeof FrameworkClientMessageSchema>;
@@ -40,8 +65,38 @@ export const SessionStartedMessageSchema = z.object({
   type: z.literal('session_started'),
 });
 
+export const CountdownMessageSchema = z.object({
+  type: z.literal('countdown'),
+  secondsRemaining: z.number().int().positive(),
+});
+
+export const CountdownCancelledMessageSchema = z.object({
+  type: z.literal('countdown_cancelled'),
+});
+
+export const SessionPausedMessageSchema = z.object({
+  type: z.literal('session_paused'),
+  pausedBy: ParticipantIdSchema,
+});
+
+export const SessionResumedMessageSchema = z.object({
+  type: z.literal('session_resumed'),
+});
+
 export const OpponentLeftMessageSchema = z.object({
   type: z.literal('opponent_left'),
+  participantId: ParticipantIdSchema,
+});
+
+export const OpponentDisconnectedMessageSchema = z.object({
+  type: z.literal('opponent_disconnected'),
+  participantId: ParticipantIdSchema,
+  gracePeriodMs: z.number().int().nonnegative(),
+});
+
+export const OpponentReconnectedMessageSchema = z.object({
+  type: z.literal('opponent_reconnected'),
+  participantId: ParticipantIdSchema,
 });
 
 export const PlayAgainStatusMessageSchema = z.object({
@@ -50,6 +105,39 @@ export const PlayAgainStatusMessageSchema = z.object({
   totalParticipants: z.number().int().nonnegative(),
 });
 
+export const ClockPongMessageSchema = z.object({
+  type: z.literal('clock_pong'),
+  /** Echo of the ping's client time */
+  clientTime: z.number(),
+  /** Server clock (epoch milliseconds) when the ping was answered */
+  serverTime: z.number(),
+});
+
+/**
+ * Fields stamped on every message broadcast from the server tick.
+ * `tick` increases by one per tick for the lifetime of the session.
+ */
+export const TickStampSchema = z.object({
+  tick: z.number().int().nonnegative(),
+  /** Server clock (epoch milliseconds) at the tick */
+  serverTime: z.number(),
+});
+export type TickStamp = z.infer<typeof TickStampSchema>;
+
+export const StateKeyframeMessageSchema = TickStampSchema.extend({
+  type: z.literal('state_keyframe'),
+  seq: z.number().int().nonnegative(),
+  state: ReplicatedStateSchema,
+});
+
+export const StateDeltaMessageSchema = TickStampSchema.extend({
+  type: z.literal('state_delta'),
+  seq: z.number().int().nonnegative(),
+  /** Sequence number of the state this delta applies to */
+  baseSeq: z.number().int().nonnegative(),
+  changes: StateDeltaSchema,
+});
+
 export const ErrorMessageSchema = z.object({
   type: z.literal('error'),
   message: z.string(),
@@ -76,12 +164,14 @@ export function createSessionServerMessageSchema<
   TOpponentJoinedDataSchema extends z.ZodTypeAny = z.ZodUndefined,
   TResetDataSchema extends z.ZodTypeAny = z.ZodUndefined,
   TSessionEndedDataSchema extends z.ZodTypeAny = z.ZodUndefined,
+  TSpectatorWelcomeDataSchema extends z.ZodTypeAny = z.ZodUndefined,
 >(options: {
   appServerMessageSchema: TAppServerMessageSchema;
   welcomeAppDataSchema: TWelcomeDataSchema;
   opponentJoinedAppDataSchema?: TOpponentJoinedDataSchema;
   resetAppDataSchema?: TResetDataSchema;
   sessionEndedAppDataSchema?: TSessionEndedDataSchema;
+  spectatorWelcomeAppDataSchema?: TSpectatorWelcomeDataSchema;
 }) {
   const {
     appServerMessageSchema,
@@ -89,18 +179,32 @@ export function createSessionServerMessageSchema<
     opponentJoinedAppDataSchema,
     resetAppDataSchema,
     sessionEndedAppDataSchema,
+    spectatorWelcomeAppDataSchema,
   } = options;
 
   const WelcomeMessageSchema = z.object({
     type: z.literal('welcome'),
     participantId: ParticipantIdSchema,
     participantNumber: ParticipantNumberSchema,
+    teamId: TeamIdSchema,
     sessionPhase: SessionPhaseSchema,
+    resumeToken: ResumeTokenSchema.optional(),
+    resumed: z.boolean().optional(),
     appData: welcomeAppDataSchema,
   });
 
+  const SpectatorWelcomeMessageSchema = z.object({
+    type: z.literal('spectator_welcome'),
+    spectatorId: SpectatorIdSchema,
+    sessionPhase: SessionPhaseSchema,
+    appData: spectatorWelcomeAppDataSchema?.optional(),
+  });
+
   const OpponentJoinedMessageSchema = z.object({
     type: z.literal('opponent_joined'),
+    participantId: ParticipantIdSchema,
+    participantNumber: ParticipantNumberSchema,
+    teamId: TeamIdSchema,
     appData: opponentJoinedAppDataSchema?.optional(),
   });
 
@@ -109,6 +213,7 @@ export function createSessionServerMessageSchema<
     reason: SessionEndedReasonSchema,
     winnerId: ParticipantIdSchema.optional(),
     winnerNumber: ParticipantNumberSchema.optional(),
+    winnerTeamId: TeamIdSchema.optional(),
     appData: sessionEndedAppDataSchema?.optional(),
   });
 
@@ -119,12 +224,22 @@ export function createSessionServerMessageSchema<
 
   const frameworkServerMessageSchema = z.discriminatedUnion('type', [
     WelcomeMessageSchema,
+    SpectatorWelcomeMessageSchema,
     OpponentJoinedMessageSchema,
     OpponentLeftMessageSchema,
+    OpponentDisconnectedMessageSchema,
+    OpponentReconnectedMessageSchema,
+    CountdownMessageSchema,
+    CountdownCancelledMessageSchema,
     SessionStartedMessageSchema,
+    SessionPausedMessageSchema,
+    SessionResumedMessageSchema,
     SessionEndedMessageSchema,
     PlayAgainStatusMessageSchema,
     SessionResetMessageSchema,
+    StateKeyframeMessageSchema,
+    StateDeltaMessageSchema,
+    ClockPongMessageSchema,
     ErrorMessageSchema,
   ]);
 
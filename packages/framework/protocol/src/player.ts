@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Player identity issued by the lobby.
+ *
+ * Handles:
+ * - The profile an optional player account carries
+ * - The claims inside the signed player token
+ *
+ * The lobby signs tokens and app servers verify them with a shared secret;
+ * both live in framework-server since signing needs Node's crypto.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Stable player identifier, the same across sessions.
+ */
+export type PlayerId = string;
+
+export const PlayerIdSchema = z.string().min(1).max(64);
+
+/**
+ * Public profile of a player account.
+ */
+export const PlayerProfileSchema = z.object({
+  id: PlayerIdSchema,
+  displayName: z.string().trim().min(1).max(32),
+  /** CSS hex color, e.g. "#3b82f6" */
+  avatarColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+});
+
+export type PlayerProfile = z.infer<typeof PlayerProfileSchema>;
+
+/**
+ * Claims carried by a signed player token.
+ */
+export const PlayerTokenClaimsSchema = PlayerProfileSchema.extend({
+  /** Expiry as milliseconds since the epoch */
+  exp: z.number().int().positive(),
+});
+
+export type PlayerTokenClaims = z.infer<typeof PlayerTokenClaimsSchema>;
+
+/**
+ * Query parameter carrying the player token on a session page link.
+ * The lobby adds it to each signed-in player's own link; the client forwards
+ * it to the server on the WebSocket URL.
+ */
+export const PLAYER_TOKEN_QUERY_PARAM = 'playerToken';
@@ -32,6 +32,27 @@ export interface AppManifest {
 
   /** Whether this app supports playing against a bot. Defaults to false. */
   readonly supportsBot?: boolean;
+
+  /** Fewest players needed to start a session. Defaults to 2. */
+  readonly minPlayers?: number;
+
+  /** Most players a session admits. Defaults to 2. */
+  readonly maxPlayers?: number;
+}
+
+/**
+ * Player count for apps that do not declare minPlayers/maxPlayers.
+ */
+export const DEFAULT_PLAYER_COUNT = 2;
+
+/**
+ * Get the number of players an app supports, with defaults applied.
+ */
+export function getPlayerLimits(manifest: AppManifest): { min: number; max: number } {
+  return {
+    min: manifest.minPlayers ?? DEFAULT_PLAYER_COUNT,
+    max: manifest.maxPlayers ?? DEFAULT_PLAYER_COUNT,
+  };
 }
 
 /**
@@ -105,6 +126,18 @@ export function validateManifest(manifest: unknown): asserts manifest is AppMani
   if (m['supportsBot'] !== undefined && typeof m['supportsBot'] !== 'boolean') {
     throw new InvalidManifestError('supportsBot must be a boolean');
   }
+
+  for (const key of ['minPlayers', 'maxPlayers']) {
+    const value = m[key];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+      throw new InvalidManifestError(`${key} must be a positive integer`);
+    }
+  }
+
+  const { min, max } = getPlayerLimits(m as unknown as AppManifest);
+  if (min > max) {
+    throw new InvalidManifestError('minPlayers must not exceed maxPlayers');
+  }
 }
 
 /**
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Replicated entity state for tick broadcasts.
+ *
+ * Handles:
+ * - Replicated state shape (named collections of entities keyed by ID)
+ * - Field-level diffing between two states
+ * - Delta application for client-side reconstruction
+ *
+ * The server sends a full keyframe first and then only the fields that
+ * changed since the previous message, plus the IDs of removed entities.
+ * Clients rebuild the state by applying each delta to the state they hold.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Identifier of a replicated entity within its collection.
+ */
+export type EntityId = string;
+
+/**
+ * A replicated entity: a flat record of JSON-compatible fields.
+ */
+export type ReplicatedEntity = Readonly<Record<string, unknown>>;
+
+/**
+ * Entities of one kind, keyed by ID.
+ */
+export type ReplicatedCollection = Readonly<Record<EntityId, ReplicatedEntity>>;
+
+/**
+ * Complete replicated state, keyed by collection name (e.g. `projectiles`).
+ */
+export type ReplicatedState = Readonly<Record<string, ReplicatedCollection>>;
+
+/**
+ * Changes to one collection between two states.
+ */
+export interface CollectionDelta {
+  /** Changed fields per entity; entities new to the collection carry all fields */
+  readonly updated?: Readonly<Record<EntityId, ReplicatedEntity>>;
+  /** IDs of entities that no longer exist */
+  readonly removed?: readonly EntityId[];
+}
+
+/**
+ * Changes between two states, keyed by collection name.
+ * Collections without changes are omitted.
+ */
+export type StateDelta = Readonly<Record<string, CollectionDelta>>;
+
+/**
+ * Zod schema for replicated state.
+ */
+export const ReplicatedStateSchema = z.record(
+  z.string(),
+  z.record(z.string(), z.record(z.string(), z.unknown()))
+);
+
+/**
+ * Zod schema for a state delta.
+ */
+export const StateDeltaSchema = z.record(
+  z.string(),
+  z.object({
+    updated: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+    removed: z.array(z.string()).optional(),
+  })
+);
+
+/**
+ * Compute the changes that turn `previous` into `next`.
+ * Fields are compared by value; a field missing from the next version of
+ * an entity is sent as `null`.
+ * @returns The delta, or null if nothing changed
+ */
+export function diffReplicatedState(
+  previous: ReplicatedState,
+  next: ReplicatedState
+): StateDelta | null {
+  const delta: Record<string, CollectionDelta> = {};
+
+  const names = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const name of names) {
+    const collectionDelta = diffCollection(previous[name] ?? {}, next[name] ?? {});
+    if (collectionDelta) {
+      delta[name] = collectionDelta;
+    }
+  }
+
+  return Object.keys(delta).length > 0 ? delta : null;
+}
+
+/**
+ * Apply a delta to a state, returning the new state.
+ * The input state is not modified.
+ */
+export function applyStateDelta(state: ReplicatedState, delta: StateDelta): ReplicatedState {
+  const result: Record<string, ReplicatedCollection> = { ...state };
+
+  for (const [name, changes] of Object.entries(delta)) {
+    const collection: Record<EntityId, ReplicatedEntity> = { ...(result[name] ?? {}) };
+
+    for (const id of changes.removed ?? []) {
+      delete collection[id];
+    }
+    for (const [id, fields] of Object.entries(changes.updated ?? {})) {
+      collection[id] = { ...(collection[id] ?? {}), ...fields };
+    }
+
+    result[name] = collection;
+  }
+
+  return result;
+}
+
+function diffCollection(
+  previous: ReplicatedCollection,
+  next: ReplicatedCollection
+): CollectionDelta | null {
+  const updated: Record<EntityId, ReplicatedEntity> = {};
+  const removed: EntityId[] = [];
+
+  for (const id of Object.keys(previous)) {
+    if (!(id in next)) {
+      removed.push(id);
+    }
+  }
+
+  for (const [id, entity] of Object.entries(next)) {
+    const before = previous[id];
+    if (!before) {
+      updated[id] = entity;
+      continue;
+    }
+
+    const changed = diffEntity(before, entity);
+    if (changed) {
+      updated[id] = changed;
+    }
+  }
+
+  const hasUpdates = Object.keys(updated).length > 0;
+  if (!hasUpdates && removed.length === 0) return null;
+
+  return {
+    ...(hasUpdates ? { updated } : {}),
+    ...(removed.length > 0 ? { removed } : {}),
+  };
+}
+
+function diffEntity(previous: ReplicatedEntity, next: ReplicatedEntity): ReplicatedEntity | null {
+  const changed: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(next)) {
+    if (!isEqualValue(previous[field], value)) {
+      changed[field] = value;
+    }
+  }
+  for (const field of Object.keys(previous)) {
+    if (!(field in next)) {
+      changed[field] = null;
+    }
+  }
+
+  return Object.keys(changed).length > 0 ? changed : null;
+}
+
+/**
+ * Structural equality for JSON-compatible values.
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => isEqualValue(item, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+  return keys.every((key) => key in bRecord && isEqualValue(aRecord[key], bRecord[key]));
+}
@@ -7,13 +7,44 @@ export type ParticipantId = string;
 
 /**
  * Participant number (1 or 2).
+ * The slot types of the server hooks and client default to it; sessions
+ * admitting more participants number their slots 1 to maxParticipants and
+ * pass `number` as the participant number type instead.
  */
 export type ParticipantNumber = 1 | 2;
 
+/**
+ * Team identifier: the 1-based side a participant plays for.
+ * With one participant per team it equals the participant number.
+ */
+export type TeamId = number;
+
+/**
+ * Spectator identifier.
+ */
+export type SpectatorId = string;
+
+/**
+ * Role a connection is admitted with.
+ * Participants play; spectators only observe.
+ */
+export type ConnectionRole = 'participant' | 'spectator';
+
+/**
+ * Wire codec used on a connection.
+ */
+export type CodecName = 'json' | 'msgpack';
+
+/**
+ * Opaque token a participant presents to reclaim its slot after a disconnect.
+ */
+export type ResumeToken = string;
+
 /**
  * Session lifecycle phase.
+ * `paused` is only entered from `playing` and returns to it.
  */
-export type SessionPhase = 'waiting' | 'playing' | 'finished';
+export type SessionPhase = 'waiting' | 'playing' | 'paused' | 'finished';
 
 /**
  * Zod schema for participant identifier.
@@ -21,11 +52,37 @@ export type SessionPhase = 'waiting' | 'playing' | 'finished';
 export const ParticipantIdSchema = z.string().min(1);
 
 /**
- * Zod schema for participant number.
+ * Zod schema for participant number: any 1-based slot, so it also
+ * validates sessions with more than two participants.
+ */
+export const ParticipantNumberSchema = z.number().int().positive();
+
+/**
+ * Zod schema for team identifier.
+ */
+export const TeamIdSchema = z.number().int().positive();
+
+/**
+ * Zod schema for spectator identifier.
+ */
+export const SpectatorIdSchema = z.string().min(1);
+
+/**
+ * Zod schema for connection role.
+ */
+export const ConnectionRoleSchema = z.enum(['participant', 'spectator']);
+
+/**
+ * Zod schema for codec name.
+ */
+export const CodecNameSchema = z.enum(['json', 'msgpack']);
+
+/**
+ * Zod schema for resume token.
  */
-export const ParticipantNumberSchema = z.union([z.literal(1), z.literal(2)]);
+export const ResumeTokenSchema = z.string().min(1);
 
 /**
  * Zod schema for session phase.
  */
-export const SessionPhaseSchema = z.enum(['waiting', 'playing', 'finished']);
+export const SessionPhaseSchema = z.enum(['waiting', 'playing', 'paused', 'finished']);
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { CodecError, getCodec, getCodecForFrame, JSON_CODEC, MSGPACK_CODEC } from '../src/index.js';
+
+describe('codecs', () => {
+  const message = {
+    type: 'projectiles_update',
+    tick: 1234,
+    projectiles: [
+      {
+        id: 'projectile-1',
+        position: { x: 1.25, y: -0.5, z: 7 },
+        velocity: { x: 0, y: -300, z: 70000 },
+        ownerId: 'player-1',
+        color: 0x4a9eff,
+      },
+    ],
+    winner: null,
+    active: true,
+    finished: false,
+    label: 'ü→✓',
+  };
+
+  describe('lookup', () => {
+    it('should resolve codecs by name', () => {
+      expect(getCodec('json')).toBe(JSON_CODEC);
+      expect(getCodec('msgpack')).toBe(MSGPACK_CODEC);
+    });
+
+    it('should pick the codec from the frame type', () => {
+      expect(getCodecForFrame('{}')).toBe(JSON_CODEC);
+      expect(getCodecForFrame(new Uint8Array([0x80]))).toBe(MSGPACK_CODEC);
+    });
+  });
+
+  describe('JSON', () => {
+    it('should produce text frames', () => {
+      const encoded = JSON_CODEC.encode(message);
+      expect(typeof encoded).toBe('string');
+      expect(JSON_CODEC.decode(encoded)).toEqual(message);
+    });
+  });
+
+  describe('MessagePack', () => {
+    it('should round-trip JSON-compatible messages', () => {
+      const encoded = MSGPACK_CODEC.encode(message);
+      expect(encoded).toBeInstanceOf(Uint8Array);
+      expect(MSGPACK_CODEC.decode(encoded)).toEqual(message);
+    });
+
+    it('should be smaller than JSON for numeric payloads', () => {
+      const encoded = MSGPACK_CODEC.encode(message) as Uint8Array;
+      expect(encoded.length).toBeLessThan((JSON_CODEC.encode(message) as string).length);
+    });
+
+    it('should round-trip integers across all widths', () => {
+      const values = [
+        0,
+        127,
+        128,
+        255,
+        256,
+        65535,
+        65536,
+        2 ** 32 - 1,
+        2 ** 32,
+        -1,
+        -32,
+        -33,
+        -128,
+        -129,
+        -32768,
+        -32769,
+        -(2 ** 31),
+        -(2 ** 31) - 1,
+        Number.MAX_SAFE_INTEGER,
+      ];
+      expect(MSGPACK_CODEC.decode(MSGPACK_CODEC.encode(values))).toEqual(values);
+    });
+
+    it('should use the compact fixed formats', () => {
+      expect(MSGPACK_CODEC.encode(5)).toEqual(new Uint8Array([0x05]));
+      expect(MSGPACK_CODEC.encode(-1)).toEqual(new Uint8Array([0xff]));
+      expect(MSGPACK_CODEC.encode('a')).toEqual(new Uint8Array([0xa1, 0x61]));
+      expect(MSGPACK_CODEC.encode({})).toEqual(new Uint8Array([0x80]));
+    });
+
+    it('should round-trip long strings, arrays and maps', () => {
+      const long = {
+        text: 'x'.repeat(70000),
+        list: Array.from({ length: 300 }, (_, i) => i),
+        map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])),
+      };
+      expect(MSGPACK_CODEC.decode(MSGPACK_CODEC.encode(long))).toEqual(long);
+    });
+
+    it('should round-trip binary data', () => {
+      const bytes = new Uint8Array([1, 2, 3]);
+      expect(MSGPACK_CODEC.decode(MSGPACK_CODEC.encode({ bytes }))).toEqual({ bytes });
+    });
+
+    it('should omit undefined properties and encode non-finite numbers as nil', () => {
+      const decoded = MSGPACK_CODEC.decode(
+        MSGPACK_CODEC.encode({ a: undefined, b: Number.NaN, c: [undefined] })
+      );
+      expect(decoded).toEqual({ b: null, c: [null] });
+    });
+
+    it('should keep __proto__ keys as plain properties', () => {
+      // fixmap(1) { "__proto__": { "polluted": true } }
+      const encoded = MSGPACK_CODEC.encode({ x: { polluted: true } }) as Uint8Array;
+      const key = new TextEncoder().encode('__proto__');
+      const frame = new Uint8Array([0x81, 0xa0 | key.length, ...key, ...encoded.slice(3)]);
+
+      const decoded = MSGPACK_CODEC.decode(frame) as Record<string, unknown>;
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+    });
+
+    it('should reject truncated, trailing and unsupported data', () => {
+      const encoded = MSGPACK_CODEC.encode(message) as Uint8Array;
+      expect(() => MSGPACK_CODEC.decode(encoded.slice(0, -1))).toThrow(CodecError);
+      expect(() => MSGPACK_CODEC.decode(new Uint8Array([...encoded, 0xc0]))).toThrow(CodecError);
+      expect(() => MSGPACK_CODEC.decode(new Uint8Array([0xc1]))).toThrow(CodecError);
+    });
+  });
+});
@@ -4,10 +4,22 @@ import {
   createSessionClientMessageSchema,
   createSessionServerMessageSchema,
   FRAMEWORK_PROTOCOL_VERSION,
+  getAccessKey,
+  getConnectionRole,
+  getPlayerToken,
+  getRequestedCodec,
+  getResumeToken,
   isFrameworkMessage,
+  LifecycleWebhookPayloadSchema,
   ParticipantIdSchema,
   ParticipantNumberSchema,
+  PlayerProfileSchema,
   SessionEndedReasonSchema,
+  withAccessKey,
+  withCodec,
+  withConnectionRole,
+  withPlayerToken,
+  withResumeToken,
 } from '../src/index.js';
 
 describe('framework-protocol', () => {
@@ -31,6 +43,17 @@ describe('framework-protocol', () => {
       expect(isFrameworkMessage({ type: 'session_started' })).toBe(true);
       expect(isFrameworkMessage({ type: 'session_ended' })).toBe(true);
       expect(isFrameworkMessage({ type: 'session_reset' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'spectator_welcome' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'opponent_disconnected' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'opponent_reconnected' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'pause_request' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'participant_unready' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'countdown' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'countdown_cancelled' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'session_paused' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'session_resumed' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'clock_ping' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'clock_pong' })).toBe(true);
     });
 
     it('should return false for app-specific messages', () => {
@@ -40,6 +63,90 @@ describe('framework-protocol', () => {
     });
   });
 
+  describe('connection role', () => {
+    it('should default to participant', () => {
+      expect(getConnectionRole(undefined)).toBe('participant');
+      expect(getConnectionRole('/')).toBe('participant');
+      expect(getConnectionRole('/ws?role=unknown')).toBe('participant');
+    });
+
+    it('should detect spectator role from request paths and URLs', () => {
+      expect(getConnectionRole('/?role=spectator')).toBe('spectator');
+      expect(getConnectionRole('wss://example.org/ws?role=spectator')).toBe('spectator');
+    });
+
+    it('should round-trip through withConnectionRole', () => {
+      const url = withConnectionRole('ws://localhost:3001', 'spectator');
+      expect(url).toBe('ws://localhost:3001/?role=spectator');
+      expect(getConnectionRole(url)).toBe('spectator');
+    });
+  });
+
+  describe('resume token', () => {
+    it('should be undefined when absent or empty', () => {
+      expect(getResumeToken(undefined)).toBeUndefined();
+      expect(getResumeToken('/')).toBeUndefined();
+      expect(getResumeToken('/?resume=')).toBeUndefined();
+    });
+
+    it('should round-trip through withResumeToken alongside the role', () => {
+      const url = withResumeToken(withConnectionRole('ws://localhost:3001', 'participant'), 'abc');
+      expect(getResumeToken(url)).toBe('abc');
+      expect(getConnectionRole(url)).toBe('participant');
+    });
+  });
+
+  describe('player token', () => {
+    it('should be undefined when absent or empty', () => {
+      expect(getPlayerToken(undefined)).toBeUndefined();
+      expect(getPlayerToken('/?player=')).toBeUndefined();
+    });
+
+    it('should round-trip through withPlayerToken alongside the resume token', () => {
+      const url = withPlayerToken(withResumeToken('ws://localhost:3001', 'abc'), 'p.sig');
+      expect(getPlayerToken(url)).toBe('p.sig');
+      expect(getResumeToken(url)).toBe('abc');
+    });
+  });
+
+  describe('access key', () => {
+    it('should be undefined when absent or empty', () => {
+      expect(getAccessKey(undefined)).toBeUndefined();
+      expect(getAccessKey('/?access=')).toBeUndefined();
+    });
+
+    it('should round-trip through withAccessKey on session links', () => {
+      const url = withAccessKey('https://abc123-blocks-cannons-gestures.example.org', 'k3y');
+      expect(url).toBe('https://abc123-blocks-cannons-gestures.example.org/?access=k3y');
+      expect(getAccessKey(url)).toBe('k3y');
+    });
+  });
+
+  describe('player profile', () => {
+    it('should require a display name and a hex avatar color', () => {
+      const profile = { id: 'p1', displayName: 'Ada', avatarColor: '#3b82f6' };
+      expect(PlayerProfileSchema.safeParse(profile).success).toBe(true);
+      expect(PlayerProfileSchema.safeParse({ ...profile, displayName: '  ' }).success).toBe(false);
+      expect(PlayerProfileSchema.safeParse({ ...profile, avatarColor: 'blue' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('codec negotiation', () => {
+    it('should fall back to JSON when absent or unknown', () => {
+      expect(getRequestedCodec(undefined)).toBe('json');
+      expect(getRequestedCodec('/')).toBe('json');
+      expect(getRequestedCodec('/?codec=protobuf')).toBe('json');
+    });
+
+    it('should round-trip through withCodec alongside the resume token', () => {
+      const url = withCodec(withResumeToken('ws://localhost:3001', 'abc'), 'msgpack');
+      expect(getRequestedCodec(url)).toBe('msgpack');
+      expect(getResumeToken(url)).toBe('abc');
+    });
+  });
+
   describe('composition helpers', () => {
     const appClientMessageSchema = z.object({ type: z.literal('app_ping') });
     const appServerMessageSchema = z.object({ type: z.literal('app_pong') });
@@ -51,18 +158,46 @@ describe('framework-protocol', () => {
       opponentJoinedAppDataSchema: z.object({ joined: z.boolean() }).optional(),
       resetAppDataSchema: z.object({ reset: z.boolean() }).optional(),
       sessionEndedAppDataSchema: z.object({ summary: z.string() }).optional(),
+      spectatorWelcomeAppDataSchema: z.object({ snapshot: z.string() }),
     });
 
     it('accepts framework client messages', () => {
       expect(clientSchema.parse({ type: 'participant_ready' }).type).toBe('participant_ready');
+      expect(clientSchema.parse({ type: 'pause_request' }).type).toBe('pause_request');
+      expect(clientSchema.parse({ type: 'participant_unready' }).type).toBe('participant_unready');
       expect(clientSchema.parse({ type: 'app_ping' }).type).toBe('app_ping');
     });
 
+    it('accepts clock sync messages', () => {
+      expect(clientSchema.parse({ type: 'clock_ping', clientTime: 500 })).toEqual({
+        type: 'clock_ping',
+        clientTime: 500,
+      });
+      expect(() => clientSchema.parse({ type: 'clock_ping' })).toThrow();
+
+      const pong = serverSchema.parse({ type: 'clock_pong', clientTime: 500, serverTime: 9000 });
+      expect(pong).toEqual({ type: 'clock_pong', clientTime: 500, serverTime: 9000 });
+    });
+
+    it('requires tick stamps on replicated state messages', () => {
+      expect(() => serverSchema.parse({ type: 'state_keyframe', seq: 1, state: {} })).toThrow();
+      expect(
+        serverSchema.parse({
+          type: 'state_keyframe',
+          seq: 1,
+          tick: 42,
+          serverTime: 9000,
+          state: {},
+        })
+      ).toMatchObject({ tick: 42, serverTime: 9000 });
+    });
+
     it('requires appData on welcome and supports optional appData on others', () => {
       const welcome = serverSchema.parse({
         type: 'welcome',
         participantId: 'p1',
         participantNumber: 1,
+        teamId: 1,
         sessionPhase: 'waiting',
         appData: { foo: 'bar' },
       });
@@ -74,5 +209,172 @@ describe('framework-protocol', () => {
       });
       expect(reset.type).toBe('session_reset');
     });
+
+    it('accepts countdown messages', () => {
+      expect(serverSchema.parse({ type: 'countdown', secondsRemaining: 3 })).toEqual({
+        type: 'countdown',
+        secondsRemaining: 3,
+      });
+      expect(serverSchema.parse({ type: 'countdown_cancelled' }).type).toBe('countdown_cancelled');
+      expect(() => serverSchema.parse({ type: 'countdown', secondsRemaining: 0 })).toThrow();
+    });
+
+    it('accepts pause lifecycle messages', () => {
+      const paused = serverSchema.parse({ type: 'session_paused', pausedBy: 'p1' });
+      expect(paused).toEqual({ type: 'session_paused', pausedBy: 'p1' });
+      expect(serverSchema.parse({ type: 'session_resumed' }).type).toBe('session_resumed');
+      expect(() => serverSchema.parse({ type: 'session_paused' })).toThrow();
+    });
+
+    it('accepts spectator_welcome messages', () => {
+      const welcome = serverSchema.parse({
+        type: 'spectator_welcome',
+        spectatorId: 'spectator-1',
+        sessionPhase: 'playing',
+        appData: { snapshot: 'state' },
+      });
+      expect(welcome.type).toBe('spectator_welcome');
+    });
+
+    it('accepts resumable welcome and opponent connectivity messages', () => {
+      const welcome = serverSchema.parse({
+        type: 'welcome',
+        participantId: 'p1',
+        participantNumber: 1,
+        teamId: 1,
+        sessionPhase: 'playing',
+        resumeToken: 'token-1',
+        resumed: true,
+        appData: { foo: 'bar' },
+      });
+      expect(welcome).toMatchObject({ resumeToken: 'token-1', resumed: true });
+
+      expect(
+        serverSchema.parse({
+          type: 'opponent_disconnected',
+          participantId: 'p2',
+          gracePeriodMs: 15000,
+        }).type
+      ).toBe('opponent_disconnected');
+      expect(serverSchema.parse({ type: 'opponent_reconnected', participantId: 'p2' }).type).toBe(
+        'opponent_reconnected'
+      );
+    });
+
+    it('identifies the participant in opponent notifications', () => {
+      expect(
+        serverSchema.parse({
+          type: 'opponent_joined',
+          participantId: 'p3',
+          participantNumber: 3,
+          teamId: 1,
+        })
+      ).toMatchObject({ participantId: 'p3', participantNumber: 3, teamId: 1 });
+      expect(serverSchema.parse({ type: 'opponent_left', participantId: 'p3' })).toEqual({
+        type: 'opponent_left',
+        participantId: 'p3',
+      });
+      expect(() => serverSchema.parse({ type: 'opponent_left' })).toThrow();
+    });
+
+    it('accepts participant numbers beyond two', () => {
+      const welcome = serverSchema.parse({
+        type: 'welcome',
+        participantId: 'p4',
+        participantNumber: 4,
+        teamId: 2,
+        sessionPhase: 'waiting',
+        appData: { foo: 'bar' },
+      });
+      expect(welcome).toMatchObject({ participantNumber: 4 });
+
+      expect(() =>
+        serverSchema.parse({
+          type: 'welcome',
+          participantId: 'p0',
+          participantNumber: 0,
+          teamId: 1,
+          sessionPhase: 'waiting',
+          appData: { foo: 'bar' },
+        })
+      ).toThrow();
+    });
+
+    it('carries team membership and a winning team', () => {
+      expect(
+        serverSchema.parse({
+          type: 'opponent_joined',
+          participantId: 'p2',
+          participantNumber: 2,
+          teamId: 2,
+        })
+      ).toMatchObject({ teamId: 2 });
+      expect(() =>
+        serverSchema.parse({ type: 'opponent_joined', participantId: 'p2', participantNumber: 2 })
+      ).toThrow();
+
+      expect(
+        serverSchema.parse({ type: 'session_ended', reason: 'app_condition', winnerTeamId: 2 })
+      ).toEqual({ type: 'session_ended', reason: 'app_condition', winnerTeamId: 2 });
+      expect(() =>
+        serverSchema.parse({ type: 'session_ended', reason: 'app_condition', winnerTeamId: 0 })
+      ).toThrow();
+    });
+  });
+
+  describe('lifecycle webhook payload', () => {
+    it('accepts each lifecycle event', () => {
+      const events = [
+        {
+          type: 'participant_joined',
+          participantId: 'p1',
+          participantNumber: 1,
+          participantCount: 1,
+        },
+        {
+          type: 'participant_left',
+          participantId: 'p1',
+          participantNumber: 1,
+          participantCount: 0,
+        },
+        { type: 'session_started' },
+        { type: 'session_ended', reason: 'app_condition', winnerTeamId: 1 },
+        {
+          type: 'session_ended',
+          reason: 'participant_left',
+          participants: [
+            {
+              participantId: 'p1',
+              participantNumber: 1,
+              teamId: 1,
+              isBot: false,
+              player: { id: 'ada', displayName: 'Ada', avatarColor: '#3b82f6' },
+            },
+            { participantId: 'bot', participantNumber: 2, teamId: 2, isBot: true },
+          ],
+          durationMs: 42_000,
+          appData: { score: [3, 1] },
+        },
+        { type: 'shutdown', reason: 'inactivity' },
+      ];
+      for (const event of events) {
+        expect(LifecycleWebhookPayloadSchema.parse({ event, timestamp: 1000 })).toEqual({
+          event,
+          timestamp: 1000,
+        });
+      }
+    });
+
+    it('rejects unknown events and reasons', () => {
+      expect(() =>
+        LifecycleWebhookPayloadSchema.parse({ event: { type: 'exploded' }, timestamp: 1000 })
+      ).toThrow();
+      expect(() =>
+        LifecycleWebhookPayloadSchema.parse({
+          event: { type: 'shutdown', reason: 'crash' },
+          timestamp: 1000,
+        })
+      ).toThrow();
+    });
   });
 });
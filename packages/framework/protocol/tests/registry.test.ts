@@ -4,6 +4,7 @@ import {
   AppNotFoundError,
   AppRegistry,
   DuplicateAppError,
+  getPlayerLimits,
   globalRegistry,
   InvalidManifestError,
   validateManifest,
@@ -284,6 +285,55 @@ describe('validateManifest', () => {
       })
     ).toThrow('tags must be an array of strings');
   });
+
+  it('should accept player limits', () => {
+    expect(() =>
+      validateManifest({
+        id: 'test',
+        name: 'Test',
+        version: '1.0.0',
+        minPlayers: 2,
+        maxPlayers: 4,
+      })
+    ).not.toThrow();
+  });
+
+  it('should reject non-integer player limits', () => {
+    expect(() =>
+      validateManifest({
+        id: 'test',
+        name: 'Test',
+        version: '1.0.0',
+        maxPlayers: 2.5,
+      })
+    ).toThrow('maxPlayers must be a positive integer');
+  });
+
+  it('should reject minPlayers above maxPlayers', () => {
+    expect(() =>
+      validateManifest({
+        id: 'test',
+        name: 'Test',
+        version: '1.0.0',
+        minPlayers: 3,
+      })
+    ).toThrow('minPlayers must not exceed maxPlayers');
+  });
+});
+
+describe('getPlayerLimits', () => {
+  it('should default to two players', () => {
+    expect(getPlayerLimits({ id: 'test', name: 'Test', version: '1.0.0' })).toEqual({
+      min: 2,
+      max: 2,
+    });
+  });
+
+  it('should use declared limits', () => {
+    expect(
+      getPlayerLimits({ id: 'test', name: 'Test', version: '1.0.0', minPlayers: 3, maxPlayers: 4 })
+    ).toEqual({ min: 3, max: 4 });
+  });
 });
 
 describe('globalRegistry', () => {
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyStateDelta,
+  diffReplicatedState,
+  isFrameworkMessage,
+  type ReplicatedState,
+  StateDeltaMessageSchema,
+  StateKeyframeMessageSchema,
+} from '../src/index.js';
+
+describe('replication', () => {
+  const base: ReplicatedState = {
+    projectiles: {
+      p1: { position: { x: 0, y: 1, z: 2 }, velocity: { x: 0, y: 0, z: 5 }, color: 0xff0000 },
+      p2: { position: { x: 3, y: 1, z: 2 }, velocity: { x: 0, y: 0, z: -5 }, color: 0x00ff00 },
+    },
+  };
+
+  describe('diffReplicatedState', () => {
+    it('should return null when nothing changed', () => {
+      const copy = JSON.parse(JSON.stringify(base)) as ReplicatedState;
+      expect(diffReplicatedState(base, copy)).toBeNull();
+    });
+
+    it('should only carry changed fields', () => {
+      const next: ReplicatedState = {
+        projectiles: {
+          ...base['projectiles'],
+          p1: { ...base['projectiles']?.['p1'], position: { x: 0, y: 1, z: 2.25 } },
+        },
+      };
+
+      expect(diffReplicatedState(base, next)).toEqual({
+        projectiles: { updated: { p1: { position: { x: 0, y: 1, z: 2.25 } } } },
+      });
+    });
+
+    it('should carry added entities in full and removed IDs', () => {
+      const p3 = { position: { x: 1, y: 1, z: 1 }, velocity: { x: 0, y: 0, z: 5 }, color: 1 };
+      const next: ReplicatedState = {
+        projectiles: { p1: base['projectiles']?.['p1'] ?? {}, p3 },
+      };
+
+      expect(diffReplicatedState(base, next)).toEqual({
+        projectiles: { updated: { p3 }, removed: ['p2'] },
+      });
+    });
+
+    it('should remove every entity of a dropped collection', () => {
+      expect(diffReplicatedState(base, {})).toEqual({
+        projectiles: { removed: ['p1', 'p2'] },
+      });
+    });
+
+    it('should send dropped fields as null', () => {
+      const next: ReplicatedState = { items: { a: { x: 1 } } };
+      expect(diffReplicatedState({ items: { a: { x: 1, label: 'old' } } }, next)).toEqual({
+        items: { updated: { a: { label: null } } },
+      });
+    });
+  });
+
+  describe('applyStateDelta', () => {
+    it('should reconstruct the next state from a delta', () => {
+      const next: ReplicatedState = {
+        projectiles: {
+          p1: { ...base['projectiles']?.['p1'], position: { x: 0, y: 0.5, z: 3 } },
+          p3: { position: { x: 9, y: 9, z: 9 }, velocity: { x: 1, y: 0, z: 0 }, color: 2 },
+        },
+        blocks: { b1: { hp: 3 } },
+      };
+
+      const delta = diffReplicatedState(base, next);
+      expect(delta).not.toBeNull();
+      expect(applyStateDelta(base, delta ?? {})).toEqual(next);
+    });
+
+    it('should not modify the input state', () => {
+      const snapshot = JSON.parse(JSON.stringify(base)) as ReplicatedState;
+      applyStateDelta(base, { projectiles: { removed: ['p1'], updated: { p2: { color: 0 } } } });
+      expect(base).toEqual(snapshot);
+    });
+  });
+
+  describe('messages', () => {
+    it('should validate keyframe and delta messages', () => {
+      expect(
+        StateKeyframeMessageSchema.safeParse({
+          type: 'state_keyframe',
+          seq: 1,
+          tick: 10,
+          serverTime: 1000,
+          state: base,
+        }).success
+      ).toBe(true);
+      expect(
+        StateDeltaMessageSchema.safeParse({
+          type: 'state_delta',
+          seq: 2,
+          baseSeq: 1,
+          tick: 11,
+          serverTime: 1016,
+          changes: { projectiles: { removed: ['p1'] } },
+        }).success
+      ).toBe(true);
+      expect(
+        StateDeltaMessageSchema.safeParse({ type: 'state_delta', seq: 2, changes: {} }).success
+      ).toBe(false);
+    });
+
+    it('should be framework messages', () => {
+      expect(isFrameworkMessage({ type: 'state_keyframe' })).toBe(true);
+      expect(isFrameworkMessage({ type: 'state_delta' })).toBe(true);
+    });
+  });
+});
@@ -11,6 +11,9 @@
  * - Participants connected but no messages received for timeout period
  */
 
+import { logger as processLogger } from '@gesture-app/framework-logging';
+import type { ServerLogger } from './serverLogger.js';
+
 /** Default inactivity timeout in milliseconds (5 minutes) */
 export const DEFAULT_INACTIVITY_TIMEOUT_MS = 300000;
 
@@ -18,23 +21,10 @@ export const DEFAULT_INACTIVITY_TIMEOUT_MS = 300000;
 export const DEFAULT_INACTIVITY_CHECK_INTERVAL_MS = 30000;
 
 /**
- * Logger interface for InactivityMonitor.
+ * Logger interface for InactivityMonitor: the server logger's info and debug.
  * Apps can provide their own logger implementation.
  */
-export interface InactivityLogger {
-  info(message: string, data?: object): void;
-  debug?(message: string, data?: object): void;
-}
-
-/**
- * Default console logger.
- */
-const defaultLogger: InactivityLogger = {
-  info: (message: string, data?: object) =>
-    console.log(`[InactivityMonitor] ${message}`, data ?? ''),
-  debug: (message: string, data?: object) =>
-    console.log(`[InactivityMonitor] ${message}`, data ?? ''),
-};
+export type InactivityLogger = Pick<ServerLogger, 'info' | 'debug'>;
 
 /**
  * Configuration for InactivityMonitor.
@@ -118,7 +108,7 @@ export class InactivityMonitor {
       timeoutMs: getTimeoutMs(config.timeoutMs),
       checkIntervalMs: getCheckIntervalMs(config.checkIntervalMs),
       onShutdown: config.onShutdown,
-      logger: config.logger ?? defaultLogger,
+      logger: config.logger ?? processLogger.child({ component: 'inactivity-monitor' }),
     };
 
     this.startTime = Date.now();
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Reports a session's lifecycle to the lobby over HTTP.
+ *
+ * Handles:
+ * - Turning runtime observer callbacks into lifecycle events
+ * - Posting each event to the lobby's webhook with the shared secret
+ * - Letting shutdown wait until pending reports are delivered
+ *
+ * Delivery is best effort: failures are logged and never disturb the session.
+ */
+
+import {
+  LIFECYCLE_SECRET_HEADER,
+  type LifecycleEvent,
+  type LifecycleWebhookPayload,
+} from '@gesture-app/framework-protocol';
+import type { SessionObserver } from './SessionRuntime.js';
+import type { ServerLogger } from './serverLogger.js';
+
+/** How long one delivery may take */
+const DELIVERY_TIMEOUT_MS = 5000;
+
+/**
+ * Where and how to report lifecycle events.
+ */
+export interface LifecycleWebhookConfig {
+  /** Endpoint receiving the events, e.g. the lobby's `/api/sessions/<id>/events` */
+  readonly url: string;
+  /** Secret shared with the lobby, sent as a bearer token */
+  readonly secret: string;
+  /** Clock for event timestamps (default: Date.now) */
+  readonly now?: () => number;
+  /** HTTP client (default: global fetch) */
+  readonly fetch?: typeof fetch;
+  readonly logger?: Pick<ServerLogger, 'error'>;
+}
+
+/**
+ * Posts lifecycle events to the lobby.
+ */
+export class LifecycleWebhook {
+  private readonly pending = new Set<Promise<void>>();
+  private readonly now: () => number;
+  private readonly fetch: typeof fetch;
+
+  /** Observer to pass to the session runtime */
+  readonly observer: SessionObserver = {
+    onParticipantJoined: (participant, participantCount) =>
+      this.notify({
+        type: 'participant_joined',
+        participantId: participant.id,
+        participantNumber: participant.number,
+        playerId: participant.profile?.id,
+        participantCount,
+      }),
+    onParticipantLeft: (participant, participantCount) =>
+      this.notify({
+        type: 'participant_left',
+        participantId: participant.id,
+        participantNumber: participant.number,
+        playerId: participant.profile?.id,
+        participantCount,
+      }),
+    onSessionStarted: () => this.notify({ type: 'session_started' }),
+    onSessionEnded: ({ reason, winnerTeamId, participants, matchNumber, durationMs, appData }) =>
+      this.notify({
+        type: 'session_ended',
+        reason,
+        winnerTeamId,
+        matchNumber,
+        participants: participants.map((participant) => ({
+          participantId: participant.id,
+          participantNumber: participant.number,
+          teamId: participant.teamId,
+          isBot: participant.isBot,
+          player: participant.profile,
+        })),
+        durationMs,
+        appData,
+      }),
+  };
+
+  constructor(private readonly config: LifecycleWebhookConfig) {
+    this.now = config.now ?? Date.now;
+    this.fetch = config.fetch ?? globalThis.fetch;
+  }
+
+  /**
+   * Post an event without waiting for delivery.
+   */
+  notify(event: LifecycleEvent): void {
+    const payload: LifecycleWebhookPayload = { event, timestamp: this.now() };
+    const delivery = this.post(payload).finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  /**
+   * Wait until every event posted so far was delivered or failed.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  private async post(payload: LifecycleWebhookPayload): Promise<void> {
+    try {
+      const response = await this.fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [LIFECYCLE_SECRET_HEADER]: `Bearer ${this.config.secret}`,
+        },
+        body: JSON.stringify(payload),
+        // A lobby that does not answer must not hold up shutdown
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        this.config.logger?.error('Lifecycle webhook rejected event', {
+          type: payload.event.type,
+          status: response.status,
+        });
+      }
+    } catch (error) {
+      this.config.logger?.error('Lifecycle webhook failed', { type: payload.event.type, error });
+    }
+  }
+}
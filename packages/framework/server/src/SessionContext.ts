@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Deterministic time and randomness for app hooks.
+ *
+ * Handles:
+ * - Seeded pseudo-random numbers
+ * - An event clock that only moves when an event starts
+ * - The context passed to hooks factories (`AppHooksFactory`)
+ *
+ * Hooks that take their time and randomness from the session context
+ * instead of `Date.now()` and `Math.random()` behave identically when a
+ * recorded session is replayed.
+ */
+
+import type { ParticipantNumber } from '@gesture-app/framework-protocol';
+import type { AppHooks, SessionScheduler, TimerHandle } from './SessionRuntime.js';
+
+/**
+ * Time and randomness for one session.
+ */
+export interface SessionContext {
+  /** Random numbers in [0, 1), seeded per session */
+  readonly random: () => number;
+  /** Session clock in epoch milliseconds */
+  readonly now: () => number;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32).
+ * @returns A function yielding numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a seed for a new session.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Clock that holds its time while an event is handled.
+ *
+ * Everything done for one event (a message, a timer firing) sees the same
+ * time, which is also the time recorded for that event. Replays move the
+ * clock to the recorded times.
+ */
+export class EventClock {
+  private time: number;
+
+  constructor(private readonly source: () => number = () => Date.now()) {
+    this.time = source();
+  }
+
+  /** Current session time */
+  readonly now = (): number => this.time;
+
+  /**
+   * Move the clock when an event starts.
+   * @param time - Time to move to (default: the source clock)
+   */
+  advance(time = this.source()): number {
+    this.time = time;
+    return time;
+  }
+
+  /**
+   * Wrap a scheduler so the clock advances before each timer callback.
+   */
+  wrapScheduler(scheduler: SessionScheduler): SessionScheduler {
+    const run = (callback: () => void) => () => {
+      this.advance();
+      callback();
+    };
+    return {
+      setTimeout: (callback, delayMs): TimerHandle => scheduler.setTimeout(run(callback), delayMs),
+      clearTimeout: (handle) => scheduler.clearTimeout(handle),
+      setInterval: (callback, intervalMs): TimerHandle =>
+        scheduler.setInterval(run(callback), intervalMs),
+      clearInterval: (handle) => scheduler.clearInterval(handle),
+    };
+  }
+}
+
+/**
+ * Creates the hooks for a session from its context.
+ */
+export type AppHooksFactory<
+  TAppClientMessage extends { type: string },
+  TAppServerMessage extends { type: string },
+  TWelcomeData,
+  TResetData = undefined,
+  TOpponentJoinedData = undefined,
+  TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
+> = (
+  context: SessionContext
+) => AppHooks<
+  TAppClientMessage,
+  TAppServerMessage,
+  TWelcomeData,
+  TResetData,
+  TOpponentJoinedData,
+  TSessionEndedData,
+  TSpectatorWelcomeData,
+  TParticipantNumber
+>;
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Prometheus metrics of one session server.
+ *
+ * Handles:
+ * - Turning runtime observer callbacks into metrics
+ * - Participants, messages in and out per type, phase transitions
+ * - Tick durations, to spot apps whose ticks run late
+ * - Inactivity shutdowns
+ */
+
+import type { SessionPhase } from '@gesture-app/framework-protocol';
+import { type Counter, type Gauge, type Histogram, MetricsRegistry } from './metrics.js';
+import type { SessionObserver } from './SessionRuntime.js';
+
+/** Tick duration buckets, in seconds (a 60 Hz tick has about 16 ms) */
+const TICK_DURATION_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.016, 0.025, 0.05, 0.1];
+
+/**
+ * Options for session metrics.
+ */
+export interface SessionMetricsOptions {
+  /** Registry to add the metrics to (default: a new one) */
+  readonly registry?: MetricsRegistry;
+  /** Monotonic clock in milliseconds for tick durations (default: performance.now) */
+  readonly now?: () => number;
+}
+
+function getMessageType(message: object): string {
+  const { type } = message as { type?: unknown };
+  return typeof type === 'string' ? type : 'unknown';
+}
+
+/**
+ * Collects metrics of a session server.
+ */
+export class SessionMetrics {
+  readonly registry: MetricsRegistry;
+  private readonly now: () => number;
+  private readonly participants: Gauge;
+  private readonly messagesReceived: Counter;
+  private readonly messagesSent: Counter;
+  private readonly tickDuration: Histogram;
+  private readonly phaseTransitions: Counter;
+  private readonly inactivityShutdowns: Counter;
+  private tickStartedAt = 0;
+
+  /** Observer to pass to the session runtime */
+  readonly observer: SessionObserver = {
+    onParticipantJoined: (_participant, participantCount) =>
+      this.participants.set(participantCount),
+    onParticipantLeft: (_participant, participantCount) => this.participants.set(participantCount),
+    onReceive: (_conn, message) => this.messagesReceived.inc({ type: message.type }),
+    onSend: (_conn, message) => this.messagesSent.inc({ type: getMessageType(message) }),
+    onTick: () => {
+      this.tickStartedAt = this.now();
+    },
+    onTickEnd: () => this.tickDuration.observe((this.now() - this.tickStartedAt) / 1000),
+    onPhaseChange: (phase: SessionPhase, previous: SessionPhase) =>
+      this.phaseTransitions.inc({ from: previous, to: phase }),
+  };
+
+  constructor(options: SessionMetricsOptions = {}) {
+    this.registry = options.registry ?? new MetricsRegistry();
+    this.now = options.now ?? (() => performance.now());
+
+    this.participants = this.registry.gauge({
+      name: 'session_participants',
+      help: 'Participants in the session, including any within their reconnection grace window',
+    });
+    this.messagesReceived = this.registry.counter({
+      name: 'session_messages_received_total',
+      help: 'Valid messages received from participants, by type',
+      labelNames: ['type'],
+    });
+    this.messagesSent = this.registry.counter({
+      name: 'session_messages_sent_total',
+      help: 'Messages addressed to connections, by type',
+      labelNames: ['type'],
+    });
+    this.tickDuration = this.registry.histogram({
+      name: 'session_tick_duration_seconds',
+      help: 'Time spent handling one tick',
+      buckets: TICK_DURATION_BUCKETS,
+    });
+    this.phaseTransitions = this.registry.counter({
+      name: 'session_phase_transitions_total',
+      help: 'Session phase changes',
+      labelNames: ['from', 'to'],
+    });
+    this.inactivityShutdowns = this.registry.counter({
+      name: 'session_inactivity_shutdowns_total',
+      help: 'Shutdowns because nobody was active',
+    });
+  }
+
+  /**
+   * Count a shutdown triggered by the inactivity monitor.
+   */
+  countInactivityShutdown(): void {
+    this.inactivityShutdowns.inc();
+  }
+}
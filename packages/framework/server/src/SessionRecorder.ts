@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Session recording as newline-delimited JSON.
+ *
+ * Handles:
+ * - Recording entry format (one JSON object per line)
+ * - Inputs: connections, raw client frames, disconnections, timer firings,
+ *   issued resume tokens and the RNG seed
+ * - Outputs: every message addressed to a connection and every tick's
+ *   delta time
+ * - Parsing recordings back into entries
+ *
+ * Inputs are what a replay feeds back into a fresh runtime; outputs are
+ * what it must produce again.
+ */
+
+import type {
+  ConnectionRole,
+  PlayerProfile,
+  ResumeToken,
+  WireData,
+} from '@gesture-app/framework-protocol';
+import type {
+  Connection,
+  SessionObserver,
+  SessionRuntimeConfig,
+  SessionScheduler,
+  TimerHandle,
+} from './SessionRuntime.js';
+
+/**
+ * Version of the recording format, stored in the first entry.
+ */
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * First entry of every recording.
+ */
+export interface SessionStartEntry {
+  readonly kind: 'session_start';
+  readonly version: number;
+  readonly t: number;
+  /** Seed of the session context's random numbers */
+  readonly seed: number;
+  readonly runtimeConfig: SessionRuntimeConfig;
+}
+
+/**
+ * A WebSocket connection was opened.
+ */
+export interface ConnectEntry {
+  readonly kind: 'connect';
+  readonly t: number;
+  /** Connection number, unique within the recording */
+  readonly conn: number;
+  readonly role: ConnectionRole;
+  readonly resumeToken?: ResumeToken;
+  /** Verified player account presented with the connection */
+  readonly profile?: PlayerProfile;
+}
+
+/**
+ * A client frame arrived. Text frames are kept as is, binary frames as base64.
+ */
+export interface MessageEntry {
+  readonly kind: 'message';
+  readonly t: number;
+  readonly conn: number;
+  readonly text?: string;
+  readonly binary?: string;
+}
+
+/**
+ * A WebSocket connection was closed.
+ */
+export interface DisconnectEntry {
+  readonly kind: 'disconnect';
+  readonly t: number;
+  readonly conn: number;
+}
+
+/**
+ * A runtime timer fired. Timers are numbered in the order they were scheduled.
+ */
+export interface TimerEntry {
+  readonly kind: 'timer';
+  readonly t: number;
+  readonly timer: number;
+}
+
+/**
+ * The runtime issued a resume token.
+ */
+export interface ResumeTokenEntry {
+  readonly kind: 'resume_token';
+  readonly token: ResumeToken;
+}
+
+/**
+ * A message was addressed to a connection.
+ */
+export interface SendEntry {
+  readonly kind: 'send';
+  readonly conn: number;
+  readonly message: object;
+}
+
+/**
+ * A tick started.
+ */
+export interface TickEntry {
+  readonly kind: 'tick';
+  readonly tick: number;
+  readonly deltaTime: number;
+}
+
+/**
+ * Any line of a recording.
+ */
+export type RecordingEntry =
+  | SessionStartEntry
+  | ConnectEntry
+  | MessageEntry
+  | DisconnectEntry
+  | TimerEntry
+  | ResumeTokenEntry
+  | SendEntry
+  | TickEntry;
+
+/**
+ * Entries a replay must reproduce.
+ */
+export type RecordedOutput = SendEntry | TickEntry;
+
+/**
+ * Error thrown when a recording cannot be parsed.
+ */
+export class InvalidRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRecordingError';
+  }
+}
+
+/**
+ * Records a session through a line sink (e.g. a file stream).
+ *
+ * @example
+ * ```typescript
+ * const clock = new EventClock();
+ * const recorder = new SessionRecorder((line) => stream.write(`${line}\n`), clock.now);
+ * recorder.start(seed, runtimeConfig);
+ *
+ * const runtime = new SessionRuntime(config, hooks, serialize, parse, undefined, {
+ *   now: clock.now,
+ *   scheduler: recorder.wrapScheduler(clock.wrapScheduler(SYSTEM_SCHEDULER)),
+ *   generateResumeToken: recorder.wrapResumeTokens(() => randomUUID()),
+ *   observer: recorder.observer,
+ * });
+ * ```
+ */
+export class SessionRecorder {
+  private readonly connectionIds = new WeakMap<Connection, number>();
+  private nextConnectionId = 0;
+  private nextTimerId = 0;
+
+  /** Pass to the runtime to record its outputs */
+  readonly observer: SessionObserver = {
+    onSend: (conn, message) => {
+      this.append({ kind: 'send', conn: this.getConnectionId(conn), message });
+    },
+    onTick: (tick, deltaTime) => {
+      this.append({ kind: 'tick', tick, deltaTime });
+    },
+  };
+
+  constructor(
+    private readonly write: (line: string) => void,
+    private readonly now: () => number
+  ) {}
+
+  /**
+   * Write the first entry. Call once, before anything else is recorded.
+   */
+  start(seed: number, runtimeConfig: SessionRuntimeConfig): void {
+    this.append({
+      kind: 'session_start',
+      version: RECORDING_FORMAT_VERSION,
+      t: this.now(),
+      seed,
+      runtimeConfig,
+    });
+  }
+
+  /**
+   * Record a new connection, before the runtime handles it.
+   */
+  recordConnection(
+    conn: Connection,
+    role: ConnectionRole,
+    resumeToken?: ResumeToken,
+    profile?: PlayerProfile
+  ): void {
+    this.append({
+      kind: 'connect',
+      t: this.now(),
+      conn: this.getConnectionId(conn),
+      role,
+      ...(resumeToken ? { resumeToken } : {}),
+      ...(profile ? { profile } : {}),
+    });
+  }
+
+  /**
+   * Record a client frame, before the runtime handles it.
+   */
+  recordMessage(conn: Connection, data: WireData): void {
+    this.append({
+      kind: 'message',
+      t: this.now(),
+      conn: this.getConnectionId(conn),
+      ...(typeof data === 'string'
+        ? { text: data }
+        : { binary: Buffer.from(data).toString('base64') }),
+    });
+  }
+
+  /**
+   * Record a closed connection, before the runtime handles it.
+   */
+  recordDisconnection(conn: Connection): void {
+    this.append({ kind: 'disconnect', t: this.now(), conn: this.getConnectionId(conn) });
+  }
+
+  /**
+   * Wrap a scheduler so every timer firing is recorded before its callback runs.
+   */
+  wrapScheduler(scheduler: SessionScheduler): SessionScheduler {
+    const record = (callback: () => void) => {
+      const timer = ++this.nextTimerId;
+      return () => {
+        this.append({ kind: 'timer', t: this.now(), timer });
+        callback();
+      };
+    };
+    return {
+      setTimeout: (callback, delayMs): TimerHandle =>
+        scheduler.setTimeout(record(callback), delayMs),
+      clearTimeout: (handle) => scheduler.clearTimeout(handle),
+      setInterval: (callback, intervalMs): TimerHandle =>
+        scheduler.setInterval(record(callback), intervalMs),
+      clearInterval: (handle) => scheduler.clearInterval(handle),
+    };
+  }
+
+  /**
+   * Wrap a resume token generator so issued tokens are recorded.
+   */
+  wrapResumeTokens(generate: () => ResumeToken): () => ResumeToken {
+    return () => {
+      const token = generate();
+      this.append({ kind: 'resume_token', token });
+      return token;
+    };
+  }
+
+  private getConnectionId(conn: Connection): number {
+    let id = this.connectionIds.get(conn);
+    if (id === undefined) {
+      id = ++this.nextConnectionId;
+      this.connectionIds.set(conn, id);
+    }
+    return id;
+  }
+
+  private append(entry: RecordingEntry): void {
+    this.write(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Parse a newline-delimited recording.
+ * @throws InvalidRecordingError if a line is not a recording entry or the
+ *   recording does not start with a supported `session_start` entry
+ */
+export function parseRecording(text: string): RecordingEntry[] {
+  const entries: RecordingEntry[] = [];
+
+  for (const [index, line] of text.split('\n').entries()) {
+    if (line.trim() === '') continue;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new InvalidRecordingError(`Line ${index + 1} is not valid JSON`);
+    }
+    if (
+      !entry ||
+      typeof entry !== 'object' ||
+      typeof (entry as { kind?: unknown }).kind !== 'string'
+    ) {
+      throw new InvalidRecordingError(`Line ${index + 1} is not a recording entry`);
+    }
+    entries.push(entry as RecordingEntry);
+  }
+
+  const first = entries[0];
+  if (first?.kind !== 'session_start') {
+    throw new InvalidRecordingError('Recording does not start with a session_start entry');
+  }
+  if (first.version !== RECORDING_FORMAT_VERSION) {
+    throw new InvalidRecordingError(`Unsupported recording version ${first.version}`);
+  }
+
+  return entries;
+}
@@ -1,49 +1,116 @@
 /**
- * @fileoverview Framework session runtime for two-participant applications.
+ * @fileoverview Framework session runtime for multi-participant applications.
  *
  * Handles:
- * - 2-participant admission
+ * - Participant admission (up to maxParticipants, start quorum of minParticipants)
+ * - Teams (participants dealt to sides of teamSize, per-team ready-gating)
  * - Connection registry
- * - Lifecycle gating (waiting → playing → finished → reset)
+ * - Lifecycle gating (waiting → playing ⇄ paused → finished → reset)
  * - Ready-state management
+ * - Pre-start countdown
  * - Play-again voting and reset coordination
- * - Message routing (sender/opponent/all)
+ * - Message routing (sender/opponent/team/opponents/all)
+ * - Read-only spectator connections
+ * - Resume tokens and reconnection grace window
+ * - Per-connection wire codecs (JSON text or MessagePack binary frames)
+ * - Replicated state broadcasts (keyframes plus per-tick deltas)
+ * - Tick numbering and clock sync pings
+ * - Injectable clock, timers and observer (session recording and replay)
  */
 
-import type {
-  FrameworkClientMessage,
-  ParticipantId,
-  ParticipantNumber,
-  SessionEndedReason,
-  SessionPhase,
+import { randomUUID } from 'node:crypto';
+import {
+  type AppManifest,
+  type CodecName,
+  diffReplicatedState,
+  type FrameworkClientMessage,
+  getCodecForFrame,
+  getPlayerLimits,
+  type MessageCodec,
+  type ParticipantId,
+  type ParticipantNumber,
+  type PlayerProfile,
+  type ReplicatedState,
+  type ResumeToken,
+  type SessionEndedReason,
+  type SessionPhase,
+  type SpectatorId,
+  type StateDelta,
+  type TeamId,
+  type TickStamp,
+  type WireData,
 } from '@gesture-app/framework-protocol';
 
 type FrameworkWelcomeMessage<TWelcomeData> = {
   type: 'welcome';
   participantId: ParticipantId;
-  participantNumber: ParticipantNumber;
+  participantNumber: number;
+  teamId: TeamId;
   sessionPhase: SessionPhase;
+  resumeToken?: ResumeToken;
+  resumed?: boolean;
   appData: TWelcomeData;
 };
 
+type FrameworkSpectatorWelcomeMessage<TSpectatorWelcomeData> = {
+  type: 'spectator_welcome';
+  spectatorId: SpectatorId;
+  sessionPhase: SessionPhase;
+  appData?: TSpectatorWelcomeData;
+};
+
 type FrameworkOpponentJoinedMessage<TOpponentJoinedData> = {
   type: 'opponent_joined';
+  participantId: ParticipantId;
+  participantNumber: number;
+  teamId: TeamId;
   appData?: TOpponentJoinedData;
 };
 
 type FrameworkOpponentLeftMessage = {
   type: 'opponent_left';
+  participantId: ParticipantId;
+};
+
+type FrameworkOpponentDisconnectedMessage = {
+  type: 'opponent_disconnected';
+  participantId: ParticipantId;
+  gracePeriodMs: number;
+};
+
+type FrameworkOpponentReconnectedMessage = {
+  type: 'opponent_reconnected';
+  participantId: ParticipantId;
+};
+
+type FrameworkCountdownMessage = {
+  type: 'countdown';
+  secondsRemaining: number;
+};
+
+type FrameworkCountdownCancelledMessage = {
+  type: 'countdown_cancelled';
 };
 
 type FrameworkSessionStartedMessage = {
   type: 'session_started';
 };
 
+type FrameworkSessionPausedMessage = {
+  type: 'session_paused';
+  pausedBy: ParticipantId;
+};
+
+type FrameworkSessionResumedMessage = {
+  type: 'session_resumed';
+};
+
 type FrameworkSessionEndedMessage<TSessionEndedData> = {
   type: 'session_ended';
   reason: SessionEndedReason;
   winnerId?: ParticipantId;
-  winnerNumber?: ParticipantNumber;
+  winnerNumber?: number;
+  winnerTeamId?: TeamId;
   appData?: TSessionEndedData;
 };
 
@@ -58,19 +125,54 @@ type FrameworkSessionResetMessage<TResetData> = {
   appData?: TResetData;
 };
 
+type FrameworkStateKeyframeMessage = TickStamp & {
+  type: 'state_keyframe';
+  seq: number;
+  state: ReplicatedState;
+};
+
+type FrameworkStateDeltaMessage = TickStamp & {
+  type: 'state_delta';
+  seq: number;
+  baseSeq: number;
+  changes: StateDelta;
+};
+
+type FrameworkClockPongMessage = {
+  type: 'clock_pong';
+  clientTime: number;
+  serverTime: number;
+};
+
 type FrameworkErrorMessage = {
   type: 'error';
   message: string;
 };
 
-type FrameworkServerMessage<TWelcomeData, TResetData, TOpponentJoinedData, TSessionEndedData> =
+type FrameworkServerMessage<
+  TWelcomeData,
+  TResetData,
+  TOpponentJoinedData,
+  TSessionEndedData,
+  TSpectatorWelcomeData,
+> =
   | FrameworkWelcomeMessage<TWelcomeData>
+  | FrameworkSpectatorWelcomeMessage<TSpectatorWelcomeData>
   | FrameworkOpponentJoinedMessage<TOpponentJoinedData>
   | FrameworkOpponentLeftMessage
+  | FrameworkOpponentDisconnectedMessage
+  | FrameworkOpponentReconnectedMessage
+  | FrameworkCountdownMessage
+  | FrameworkCountdownCancelledMessage
   | FrameworkSessionStartedMessage
+  | FrameworkSessionPausedMessage
+  | FrameworkSessionResumedMessage
   | FrameworkSessionEndedMessage<TSessionEndedData>
   | FrameworkPlayAgainStatusMessage
   | FrameworkSessionResetMessage<TResetData>
+  | FrameworkStateKeyframeMessage
+  | FrameworkStateDeltaMessage
+  | FrameworkClockPongMessage
   | FrameworkErrorMessage;
 
 type SessionServerMessage<
@@ -79,8 +181,15 @@ type SessionServerMessage<
   TOpponentJoinedData,
   TSessionEndedData,
   TAppServerMessage,
+  TSpectatorWelcomeData = undefined,
 > =
-  | FrameworkServerMessage<TWelcomeData, TResetData, TOpponentJoinedData, TSessionEndedData>
+  | FrameworkServerMessage<
+      TWelcomeData,
+      TResetData,
+      TOpponentJoinedData,
+      TSessionEndedData,
+      TSpectatorWelcomeData
+    >
   | TAppServerMessage;
 
 /**
@@ -88,8 +197,8 @@ type SessionServerMessage<
  * Allows testing without real WebSocket connections.
  */
 export interface Connection {
-  /** Send a message to this connection */
-  send(data: string): void;
+  /** Send a message to this connection (binary codecs send Uint8Array) */
+  send(data: WireData): void;
   /** Close this connection */
   close(): void;
   /** Connection state (1 = OPEN) */
@@ -100,22 +209,39 @@ export interface Connection {
 
 /**
  * Participant state tracked by the framework.
+ * Two-participant apps keep the default `1 | 2` numbers; apps admitting
+ * more participants use `Participant<number>`.
  */
-export interface Participant {
+export interface Participant<TParticipantNumber extends number = ParticipantNumber> {
   readonly id: ParticipantId;
-  readonly number: ParticipantNumber;
+  readonly number: TParticipantNumber;
+  /** Team this participant plays for (equals number when teamSize is 1) */
+  readonly teamId: TeamId;
   /** Whether this participant is ready (e.g., raised hand) */
   readonly isReady: boolean;
   /** Whether this participant is a bot */
   readonly isBot: boolean;
   /** Whether this participant voted to play again */
   readonly wantsPlayAgain: boolean;
+  /** Player account the participant signed in with (absent when anonymous) */
+  readonly profile?: PlayerProfile;
+}
+
+/**
+ * Spectator state tracked by the framework.
+ * Spectators receive broadcasts but never take part in the session.
+ */
+export interface Spectator {
+  readonly id: SpectatorId;
 }
 
 /**
  * Message routing targets.
+ * `opponent` reaches every participant except the sender, `team` the
+ * sender's teammates and `opponents` the participants of all other teams.
+ * Only `all` reaches spectators.
  */
-export type MessageTarget = 'sender' | 'opponent' | 'all';
+export type MessageTarget = 'sender' | 'opponent' | 'team' | 'opponents' | 'all';
 
 /**
  * Response to be sent after handling a message.
@@ -136,24 +262,36 @@ export interface AppHooks<
   TResetData = undefined,
   TOpponentJoinedData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   /**
    * Generate participant ID.
-   * @param participantNumber - 1 or 2
+   * @param participantNumber - Slot number, 1 to maxParticipants
    */
-  generateParticipantId(participantNumber: ParticipantNumber): ParticipantId;
+  generateParticipantId(participantNumber: TParticipantNumber): ParticipantId;
 
   /**
    * Called when a participant joins.
+   * `participant.profile` holds the player's account (name, avatar color)
+   * when it presented a valid player token.
    * Return data to include in the welcome message.
    */
-  onParticipantJoin(participant: Participant): TWelcomeData;
+  onParticipantJoin(participant: Participant<TParticipantNumber>): TWelcomeData;
 
   /**
    * Called when a participant leaves.
+   * With a resume grace window, this is only called once the window expires.
    */
   onParticipantLeave(participantId: ParticipantId): void;
 
+  /**
+   * Called when a disconnected participant reclaims its slot with a resume token.
+   * Return a snapshot of the current app state for the welcome message.
+   * Resumption is only offered if this hook is implemented.
+   */
+  onParticipantResume?(participant: Participant<TParticipantNumber>): TWelcomeData;
+
   /**
    * Handle an incoming app-specific message.
    * @returns Updated responses to send
@@ -165,60 +303,131 @@ export interface AppHooks<
   ): MessageResponse<TAppServerMessage>[];
 
   /**
-   * Called when the session starts (both participants ready).
+   * Called when the session starts (a quorum of participants ready and the
+   * countdown, if configured, has elapsed).
    */
   onSessionStart(): void;
 
+  /**
+   * Called when a participant pauses the running session.
+   * The tick loop is stopped until the session resumes.
+   */
+  onSessionPause?(pausedBy: ParticipantId): void;
+
+  /**
+   * Called when a paused session resumes (all participants ready again).
+   */
+  onSessionResume?(): void;
+
   /**
    * Called when all participants vote to play again.
    * Return data for the reset message.
    */
   onReset(): TResetData;
 
+  /**
+   * Called when a spectator connects.
+   * Return a snapshot of the current app state for the spectator_welcome message.
+   */
+  onSpectatorJoin?(spectator: Spectator): TSpectatorWelcomeData | undefined;
+
+  /**
+   * Called when a spectator disconnects.
+   */
+  onSpectatorLeave?(spectatorId: SpectatorId): void;
+
   /**
    * Called when a participant joins and an opponent notification will be sent.
    * Return data to include in the opponent_joined message.
    */
-  onOpponentJoined?(joiningParticipant: Participant): TOpponentJoinedData | undefined;
+  onOpponentJoined?(
+    joiningParticipant: Participant<TParticipantNumber>
+  ): TOpponentJoinedData | undefined;
 
   /**
-   * Called when the session ends, before sending session_ended.
+   * Called when the session ends with a winner, before sending session_ended.
+   * `winnerId` and `winnerNumber` are absent when a team won as a whole.
    * Return data to include in the session_ended message.
    */
   onSessionEnd?(info: {
-    winnerId: ParticipantId;
-    winnerNumber: ParticipantNumber;
+    winnerId?: ParticipantId;
+    winnerNumber?: TParticipantNumber;
+    winnerTeamId: TeamId;
     reason: SessionEndedReason;
   }): TSessionEndedData | undefined;
 
   /**
    * Called on each tick (if tick-based updates are enabled).
    * @param deltaTime - Time since last tick in seconds
-   * @returns Messages to broadcast
+   * @returns Messages to broadcast; each is stamped with the tick number
+   *   and server time (`tick`, `serverTime`)
    */
   onTick?(deltaTime: number): TAppServerMessage[];
 
+  /**
+   * Describe the entities replicated to clients (optional, tick-based apps).
+   * Called after every tick; the runtime broadcasts a `state_keyframe`
+   * followed by `state_delta` messages carrying only what changed.
+   * Return a fresh object on every call; the previous one is kept for diffing.
+   */
+  getReplicatedState?(): ReplicatedState;
+
   /**
    * Check if the session should end (app-specific win/end condition).
-   * @returns End data if session should end, null otherwise
+   * @returns End data naming a winning participant or a winning team if
+   *   the session should end, null otherwise
    */
-  checkSessionEnd?(): {
-    winnerId: ParticipantId;
-    winnerNumber: ParticipantNumber;
-    appData?: TSessionEndedData;
-  } | null;
+  checkSessionEnd?():
+    | {
+        winnerId: ParticipantId;
+        winnerNumber: TParticipantNumber;
+        appData?: TSessionEndedData;
+      }
+    | {
+        winnerTeamId: TeamId;
+        appData?: TSessionEndedData;
+      }
+    | null;
 }
 
 /**
  * Session runtime configuration.
  */
 export interface SessionRuntimeConfig {
-  /** Maximum participants (always 2) */
-  readonly maxParticipants: 2;
+  /** Maximum participants (at least 1) */
+  readonly maxParticipants: number;
+  /**
+   * Participants that must be present and ready before the session starts
+   * (default: maxParticipants). Once playing, the session ends when fewer remain.
+   */
+  readonly minParticipants?: number;
+  /**
+   * Participants per team (default: 1, everyone plays for themselves).
+   * maxParticipants must be a multiple of it. Participants are dealt to the
+   * maxParticipants / teamSize teams in turn, so numbers 1 and 2 face each other.
+   */
+  readonly teamSize?: number;
   /** Enable tick-based updates */
   readonly tickEnabled: boolean;
   /** Tick interval in milliseconds (if enabled) */
   readonly tickIntervalMs: number;
+  /** Maximum concurrent spectators (default: unlimited, 0 disables spectating) */
+  readonly maxSpectators?: number;
+  /**
+   * Seconds to count down between all participants being ready and the
+   * session starting (default: 0, start immediately).
+   */
+  readonly countdownSeconds?: number;
+  /**
+   * How long a disconnected participant's slot is held for resumption, in
+   * milliseconds (default: 0, the participant leaves immediately).
+   */
+  readonly resumeGracePeriodMs?: number;
+  /**
+   * Ticks between full `state_keyframe` messages when the app replicates
+   * state (default: 100). Newly connected clients get a keyframe right away.
+   */
+  readonly keyframeIntervalTicks?: number;
 }
 
 /**
@@ -231,7 +440,107 @@ export const DEFAULT_RUNTIME_CONFIG: SessionRuntimeConfig = {
 };
 
 /**
- * Session runtime manages the lifecycle of a two-participant session.
+ * Apply the player range an app's manifest declares to a runtime configuration:
+ * maxPlayers becomes maxParticipants and minPlayers the start quorum.
+ */
+export function withPlayerLimits<TConfig extends SessionRuntimeConfig>(
+  config: TConfig,
+  manifest: AppManifest
+): TConfig {
+  const { min, max } = getPlayerLimits(manifest);
+  return { ...config, maxParticipants: max, minParticipants: min };
+}
+
+/**
+ * Default number of ticks between replicated state keyframes.
+ */
+const DEFAULT_KEYFRAME_INTERVAL_TICKS = 100;
+
+/**
+ * Opaque handle returned by a SessionScheduler.
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Timer functions used by the runtime.
+ */
+export interface SessionScheduler {
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+/**
+ * Scheduler backed by the global timer functions.
+ */
+export const SYSTEM_SCHEDULER: SessionScheduler = {
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+/**
+ * Observes what the runtime produces, e.g. to record a session or report
+ * its lifecycle to the lobby.
+ */
+export interface SessionObserver {
+  /** Called for every message addressed to a connection, before encoding */
+  onSend?(conn: Connection, message: object): void;
+  /** Called for every valid message a participant sent, before it is handled */
+  onReceive?(conn: Connection, message: { type: string }): void;
+  /** Called when a tick starts, before the app's onTick hook */
+  onTick?(tick: number, deltaTime: number): void;
+  /** Called when a tick has been fully handled, including any session end it caused */
+  onTickEnd?(tick: number): void;
+  /** Called when the session moves to another phase */
+  onPhaseChange?(phase: SessionPhase, previous: SessionPhase): void;
+  /** Called after a new participant was admitted (not on resume) */
+  onParticipantJoined?(participant: Participant<number>, participantCount: number): void;
+  /** Called after a participant was removed for good */
+  onParticipantLeft?(participant: Participant<number>, participantCount: number): void;
+  /** Called when a match starts playing */
+  onSessionStarted?(): void;
+  /** Called when a match ends */
+  onSessionEnded?(info: {
+    winnerId?: ParticipantId;
+    winnerNumber?: number;
+    winnerTeamId?: TeamId;
+    reason: SessionEndedReason;
+    /** Participants when the match started, including any who left since */
+    participants: readonly Participant<number>[];
+    /** 1-based number of the match within the session */
+    matchNumber: number;
+    /** Time from match start to end */
+    durationMs: number;
+    /** App data sent with session_ended */
+    appData?: unknown;
+  }): void;
+}
+
+/**
+ * Sources of time and randomness, replaceable so sessions can be replayed.
+ */
+export interface SessionRuntimeOptions {
+  /** Session clock in epoch milliseconds (default: Date.now) */
+  readonly now?: () => number;
+  /** Timer functions (default: SYSTEM_SCHEDULER) */
+  readonly scheduler?: SessionScheduler;
+  /**
+   * Timer functions for the tick loop only (default: scheduler), e.g. a
+   * SharedTickScheduler driving many sessions from one timer
+   */
+  readonly tickScheduler?: SessionScheduler;
+  /** Generates resume tokens (default: crypto.randomUUID) */
+  readonly generateResumeToken?: () => ResumeToken;
+  /** Observer notified of sends and ticks */
+  readonly observer?: SessionObserver;
+}
+
+/**
+ * Session runtime manages the lifecycle of a session with up to
+ * maxParticipants participants.
  */
 export class SessionRuntime<
   TAppClientMessage extends { type: string },
@@ -240,17 +549,37 @@ export class SessionRuntime<
   TResetData = undefined,
   TOpponentJoinedData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   private readonly connections = new Map<Connection, ParticipantId>();
-  private readonly participants = new Map<ParticipantId, Participant>();
+  private readonly participants = new Map<ParticipantId, Participant<TParticipantNumber>>();
+  private readonly spectators = new Map<Connection, Spectator>();
+  private readonly codecs = new WeakMap<Connection, MessageCodec>();
+  private spectatorCounter = 0;
+  private readonly resumeTokens = new Map<ResumeToken, ParticipantId>();
+  private readonly graceTimers = new Map<ParticipantId, TimerHandle>();
   private phase: SessionPhase = 'waiting';
-  private tickInterval: ReturnType<typeof setInterval> | null = null;
-  private lastTickTime = Date.now();
+  private tickInterval: TimerHandle | null = null;
+  private countdownInterval: TimerHandle | null = null;
+  private lastTickTime = 0;
+  private replicatedState: ReplicatedState | null = null;
+  private replicationSeq = 0;
+  private ticksSinceKeyframe = 0;
+  private tick = 0;
+  /** Participants when the current match started */
+  private matchRoster: readonly Participant<TParticipantNumber>[] = [];
+  private matchStartedAt = 0;
+  /** Matches started in this session, so the current one's 1-based number */
+  private matchCount = 0;
 
   private static readonly FRAMEWORK_CLIENT_MESSAGE_TYPES = new Set([
     'participant_ready',
+    'participant_unready',
     'bot_identify',
     'play_again_vote',
+    'pause_request',
+    'clock_ping',
   ]);
 
   constructor(
@@ -261,7 +590,9 @@ export class SessionRuntime<
       TWelcomeData,
       TResetData,
       TOpponentJoinedData,
-      TSessionEndedData
+      TSessionEndedData,
+      TSpectatorWelcomeData,
+      TParticipantNumber
     >,
     private readonly serializeMessage: (
       message: SessionServerMessage<
@@ -269,28 +600,91 @@ export class SessionRuntime<
         TResetData,
         TOpponentJoinedData,
         TSessionEndedData,
-        TAppServerMessage
+        TAppServerMessage,
+        TSpectatorWelcomeData
       >
     ) => string,
     private readonly parseMessage: (
       data: string
-    ) => FrameworkClientMessage | TAppClientMessage | null
-  ) {}
+    ) => FrameworkClientMessage | TAppClientMessage | null,
+    /**
+     * Validate an app message already decoded from a binary frame.
+     * Without it, decoded messages are re-serialized for parseMessage.
+     */
+    private readonly validateMessage?: (message: unknown) => TAppClientMessage | null,
+    private readonly options: SessionRuntimeOptions = {}
+  ) {
+    const { maxParticipants } = config;
+    if (!Number.isInteger(maxParticipants) || maxParticipants < 1) {
+      throw new RangeError(`maxParticipants must be a positive integer, got ${maxParticipants}`);
+    }
+    const minParticipants = this.getMinParticipants();
+    if (!Number.isInteger(minParticipants) || minParticipants < 1) {
+      throw new RangeError(`minParticipants must be a positive integer, got ${minParticipants}`);
+    }
+    if (minParticipants > maxParticipants) {
+      throw new RangeError(
+        `minParticipants (${minParticipants}) must not exceed maxParticipants (${maxParticipants})`
+      );
+    }
+    const teamSize = this.getTeamSize();
+    if (!Number.isInteger(teamSize) || teamSize < 1) {
+      throw new RangeError(`teamSize must be a positive integer, got ${teamSize}`);
+    }
+    if (maxParticipants % teamSize !== 0) {
+      throw new RangeError(
+        `maxParticipants (${maxParticipants}) must be a multiple of teamSize (${teamSize})`
+      );
+    }
+  }
 
   // ============ Connection Management ============
 
+  /**
+   * Use a non-default codec for everything sent to a connection.
+   * Call before handing the connection to handleConnection or
+   * handleSpectatorConnection so the welcome is already encoded with it.
+   * Connections without a codec get JSON text produced by serializeMessage.
+   */
+  setConnectionCodec(conn: Connection, codec: MessageCodec): void {
+    this.codecs.set(conn, codec);
+  }
+
   /**
    * Handle a new connection.
+   * A valid resume token reclaims the slot of a disconnected participant;
+   * an unknown or expired token falls back to a regular join.
+   * @param resumeToken - Token from a previous welcome message, if any
+   * @param profile - Verified player account of a new participant, if any
    * @returns Participant info if joined, null if rejected
    */
-  handleConnection(conn: Connection): Participant | null {
+  handleConnection(
+    conn: Connection,
+    resumeToken?: ResumeToken,
+    profile?: PlayerProfile
+  ): Participant<TParticipantNumber> | null {
+    if (resumeToken) {
+      const resumed = this.resumeParticipant(conn, resumeToken);
+      if (resumed) return resumed;
+    }
+
     const participantNumber = this.getNextParticipantNumber();
 
     if (participantNumber === null) {
       // Session is full
       this.sendTo(conn, {
         type: 'error',
-        message: 'Session is full. Only 2 participants allowed.',
+        message: `Session is full. Only ${this.config.maxParticipants} participants allowed.`,
+      });
+      conn.close();
+      return null;
+    }
+
+    if (this.isSessionInProgress()) {
+      // Free slots only open up mid-session when a quorum is still left
+      this.sendTo(conn, {
+        type: 'error',
+        message: 'Session is already in progress.',
       });
       conn.close();
       return null;
@@ -298,16 +692,21 @@ export class SessionRuntime<
 
     const participantId = this.hooks.generateParticipantId(participantNumber);
 
-    const participant: Participant = {
+    const participant: Participant<TParticipantNumber> = {
       id: participantId,
       number: participantNumber,
+      teamId: this.getTeamIdFor(participantNumber),
       isReady: false,
       isBot: false,
       wantsPlayAgain: false,
+      ...(profile && { profile }),
     };
 
     this.participants.set(participantId, participant);
     this.connections.set(conn, participantId);
+    this.requestKeyframe();
+    // The newcomer is not ready yet
+    this.cancelCountdown();
 
     // Get app-specific welcome data
     const welcomeData = this.hooks.onParticipantJoin(participant);
@@ -317,7 +716,9 @@ export class SessionRuntime<
       type: 'welcome',
       participantId,
       participantNumber,
+      teamId: participant.teamId,
       sessionPhase: this.phase,
+      resumeToken: this.issueResumeToken(participantId),
       appData: welcomeData,
     });
 
@@ -325,43 +726,243 @@ export class SessionRuntime<
     const opponentData = this.hooks.onOpponentJoined?.(participant);
     this.broadcastToOthers(conn, {
       type: 'opponent_joined',
+      participantId,
+      participantNumber,
+      teamId: participant.teamId,
       appData: opponentData,
     });
 
+    this.options.observer?.onParticipantJoined?.(participant, this.participants.size);
     return participant;
   }
 
+  /**
+   * Reattach a participant held in its grace window to a new connection.
+   * @returns The resumed participant, or null if the token is not valid
+   */
+  private resumeParticipant(
+    conn: Connection,
+    resumeToken: ResumeToken
+  ): Participant<TParticipantNumber> | null {
+    const participantId = this.resumeTokens.get(resumeToken);
+    if (!participantId || !this.hooks.onParticipantResume) return null;
+
+    const participant = this.participants.get(participantId);
+    if (!participant) {
+      this.resumeTokens.delete(resumeToken);
+      return null;
+    }
+
+    // Timer handles are opaque and may be falsy, so test for presence
+    const graceTimer = this.graceTimers.get(participantId);
+    const wasHeld = graceTimer !== undefined;
+    if (wasHeld) {
+      this.scheduler.clearTimeout(graceTimer);
+      this.graceTimers.delete(participantId);
+    } else {
+      // The old connection has not been noticed as dead yet; replace it
+      const staleConn = this.getConnection(participantId);
+      if (staleConn) {
+        this.connections.delete(staleConn);
+        staleConn.close();
+      }
+    }
+
+    this.connections.set(conn, participantId);
+    this.requestKeyframe();
+
+    const snapshot = this.hooks.onParticipantResume(participant);
+
+    this.sendTo(conn, {
+      type: 'welcome',
+      participantId,
+      participantNumber: participant.number,
+      teamId: participant.teamId,
+      sessionPhase: this.phase,
+      resumeToken: this.issueResumeToken(participantId),
+      resumed: true,
+      appData: snapshot,
+    });
+
+    if (wasHeld) {
+      this.broadcastToOthers(conn, {
+        type: 'opponent_reconnected',
+        participantId,
+      });
+
+      // Everyone else may have become ready while this participant was away
+      this.checkAndStartSession();
+      this.checkAndResumeSession();
+    }
+
+    return participant;
+  }
+
+  /**
+   * Issue a fresh resume token for a participant, revoking earlier ones.
+   * @returns The token, or undefined if resumption is not enabled
+   */
+  private issueResumeToken(participantId: ParticipantId): ResumeToken | undefined {
+    if (!this.isResumeEnabled()) return undefined;
+
+    this.revokeResumeTokens(participantId);
+    const token = this.options.generateResumeToken?.() ?? randomUUID();
+    this.resumeTokens.set(token, participantId);
+    return token;
+  }
+
+  private revokeResumeTokens(participantId: ParticipantId): void {
+    for (const [token, id] of this.resumeTokens) {
+      if (id === participantId) {
+        this.resumeTokens.delete(token);
+      }
+    }
+  }
+
+  private isResumeEnabled(): boolean {
+    return (
+      (this.config.resumeGracePeriodMs ?? 0) > 0 && this.hooks.onParticipantResume !== undefined
+    );
+  }
+
+  /**
+   * Handle a new spectator connection.
+   * Spectators are never counted as participants: they do not take a
+   * participant slot, do not affect ready-gating or play-again voting,
+   * and only receive messages broadcast to all.
+   * @returns Spectator info if admitted, null if rejected
+   */
+  handleSpectatorConnection(conn: Connection): Spectator | null {
+    const maxSpectators = this.config.maxSpectators ?? Number.POSITIVE_INFINITY;
+
+    if (this.spectators.size >= maxSpectators) {
+      this.sendTo(conn, {
+        type: 'error',
+        message:
+          maxSpectators === 0
+            ? 'Spectating is not enabled for this session.'
+            : `Session is full. Only ${maxSpectators} spectators allowed.`,
+      });
+      conn.close();
+      return null;
+    }
+
+    this.spectatorCounter++;
+    const spectator: Spectator = { id: `spectator-${this.spectatorCounter}` };
+    this.spectators.set(conn, spectator);
+    this.requestKeyframe();
+
+    const snapshot = this.hooks.onSpectatorJoin?.(spectator);
+
+    this.sendTo(conn, {
+      type: 'spectator_welcome',
+      spectatorId: spectator.id,
+      sessionPhase: this.phase,
+      appData: snapshot,
+    });
+
+    return spectator;
+  }
+
   /**
    * Handle a connection closing.
    */
   handleDisconnection(conn: Connection): void {
+    const spectator = this.spectators.get(conn);
+    if (spectator) {
+      this.spectators.delete(conn);
+      this.hooks.onSpectatorLeave?.(spectator.id);
+      return;
+    }
+
     const participantId = this.connections.get(conn);
     if (!participantId) return;
 
-    this.hooks.onParticipantLeave(participantId);
-    this.participants.delete(participantId);
     this.connections.delete(conn);
+    this.cancelCountdown();
+
+    const participant = this.participants.get(participantId);
+    if (participant && !participant.isBot && this.isResumeEnabled()) {
+      this.holdParticipant(participantId, conn);
+      return;
+    }
 
-    const remainingParticipant = [...this.participants.values()].find(
-      (p) => p.id !== participantId
+    this.removeParticipant(participantId, conn);
+  }
+
+  /**
+   * Keep a disconnected participant's slot, number and app state for the
+   * grace window. The participant leaves for good if it does not resume in time.
+   */
+  private holdParticipant(participantId: ParticipantId, conn: Connection): void {
+    const gracePeriodMs = this.config.resumeGracePeriodMs ?? 0;
+
+    this.graceTimers.set(
+      participantId,
+      this.scheduler.setTimeout(() => {
+        this.graceTimers.delete(participantId);
+        this.removeParticipant(participantId, conn);
+      }, gracePeriodMs)
     );
 
-    if (this.phase === 'playing') {
-      const winnerId = remainingParticipant?.id;
-      const winnerNumber = remainingParticipant?.number;
-      this.endSession(winnerId, winnerNumber, 'participant_left');
+    this.broadcastToOthers(conn, {
+      type: 'opponent_disconnected',
+      participantId,
+      gracePeriodMs,
+    });
+  }
+
+  /**
+   * Remove a participant whose connection is gone.
+   */
+  private removeParticipant(participantId: ParticipantId, conn: Connection): void {
+    const participant = this.participants.get(participantId);
+    this.hooks.onParticipantLeave(participantId);
+    this.participants.delete(participantId);
+    this.revokeResumeTokens(participantId);
+    if (participant) {
+      this.options.observer?.onParticipantLeft?.(participant, this.participants.size);
+    }
+
+    // The session goes on as long as a quorum of opposing teams is left;
+    // a last team standing wins
+    if (this.isSessionInProgress() && !this.hasQuorum()) {
+      const remaining = [...this.participants.values()];
+      const teams = this.getRepresentedTeams();
+      const winner = remaining.length === 1 ? remaining[0] : undefined;
+      const winnerTeamId = teams.size === 1 ? [...teams][0] : undefined;
+      this.finishSession(winner?.id, winner?.number, winnerTeamId, 'participant_left');
     }
 
     // Notify remaining participant(s)
     this.broadcastToOthers(conn, {
       type: 'opponent_left',
+      participantId,
     });
+
+    // The participant may have been the last one holding back the start or resume
+    this.checkAndStartSession();
+    this.checkAndResumeSession();
   }
 
   /**
    * Handle an incoming message.
    */
-  handleMessage(conn: Connection, rawData: string): void {
+  handleMessage(conn: Connection, rawData: WireData): void {
+    if (this.spectators.has(conn)) {
+      // Spectators may sync their clock but cannot otherwise interact
+      const message = this.parseFrameworkOrAppMessage(rawData);
+      if (message && this.isFrameworkClientMessage(message) && message.type === 'clock_ping') {
+        this.handleClockPing(conn, message.clientTime);
+        return;
+      }
+      this.sendTo(conn, {
+        type: 'error',
+        message: 'Spectators cannot send messages',
+      });
+      return;
+    }
+
     const participantId = this.connections.get(conn);
     if (!participantId) return;
 
@@ -373,6 +974,7 @@ export class SessionRuntime<
       });
       return;
     }
+    this.options.observer?.onReceive?.(conn, message);
 
     // Handle framework-level messages
     if (this.isFrameworkClientMessage(message)) {
@@ -392,8 +994,12 @@ export class SessionRuntime<
   }
 
   private parseFrameworkOrAppMessage(
-    rawData: string
+    rawData: WireData
   ): FrameworkClientMessage | TAppClientMessage | null {
+    if (typeof rawData !== 'string') {
+      return this.parseBinaryMessage(rawData);
+    }
+
     try {
       const parsed = JSON.parse(rawData) as { type?: string };
       if (parsed && typeof parsed === 'object' && typeof parsed.type === 'string') {
@@ -408,6 +1014,33 @@ export class SessionRuntime<
     return this.parseMessage(rawData);
   }
 
+  private parseBinaryMessage(
+    rawData: Uint8Array
+  ): FrameworkClientMessage | TAppClientMessage | null {
+    let decoded: unknown;
+    try {
+      decoded = getCodecForFrame(rawData).decode(rawData);
+    } catch {
+      return null;
+    }
+
+    if (
+      !decoded ||
+      typeof decoded !== 'object' ||
+      typeof (decoded as { type?: unknown }).type !== 'string'
+    ) {
+      return null;
+    }
+
+    if (this.isFrameworkClientMessage(decoded as FrameworkClientMessage)) {
+      return decoded as FrameworkClientMessage;
+    }
+
+    return this.validateMessage
+      ? this.validateMessage(decoded)
+      : this.parseMessage(JSON.stringify(decoded));
+  }
+
   // ============ Framework Message Handlers ============
 
   /**
@@ -415,7 +1048,7 @@ export class SessionRuntime<
    * @returns true if message was handled, false to delegate to app
    */
   private handleFrameworkMessage(
-    _conn: Connection,
+    conn: Connection,
     participantId: ParticipantId,
     message: FrameworkClientMessage
   ): void {
@@ -424,6 +1057,10 @@ export class SessionRuntime<
         this.handleParticipantReady(participantId);
         return;
 
+      case 'participant_unready':
+        this.handleParticipantUnready(participantId);
+        return;
+
       case 'bot_identify':
         this.handleBotIdentify(participantId);
         return;
@@ -431,9 +1068,37 @@ export class SessionRuntime<
       case 'play_again_vote':
         this.handlePlayAgainVote(participantId);
         return;
+
+      case 'pause_request':
+        this.handlePauseRequest(participantId);
+        return;
+
+      case 'clock_ping':
+        this.handleClockPing(conn, message.clientTime);
+        return;
     }
   }
 
+  /**
+   * Answer a clock sync ping with the current server time.
+   * Framework messages skip app validation, so the echoed time is checked here.
+   */
+  private handleClockPing(conn: Connection, clientTime: unknown): void {
+    if (typeof clientTime !== 'number' || !Number.isFinite(clientTime)) {
+      this.sendTo(conn, {
+        type: 'error',
+        message: 'Invalid message format',
+      });
+      return;
+    }
+
+    this.sendTo(conn, {
+      type: 'clock_pong',
+      clientTime,
+      serverTime: this.now(),
+    });
+  }
+
   /**
    * Mark a participant as ready.
    */
@@ -447,6 +1112,25 @@ export class SessionRuntime<
     });
 
     this.checkAndStartSession();
+    this.checkAndResumeSession();
+  }
+
+  /**
+   * Withdraw a participant's ready signal before the session starts.
+   * Cancels a running countdown.
+   */
+  private handleParticipantUnready(participantId: ParticipantId): void {
+    if (this.phase !== 'waiting') return;
+
+    const participant = this.participants.get(participantId);
+    if (!participant || participant.isBot) return;
+
+    this.participants.set(participantId, {
+      ...participant,
+      isReady: false,
+    });
+
+    this.cancelCountdown();
   }
 
   /**
@@ -465,6 +1149,31 @@ export class SessionRuntime<
     this.checkAndStartSession();
   }
 
+  /**
+   * Pause the running session on a participant's request.
+   * Human participants must signal ready again before it resumes.
+   */
+  private handlePauseRequest(participantId: ParticipantId): void {
+    if (this.phase !== 'playing') return;
+
+    this.setPhase('paused');
+    this.stopTickLoop();
+
+    for (const [id, p] of this.participants) {
+      this.participants.set(id, {
+        ...p,
+        isReady: p.isBot, // Bots stay ready
+      });
+    }
+
+    this.hooks.onSessionPause?.(participantId);
+
+    this.broadcastToAll({
+      type: 'session_paused',
+      pausedBy: participantId,
+    });
+  }
+
   /**
    * Handle a play-again vote.
    */
@@ -499,17 +1208,89 @@ export class SessionRuntime<
    * Check if session should start and start it.
    */
   private checkAndStartSession(): void {
-    if (this.phase !== 'waiting') return;
+    if (this.phase !== 'waiting' || this.countdownInterval) return;
 
     const allReady = this.areAllParticipantsReady();
     if (!allReady) return;
 
-    this.phase = 'playing';
+    const countdownSeconds = this.config.countdownSeconds ?? 0;
+    if (countdownSeconds > 0) {
+      this.startCountdown(countdownSeconds);
+      return;
+    }
+
+    this.startSession();
+  }
+
+  /**
+   * Broadcast one countdown tick per second, then start the session.
+   */
+  private startCountdown(seconds: number): void {
+    let secondsRemaining = seconds;
+
+    this.broadcastToAll({
+      type: 'countdown',
+      secondsRemaining,
+    });
+
+    this.countdownInterval = this.scheduler.setInterval(() => {
+      secondsRemaining--;
+
+      if (secondsRemaining > 0) {
+        this.broadcastToAll({
+          type: 'countdown',
+          secondsRemaining,
+        });
+        return;
+      }
+
+      this.stopCountdown();
+      this.startSession();
+    }, 1000);
+  }
+
+  /**
+   * Cancel a running countdown and tell everyone it was aborted.
+   */
+  private cancelCountdown(): void {
+    if (!this.countdownInterval) return;
+
+    this.stopCountdown();
+    this.broadcastToAll({
+      type: 'countdown_cancelled',
+    });
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownInterval) {
+      this.scheduler.clearInterval(this.countdownInterval);
+      this.countdownInterval = null;
+    }
+  }
+
+  /**
+   * Move to another phase and tell the observer.
+   */
+  private setPhase(phase: SessionPhase): void {
+    const previous = this.phase;
+    this.phase = phase;
+    this.options.observer?.onPhaseChange?.(phase, previous);
+  }
+
+  /**
+   * Transition to playing and notify the app and all clients.
+   */
+  private startSession(): void {
+    this.setPhase('playing');
+    this.matchRoster = Array.from(this.participants.values());
+    this.matchStartedAt = this.now();
+    this.matchCount++;
     this.hooks.onSessionStart();
 
     this.broadcastToAll({
       type: 'session_started',
     });
+    this.options.observer?.onSessionStarted?.();
 
     // Start tick loop if enabled
     if (this.config.tickEnabled) {
@@ -517,24 +1298,74 @@ export class SessionRuntime<
     }
   }
 
+  /**
+   * Check if a paused session should resume and resume it.
+   */
+  private checkAndResumeSession(): void {
+    if (this.phase !== 'paused') return;
+
+    const allReady = this.areAllParticipantsReady();
+    if (!allReady) return;
+
+    this.setPhase('playing');
+    this.hooks.onSessionResume?.();
+
+    this.broadcastToAll({
+      type: 'session_resumed',
+    });
+
+    if (this.config.tickEnabled) {
+      this.startTickLoop();
+    }
+  }
+
   /**
    * End the session with a winner.
+   * The winner's team is reported as the winning team.
    */
   endSession(
     winnerId: ParticipantId | undefined,
-    winnerNumber: ParticipantNumber | undefined,
+    winnerNumber: TParticipantNumber | undefined,
     reason: SessionEndedReason,
     appDataFromCaller?: TSessionEndedData
   ): void {
-    if (this.phase !== 'playing') return;
+    const winnerTeamId =
+      winnerId !== undefined ? this.participants.get(winnerId)?.teamId : undefined;
+    this.finishSession(winnerId, winnerNumber, winnerTeamId, reason, appDataFromCaller);
+  }
+
+  /**
+   * End the session with a winning team rather than a single winner.
+   */
+  endSessionForTeam(
+    winnerTeamId: TeamId,
+    reason: SessionEndedReason,
+    appDataFromCaller?: TSessionEndedData
+  ): void {
+    this.finishSession(undefined, undefined, winnerTeamId, reason, appDataFromCaller);
+  }
 
-    this.phase = 'finished';
+  private finishSession(
+    winnerId: ParticipantId | undefined,
+    winnerNumber: TParticipantNumber | undefined,
+    winnerTeamId: TeamId | undefined,
+    reason: SessionEndedReason,
+    appDataFromCaller?: TSessionEndedData
+  ): void {
+    if (!this.isSessionInProgress()) return;
+
+    this.setPhase('finished');
     this.stopTickLoop();
 
     let appData = appDataFromCaller;
 
-    if (!appData && winnerId && winnerNumber) {
-      const hookData = this.hooks.onSessionEnd?.({ winnerId, winnerNumber, reason });
+    if (!appData && winnerTeamId !== undefined) {
+      const hookData = this.hooks.onSessionEnd?.({
+        winnerId,
+        winnerNumber,
+        winnerTeamId,
+        reason,
+      });
       if (hookData !== undefined) {
         appData = hookData as TSessionEndedData;
       }
@@ -544,7 +1375,18 @@ export class SessionRuntime<
       type: 'session_ended',
       winnerId,
       winnerNumber,
+      winnerTeamId,
+      reason,
+      appData,
+    });
+    this.options.observer?.onSessionEnded?.({
+      winnerId,
+      winnerNumber,
+      winnerTeamId,
       reason,
+      participants: this.matchRoster,
+      matchNumber: this.matchCount,
+      durationMs: this.now() - this.matchStartedAt,
       appData,
     });
   }
@@ -566,7 +1408,7 @@ export class SessionRuntime<
     }
 
     // Transition to waiting
-    this.phase = 'waiting';
+    this.setPhase('waiting');
 
     // Broadcast reset
     this.broadcastToAll({
@@ -578,23 +1420,30 @@ export class SessionRuntime<
   // ============ Tick Loop ============
 
   private startTickLoop(): void {
-    this.lastTickTime = Date.now();
-    this.tickInterval = setInterval(() => {
-      const now = Date.now();
+    this.lastTickTime = this.now();
+    this.requestKeyframe();
+    this.tickInterval = this.tickScheduler.setInterval(() => {
+      const now = this.now();
       const deltaTime = (now - this.lastTickTime) / 1000;
       this.lastTickTime = now;
 
       if (this.phase !== 'playing') return;
 
+      const stamp: TickStamp = { tick: ++this.tick, serverTime: now };
+      this.options.observer?.onTick?.(stamp.tick, deltaTime);
+
       // Call app tick hook
       const messages = this.hooks.onTick?.(deltaTime) ?? [];
       for (const msg of messages) {
-        this.broadcastToAll(msg);
+        this.broadcastToAll({ ...msg, ...stamp });
       }
+      this.replicateState(stamp);
 
       // Check for session end
       const endResult = this.hooks.checkSessionEnd?.();
-      if (endResult) {
+      if (endResult && 'winnerTeamId' in endResult) {
+        this.endSessionForTeam(endResult.winnerTeamId, 'app_condition', endResult.appData);
+      } else if (endResult) {
         this.endSession(
           endResult.winnerId,
           endResult.winnerNumber,
@@ -602,12 +1451,58 @@ export class SessionRuntime<
           endResult.appData
         );
       }
+      this.options.observer?.onTickEnd?.(stamp.tick);
     }, this.config.tickIntervalMs);
   }
 
+  /**
+   * Broadcast the app's replicated state: a keyframe when one is due,
+   * otherwise the delta since the previous message (nothing if unchanged).
+   */
+  private replicateState(stamp: TickStamp): void {
+    const state = this.hooks.getReplicatedState?.();
+    if (!state) return;
+
+    const keyframeInterval = this.config.keyframeIntervalTicks ?? DEFAULT_KEYFRAME_INTERVAL_TICKS;
+    const previous = this.replicatedState;
+    this.replicatedState = state;
+
+    if (!previous || this.ticksSinceKeyframe >= keyframeInterval) {
+      this.ticksSinceKeyframe = 0;
+      this.broadcastToAll({
+        type: 'state_keyframe',
+        seq: ++this.replicationSeq,
+        ...stamp,
+        state,
+      });
+      return;
+    }
+
+    this.ticksSinceKeyframe++;
+    const changes = diffReplicatedState(previous, state);
+    if (!changes) return;
+
+    const baseSeq = this.replicationSeq;
+    this.broadcastToAll({
+      type: 'state_delta',
+      seq: ++this.replicationSeq,
+      baseSeq,
+      ...stamp,
+      changes,
+    });
+  }
+
+  /**
+   * Send a keyframe on the next tick, e.g. because a client joined and has
+   * no base state to apply deltas to.
+   */
+  private requestKeyframe(): void {
+    this.replicatedState = null;
+  }
+
   private stopTickLoop(): void {
     if (this.tickInterval) {
-      clearInterval(this.tickInterval);
+      this.tickScheduler.clearInterval(this.tickInterval);
       this.tickInterval = null;
     }
   }
@@ -617,6 +1512,23 @@ export class SessionRuntime<
    */
   stop(): void {
     this.stopTickLoop();
+    this.stopCountdown();
+    for (const timer of this.graceTimers.values()) {
+      this.scheduler.clearTimeout(timer);
+    }
+    this.graceTimers.clear();
+  }
+
+  private now(): number {
+    return this.options.now?.() ?? Date.now();
+  }
+
+  private get scheduler(): SessionScheduler {
+    return this.options.scheduler ?? SYSTEM_SCHEDULER;
+  }
+
+  private get tickScheduler(): SessionScheduler {
+    return this.options.tickScheduler ?? this.scheduler;
   }
 
   // ============ Message Routing ============
@@ -628,12 +1540,61 @@ export class SessionRuntime<
       TResetData,
       TOpponentJoinedData,
       TSessionEndedData,
-      TAppServerMessage
+      TAppServerMessage,
+      TSpectatorWelcomeData
     >
   ): void {
+    this.deliver(conn, message);
+  }
+
+  /**
+   * Send a message to a connection that is still open.
+   * The observer sees every message addressed to a connection, open or not,
+   * so a replay produces the same messages regardless of socket timing.
+   */
+  private deliver(
+    conn: Connection,
+    message: SessionServerMessage<
+      TWelcomeData,
+      TResetData,
+      TOpponentJoinedData,
+      TSessionEndedData,
+      TAppServerMessage,
+      TSpectatorWelcomeData
+    >,
+    encoded?: Map<CodecName, WireData>
+  ): void {
+    this.options.observer?.onSend?.(conn, message);
     if (conn.readyState === conn.OPEN) {
-      conn.send(this.serializeMessage(message));
+      conn.send(this.encodeFor(conn, message, encoded));
+    }
+  }
+
+  /**
+   * Encode a message with the codec negotiated for a connection.
+   * Broadcasts share a cache so each codec encodes a message only once.
+   */
+  private encodeFor(
+    conn: Connection,
+    message: SessionServerMessage<
+      TWelcomeData,
+      TResetData,
+      TOpponentJoinedData,
+      TSessionEndedData,
+      TAppServerMessage,
+      TSpectatorWelcomeData
+    >,
+    encoded = new Map<CodecName, WireData>()
+  ): WireData {
+    const codec = this.codecs.get(conn);
+    const name = codec?.name ?? 'json';
+
+    let data = encoded.get(name);
+    if (data === undefined) {
+      data = codec && name !== 'json' ? codec.encode(message) : this.serializeMessage(message);
+      encoded.set(name, data);
     }
+    return data;
   }
 
   private broadcastToAll(
@@ -642,13 +1603,38 @@ export class SessionRuntime<
       TResetData,
       TOpponentJoinedData,
       TSessionEndedData,
-      TAppServerMessage
+      TAppServerMessage,
+      TSpectatorWelcomeData
     >
   ): void {
-    const serialized = this.serializeMessage(message);
+    const encoded = new Map<CodecName, WireData>();
     for (const conn of this.connections.keys()) {
-      if (conn.readyState === conn.OPEN) {
-        conn.send(serialized);
+      this.deliver(conn, message, encoded);
+    }
+    for (const conn of this.spectators.keys()) {
+      this.deliver(conn, message, encoded);
+    }
+  }
+
+  /**
+   * Send a message to the participants that match a predicate.
+   */
+  private broadcastToParticipants(
+    predicate: (participant: Participant<TParticipantNumber>) => boolean,
+    message: SessionServerMessage<
+      TWelcomeData,
+      TResetData,
+      TOpponentJoinedData,
+      TSessionEndedData,
+      TAppServerMessage,
+      TSpectatorWelcomeData
+    >
+  ): void {
+    const encoded = new Map<CodecName, WireData>();
+    for (const [conn, id] of this.connections) {
+      const participant = this.participants.get(id);
+      if (participant && predicate(participant)) {
+        this.deliver(conn, message, encoded);
       }
     }
   }
@@ -660,13 +1646,14 @@ export class SessionRuntime<
       TResetData,
       TOpponentJoinedData,
       TSessionEndedData,
-      TAppServerMessage
+      TAppServerMessage,
+      TSpectatorWelcomeData
     >
   ): void {
-    const serialized = this.serializeMessage(message);
+    const encoded = new Map<CodecName, WireData>();
     for (const conn of this.connections.keys()) {
-      if (conn !== senderConn && conn.readyState === conn.OPEN) {
-        conn.send(serialized);
+      if (conn !== senderConn) {
+        this.deliver(conn, message, encoded);
       }
     }
   }
@@ -675,6 +1662,9 @@ export class SessionRuntime<
     senderConn: Connection,
     responses: MessageResponse<TAppServerMessage>[]
   ): void {
+    const senderId = this.connections.get(senderConn);
+    const senderTeamId = senderId ? this.participants.get(senderId)?.teamId : undefined;
+
     for (const response of responses) {
       switch (response.target) {
         case 'sender':
@@ -683,6 +1673,15 @@ export class SessionRuntime<
         case 'opponent':
           this.broadcastToOthers(senderConn, response.message);
           break;
+        case 'team':
+          this.broadcastToParticipants(
+            (p) => p.teamId === senderTeamId && p.id !== senderId,
+            response.message
+          );
+          break;
+        case 'opponents':
+          this.broadcastToParticipants((p) => p.teamId !== senderTeamId, response.message);
+          break;
         case 'all':
           this.broadcastToAll(response.message);
           break;
@@ -692,16 +1691,62 @@ export class SessionRuntime<
 
   // ============ Queries ============
 
-  private getNextParticipantNumber(): ParticipantNumber | null {
-    const numbers = new Set([...this.participants.values()].map((p) => p.number));
-    if (!numbers.has(1)) return 1;
-    if (!numbers.has(2)) return 2;
+  /**
+   * Lowest free slot number, or null if the session is full.
+   */
+  private getNextParticipantNumber(): TParticipantNumber | null {
+    const numbers = new Set<number>([...this.participants.values()].map((p) => p.number));
+    for (let number = 1; number <= this.config.maxParticipants; number++) {
+      // Apps keeping the default `1 | 2` numbers admit at most two participants
+      if (!numbers.has(number)) return number as TParticipantNumber;
+    }
     return null;
   }
 
+  private getMinParticipants(): number {
+    return this.config.minParticipants ?? this.config.maxParticipants;
+  }
+
+  private getTeamSize(): number {
+    return this.config.teamSize ?? 1;
+  }
+
+  private getTeamCount(): number {
+    return this.config.maxParticipants / this.getTeamSize();
+  }
+
+  /**
+   * Team for a slot: slots are dealt to teams in turn.
+   */
+  private getTeamIdFor(participantNumber: number): TeamId {
+    return ((participantNumber - 1) % this.getTeamCount()) + 1;
+  }
+
+  private getRepresentedTeams(): Set<TeamId> {
+    return new Set([...this.participants.values()].map((p) => p.teamId));
+  }
+
+  /**
+   * Whether enough participants are present to play: at least minParticipants,
+   * spread over at least two teams when the session has more than one.
+   */
+  private hasQuorum(): boolean {
+    if (this.participants.size < this.getMinParticipants()) return false;
+    return this.getRepresentedTeams().size >= Math.min(2, this.getTeamCount());
+  }
+
+  private isSessionInProgress(): boolean {
+    return this.phase === 'playing' || this.phase === 'paused';
+  }
+
+  /**
+   * Whether a quorum is present and every participant is ready. Participants
+   * held in their grace window keep their ready flag but count as not ready
+   * until they resume, so the session does not start or resume without them.
+   */
   private areAllParticipantsReady(): boolean {
-    if (this.participants.size < 2) return false;
-    return [...this.participants.values()].every((p) => p.isReady);
+    if (!this.hasQuorum()) return false;
+    return [...this.participants.values()].every((p) => p.isReady && !this.graceTimers.has(p.id));
   }
 
   private getPlayAgainVoters(): ParticipantId[] {
@@ -720,21 +1765,51 @@ export class SessionRuntime<
     return this.phase;
   }
 
+  /** Get the number of the latest tick (0 before the first tick) */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /** Check whether the pre-start countdown is running */
+  isCountdownActive(): boolean {
+    return this.countdownInterval !== null;
+  }
+
   /** Get participant count */
   getParticipantCount(): number {
     return this.participants.size;
   }
 
   /** Get a participant by ID */
-  getParticipant(id: ParticipantId): Participant | undefined {
+  getParticipant(id: ParticipantId): Participant<TParticipantNumber> | undefined {
     return this.participants.get(id);
   }
 
   /** Get all participants */
-  getAllParticipants(): Participant[] {
+  getAllParticipants(): Participant<TParticipantNumber>[] {
     return [...this.participants.values()];
   }
 
+  /** Get the participants playing for a team */
+  getTeamMembers(teamId: TeamId): Participant<TParticipantNumber>[] {
+    return [...this.participants.values()].filter((p) => p.teamId === teamId);
+  }
+
+  /** Check whether a participant currently has a live connection */
+  isParticipantConnected(participantId: ParticipantId): boolean {
+    return this.getConnection(participantId) !== undefined;
+  }
+
+  /** Get spectator count */
+  getSpectatorCount(): number {
+    return this.spectators.size;
+  }
+
+  /** Get all spectators */
+  getAllSpectators(): Spectator[] {
+    return [...this.spectators.values()];
+  }
+
   /** Get connection for a participant */
   getConnection(participantId: ParticipantId): Connection | undefined {
     for (const [conn, id] of this.connections) {
@@ -751,7 +1826,8 @@ export class SessionRuntime<
       TResetData,
       TOpponentJoinedData,
       TSessionEndedData,
-      TAppServerMessage
+      TAppServerMessage,
+      TSpectatorWelcomeData
     >
   ): void {
     const conn = this.getConnection(participantId);
@@ -760,14 +1836,15 @@ export class SessionRuntime<
     }
   }
 
-  /** Broadcast a message to all participants */
+  /** Broadcast a message to all participants and spectators */
   broadcast(
     message: SessionServerMessage<
       TWelcomeData,
       TResetData,
       TOpponentJoinedData,
       TSessionEndedData,
-      TAppServerMessage
+      TAppServerMessage,
+      TSpectatorWelcomeData
     >
   ): void {
     this.broadcastToAll(message);
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Scheduler that drives many sessions' tick loops from one timer.
+ *
+ * Handles:
+ * - One underlying interval per distinct period, shared by every caller
+ * - Per-caller handles so each session can leave the shared timer
+ * - Releasing the underlying interval once nobody uses it
+ * - Isolating failures: a callback that throws leaves the interval and is
+ *   reported, while the other callbacks keep running
+ *
+ * A session host passes it to each runtime as `tickScheduler`, so dozens
+ * of sessions tick together instead of each arming its own interval.
+ */
+
+import { logger as processLogger } from '@gesture-app/framework-logging';
+import { type SessionScheduler, SYSTEM_SCHEDULER, type TimerHandle } from './SessionRuntime.js';
+import type { ServerLogger } from './serverLogger.js';
+
+/**
+ * Handle for one callback registered on a shared interval.
+ */
+interface SharedInterval {
+  readonly intervalMs: number;
+  readonly callback: () => void;
+  /** Told when the callback threw; the error is logged when absent */
+  readonly onError?: (error: unknown) => void;
+}
+
+/**
+ * Callbacks sharing one underlying interval.
+ */
+interface IntervalGroup {
+  readonly handle: TimerHandle;
+  readonly members: Set<SharedInterval>;
+}
+
+/**
+ * Session scheduler whose intervals with the same period share one timer.
+ * Timeouts are passed through unchanged.
+ */
+export class SharedTickScheduler implements SessionScheduler {
+  private readonly groups = new Map<number, IntervalGroup>();
+
+  constructor(
+    private readonly base: SessionScheduler = SYSTEM_SCHEDULER,
+    private readonly logger: Pick<ServerLogger, 'error'> = processLogger.child({
+      component: 'tick-scheduler',
+    })
+  ) {}
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return this.base.setTimeout(callback, delayMs);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.base.clearTimeout(handle);
+  }
+
+  /**
+   * Join the shared interval for this period, starting it if needed.
+   * A newcomer first runs on the group's next beat.
+   */
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    return this.join({ intervalMs, callback });
+  }
+
+  /**
+   * Scheduler for one session: if a callback it registered throws, the
+   * callback leaves its interval and `onError` is told, e.g. to close the
+   * session. Timeouts are passed through unchanged.
+   */
+  forSession(onError: (error: unknown) => void): SessionScheduler {
+    return {
+      setTimeout: (callback, delayMs) => this.setTimeout(callback, delayMs),
+      clearTimeout: (handle) => this.clearTimeout(handle),
+      setInterval: (callback, intervalMs) => this.join({ intervalMs, callback, onError }),
+      clearInterval: (handle) => this.clearInterval(handle),
+    };
+  }
+
+  private join(member: SharedInterval): TimerHandle {
+    const { intervalMs } = member;
+    let group = this.groups.get(intervalMs);
+    if (!group) {
+      const members = new Set<SharedInterval>();
+      const handle = this.base.setInterval(() => this.beat(members), intervalMs);
+      group = { handle, members };
+      this.groups.set(intervalMs, group);
+    }
+    group.members.add(member);
+    return member;
+  }
+
+  /**
+   * Leave a shared interval; the underlying timer stops with its last member.
+   */
+  clearInterval(handle: TimerHandle): void {
+    const member = handle as SharedInterval;
+    const group = this.groups.get(member?.intervalMs);
+    if (!group?.members.delete(member)) return;
+
+    if (group.members.size === 0) {
+      this.base.clearInterval(group.handle);
+      this.groups.delete(member.intervalMs);
+    }
+  }
+
+  /** Number of underlying intervals currently running */
+  getTimerCount(): number {
+    return this.groups.size;
+  }
+
+  /** Number of callbacks registered across all shared intervals */
+  getMemberCount(): number {
+    let count = 0;
+    for (const group of this.groups.values()) {
+      count += group.members.size;
+    }
+    return count;
+  }
+
+  private beat(members: Set<SharedInterval>): void {
+    // A callback may stop its own or another session's loop mid-beat
+    for (const member of [...members]) {
+      if (!members.has(member)) continue;
+      try {
+        member.callback();
+      } catch (error) {
+        this.clearInterval(member);
+        this.report(member, error);
+      }
+    }
+  }
+
+  /**
+   * Hand a failed callback's error to its owner; nothing escapes the beat.
+   */
+  private report(member: SharedInterval, error: unknown): void {
+    try {
+      if (member.onError) {
+        member.onError(error);
+      } else {
+        this.logger.error('Tick callback failed', { error });
+      }
+    } catch (handlerError) {
+      this.logger.error('Tick error handler failed', { error: handlerError });
+    }
+  }
+}
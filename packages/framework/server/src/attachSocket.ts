@@ -0,0 +1,256 @@
+/**
+ * @fileoverview Wiring between WebSocket connections and a session runtime.
+ *
+ * Handles:
+ * - Codec negotiation (`?codec=msgpack`, JSON fallback)
+ * - Spectator admission (`?role=spectator`)
+ * - Participant resumption (`?resume=<token>`)
+ * - Player accounts (`?player=<signed token>`)
+ * - Private sessions (`?access=<invite token or password>`)
+ * - Forwarding messages and closes through the event clock and recorder
+ * - Inactivity tracking
+ * - Logging connections with the participant or spectator ID
+ *
+ * Shared by createAppServer (one session per process) and createSessionHost
+ * (many sessions per process).
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  type CodecName,
+  getAccessKey,
+  getCodec,
+  getCodecForFrame,
+  getConnectionRole,
+  getPlayerToken,
+  getRequestedCodec,
+  getResumeToken,
+  type PlayerProfile,
+  type WireData,
+} from '@gesture-app/framework-protocol';
+import type { InactivityMonitor } from './InactivityMonitor.js';
+import { verifyPlayerToken } from './playerToken.js';
+import type { EventClock } from './SessionContext.js';
+import type { SessionRecorder } from './SessionRecorder.js';
+import type { Connection, SessionRuntime } from './SessionRuntime.js';
+import { type ServerLogger, withLogFields } from './serverLogger.js';
+
+/**
+ * WebSocket interface for type compatibility.
+ * Apps can pass ws.WebSocket instances directly.
+ */
+export interface WebSocketLike extends Connection {
+  on(event: 'message', callback: (data: Buffer | string, isBinary?: boolean) => void): void;
+  on(event: 'close', callback: () => void): void;
+  on(event: 'error', callback: (error: unknown) => void): void;
+}
+
+/**
+ * Subset of the HTTP upgrade request passed along with each connection.
+ */
+export interface UpgradeRequestLike {
+  readonly url?: string;
+}
+
+export interface WebSocketServerLike {
+  on(
+    event: 'connection',
+    callback: (ws: WebSocketLike, request?: UpgradeRequestLike) => void
+  ): void;
+  close(callback?: () => void): void;
+  emit?(event: string): void;
+}
+
+export interface WebSocketServerConstructor {
+  new (options: { port: number }): WebSocketServerLike;
+}
+
+/**
+ * Runtime methods used to feed it connections; independent of the app's types.
+ */
+type RuntimeConnectionHandler = Pick<
+  SessionRuntime<
+    { type: string },
+    { type: string },
+    unknown,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    number
+  >,
+  | 'setConnectionCodec'
+  | 'handleConnection'
+  | 'handleSpectatorConnection'
+  | 'handleMessage'
+  | 'handleDisconnection'
+>;
+
+/**
+ * Everything a socket needs to take part in one session.
+ */
+export interface SocketBinding {
+  readonly runtime: RuntimeConnectionHandler;
+  readonly clock: EventClock;
+  readonly logger: ServerLogger;
+  /** Codecs clients may request */
+  readonly supportedCodecs: ReadonlySet<CodecName>;
+  /** Message types that do not count as activity */
+  readonly ignoreMessageTypes: ReadonlySet<string>;
+  readonly recorder?: SessionRecorder;
+  readonly inactivityMonitor?: InactivityMonitor;
+  /** Secret player tokens are signed with; unset admits everyone anonymously */
+  readonly playerTokenSecret?: string;
+  /** Keys of a private session, any of which admits a connection; empty or unset admits everyone */
+  readonly accessKeys?: readonly string[];
+  /** Called once a connection was admitted */
+  readonly onAdmitted?: (ws: WebSocketLike) => void;
+  /** Events arriving after this returns true are dropped (session closed) */
+  readonly isClosed?: () => boolean;
+}
+
+/**
+ * Admit a socket to the session and forward its messages and close.
+ * @returns Whether the socket was admitted
+ */
+export function attachSocket(
+  binding: SocketBinding,
+  ws: WebSocketLike,
+  request?: UpgradeRequestLike
+): boolean {
+  const { runtime, clock, recorder, inactivityMonitor } = binding;
+  const conn = ws as unknown as Connection;
+  const isClosed = binding.isClosed ?? (() => false);
+
+  clock.advance();
+
+  // Answer in the requested codec if supported, JSON otherwise
+  const requested = getRequestedCodec(request?.url);
+  const codec = binding.supportedCodecs.has(requested) ? requested : 'json';
+  if (codec !== 'json') {
+    runtime.setConnectionCodec(conn, getCodec(codec));
+  }
+
+  // Private sessions turn away anyone without a valid key before admission
+  if (!hasAccess(binding, request?.url)) {
+    binding.logger.info('Rejecting connection without a valid access key');
+    ws.send(getCodec(codec).encode({ type: 'error', message: 'Access denied.' }));
+    ws.close();
+    return false;
+  }
+
+  // Spectators are invisible to inactivity tracking: watching an idle
+  // session must not keep it alive.
+  const isSpectator = getConnectionRole(request?.url) === 'spectator';
+
+  let logger: ServerLogger;
+
+  if (isSpectator) {
+    recorder?.recordConnection(conn, 'spectator');
+    const spectator = runtime.handleSpectatorConnection(conn);
+    if (!spectator) return false;
+    logger = withLogFields(binding.logger, { spectatorId: spectator.id });
+  } else {
+    // Record connection for inactivity tracking
+    inactivityMonitor?.recordConnection(true);
+
+    const resumeToken = getResumeToken(request?.url);
+    const profile = getPlayerProfile(binding, request?.url);
+    recorder?.recordConnection(conn, 'participant', resumeToken, profile);
+    const participant = runtime.handleConnection(conn, resumeToken, profile);
+    if (!participant) {
+      // Connection was rejected, record disconnection
+      inactivityMonitor?.recordConnection(false);
+      return false;
+    }
+    logger = withLogFields(binding.logger, {
+      participantId: participant.id,
+      ...(profile && { playerId: profile.id }),
+    });
+  }
+
+  logger.info(isSpectator ? 'Spectator connected' : 'Participant connected');
+  binding.onAdmitted?.(ws);
+
+  ws.on('message', (data: Buffer | string, isBinary?: boolean) => {
+    if (isClosed()) return;
+    const message = toWireData(data, isBinary);
+
+    // Record activity for inactivity tracking (unless message type is ignored)
+    if (inactivityMonitor && !isSpectator) {
+      try {
+        const parsed = getCodecForFrame(message).decode(message) as { type?: string };
+        if (!parsed.type || !binding.ignoreMessageTypes.has(parsed.type)) {
+          inactivityMonitor.recordActivity();
+        }
+      } catch {
+        // If we can't parse, count it as activity
+        inactivityMonitor.recordActivity();
+      }
+    }
+
+    clock.advance();
+    recorder?.recordMessage(conn, message);
+    runtime.handleMessage(conn, message);
+  });
+
+  ws.on('close', () => {
+    if (isClosed()) return;
+    if (!isSpectator) {
+      // Record disconnection for inactivity tracking
+      inactivityMonitor?.recordConnection(false);
+    }
+    logger.info(isSpectator ? 'Spectator disconnected' : 'Participant disconnected');
+    clock.advance();
+    recorder?.recordDisconnection(conn);
+    runtime.handleDisconnection(conn);
+  });
+
+  ws.on('error', (error: unknown) => {
+    logger.error('WebSocket error', { error });
+  });
+
+  return true;
+}
+
+/**
+ * Check the access key presented with a connection against the session's keys.
+ */
+function hasAccess(binding: SocketBinding, url: string | undefined): boolean {
+  if (!binding.accessKeys?.length) return true;
+
+  const key = getAccessKey(url);
+  if (!key) return false;
+
+  // Compare digests so the comparison takes the same time for any key length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  const presented = digest(key);
+  return binding.accessKeys.some((accessKey) => timingSafeEqual(presented, digest(accessKey)));
+}
+
+/**
+ * Verify the player token presented with a connection.
+ * Invalid tokens are logged and the player joins anonymously.
+ */
+function getPlayerProfile(
+  binding: SocketBinding,
+  url: string | undefined
+): PlayerProfile | undefined {
+  const token = getPlayerToken(url);
+  if (!token || !binding.playerTokenSecret) return undefined;
+
+  const profile = verifyPlayerToken(token, binding.playerTokenSecret);
+  if (!profile) {
+    binding.logger.info('Ignoring invalid player token');
+    return undefined;
+  }
+  return profile;
+}
+
+/**
+ * Normalize a received frame: binary frames stay bytes, text frames become strings.
+ */
+function toWireData(data: Buffer | string, isBinary?: boolean): WireData {
+  if (typeof data === 'string') return data;
+  return isBinary ? data : data.toString();
+}
@@ -7,15 +7,43 @@
  * - Message routing
  * - Graceful shutdown
  * - Inactivity monitoring (auto-cleanup)
+ * - Spectator admission (`?role=spectator`)
+ * - Participant resumption (`?resume=<token>`)
+ * - Private sessions (`?access=<invite token or password>`)
+ * - Wire codec negotiation (`?codec=msgpack`, JSON fallback)
+ * - Session context for hooks factories and optional session recording
+ * - Optional lifecycle webhook reporting to the lobby
+ * - Optional Prometheus metrics on their own port
  */
 
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { logger as processLogger } from '@gesture-app/framework-logging';
+import type { CodecName, ParticipantNumber, ShutdownReason } from '@gesture-app/framework-protocol';
+import {
+  attachSocket,
+  type WebSocketLike,
+  type WebSocketServerConstructor,
+} from './attachSocket.js';
 import {
   DEFAULT_INACTIVITY_CHECK_INTERVAL_MS,
   DEFAULT_INACTIVITY_TIMEOUT_MS,
   InactivityMonitor,
 } from './InactivityMonitor.js';
-import type { AppHooks, Connection, SessionRuntimeConfig } from './SessionRuntime.js';
-import { SessionRuntime } from './SessionRuntime.js';
+import { LifecycleWebhook } from './LifecycleWebhook.js';
+import { serveMetrics } from './metrics.js';
+import {
+  type AppHooksFactory,
+  createSeed,
+  createSeededRandom,
+  EventClock,
+  type SessionContext,
+} from './SessionContext.js';
+import { SessionMetrics } from './SessionMetrics.js';
+import { SessionRecorder } from './SessionRecorder.js';
+import type { AppHooks, SessionObserver, SessionRuntimeConfig } from './SessionRuntime.js';
+import { SessionRuntime, SYSTEM_SCHEDULER } from './SessionRuntime.js';
+import type { ServerLogger } from './serverLogger.js';
 
 /**
  * Inactivity monitoring configuration.
@@ -31,6 +59,7 @@ export interface InactivityConfig {
    * Message types to ignore when tracking activity.
    * Useful for apps with continuous streaming (e.g., hand tracking).
    * Messages with these types won't reset the inactivity timer.
+   * Clock sync pings (`clock_ping`) are always ignored.
    * @example ['hand_update'] - ignore hand tracking updates
    */
   readonly ignoreMessageTypes?: readonly string[];
@@ -46,6 +75,8 @@ export interface AppServerConfig<
   TResetData = undefined,
   TOpponentJoinedData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   /** Port to listen on (default: 3001, or PORT env var) */
   readonly port?: number;
@@ -53,15 +84,32 @@ export interface AppServerConfig<
   /** Runtime configuration (tick settings, etc.) */
   readonly runtimeConfig: SessionRuntimeConfig;
 
-  /** Application hooks implementation */
-  readonly hooks: AppHooks<
-    TAppClientMessage,
-    TAppServerMessage,
-    TWelcomeData,
-    TResetData,
-    TOpponentJoinedData,
-    TSessionEndedData
-  >;
+  /**
+   * Application hooks implementation, or a factory receiving the session
+   * context. Hooks that use the context's clock and random numbers can be
+   * replayed from a recording.
+   */
+  readonly hooks:
+    | AppHooks<
+        TAppClientMessage,
+        TAppServerMessage,
+        TWelcomeData,
+        TResetData,
+        TOpponentJoinedData,
+        TSessionEndedData,
+        TSpectatorWelcomeData,
+        TParticipantNumber
+      >
+    | AppHooksFactory<
+        TAppClientMessage,
+        TAppServerMessage,
+        TWelcomeData,
+        TResetData,
+        TOpponentJoinedData,
+        TSessionEndedData,
+        TSpectatorWelcomeData,
+        TParticipantNumber
+      >;
 
   /** Serialize server messages to string (default: JSON.stringify) */
   readonly serializer?: (message: TAppServerMessage | object) => string;
@@ -69,12 +117,21 @@ export interface AppServerConfig<
   /** Parse client messages from string (default: JSON.parse with type check) */
   readonly parser: (data: string) => TAppClientMessage | null;
 
-  /** Optional logger */
-  readonly logger?: {
-    info: (message: string, data?: object) => void;
-    error: (message: string, data?: object) => void;
-    debug?: (message: string, data?: object) => void;
-  };
+  /**
+   * Validate client messages already decoded from binary frames.
+   * Recommended when binary codecs are enabled; without it decoded
+   * messages are re-serialized to JSON for `parser`.
+   */
+  readonly validator?: (message: unknown) => TAppClientMessage | null;
+
+  /**
+   * Wire codecs clients may request with `?codec=` (default: ['json', 'msgpack']).
+   * Requests for anything else are answered in JSON.
+   */
+  readonly codecs?: readonly CodecName[];
+
+  /** Optional logger (default: JSON lines from @gesture-app/framework-logging) */
+  readonly logger?: ServerLogger;
 
   /**
    * Inactivity monitoring configuration.
@@ -82,6 +139,42 @@ export interface AppServerConfig<
    * Pass { enabled: false } to disable.
    */
   readonly inactivity?: InactivityConfig;
+
+  /**
+   * Record the session to this newline-delimited JSON file for `replaySession`
+   * (default: SESSION_RECORDING_PATH env var; unset disables recording).
+   */
+  readonly recordingPath?: string;
+
+  /** Seed for the session context's random numbers (default: random) */
+  readonly seed?: number;
+
+  /**
+   * Report participant joins/leaves, match start/end and shutdown to this
+   * endpoint (default: LIFECYCLE_WEBHOOK_URL and LIFECYCLE_WEBHOOK_SECRET
+   * env vars; unset disables reporting).
+   */
+  readonly lifecycleWebhook?: { readonly url: string; readonly secret: string };
+
+  /**
+   * Secret the lobby signs player tokens with; participants presenting a
+   * valid token join with their account's profile (default: PLAYER_TOKEN_SECRET
+   * env var; unset admits everyone anonymously).
+   */
+  readonly playerTokenSecret?: string;
+
+  /**
+   * Keys of a private session: connections must present one of them as
+   * `?access=` (default: SESSION_INVITE_TOKEN env var; none admits everyone).
+   * The lobby checks room passwords itself and hands out the invite token.
+   */
+  readonly accessKeys?: readonly string[];
+
+  /**
+   * Serve Prometheus metrics at `/metrics` on this port (default: METRICS_PORT
+   * env var; unset disables metrics).
+   */
+  readonly metricsPort?: number;
 }
 
 /**
@@ -94,6 +187,8 @@ export interface AppServer<
   TResetData = unknown,
   TOpponentJoinedData = unknown,
   TSessionEndedData = unknown,
+  TSpectatorWelcomeData = unknown,
+  TParticipantNumber extends number = ParticipantNumber,
 > {
   /** The underlying SessionRuntime */
   readonly runtime: SessionRuntime<
@@ -102,7 +197,9 @@ export interface AppServer<
     TWelcomeData,
     TResetData,
     TOpponentJoinedData,
-    TSessionEndedData
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
   >;
 
   /** Stop the server gracefully */
@@ -113,26 +210,9 @@ export interface AppServer<
 
   /** Inactivity monitor (if enabled) */
   readonly inactivityMonitor?: InactivityMonitor;
-}
-
-/**
- * WebSocket interface for type compatibility.
- * Apps can pass ws.WebSocket instances directly.
- */
-interface WebSocketLike extends Connection {
-  on(event: 'message', callback: (data: Buffer | string) => void): void;
-  on(event: 'close', callback: () => void): void;
-  on(event: 'error', callback: (error: unknown) => void): void;
-}
-
-interface WebSocketServerLike {
-  on(event: 'connection', callback: (ws: WebSocketLike) => void): void;
-  close(callback?: () => void): void;
-  emit?(event: string): void;
-}
 
-interface WebSocketServerConstructor {
-  new (options: { port: number }): WebSocketServerLike;
+  /** Metrics (if enabled) */
+  readonly metrics?: SessionMetrics;
 }
 
 /**
@@ -168,6 +248,8 @@ export function createAppServer<
   TResetData = undefined,
   TOpponentJoinedData = undefined,
   TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
 >(
   config: AppServerConfig<
     TAppClientMessage,
@@ -175,7 +257,9 @@ export function createAppServer<
     TWelcomeData,
     TResetData,
     TOpponentJoinedData,
-    TSessionEndedData
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
   >,
   WebSocketServerClass: WebSocketServerConstructor
 ): AppServer<
@@ -184,25 +268,74 @@ export function createAppServer<
   TWelcomeData,
   TResetData,
   TOpponentJoinedData,
-  TSessionEndedData
+  TSessionEndedData,
+  TSpectatorWelcomeData,
+  TParticipantNumber
 > {
   // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
   const port = config.port ?? (Number(process.env['PORT']) || 3001);
-  const logger = config.logger ?? {
-    info: (msg: string, data?: object) => console.log(`[AppServer] ${msg}`, data ?? ''),
-    error: (msg: string, data?: object) => console.error(`[AppServer] ${msg}`, data ?? ''),
-  };
+  const logger = config.logger ?? processLogger.child({ component: 'app-server' });
   const serializer = config.serializer ?? ((msg: object) => JSON.stringify(msg));
+  const supportedCodecs = new Set<CodecName>(config.codecs ?? ['json', 'msgpack']);
 
   // Inactivity config - enabled by default
   const inactivityEnabled = config.inactivity?.enabled !== false;
   const inactivityTimeoutMs = config.inactivity?.timeoutMs ?? DEFAULT_INACTIVITY_TIMEOUT_MS;
   const inactivityCheckIntervalMs =
     config.inactivity?.checkIntervalMs ?? DEFAULT_INACTIVITY_CHECK_INTERVAL_MS;
-  const ignoreMessageTypes = new Set(config.inactivity?.ignoreMessageTypes ?? []);
+  // Clients keep syncing their clock while idle, so pings never count as activity
+  const ignoreMessageTypes = new Set([
+    'clock_ping',
+    ...(config.inactivity?.ignoreMessageTypes ?? []),
+  ]);
+
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const recordingPath = config.recordingPath ?? process.env['SESSION_RECORDING_PATH'];
+  const seed = config.seed ?? createSeed();
 
   logger.info(`Starting server on port ${port}...`);
 
+  // Everything handled for one event sees the time the event started
+  const clock = new EventClock();
+  const context: SessionContext = { random: createSeededRandom(seed), now: clock.now };
+  const hooks = typeof config.hooks === 'function' ? config.hooks(context) : config.hooks;
+
+  let scheduler = clock.wrapScheduler(SYSTEM_SCHEDULER);
+  let generateResumeToken = (): string => randomUUID();
+  let recording: ReturnType<typeof createWriteStream> | undefined;
+  let recorder: SessionRecorder | undefined;
+  if (recordingPath) {
+    const stream = createWriteStream(recordingPath, { flags: 'w' });
+    stream.on('error', (error: unknown) => {
+      logger.error('Session recording failed', { error, recordingPath });
+    });
+    recording = stream;
+    recorder = new SessionRecorder((line) => stream.write(`${line}\n`), clock.now);
+    recorder.start(seed, config.runtimeConfig);
+    // The clock moves first so the recorded timer time is the one the callback sees
+    scheduler = recorder.wrapScheduler(scheduler);
+    generateResumeToken = recorder.wrapResumeTokens(generateResumeToken);
+    logger.info('Session recording enabled', { recordingPath, seed });
+  }
+
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const playerTokenSecret = config.playerTokenSecret ?? process.env['PLAYER_TOKEN_SECRET'];
+  const accessKeys = config.accessKeys ?? getAccessKeysFromEnv();
+  if (accessKeys.length > 0) {
+    logger.info('Private session: connections require an access key');
+  }
+
+  const webhookConfig = config.lifecycleWebhook ?? getLifecycleWebhookFromEnv();
+  const webhook = webhookConfig ? new LifecycleWebhook({ ...webhookConfig, logger }) : undefined;
+  if (webhook) {
+    logger.info('Lifecycle webhook enabled', { url: webhookConfig?.url });
+  }
+
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const metricsPort = config.metricsPort ?? (Number(process.env['METRICS_PORT']) || undefined);
+  const metrics = metricsPort !== undefined ? new SessionMetrics() : undefined;
+  const metricsServer = metrics && serveMetrics(metrics.registry, metricsPort ?? 0, logger);
+
   // Create runtime
   const runtime = new SessionRuntime<
     TAppClientMessage,
@@ -210,8 +343,22 @@ export function createAppServer<
     TWelcomeData,
     TResetData,
     TOpponentJoinedData,
-    TSessionEndedData
-  >(config.runtimeConfig, config.hooks, serializer as (message: unknown) => string, config.parser);
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >(
+    config.runtimeConfig,
+    hooks,
+    serializer as (message: unknown) => string,
+    config.parser,
+    config.validator,
+    {
+      now: clock.now,
+      scheduler,
+      generateResumeToken,
+      observer: combineObservers([recorder?.observer, webhook?.observer, metrics?.observer]),
+    }
+  );
 
   // Create WebSocket server
   const wss = new WebSocketServerClass({ port });
@@ -220,13 +367,17 @@ export function createAppServer<
 
   // Setup graceful shutdown handlers
   let isShuttingDown = false;
-  const shutdown = async (): Promise<void> => {
+  const shutdown = async (reason: ShutdownReason): Promise<void> => {
     if (isShuttingDown) return;
     isShuttingDown = true;
 
-    logger.info('Shutting down...');
+    logger.info('Shutting down...', { reason });
     inactivityMonitor?.stop();
     runtime.stop();
+    recording?.end();
+    webhook?.notify({ type: 'shutdown', reason });
+    await webhook?.flush();
+    metricsServer?.close();
 
     return new Promise((resolve) => {
       wss.close(() => {
@@ -244,12 +395,10 @@ export function createAppServer<
       checkIntervalMs: inactivityCheckIntervalMs,
       onShutdown: (reason: string) => {
         logger.info('Inactivity shutdown triggered', { reason });
-        shutdown().then(() => process.exit(0));
-      },
-      logger: {
-        info: logger.info,
-        debug: logger.debug,
+        metrics?.countInactivityShutdown();
+        shutdown('inactivity').then(() => process.exit(0));
       },
+      logger,
     });
 
     logger.info('Inactivity monitoring enabled', {
@@ -259,56 +408,30 @@ export function createAppServer<
   }
 
   // Handle connections
-  wss.on('connection', (ws: WebSocketLike) => {
-    // Record connection for inactivity tracking
-    inactivityMonitor?.recordConnection(true);
-
-    const participant = runtime.handleConnection(ws as unknown as Connection);
-    if (!participant) {
-      // Connection was rejected, record disconnection
-      inactivityMonitor?.recordConnection(false);
-      return;
-    }
-
-    // Emit event for testing
-    wss.emit?.('connection_handled');
-
-    ws.on('message', (data: Buffer | string) => {
-      const message = typeof data === 'string' ? data : data.toString();
-
-      // Record activity for inactivity tracking (unless message type is ignored)
-      if (inactivityMonitor && ignoreMessageTypes.size > 0) {
-        try {
-          const parsed = JSON.parse(message) as { type?: string };
-          if (!parsed.type || !ignoreMessageTypes.has(parsed.type)) {
-            inactivityMonitor.recordActivity();
-          }
-        } catch {
-          // If we can't parse, count it as activity
-          inactivityMonitor.recordActivity();
-        }
-      } else {
-        inactivityMonitor?.recordActivity();
-      }
-
-      runtime.handleMessage(ws as unknown as Connection, message);
-    });
-
-    ws.on('close', () => {
-      // Record disconnection for inactivity tracking
-      inactivityMonitor?.recordConnection(false);
-      runtime.handleDisconnection(ws as unknown as Connection);
-    });
-
-    ws.on('error', (error: unknown) => {
-      logger.error('WebSocket error', { error });
-    });
+  wss.on('connection', (ws: WebSocketLike, request) => {
+    attachSocket(
+      {
+        runtime,
+        clock,
+        logger,
+        supportedCodecs,
+        ignoreMessageTypes,
+        recorder,
+        inactivityMonitor,
+        playerTokenSecret,
+        accessKeys,
+        // Emit event for testing
+        onAdmitted: () => wss.emit?.('connection_handled'),
+      },
+      ws,
+      request
+    );
   });
 
   // Register signal handlers
   const handleSignal = (signal: string) => {
     logger.info(`${signal} received`);
-    shutdown().then(() => process.exit(0));
+    shutdown('signal').then(() => process.exit(0));
   };
 
   process.on('SIGTERM', () => handleSignal('SIGTERM'));
@@ -317,7 +440,67 @@ export function createAppServer<
   return {
     runtime,
     port,
-    stop: shutdown,
+    stop: () => shutdown('stopped'),
     inactivityMonitor,
+    metrics,
+  };
+}
+
+/**
+ * Read the lifecycle webhook settings the lobby passes to spawned sessions.
+ */
+function getLifecycleWebhookFromEnv(): { url: string; secret: string } | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const url = process.env['LIFECYCLE_WEBHOOK_URL'];
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const secret = process.env['LIFECYCLE_WEBHOOK_SECRET'];
+  return url && secret ? { url, secret } : undefined;
+}
+
+/**
+ * Read the keys of a private session the lobby passes to spawned sessions.
+ */
+function getAccessKeysFromEnv(): string[] {
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const inviteToken = process.env['SESSION_INVITE_TOKEN'];
+  return inviteToken ? [inviteToken] : [];
+}
+
+/**
+ * Fan observer callbacks out to every given observer.
+ */
+function combineObservers(
+  observers: readonly (SessionObserver | undefined)[]
+): SessionObserver | undefined {
+  const present = observers.filter((observer) => observer !== undefined);
+  if (present.length <= 1) return present[0];
+  return {
+    onSend: (conn, message) => {
+      for (const observer of present) observer.onSend?.(conn, message);
+    },
+    onReceive: (conn, message) => {
+      for (const observer of present) observer.onReceive?.(conn, message);
+    },
+    onTick: (tick, deltaTime) => {
+      for (const observer of present) observer.onTick?.(tick, deltaTime);
+    },
+    onTickEnd: (tick) => {
+      for (const observer of present) observer.onTickEnd?.(tick);
+    },
+    onPhaseChange: (phase, previous) => {
+      for (const observer of present) observer.onPhaseChange?.(phase, previous);
+    },
+    onParticipantJoined: (participant, participantCount) => {
+      for (const observer of present) observer.onParticipantJoined?.(participant, participantCount);
+    },
+    onParticipantLeft: (participant, participantCount) => {
+      for (const observer of present) observer.onParticipantLeft?.(participant, participantCount);
+    },
+    onSessionStarted: () => {
+      for (const observer of present) observer.onSessionStarted?.();
+    },
+    onSessionEnded: (info) => {
+      for (const observer of present) observer.onSessionEnded?.(info);
+    },
   };
 }
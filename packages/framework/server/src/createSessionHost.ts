@@ -0,0 +1,536 @@
+/**
+ * @fileoverview Multi-room session host: many sessions in one server process.
+ *
+ * Handles:
+ * - Routing WebSocket connections by path (`/ws/:sessionId`)
+ * - Creating sessions on demand or ahead of time, each with fresh hooks
+ *   from the app's hooks factory and its own seeded session context
+ * - Per-session inactivity cleanup (idle sessions close, the host keeps running)
+ * - A shared tick scheduler, so all sessions tick from one timer
+ * - Graceful shutdown of every session
+ *
+ * Where createAppServer runs one session per process (one container per
+ * game), a session host runs dozens of games on one machine.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger as processLogger } from '@gesture-app/framework-logging';
+import type { CodecName, ParticipantNumber } from '@gesture-app/framework-protocol';
+import {
+  attachSocket,
+  type WebSocketLike,
+  type WebSocketServerConstructor,
+} from './attachSocket.js';
+import type { InactivityConfig } from './createAppServer.js';
+import {
+  DEFAULT_INACTIVITY_CHECK_INTERVAL_MS,
+  DEFAULT_INACTIVITY_TIMEOUT_MS,
+  InactivityMonitor,
+} from './InactivityMonitor.js';
+import {
+  type AppHooksFactory,
+  createSeed,
+  createSeededRandom,
+  EventClock,
+} from './SessionContext.js';
+import { SessionRuntime, type SessionRuntimeConfig, SYSTEM_SCHEDULER } from './SessionRuntime.js';
+import { SharedTickScheduler } from './SharedTickScheduler.js';
+import { type ServerLogger, withLogFields } from './serverLogger.js';
+
+/** Default path prefix sessions are served under */
+export const DEFAULT_SESSION_PATH_PREFIX = '/ws/';
+
+/** Session IDs are a single URL-safe path segment */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Error thrown when creating a session whose ID is already in use.
+ */
+export class DuplicateSessionError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} already exists.`);
+    this.name = 'DuplicateSessionError';
+  }
+}
+
+/**
+ * Error thrown when the host already runs its maximum number of sessions.
+ */
+export class SessionLimitError extends Error {
+  constructor(maxSessions: number) {
+    super(`Session host is full. Only ${maxSessions} sessions allowed.`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+/**
+ * Configuration for creating a session host.
+ */
+export interface SessionHostConfig<
+  TAppClientMessage extends { type: string },
+  TAppServerMessage extends { type: string },
+  TWelcomeData,
+  TResetData = undefined,
+  TOpponentJoinedData = undefined,
+  TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
+> {
+  /** Port to listen on (default: 3001, or PORT env var) */
+  readonly port?: number;
+
+  /** Runtime configuration shared by every session */
+  readonly runtimeConfig: SessionRuntimeConfig;
+
+  /** Creates fresh hooks for each session from its context */
+  readonly hooks: AppHooksFactory<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >;
+
+  /** Serialize server messages to string (default: JSON.stringify) */
+  readonly serializer?: (message: TAppServerMessage | object) => string;
+
+  /** Parse client messages from string */
+  readonly parser: (data: string) => TAppClientMessage | null;
+
+  /** Validate client messages already decoded from binary frames */
+  readonly validator?: (message: unknown) => TAppClientMessage | null;
+
+  /** Wire codecs clients may request with `?codec=` (default: ['json', 'msgpack']) */
+  readonly codecs?: readonly CodecName[];
+
+  /** Optional logger (default: JSON lines from @gesture-app/framework-logging) */
+  readonly logger?: ServerLogger;
+
+  /**
+   * Per-session inactivity cleanup. Enabled by default; an idle session is
+   * closed while the host keeps running. Pass { enabled: false } to disable.
+   */
+  readonly inactivity?: InactivityConfig;
+
+  /** Path prefix sessions are served under (default: '/ws/') */
+  readonly pathPrefix?: string;
+
+  /**
+   * Create a session on the first connection to an unknown ID (default: true).
+   * When false, sessions must be created with `createSession` first.
+   */
+  readonly createOnConnect?: boolean;
+
+  /** Maximum concurrent sessions (default: unlimited) */
+  readonly maxSessions?: number;
+
+  /**
+   * Secret the lobby signs player tokens with (default: PLAYER_TOKEN_SECRET
+   * env var; unset admits everyone anonymously).
+   */
+  readonly playerTokenSecret?: string;
+
+  /**
+   * Keys shared by all sessions of the host: connections must present one
+   * of them as `?access=` (default: none, everyone is admitted).
+   */
+  readonly accessKeys?: readonly string[];
+}
+
+/**
+ * A session running on a host.
+ */
+export interface HostedSession<
+  TAppClientMessage extends { type: string } = { type: string },
+  TAppServerMessage extends { type: string } = { type: string },
+  TWelcomeData = unknown,
+  TResetData = unknown,
+  TOpponentJoinedData = unknown,
+  TSessionEndedData = unknown,
+  TSpectatorWelcomeData = unknown,
+  TParticipantNumber extends number = ParticipantNumber,
+> {
+  readonly id: string;
+  /** Creation time in epoch milliseconds */
+  readonly createdAt: number;
+  readonly runtime: SessionRuntime<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >;
+}
+
+/**
+ * Running session host instance.
+ */
+export interface SessionHost<
+  TAppClientMessage extends { type: string } = { type: string },
+  TAppServerMessage extends { type: string } = { type: string },
+  TWelcomeData = unknown,
+  TResetData = unknown,
+  TOpponentJoinedData = unknown,
+  TSessionEndedData = unknown,
+  TSpectatorWelcomeData = unknown,
+  TParticipantNumber extends number = ParticipantNumber,
+> {
+  /** Port the host is listening on */
+  readonly port: number;
+
+  /** Scheduler driving every session's tick loop */
+  readonly tickScheduler: SharedTickScheduler;
+
+  /**
+   * Create a session ahead of its first connection.
+   * @param sessionId - URL-safe ID (default: a random UUID)
+   * @throws DuplicateSessionError if the ID is taken
+   * @throws SessionLimitError if the host is full
+   */
+  createSession(
+    sessionId?: string
+  ): HostedSession<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >;
+
+  /** Get a running session by ID */
+  getSession(
+    sessionId: string
+  ):
+    | HostedSession<
+        TAppClientMessage,
+        TAppServerMessage,
+        TWelcomeData,
+        TResetData,
+        TOpponentJoinedData,
+        TSessionEndedData,
+        TSpectatorWelcomeData,
+        TParticipantNumber
+      >
+    | undefined;
+
+  /** Get all running sessions */
+  getSessions(): HostedSession<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >[];
+
+  /**
+   * Stop a session and close its connections.
+   * @returns false if no such session is running
+   */
+  closeSession(sessionId: string): boolean;
+
+  /** Close every session and stop the host gracefully */
+  stop(): Promise<void>;
+}
+
+/**
+ * Extract the session ID from a connection URL such as `/ws/abc?codec=msgpack`.
+ * @returns The ID, or null if the path is not a valid session path
+ */
+export function getSessionIdFromPath(
+  url: string | undefined,
+  pathPrefix: string = DEFAULT_SESSION_PATH_PREFIX
+): string | null {
+  if (!url) return null;
+
+  const { pathname } = new URL(url, 'http://localhost');
+  if (!pathname.startsWith(pathPrefix)) return null;
+
+  const sessionId = pathname.slice(pathPrefix.length).replace(/\/$/, '');
+  return SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+}
+
+/**
+ * Create and start a host serving many sessions of one app.
+ *
+ * @example
+ * ```typescript
+ * import { createSessionHost } from '@gesture-app/framework-server';
+ * import { WebSocketServer } from 'ws';
+ *
+ * const host = createSessionHost({
+ *   port: 3001,
+ *   runtimeConfig: { maxParticipants: 2, tickEnabled: true, tickIntervalMs: 16 },
+ *   hooks: (context) => new MyAppHooks(context),
+ *   parser: (data) => parseClientMessage(JSON.parse(data)),
+ * }, WebSocketServer);
+ *
+ * // Clients connect to ws://localhost:3001/ws/<sessionId>
+ * ```
+ */
+export function createSessionHost<
+  TAppClientMessage extends { type: string },
+  TAppServerMessage extends { type: string },
+  TWelcomeData,
+  TResetData = undefined,
+  TOpponentJoinedData = undefined,
+  TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
+>(
+  config: SessionHostConfig<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >,
+  WebSocketServerClass: WebSocketServerConstructor
+): SessionHost<
+  TAppClientMessage,
+  TAppServerMessage,
+  TWelcomeData,
+  TResetData,
+  TOpponentJoinedData,
+  TSessionEndedData,
+  TSpectatorWelcomeData,
+  TParticipantNumber
+> {
+  type Session = HostedSession<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  > & {
+    readonly clock: EventClock;
+    readonly sockets: Set<WebSocketLike>;
+    readonly logger: ServerLogger;
+    readonly inactivityMonitor?: InactivityMonitor;
+    closed: boolean;
+  };
+
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const port = config.port ?? (Number(process.env['PORT']) || 3001);
+  const logger = config.logger ?? processLogger.child({ component: 'session-host' });
+  const serializer = config.serializer ?? ((msg: object) => JSON.stringify(msg));
+  const supportedCodecs = new Set<CodecName>(config.codecs ?? ['json', 'msgpack']);
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  const playerTokenSecret = config.playerTokenSecret ?? process.env['PLAYER_TOKEN_SECRET'];
+  const pathPrefix = config.pathPrefix ?? DEFAULT_SESSION_PATH_PREFIX;
+  const createOnConnect = config.createOnConnect ?? true;
+
+  const inactivityEnabled = config.inactivity?.enabled !== false;
+  const inactivityTimeoutMs = config.inactivity?.timeoutMs ?? DEFAULT_INACTIVITY_TIMEOUT_MS;
+  const inactivityCheckIntervalMs =
+    config.inactivity?.checkIntervalMs ?? DEFAULT_INACTIVITY_CHECK_INTERVAL_MS;
+  // Clients keep syncing their clock while idle, so pings never count as activity
+  const ignoreMessageTypes = new Set([
+    'clock_ping',
+    ...(config.inactivity?.ignoreMessageTypes ?? []),
+  ]);
+
+  const tickScheduler = new SharedTickScheduler();
+  const sessions = new Map<string, Session>();
+
+  const createSession = (sessionId: string = randomUUID()): Session => {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new RangeError(`Invalid session ID: ${sessionId}`);
+    }
+    if (sessions.has(sessionId)) {
+      throw new DuplicateSessionError(sessionId);
+    }
+    if (config.maxSessions !== undefined && sessions.size >= config.maxSessions) {
+      throw new SessionLimitError(config.maxSessions);
+    }
+
+    const sessionLogger = withLogFields(logger, { sessionId });
+
+    // A session whose tick throws is closed; the others keep ticking
+    const sessionTickScheduler = tickScheduler.forSession((error) => {
+      sessionLogger.error('Session tick failed, closing the session', { error });
+      closeSession(sessionId);
+    });
+
+    // Everything handled for one event sees the time the event started
+    const clock = new EventClock();
+    const hooks = config.hooks({ random: createSeededRandom(createSeed()), now: clock.now });
+    const runtime = new SessionRuntime<
+      TAppClientMessage,
+      TAppServerMessage,
+      TWelcomeData,
+      TResetData,
+      TOpponentJoinedData,
+      TSessionEndedData,
+      TSpectatorWelcomeData,
+      TParticipantNumber
+    >(
+      config.runtimeConfig,
+      hooks,
+      serializer as (message: unknown) => string,
+      config.parser,
+      config.validator,
+      {
+        now: clock.now,
+        scheduler: clock.wrapScheduler(SYSTEM_SCHEDULER),
+        tickScheduler: clock.wrapScheduler(sessionTickScheduler),
+      }
+    );
+
+    const inactivityMonitor = inactivityEnabled
+      ? new InactivityMonitor({
+          timeoutMs: inactivityTimeoutMs,
+          checkIntervalMs: inactivityCheckIntervalMs,
+          onShutdown: (reason: string) => {
+            sessionLogger.info('Closing idle session', { reason });
+            closeSession(sessionId);
+          },
+          logger: sessionLogger,
+        })
+      : undefined;
+
+    const session: Session = {
+      id: sessionId,
+      createdAt: Date.now(),
+      runtime,
+      clock,
+      sockets: new Set(),
+      logger: sessionLogger,
+      inactivityMonitor,
+      closed: false,
+    };
+    sessions.set(sessionId, session);
+
+    logger.info('Session created', { sessionId, sessionCount: sessions.size });
+    return session;
+  };
+
+  const closeSession = (sessionId: string): boolean => {
+    const session = sessions.get(sessionId);
+    if (!session) return false;
+
+    session.closed = true;
+    sessions.delete(sessionId);
+    session.inactivityMonitor?.stop();
+    session.runtime.stop();
+    for (const ws of session.sockets) {
+      ws.close();
+    }
+
+    logger.info('Session closed', { sessionId, sessionCount: sessions.size });
+    return true;
+  };
+
+  // Create WebSocket server
+  const wss = new WebSocketServerClass({ port });
+
+  logger.info(`Session host listening on port ${port}`, { pathPrefix });
+
+  const reject = (ws: WebSocketLike, message: string): void => {
+    ws.send(serializer({ type: 'error', message }));
+    ws.close();
+  };
+
+  const createSessionOnConnect = (ws: WebSocketLike, sessionId: string): Session | undefined => {
+    if (!createOnConnect) {
+      reject(ws, `Session ${sessionId} not found.`);
+      return undefined;
+    }
+    try {
+      return createSession(sessionId);
+    } catch (error) {
+      reject(ws, error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  };
+
+  // Route each connection to the session named by its path
+  wss.on('connection', (ws: WebSocketLike, request) => {
+    const sessionId = getSessionIdFromPath(request?.url, pathPrefix);
+    if (!sessionId) {
+      reject(ws, `Connect to ${pathPrefix}<sessionId>.`);
+      return;
+    }
+
+    const session = sessions.get(sessionId) ?? createSessionOnConnect(ws, sessionId);
+    if (!session) return;
+
+    const admitted = attachSocket(
+      {
+        runtime: session.runtime,
+        clock: session.clock,
+        logger: session.logger,
+        supportedCodecs,
+        ignoreMessageTypes,
+        inactivityMonitor: session.inactivityMonitor,
+        playerTokenSecret,
+        accessKeys: config.accessKeys,
+        // Emit event for testing
+        onAdmitted: () => wss.emit?.('connection_handled'),
+        isClosed: () => session.closed,
+      },
+      ws,
+      request
+    );
+
+    if (admitted) {
+      session.sockets.add(ws);
+      ws.on('close', () => session.sockets.delete(ws));
+    }
+  });
+
+  // Setup graceful shutdown
+  let isShuttingDown = false;
+  const shutdown = async (): Promise<void> => {
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+
+    logger.info('Shutting down...', { sessionCount: sessions.size });
+    for (const sessionId of [...sessions.keys()]) {
+      closeSession(sessionId);
+    }
+
+    return new Promise((resolve) => {
+      wss.close(() => {
+        logger.info('Session host stopped');
+        resolve();
+      });
+    });
+  };
+
+  // Register signal handlers
+  const handleSignal = (signal: string) => {
+    logger.info(`${signal} received`);
+    shutdown().then(() => process.exit(0));
+  };
+
+  process.on('SIGTERM', () => handleSignal('SIGTERM'));
+  process.on('SIGINT', () => handleSignal('SIGINT'));
+
+  return {
+    port,
+    tickScheduler,
+    createSession,
+    getSession: (sessionId) => sessions.get(sessionId),
+    getSessions: () => [...sessions.values()],
+    closeSession,
+    stop: shutdown,
+  };
+}
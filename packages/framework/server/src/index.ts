@@ -1,25 +1,57 @@
 /**
  * @fileoverview Framework server runtime.
  *
- * This package provides the core server runtime for two-participant,
+ * This package provides the core server runtime for multi-participant,
  * WebSocket-networked, hand-gesture-driven applications. It handles:
- * - 2-participant admission
+ * - Participant admission (two or more participants, configurable start quorum)
+ * - Teams of configurable size with team-level routing and outcomes
  * - Connection registry
- * - Lifecycle gating (waiting → playing → finished)
- * - Message routing (sender/opponent/all)
+ * - Lifecycle gating (waiting → playing ⇄ paused → finished)
+ * - Message routing (sender/opponent/team/opponents/all)
+ * - Read-only spectator connections
+ * - Resume tokens and reconnection grace window
+ * - Wire codec negotiation (JSON or MessagePack)
+ * - Replicated state broadcasts (keyframes plus deltas)
  * - Play-again voting and reset coordination
  * - Inactivity monitoring (auto-cleanup)
+ * - Session recording and deterministic replay
+ * - Multi-room session hosts (many sessions per process, `/ws/:sessionId`)
+ * - Lifecycle webhooks reporting session progress to the lobby
+ * - Signed player tokens carrying lobby accounts into sessions
+ * - Prometheus metrics (session servers and the lobby)
+ * - Structured logs scoped to the session and participant
  */
 
 import type {
+  CodecName,
+  MessageCodec,
   ParticipantId,
   ParticipantNumber,
+  PlayerProfile,
+  ReplicatedState,
+  ResumeToken,
   SessionEndedReason,
   SessionPhase,
+  SpectatorId,
+  TeamId,
+  WireData,
 } from '@gesture-app/framework-protocol';
 
 // Re-export protocol types for convenience
-export type { ParticipantId, ParticipantNumber, SessionPhase, SessionEndedReason };
+export type {
+  CodecName,
+  MessageCodec,
+  ParticipantId,
+  ParticipantNumber,
+  PlayerProfile,
+  ReplicatedState,
+  ResumeToken,
+  SessionPhase,
+  SessionEndedReason,
+  SpectatorId,
+  TeamId,
+  WireData,
+};
 
 // Export server factory
 export {
@@ -28,6 +60,17 @@ export {
   createAppServer,
   type InactivityConfig,
 } from './createAppServer.js';
+// Export multi-room session host
+export {
+  createSessionHost,
+  DEFAULT_SESSION_PATH_PREFIX,
+  DuplicateSessionError,
+  getSessionIdFromPath,
+  type HostedSession,
+  type SessionHost,
+  type SessionHostConfig,
+  SessionLimitError,
+} from './createSessionHost.js';
 // Export inactivity monitor
 export {
   DEFAULT_INACTIVITY_CHECK_INTERVAL_MS,
@@ -36,6 +79,63 @@ export {
   InactivityMonitor,
   type InactivityMonitorConfig,
 } from './InactivityMonitor.js';
+// Export lifecycle webhook
+export { LifecycleWebhook, type LifecycleWebhookConfig } from './LifecycleWebhook.js';
+// Export metrics
+export {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  type GaugeOptions,
+  Histogram,
+  type HistogramOptions,
+  type Labels,
+  type MetricOptions,
+  MetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+  serveMetrics,
+} from './metrics.js';
+// Export player tokens
+export {
+  DEFAULT_PLAYER_TOKEN_TTL_MS,
+  type SignPlayerTokenOptions,
+  signPlayerToken,
+  verifyPlayerToken,
+} from './playerToken.js';
+// Export replay
+export {
+  type ReplayMismatch,
+  type ReplayOptions,
+  type ReplayResult,
+  replaySession,
+} from './replaySession.js';
+// Export session context
+export {
+  type AppHooksFactory,
+  createSeed,
+  createSeededRandom,
+  EventClock,
+  type SessionContext,
+} from './SessionContext.js';
+// Export session metrics
+export { SessionMetrics, type SessionMetricsOptions } from './SessionMetrics.js';
+// Export session recording
+export {
+  type ConnectEntry,
+  type DisconnectEntry,
+  InvalidRecordingError,
+  type MessageEntry,
+  parseRecording,
+  RECORDING_FORMAT_VERSION,
+  type RecordedOutput,
+  type RecordingEntry,
+  type ResumeTokenEntry,
+  type SendEntry,
+  SessionRecorder,
+  type SessionStartEntry,
+  type TickEntry,
+  type TimerEntry,
+} from './SessionRecorder.js';
 // Export session runtime
 export {
   type AppHooks,
@@ -44,9 +144,19 @@ export {
   type MessageResponse,
   type MessageTarget,
   type Participant,
+  type SessionObserver,
   SessionRuntime,
   type SessionRuntimeConfig,
+  type SessionRuntimeOptions,
+  type SessionScheduler,
+  type Spectator,
+  SYSTEM_SCHEDULER,
+  type TimerHandle,
+  withPlayerLimits,
 } from './SessionRuntime.js';
+export { SharedTickScheduler } from './SharedTickScheduler.js';
+// Export server logger
+export { type ServerLogger, withLogFields } from './serverLogger.js';
 
 /**
  * Framework server version.
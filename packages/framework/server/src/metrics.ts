@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Minimal Prometheus metrics.
+ *
+ * Handles:
+ * - Counters, gauges and histograms with optional labels
+ * - Rendering all metrics in the Prometheus text exposition format
+ * - Serving them over HTTP at `/metrics`
+ *
+ * Gauges may compute their value when scraped, so values that live
+ * elsewhere (e.g. session counts in a store) need no bookkeeping.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { ServerLogger } from './serverLogger.js';
+
+/** Content type of the Prometheus text format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Default histogram buckets, in seconds */
+export const DEFAULT_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Label values of one sample, keyed by label name.
+ */
+export type Labels = Readonly<Record<string, string>>;
+
+/**
+ * Definition shared by all metric types.
+ */
+export interface MetricOptions {
+  /** Metric name, e.g. `lobby_sessions_created_total` */
+  readonly name: string;
+  /** Description shown in `# HELP` */
+  readonly help: string;
+  /** Names of the labels every sample carries */
+  readonly labelNames?: readonly string[];
+}
+
+/**
+ * A metric the registry can render.
+ */
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Samples of one metric, one per combination of label values.
+ */
+abstract class LabeledMetric<TSample> implements Metric {
+  readonly name: string;
+  protected readonly samples = new Map<string, { labels: Labels; sample: TSample }>();
+  private readonly help: string;
+  private readonly labelNames: readonly string[];
+
+  constructor(
+    options: MetricOptions,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    // Unlabeled metrics always report, starting at zero
+    if (this.samples.size === 0 && this.labelNames.length === 0) {
+      this.getSample({});
+    }
+    for (const { labels, sample } of this.samples.values()) {
+      lines.push(...this.renderSample(labels, sample));
+    }
+    return lines;
+  }
+
+  protected abstract createSample(): TSample;
+
+  protected abstract renderSample(labels: Labels, sample: TSample): string[];
+
+  /**
+   * Get the sample for some label values, creating it on first use.
+   */
+  protected getSample(labels: Labels): TSample {
+    const ordered: Record<string, string> = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? '';
+    }
+    const key = JSON.stringify(Object.values(ordered));
+    let entry = this.samples.get(key);
+    if (!entry) {
+      entry = { labels: ordered, sample: this.createSample() };
+      this.samples.set(key, entry);
+    }
+    return entry.sample;
+  }
+
+  /**
+   * Get the sample for some label values without creating it.
+   */
+  protected findSample(labels: Labels): TSample | undefined {
+    const key = JSON.stringify(this.labelNames.map((name) => labels[name] ?? ''));
+    return this.samples.get(key)?.sample;
+  }
+}
+
+/**
+ * A value that only goes up, e.g. requests served.
+ */
+export class Counter extends LabeledMetric<{ value: number }> {
+  constructor(options: MetricOptions) {
+    super(options, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSample(labels).value += amount;
+  }
+
+  /**
+   * Current value for some label values.
+   */
+  get(labels: Labels = {}): number {
+    return this.findSample(labels)?.value ?? 0;
+  }
+
+  protected createSample(): { value: number } {
+    return { value: 0 };
+  }
+
+  protected renderSample(labels: Labels, sample: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(sample.value)}`];
+  }
+}
+
+/**
+ * Definition of a gauge.
+ */
+export interface GaugeOptions extends MetricOptions {
+  /** Called on every scrape to set the gauge's current values */
+  readonly collect?: (gauge: Gauge) => void;
+}
+
+/**
+ * A value that goes up and down, e.g. sessions running.
+ */
+export class Gauge extends LabeledMetric<{ value: number }> {
+  private readonly collect: ((gauge: Gauge) => void) | undefined;
+
+  constructor(options: GaugeOptions) {
+    super(options, 'gauge');
+    this.collect = options.collect;
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.getSample(labels).value = value;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSample(labels).value += amount;
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.getSample(labels).value -= amount;
+  }
+
+  /**
+   * Current value for some label values.
+   */
+  get(labels: Labels = {}): number {
+    return this.findSample(labels)?.value ?? 0;
+  }
+
+  /**
+   * Forget all label values, e.g. before a collect callback sets the current ones.
+   */
+  reset(): void {
+    this.samples.clear();
+  }
+
+  override render(): string[] {
+    this.collect?.(this);
+    return super.render();
+  }
+
+  protected createSample(): { value: number } {
+    return { value: 0 };
+  }
+
+  protected renderSample(labels: Labels, sample: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(sample.value)}`];
+  }
+}
+
+/**
+ * Definition of a histogram.
+ */
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds of the buckets, ascending (default: DEFAULT_BUCKETS) */
+  readonly buckets?: readonly number[];
+}
+
+interface HistogramSample {
+  /** Observations per bucket (not cumulative) */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, e.g. request durations.
+ */
+export class Histogram extends LabeledMetric<HistogramSample> {
+  private readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions) {
+    super(options, 'histogram');
+    this.buckets = options.buckets ?? DEFAULT_BUCKETS;
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const sample = this.getSample(labels);
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    const index = bucket === -1 ? this.buckets.length : bucket;
+    sample.counts[index] = (sample.counts[index] ?? 0) + 1;
+    sample.sum += value;
+    sample.count++;
+  }
+
+  /**
+   * Number of observations for some label values.
+   */
+  getCount(labels: Labels = {}): number {
+    return this.findSample(labels)?.count ?? 0;
+  }
+
+  protected createSample(): HistogramSample {
+    return { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  protected renderSample(labels: Labels, sample: HistogramSample): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    for (const [index, bound] of [...this.buckets, Number.POSITIVE_INFINITY].entries()) {
+      cumulative += sample.counts[index] ?? 0;
+      const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+      lines.push(`${this.name}_bucket${bucketLabels} ${cumulative}`);
+    }
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sample.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${sample.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Collection of metrics rendered together.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Serve a registry's metrics at `GET /metrics` on their own port.
+ */
+export function serveMetrics(
+  registry: MetricsRegistry,
+  port: number,
+  logger?: Pick<ServerLogger, 'info'>
+): Server {
+  const server = createServer((req, res) => {
+    if (req.method === 'GET' && req.url?.split('?')[0] === '/metrics') {
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(registry.render());
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  server.listen(port, () => logger?.info(`Metrics listening on port ${port}`));
+  return server;
+}
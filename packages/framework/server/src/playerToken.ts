@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Signed player tokens.
+ *
+ * Handles:
+ * - Signing a player's profile into a token (lobby side)
+ * - Verifying a presented token and recovering the profile (app server side)
+ *
+ * A token is `<base64url claims JSON>.<base64url HMAC-SHA256>`, keyed with a
+ * secret the lobby shares with the app servers it spawns.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  type PlayerProfile,
+  type PlayerTokenClaims,
+  PlayerTokenClaimsSchema,
+} from '@gesture-app/framework-protocol';
+
+/** Default token lifetime */
+export const DEFAULT_PLAYER_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Options for signing a player token.
+ */
+export interface SignPlayerTokenOptions {
+  /** Lifetime of the token (default: 30 days) */
+  readonly ttlMs?: number;
+  /** Clock (default: Date.now) */
+  readonly now?: () => number;
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Sign a player's profile into a token.
+ */
+export function signPlayerToken(
+  profile: PlayerProfile,
+  secret: string,
+  options: SignPlayerTokenOptions = {}
+): string {
+  const now = options.now ?? Date.now;
+  const claims: PlayerTokenClaims = {
+    id: profile.id,
+    displayName: profile.displayName,
+    avatarColor: profile.avatarColor,
+    exp: now() + (options.ttlMs ?? DEFAULT_PLAYER_TOKEN_TTL_MS),
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Verify a player token.
+ * @returns The profile it carries, or null if it is malformed, forged or expired
+ */
+export function verifyPlayerToken(
+  token: string,
+  secret: string,
+  now: () => number = Date.now
+): PlayerProfile | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return null;
+  }
+  const result = PlayerTokenClaimsSchema.safeParse(decoded);
+  if (!result.success || result.data.exp <= now()) return null;
+
+  const { id, displayName, avatarColor } = result.data;
+  return { id, displayName, avatarColor };
+}
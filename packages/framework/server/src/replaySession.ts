@@ -0,0 +1,315 @@
+/**
+ * @fileoverview Deterministic replay of recorded sessions.
+ *
+ * Handles:
+ * - Feeding recorded connections, frames, disconnections and timer firings
+ *   into a fresh SessionRuntime with the app's hooks
+ * - Restoring the recorded clock, RNG seed and resume tokens
+ * - Comparing the replayed outputs against the recorded ones
+ *
+ * A replay only matches if the hooks take their time and randomness from
+ * the session context (see `AppHooksFactory`).
+ */
+
+import { isDeepStrictEqual } from 'node:util';
+import type { ParticipantNumber, ResumeToken } from '@gesture-app/framework-protocol';
+import {
+  type AppHooksFactory,
+  createSeededRandom,
+  EventClock,
+  type SessionContext,
+} from './SessionContext.js';
+import {
+  InvalidRecordingError,
+  parseRecording,
+  type RecordedOutput,
+  type RecordingEntry,
+} from './SessionRecorder.js';
+import {
+  type AppHooks,
+  type Connection,
+  SessionRuntime,
+  type SessionRuntimeConfig,
+  type SessionScheduler,
+  type TimerHandle,
+} from './SessionRuntime.js';
+
+/**
+ * Replay options.
+ */
+export interface ReplayOptions<
+  TAppClientMessage extends { type: string },
+  TAppServerMessage extends { type: string },
+  TWelcomeData,
+  TResetData = undefined,
+  TOpponentJoinedData = undefined,
+  TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
+> {
+  /** Hooks for the replayed session; use a factory for hooks that need the session context */
+  readonly hooks:
+    | AppHooks<
+        TAppClientMessage,
+        TAppServerMessage,
+        TWelcomeData,
+        TResetData,
+        TOpponentJoinedData,
+        TSessionEndedData,
+        TSpectatorWelcomeData,
+        TParticipantNumber
+      >
+    | AppHooksFactory<
+        TAppClientMessage,
+        TAppServerMessage,
+        TWelcomeData,
+        TResetData,
+        TOpponentJoinedData,
+        TSessionEndedData,
+        TSpectatorWelcomeData,
+        TParticipantNumber
+      >;
+  /** Parse client messages from string, as passed to createAppServer */
+  readonly parser: (data: string) => TAppClientMessage | null;
+  /** Validate client messages decoded from binary frames, as passed to createAppServer */
+  readonly validator?: (message: unknown) => TAppClientMessage | null;
+  /** Runtime configuration (default: the recorded one) */
+  readonly runtimeConfig?: SessionRuntimeConfig;
+}
+
+/**
+ * An output that differs between the recording and the replay.
+ * A missing side means one run produced more outputs than the other.
+ */
+export interface ReplayMismatch {
+  /** Position among the outputs */
+  readonly index: number;
+  readonly expected?: RecordedOutput;
+  readonly actual?: RecordedOutput;
+}
+
+/**
+ * Result of a replay.
+ */
+export interface ReplayResult {
+  /** True if the replay produced exactly the recorded outputs */
+  readonly ok: boolean;
+  /** Outputs produced by the replay */
+  readonly outputs: readonly RecordedOutput[];
+  readonly mismatches: readonly ReplayMismatch[];
+}
+
+/**
+ * Scheduler whose timers only fire when told to, numbered like the recorder's.
+ */
+class ReplayScheduler implements SessionScheduler {
+  private readonly timers = new Map<number, { callback: () => void; repeat: boolean }>();
+  private nextTimerId = 0;
+
+  setTimeout(callback: () => void): TimerHandle {
+    return this.add(callback, false);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(callback: () => void): TimerHandle {
+    return this.add(callback, true);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Run a timer's callback.
+   * @returns false if the timer is not pending
+   */
+  fire(id: number): boolean {
+    const timer = this.timers.get(id);
+    if (!timer) return false;
+    if (!timer.repeat) this.timers.delete(id);
+    timer.callback();
+    return true;
+  }
+
+  private add(callback: () => void, repeat: boolean): number {
+    const id = ++this.nextTimerId;
+    this.timers.set(id, { callback, repeat });
+    return id;
+  }
+}
+
+/**
+ * Replay a recorded session and compare its outputs with the recorded ones.
+ *
+ * @param recording - Recording file contents, or already parsed entries
+ * @throws InvalidRecordingError if the recording is malformed or refers to
+ *   connections or timers the replay does not have
+ *
+ * @example
+ * ```typescript
+ * const result = replaySession(readFileSync('session.ndjson', 'utf8'), {
+ *   hooks: (context) => new MyAppHooks(context),
+ *   parser: parseClientMessage,
+ * });
+ * if (!result.ok) console.error(result.mismatches[0]);
+ * ```
+ */
+export function replaySession<
+  TAppClientMessage extends { type: string },
+  TAppServerMessage extends { type: string },
+  TWelcomeData,
+  TResetData = undefined,
+  TOpponentJoinedData = undefined,
+  TSessionEndedData = undefined,
+  TSpectatorWelcomeData = undefined,
+  TParticipantNumber extends number = ParticipantNumber,
+>(
+  recording: string | readonly RecordingEntry[],
+  options: ReplayOptions<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >
+): ReplayResult {
+  const entries = typeof recording === 'string' ? parseRecording(recording) : recording;
+  const start = entries[0];
+  if (start?.kind !== 'session_start') {
+    throw new InvalidRecordingError('Recording does not start with a session_start entry');
+  }
+
+  const clock = new EventClock(() => start.t);
+  const context: SessionContext = { random: createSeededRandom(start.seed), now: clock.now };
+  const scheduler = new ReplayScheduler();
+
+  // Tokens are recorded after the connect entry that issued them, so queue them all up front
+  const resumeTokens: ResumeToken[] = [];
+  for (const entry of entries) {
+    if (entry.kind === 'resume_token') resumeTokens.push(entry.token);
+  }
+
+  const connections = new Map<number, Connection>();
+  const connectionIds = new Map<Connection, number>();
+  const outputs: RecordedOutput[] = [];
+
+  const runtime = new SessionRuntime<
+    TAppClientMessage,
+    TAppServerMessage,
+    TWelcomeData,
+    TResetData,
+    TOpponentJoinedData,
+    TSessionEndedData,
+    TSpectatorWelcomeData,
+    TParticipantNumber
+  >(
+    options.runtimeConfig ?? start.runtimeConfig,
+    typeof options.hooks === 'function' ? options.hooks(context) : options.hooks,
+    (message) => JSON.stringify(message),
+    options.parser,
+    options.validator,
+    {
+      now: clock.now,
+      scheduler,
+      generateResumeToken: () => {
+        const token = resumeTokens.shift();
+        if (token === undefined) {
+          throw new InvalidRecordingError('Replay issued more resume tokens than were recorded');
+        }
+        return token;
+      },
+      observer: {
+        onSend: (conn, message) => {
+          outputs.push({ kind: 'send', conn: connectionIds.get(conn) ?? 0, message });
+        },
+        onTick: (tick, deltaTime) => {
+          outputs.push({ kind: 'tick', tick, deltaTime });
+        },
+      },
+    }
+  );
+
+  const getConnection = (id: number): Connection => {
+    const conn = connections.get(id);
+    if (!conn) throw new InvalidRecordingError(`Unknown connection ${id}`);
+    return conn;
+  };
+
+  try {
+    for (const entry of entries) {
+      switch (entry.kind) {
+        case 'connect': {
+          clock.advance(entry.t);
+          const conn = createReplayConnection();
+          connections.set(entry.conn, conn);
+          connectionIds.set(conn, entry.conn);
+          if (entry.role === 'spectator') {
+            runtime.handleSpectatorConnection(conn);
+          } else {
+            runtime.handleConnection(conn, entry.resumeToken, entry.profile);
+          }
+          break;
+        }
+        case 'message':
+          clock.advance(entry.t);
+          runtime.handleMessage(
+            getConnection(entry.conn),
+            entry.binary !== undefined
+              ? new Uint8Array(Buffer.from(entry.binary, 'base64'))
+              : (entry.text ?? '')
+          );
+          break;
+        case 'disconnect':
+          clock.advance(entry.t);
+          runtime.handleDisconnection(getConnection(entry.conn));
+          break;
+        case 'timer':
+          clock.advance(entry.t);
+          if (!scheduler.fire(entry.timer)) {
+            throw new InvalidRecordingError(`Timer ${entry.timer} is not pending in the replay`);
+          }
+          break;
+      }
+    }
+  } finally {
+    runtime.stop();
+  }
+
+  const expected = entries.filter(
+    (entry): entry is RecordedOutput => entry.kind === 'send' || entry.kind === 'tick'
+  );
+  const mismatches: ReplayMismatch[] = [];
+  for (let index = 0; index < Math.max(expected.length, outputs.length); index++) {
+    const recorded = expected[index];
+    // Round-trip through JSON so replayed outputs compare like recorded ones
+    const replayed =
+      outputs[index] && (JSON.parse(JSON.stringify(outputs[index])) as RecordedOutput);
+    if (!isDeepStrictEqual(recorded, replayed)) {
+      mismatches.push({
+        index,
+        ...(recorded ? { expected: recorded } : {}),
+        ...(replayed ? { actual: replayed } : {}),
+      });
+    }
+  }
+
+  return { ok: mismatches.length === 0, outputs, mismatches };
+}
+
+/**
+ * Connection that accepts and discards everything sent to it.
+ */
+function createReplayConnection(): Connection {
+  return {
+    readyState: 1,
+    OPEN: 1,
+    send: () => {},
+    close: () => {},
+  };
+}
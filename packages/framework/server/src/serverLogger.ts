@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Logger shape used throughout the server runtime.
+ *
+ * Handles:
+ * - The logger accepted by the server factories
+ * - Scoping a logger to a session or participant, so their entries can be
+ *   correlated with the lobby's and the bot's
+ *
+ * A `Logger` from `@gesture-app/framework-logging` fits as is and is the
+ * default; custom loggers only need `info` and `error`.
+ */
+
+import type { LogFields } from '@gesture-app/framework-logging';
+
+/**
+ * Logger accepted by the server factories.
+ */
+export interface ServerLogger {
+  info: (message: string, data?: LogFields) => void;
+  error: (message: string, data?: LogFields) => void;
+  debug?: (message: string, data?: LogFields) => void;
+  /** Logger adding fields to every entry; wrapped by withLogFields when absent */
+  child?: (fields: LogFields) => ServerLogger;
+}
+
+/**
+ * Logger adding `fields` (e.g. a session or participant ID) to every entry.
+ */
+export function withLogFields(logger: ServerLogger, fields: LogFields): ServerLogger {
+  if (logger.child) return logger.child(fields);
+
+  const { debug } = logger;
+  return {
+    info: (message, data) => logger.info(message, { ...fields, ...data }),
+    error: (message, data) => logger.error(message, { ...fields, ...data }),
+    ...(debug && { debug: (message, data) => debug(message, { ...fields, ...data }) }),
+    child: (more) => withLogFields(logger, { ...fields, ...more }),
+  };
+}
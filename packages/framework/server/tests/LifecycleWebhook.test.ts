@@ -0,0 +1,164 @@
+import type { LifecycleWebhookPayload } from '@gesture-app/framework-protocol';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type AppHooks,
+  type Connection,
+  DEFAULT_RUNTIME_CONFIG,
+  LifecycleWebhook,
+  SessionRuntime,
+} from '../src/index.js';
+
+// ============ Test Helpers ============
+
+interface TestMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+function createMockConnection(): Connection {
+  return { readyState: 1, OPEN: 1, send: () => {}, close: () => {} };
+}
+
+function createHooks(): AppHooks<TestMessage, TestMessage, object> {
+  return {
+    generateParticipantId: (number) => `participant-${number}`,
+    onParticipantJoin: () => ({}),
+    onParticipantLeave: () => {},
+    onMessage: () => [],
+    onSessionStart: () => {},
+    onReset: () => undefined,
+  };
+}
+
+/**
+ * Webhook whose fetch records each request instead of sending it.
+ */
+function createWebhook(response: Partial<Response> = { ok: true, status: 204 }) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), init: init ?? {} });
+    return response as Response;
+  });
+  const logger = { error: vi.fn() };
+  const webhook = new LifecycleWebhook({
+    url: 'http://lobby/api/sessions/abc123/events',
+    secret: 's3cret',
+    now: () => 1000,
+    fetch,
+    logger,
+  });
+  const events = () =>
+    requests.map(({ init }) => (JSON.parse(String(init.body)) as LifecycleWebhookPayload).event);
+  return { webhook, requests, events, logger };
+}
+
+// ============ Tests ============
+
+describe('LifecycleWebhook', () => {
+  it('should report the lifecycle of a session', async () => {
+    const { webhook, events } = createWebhook();
+    const runtime = new SessionRuntime<TestMessage, TestMessage, object>(
+      DEFAULT_RUNTIME_CONFIG,
+      createHooks(),
+      (msg) => JSON.stringify(msg),
+      (data) => JSON.parse(data) as TestMessage,
+      undefined,
+      { observer: webhook.observer, now: () => 1000 }
+    );
+    const player = { id: 'player-42', displayName: 'Ada', avatarColor: '#3b82f6' };
+
+    const conn1 = createMockConnection();
+    const conn2 = createMockConnection();
+    runtime.handleConnection(conn1, undefined, player);
+    runtime.handleConnection(conn2);
+    runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+    runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+    runtime.handleDisconnection(conn2);
+    webhook.notify({ type: 'shutdown', reason: 'inactivity' });
+    await webhook.flush();
+
+    expect(events()).toEqual([
+      {
+        type: 'participant_joined',
+        participantId: 'participant-1',
+        participantNumber: 1,
+        playerId: 'player-42',
+        participantCount: 1,
+      },
+      {
+        type: 'participant_joined',
+        participantId: 'participant-2',
+        participantNumber: 2,
+        participantCount: 2,
+      },
+      { type: 'session_started' },
+      {
+        type: 'participant_left',
+        participantId: 'participant-2',
+        participantNumber: 2,
+        participantCount: 1,
+      },
+      {
+        type: 'session_ended',
+        reason: 'participant_left',
+        winnerTeamId: 1,
+        participants: [
+          {
+            participantId: 'participant-1',
+            participantNumber: 1,
+            teamId: 1,
+            isBot: false,
+            player,
+          },
+          { participantId: 'participant-2', participantNumber: 2, teamId: 2, isBot: false },
+        ],
+        matchNumber: 1,
+        durationMs: 0,
+      },
+      { type: 'shutdown', reason: 'inactivity' },
+    ]);
+  });
+
+  it('should post JSON with the shared secret', async () => {
+    const { webhook, requests } = createWebhook();
+
+    webhook.notify({ type: 'session_started' });
+    await webhook.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.url).toBe('http://lobby/api/sessions/abc123/events');
+    expect(requests[0]?.init.method).toBe('POST');
+    expect(requests[0]?.init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      authorization: 'Bearer s3cret',
+    });
+    expect(JSON.parse(String(requests[0]?.init.body))).toEqual({
+      event: { type: 'session_started' },
+      timestamp: 1000,
+    });
+  });
+
+  it('should log failed deliveries without throwing', async () => {
+    const rejected = createWebhook({ ok: false, status: 401 });
+    rejected.webhook.notify({ type: 'session_started' });
+    await rejected.webhook.flush();
+    expect(rejected.logger.error).toHaveBeenCalledWith('Lifecycle webhook rejected event', {
+      type: 'session_started',
+      status: 401,
+    });
+
+    const logger = { error: vi.fn() };
+    const unreachable = new LifecycleWebhook({
+      url: 'http://lobby/events',
+      secret: 's3cret',
+      fetch: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      logger,
+    });
+    unreachable.notify({ type: 'shutdown', reason: 'signal' });
+    await unreachable.flush();
+    expect(logger.error).toHaveBeenCalledWith(
+      'Lifecycle webhook failed',
+      expect.objectContaining({ type: 'shutdown' })
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSeed, createSeededRandom, EventClock, SYSTEM_SCHEDULER } from '../src/index.js';
+
+describe('createSeededRandom', () => {
+  it('should yield the same sequence for the same seed', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+
+    const sequenceA = Array.from({ length: 5 }, () => a());
+    const sequenceB = Array.from({ length: 5 }, () => b());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should yield different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+
+    expect(a()).not.toBe(b());
+  });
+
+  it('should yield numbers in [0, 1)', () => {
+    const random = createSeededRandom(createSeed());
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('EventClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hold its time until advanced', () => {
+    const clock = new EventClock();
+
+    vi.setSystemTime(1500);
+    expect(clock.now()).toBe(1000);
+
+    clock.advance();
+    expect(clock.now()).toBe(1500);
+  });
+
+  it('should advance to an explicit time', () => {
+    const clock = new EventClock(() => 0);
+
+    clock.advance(42);
+
+    expect(clock.now()).toBe(42);
+  });
+
+  it('should advance before each timer callback', () => {
+    const clock = new EventClock();
+    const scheduler = clock.wrapScheduler(SYSTEM_SCHEDULER);
+    const seen: number[] = [];
+
+    const handle = scheduler.setInterval(() => seen.push(clock.now()), 100);
+    vi.advanceTimersByTime(250);
+    scheduler.clearInterval(handle);
+    vi.advanceTimersByTime(200);
+
+    expect(seen).toEqual([1100, 1200]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type AppHooks,
+  type Connection,
+  DEFAULT_RUNTIME_CONFIG,
+  SessionMetrics,
+  SessionRuntime,
+  SYSTEM_SCHEDULER,
+} from '../src/index.js';
+
+// ============ Test Helpers ============
+
+interface TestMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+function createMockConnection(): Connection {
+  return { readyState: 1, OPEN: 1, send: () => {}, close: () => {} };
+}
+
+function createHooks(onTick: () => void): AppHooks<TestMessage, TestMessage, object> {
+  return {
+    generateParticipantId: (number) => `participant-${number}`,
+    onParticipantJoin: () => ({}),
+    onParticipantLeave: () => {},
+    onMessage: () => [],
+    onSessionStart: () => {},
+    onReset: () => undefined,
+    onTick: () => {
+      onTick();
+      return [{ type: 'state' }];
+    },
+  };
+}
+
+/**
+ * Runtime reporting to session metrics, with ticks run by hand.
+ * Each tick takes the next of the given durations.
+ */
+function createSession(tickDurationsMs: number[] = []) {
+  let time = 0;
+  const intervals: (() => void)[] = [];
+  const metrics = new SessionMetrics({ now: () => time });
+  const runtime = new SessionRuntime<TestMessage, TestMessage, object>(
+    { ...DEFAULT_RUNTIME_CONFIG, tickEnabled: true },
+    createHooks(() => {
+      time += tickDurationsMs.shift() ?? 0;
+    }),
+    (msg) => JSON.stringify(msg),
+    (data) => JSON.parse(data) as TestMessage,
+    undefined,
+    {
+      now: () => 0,
+      scheduler: {
+        ...SYSTEM_SCHEDULER,
+        setInterval: (callback) => intervals.push(callback),
+      },
+      observer: metrics.observer,
+    }
+  );
+  const tick = () => intervals[0]?.();
+  return { metrics, runtime, tick };
+}
+
+// ============ Tests ============
+
+describe('SessionMetrics', () => {
+  it('should count participants, messages and phase transitions', () => {
+    const { metrics, runtime } = createSession();
+    const conn1 = createMockConnection();
+    const conn2 = createMockConnection();
+
+    runtime.handleConnection(conn1);
+    runtime.handleConnection(conn2);
+    runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+    runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+    runtime.handleMessage(conn1, JSON.stringify({ type: 'hand_update' }));
+    runtime.handleDisconnection(conn2);
+
+    const text = metrics.registry.render();
+    expect(text).toContain('session_participants 1\n');
+    expect(text).toContain('session_messages_received_total{type="participant_ready"} 2');
+    expect(text).toContain('session_messages_received_total{type="hand_update"} 1');
+    expect(text).toContain('session_messages_sent_total{type="session_started"} 2');
+    expect(text).toContain('session_phase_transitions_total{from="waiting",to="playing"} 1');
+    expect(text).toContain('session_phase_transitions_total{from="playing",to="finished"} 1');
+  });
+
+  it('should time each tick', () => {
+    const { metrics, runtime, tick } = createSession([2, 30]);
+    const conn1 = createMockConnection();
+    const conn2 = createMockConnection();
+    runtime.handleConnection(conn1);
+    runtime.handleConnection(conn2);
+    runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+    runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+
+    tick();
+    tick();
+
+    const text = metrics.registry.render();
+    expect(text).toContain('session_tick_duration_seconds_count 2');
+    expect(text).toContain('session_tick_duration_seconds_bucket{le="0.0025"} 1');
+    expect(text).toContain('session_tick_duration_seconds_bucket{le="0.05"} 2');
+  });
+
+  it('should count inactivity shutdowns', () => {
+    const metrics = new SessionMetrics();
+
+    metrics.countInactivityShutdown();
+
+    expect(metrics.registry.render()).toContain('session_inactivity_shutdowns_total 1');
+  });
+});
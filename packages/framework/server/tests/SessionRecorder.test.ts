@@ -0,0 +1,351 @@
+import { MSGPACK_CODEC } from '@gesture-app/framework-protocol';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AppHooks,
+  type AppHooksFactory,
+  type Connection,
+  createSeededRandom,
+  EventClock,
+  InvalidRecordingError,
+  parseRecording,
+  type RecordingEntry,
+  replaySession,
+  SessionRecorder,
+  SessionRuntime,
+  type SessionRuntimeConfig,
+  SYSTEM_SCHEDULER,
+} from '../src/index.js';
+
+// ============ Test Helpers ============
+
+interface TestMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+const RUNTIME_CONFIG: SessionRuntimeConfig = {
+  maxParticipants: 2,
+  tickEnabled: true,
+  tickIntervalMs: 50,
+  countdownSeconds: 1,
+  resumeGracePeriodMs: 1000,
+};
+
+function createMockConnection(): Connection {
+  return { readyState: 1, OPEN: 1, send: () => {}, close: () => {} };
+}
+
+function parseTestMessage(data: string): TestMessage | null {
+  try {
+    return JSON.parse(data) as TestMessage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hooks whose outputs depend on the session clock and random numbers.
+ */
+const createContextHooks: AppHooksFactory<TestMessage, TestMessage, object> = (context) => {
+  let rolls = 0;
+  return {
+    generateParticipantId: (num) => `participant-${num}-${Math.floor(context.random() * 1000)}`,
+    onParticipantJoin: () => ({ joinedAt: context.now() }),
+    onParticipantLeave: () => {},
+    onParticipantResume: () => ({ resumedAt: context.now() }),
+    onMessage: (msg) =>
+      msg.type === 'roll'
+        ? [
+            {
+              target: 'all',
+              message: { type: 'rolled', value: context.random(), at: context.now() },
+            },
+          ]
+        : [],
+    onSessionStart: () => {},
+    onReset: () => ({}),
+    onTick: () => (++rolls % 3 === 0 ? [{ type: 'bonus', value: context.random() }] : []),
+  };
+};
+
+/**
+ * Drive a recorded session the way createAppServer does.
+ */
+function recordSession(
+  hooksFactory: AppHooksFactory<TestMessage, TestMessage, object>,
+  seed = 42
+): string {
+  const lines: string[] = [];
+  const clock = new EventClock();
+  const recorder = new SessionRecorder((line) => lines.push(line), clock.now);
+  recorder.start(seed, RUNTIME_CONFIG);
+
+  let tokenCounter = 0;
+  const runtime = new SessionRuntime<TestMessage, TestMessage, object>(
+    RUNTIME_CONFIG,
+    hooksFactory({ random: createSeededRandom(seed), now: clock.now }),
+    (msg) => JSON.stringify(msg),
+    parseTestMessage,
+    undefined,
+    {
+      now: clock.now,
+      scheduler: recorder.wrapScheduler(clock.wrapScheduler(SYSTEM_SCHEDULER)),
+      generateResumeToken: recorder.wrapResumeTokens(() => `token-${++tokenCounter}`),
+      observer: recorder.observer,
+    }
+  );
+
+  const connect = (resumeToken?: string) => {
+    const conn = createMockConnection();
+    clock.advance();
+    recorder.recordConnection(conn, 'participant', resumeToken);
+    runtime.handleConnection(conn, resumeToken);
+    return conn;
+  };
+  const send = (conn: Connection, message: object, binary = false) => {
+    const data = binary ? MSGPACK_CODEC.encode(message) : JSON.stringify(message);
+    clock.advance();
+    recorder.recordMessage(conn, data);
+    runtime.handleMessage(conn, data);
+  };
+  const disconnect = (conn: Connection) => {
+    clock.advance();
+    recorder.recordDisconnection(conn);
+    runtime.handleDisconnection(conn);
+  };
+
+  const conn1 = connect();
+  const conn2 = connect();
+  send(conn1, { type: 'participant_ready' });
+  send(conn2, { type: 'participant_ready' }, true);
+  vi.advanceTimersByTime(1000);
+
+  vi.advanceTimersByTime(175);
+  send(conn1, { type: 'roll' });
+  vi.advanceTimersByTime(230);
+  disconnect(conn2);
+  vi.advanceTimersByTime(120);
+  const resumed = connect('token-2');
+  send(resumed, { type: 'roll' }, true);
+  vi.advanceTimersByTime(60);
+
+  runtime.stop();
+  return `${lines.join('\n')}\n`;
+}
+
+// ============ Tests ============
+
+describe('SessionRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start with a session_start entry', () => {
+    const lines: string[] = [];
+    const recorder = new SessionRecorder(
+      (line) => lines.push(line),
+      () => 5
+    );
+
+    recorder.start(7, RUNTIME_CONFIG);
+
+    expect(JSON.parse(lines[0] ?? '')).toEqual({
+      kind: 'session_start',
+      version: 1,
+      t: 5,
+      seed: 7,
+      runtimeConfig: RUNTIME_CONFIG,
+    });
+  });
+
+  it('should number connections in the order they are first seen', () => {
+    const lines: string[] = [];
+    const recorder = new SessionRecorder(
+      (line) => lines.push(line),
+      () => 0
+    );
+    const conn1 = createMockConnection();
+    const conn2 = createMockConnection();
+
+    recorder.recordConnection(conn1, 'participant');
+    recorder.recordConnection(conn2, 'spectator');
+    recorder.recordDisconnection(conn1);
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { kind: 'connect', t: 0, conn: 1, role: 'participant' },
+      { kind: 'connect', t: 0, conn: 2, role: 'spectator' },
+      { kind: 'disconnect', t: 0, conn: 1 },
+    ]);
+  });
+
+  it('should keep binary frames as base64', () => {
+    const lines: string[] = [];
+    const recorder = new SessionRecorder(
+      (line) => lines.push(line),
+      () => 0
+    );
+
+    recorder.recordMessage(createMockConnection(), new Uint8Array([1, 2, 3]));
+
+    expect(JSON.parse(lines[0] ?? '')).toEqual({
+      kind: 'message',
+      t: 0,
+      conn: 1,
+      binary: 'AQID',
+    });
+  });
+
+  it('should record timer firings with the clock time the callback sees', () => {
+    const lines: string[] = [];
+    const clock = new EventClock();
+    const recorder = new SessionRecorder((line) => lines.push(line), clock.now);
+    const scheduler = recorder.wrapScheduler(clock.wrapScheduler(SYSTEM_SCHEDULER));
+    let seenAt = 0;
+
+    scheduler.setTimeout(() => {
+      seenAt = clock.now();
+    }, 250);
+    vi.advanceTimersByTime(250);
+
+    expect(JSON.parse(lines[0] ?? '')).toEqual({ kind: 'timer', t: 1_000_250, timer: 1 });
+    expect(seenAt).toBe(1_000_250);
+  });
+
+  it('should record sends and ticks from the runtime', () => {
+    const recording = recordSession(createContextHooks);
+    const kinds = new Set(parseRecording(recording).map((entry) => entry.kind));
+
+    expect(kinds).toEqual(
+      new Set([
+        'session_start',
+        'connect',
+        'message',
+        'disconnect',
+        'timer',
+        'resume_token',
+        'send',
+        'tick',
+      ])
+    );
+  });
+});
+
+describe('parseRecording', () => {
+  it('should skip blank lines', () => {
+    const entries = parseRecording(
+      '{"kind":"session_start","version":1,"t":0,"seed":1,"runtimeConfig":{}}\n\n'
+    );
+
+    expect(entries).toHaveLength(1);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseRecording('{"kind":"session_start"\n')).toThrow(InvalidRecordingError);
+  });
+
+  it('should reject recordings without a session_start entry', () => {
+    expect(() => parseRecording('{"kind":"tick","tick":1,"deltaTime":0.05}\n')).toThrow(
+      'Recording does not start with a session_start entry'
+    );
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() =>
+      parseRecording('{"kind":"session_start","version":99,"t":0,"seed":1,"runtimeConfig":{}}')
+    ).toThrow('Unsupported recording version 99');
+  });
+});
+
+describe('replaySession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function replayWith(
+    recording: string | RecordingEntry[],
+    hooks:
+      | AppHooksFactory<TestMessage, TestMessage, object>
+      | AppHooks<TestMessage, TestMessage, object>
+  ) {
+    return replaySession<TestMessage, TestMessage, object>(recording, {
+      hooks,
+      parser: parseTestMessage,
+      validator: (message) => message as TestMessage,
+    });
+  }
+
+  it('should reproduce the recorded outputs', () => {
+    const recording = recordSession(createContextHooks);
+
+    const result = replayWith(recording, createContextHooks);
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.ok).toBe(true);
+    expect(result.outputs.some((output) => output.kind === 'tick')).toBe(true);
+  });
+
+  it('should report outputs that differ from the recording', () => {
+    const recording = recordSession(createContextHooks).replace('"seed":42', '"seed":43');
+
+    const result = replayWith(recording, createContextHooks);
+
+    expect(result.ok).toBe(false);
+    expect(result.mismatches[0]?.expected).toBeDefined();
+    expect(result.mismatches[0]?.actual).toBeDefined();
+  });
+
+  it('should report missing outputs', () => {
+    const entries = parseRecording(recordSession(createContextHooks));
+
+    const result = replayWith(
+      [...entries, { kind: 'tick', tick: 999, deltaTime: 0 }],
+      createContextHooks
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.mismatches).toEqual([
+      { index: result.outputs.length, expected: { kind: 'tick', tick: 999, deltaTime: 0 } },
+    ]);
+  });
+
+  it('should diverge when hooks read the wall clock', () => {
+    const recording = recordSession(createContextHooks);
+    vi.setSystemTime(5_000_000);
+
+    const result = replayWith(recording, (context) =>
+      createContextHooks({ ...context, now: () => Date.now() })
+    );
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('should reject timers the replay never scheduled', () => {
+    const recording = [
+      '{"kind":"session_start","version":1,"t":0,"seed":1,"runtimeConfig":{"maxParticipants":2,"tickEnabled":false,"tickIntervalMs":16}}',
+      '{"kind":"timer","t":10,"timer":5}',
+    ].join('\n');
+
+    expect(() => replayWith(recording, createContextHooks)).toThrow(
+      'Timer 5 is not pending in the replay'
+    );
+  });
+
+  it('should reject unknown connections', () => {
+    const recording = [
+      '{"kind":"session_start","version":1,"t":0,"seed":1,"runtimeConfig":{"maxParticipants":2,"tickEnabled":false,"tickIntervalMs":16}}',
+      '{"kind":"message","t":10,"conn":3,"text":"{}"}',
+    ].join('\n');
+
+    expect(() => replayWith(recording, createContextHooks)).toThrow('Unknown connection 3');
+  });
+});
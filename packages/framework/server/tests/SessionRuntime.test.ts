@@ -1,9 +1,14 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { MSGPACK_CODEC, type WireData } from '@gesture-app/framework-protocol';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   type AppHooks,
   type Connection,
   DEFAULT_RUNTIME_CONFIG,
   SessionRuntime,
+  type SessionRuntimeConfig,
+  type SessionRuntimeOptions,
+  SYSTEM_SCHEDULER,
+  withPlayerLimits,
 } from '../src/index.js';
 
 // ============ Test Helpers ============
@@ -67,9 +72,12 @@ function createTestHooks(): AppHooks<TestMessage, TestMessage, object, object> &
   };
 }
 
-function createRuntime(hooks = createTestHooks()) {
+function createRuntime(
+  hooks = createTestHooks(),
+  config: SessionRuntimeConfig = DEFAULT_RUNTIME_CONFIG
+) {
   return new SessionRuntime<TestMessage, TestMessage, object, object>(
-    DEFAULT_RUNTIME_CONFIG,
+    config,
     hooks,
     (msg) => JSON.stringify(msg),
     (data) => {
@@ -177,6 +185,379 @@ describe('SessionRuntime', () => {
     });
   });
 
+  describe('N-participant sessions', () => {
+    const FOUR_PLAYER_CONFIG: SessionRuntimeConfig = {
+      ...DEFAULT_RUNTIME_CONFIG,
+      maxParticipants: 4,
+      minParticipants: 3,
+    };
+
+    function join(runtime: ReturnType<typeof createRuntime>, count: number) {
+      return Array.from({ length: count }, () => {
+        const conn = createMockConnection();
+        runtime.handleConnection(conn);
+        return conn;
+      });
+    }
+
+    function readyAll(
+      runtime: ReturnType<typeof createRuntime>,
+      conns: ReturnType<typeof createMockConnection>[]
+    ) {
+      for (const conn of conns) {
+        runtime.handleMessage(conn, JSON.stringify({ type: 'participant_ready' }));
+      }
+    }
+
+    it('should admit participants up to maxParticipants', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      join(runtime, 4);
+
+      const conn5 = createMockConnection();
+      expect(runtime.handleConnection(conn5)).toBeNull();
+
+      expect(runtime.getAllParticipants().map((p) => p.number)).toEqual([1, 2, 3, 4]);
+      expect(parseMessage(conn5)).toEqual({
+        type: 'error',
+        message: 'Session is full. Only 4 participants allowed.',
+      });
+    });
+
+    it('should tell others who joined', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const [conn1, conn2] = join(runtime, 2);
+      conn1?.sentMessages.splice(0);
+      conn2?.sentMessages.splice(0);
+
+      join(runtime, 1);
+
+      for (const conn of [conn1, conn2]) {
+        expect(conn && parseMessage(conn)).toEqual({
+          type: 'opponent_joined',
+          participantId: 'participant-3',
+          participantNumber: 3,
+          teamId: 3,
+        });
+      }
+    });
+
+    it('should start once a quorum is ready', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const conns = join(runtime, 3);
+
+      readyAll(runtime, conns.slice(0, 2));
+      expect(runtime.getPhase()).toBe('waiting');
+
+      readyAll(runtime, conns.slice(2));
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should wait for everyone present, not just the quorum', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const conns = join(runtime, 4);
+
+      readyAll(runtime, conns.slice(0, 3));
+
+      expect(runtime.getPhase()).toBe('waiting');
+    });
+
+    it('should start when the only participant not ready leaves', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const conns = join(runtime, 4);
+      readyAll(runtime, conns.slice(0, 3));
+
+      const [, , , conn4] = conns;
+      if (conn4) runtime.handleDisconnection(conn4);
+
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should resume when the participant holding up the resume is gone for good', () => {
+      vi.useFakeTimers();
+      try {
+        const hooks = createTestHooks();
+        hooks.onParticipantResume = () => ({});
+        const runtime = createRuntime(hooks, {
+          ...FOUR_PLAYER_CONFIG,
+          resumeGracePeriodMs: 1000,
+        });
+        const conns = join(runtime, 4);
+        readyAll(runtime, conns);
+        const [conn1, , , conn4] = conns;
+        if (conn1) runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+        readyAll(runtime, conns.slice(0, 3));
+        if (conn4) runtime.handleDisconnection(conn4);
+        expect(runtime.getPhase()).toBe('paused');
+
+        vi.advanceTimersByTime(1000);
+
+        expect(runtime.getParticipantCount()).toBe(3);
+        expect(runtime.getPhase()).toBe('playing');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should cancel the countdown when someone joins', () => {
+      vi.useFakeTimers();
+      try {
+        const runtime = createRuntime(createTestHooks(), {
+          ...FOUR_PLAYER_CONFIG,
+          countdownSeconds: 3,
+        });
+        const conns = join(runtime, 3);
+        readyAll(runtime, conns);
+        expect(runtime.isCountdownActive()).toBe(true);
+
+        join(runtime, 1);
+        vi.advanceTimersByTime(5000);
+
+        expect(runtime.isCountdownActive()).toBe(false);
+        expect(runtime.getPhase()).toBe('waiting');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject joins while the session is in progress', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      readyAll(runtime, join(runtime, 3));
+
+      const late = createMockConnection();
+
+      expect(runtime.handleConnection(late)).toBeNull();
+      expect(late.closed).toBe(true);
+      expect(parseMessage(late)).toEqual({
+        type: 'error',
+        message: 'Session is already in progress.',
+      });
+    });
+
+    it('should keep playing while a quorum remains', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const conns = join(runtime, 4);
+      readyAll(runtime, conns);
+      const [conn1, conn2] = conns;
+      conn2?.sentMessages.splice(0);
+
+      if (conn1) runtime.handleDisconnection(conn1);
+
+      expect(runtime.getPhase()).toBe('playing');
+      expect(conn2 && parseMessage(conn2)).toEqual({
+        type: 'opponent_left',
+        participantId: 'participant-1',
+      });
+    });
+
+    it('should end without a winner when the quorum is lost', () => {
+      const runtime = createRuntime(createTestHooks(), FOUR_PLAYER_CONFIG);
+      const conns = join(runtime, 3);
+      readyAll(runtime, conns);
+      const [conn1, conn2] = conns;
+      conn2?.sentMessages.splice(0);
+
+      if (conn1) runtime.handleDisconnection(conn1);
+
+      expect(runtime.getPhase()).toBe('finished');
+      expect(conn2 && parseMessage(conn2)).toEqual({
+        type: 'session_ended',
+        reason: 'participant_left',
+      });
+    });
+
+    it('should reject a quorum larger than the session', () => {
+      expect(() =>
+        createRuntime(createTestHooks(), { ...FOUR_PLAYER_CONFIG, minParticipants: 5 })
+      ).toThrow('minParticipants (5) must not exceed maxParticipants (4)');
+      expect(() =>
+        createRuntime(createTestHooks(), { ...DEFAULT_RUNTIME_CONFIG, maxParticipants: 0 })
+      ).toThrow(RangeError);
+    });
+
+    it('should take the player range from the app manifest', () => {
+      const manifest = { id: 'ffa', name: 'FFA', version: '1.0.0', minPlayers: 3, maxPlayers: 4 };
+
+      expect(withPlayerLimits(DEFAULT_RUNTIME_CONFIG, manifest)).toEqual({
+        ...DEFAULT_RUNTIME_CONFIG,
+        maxParticipants: 4,
+        minParticipants: 3,
+      });
+      expect(
+        withPlayerLimits(DEFAULT_RUNTIME_CONFIG, { id: 'duel', name: 'Duel', version: '1.0.0' })
+      ).toMatchObject({ maxParticipants: 2, minParticipants: 2 });
+    });
+  });
+
+  describe('teams', () => {
+    const TWO_VS_TWO_CONFIG: SessionRuntimeConfig = {
+      ...DEFAULT_RUNTIME_CONFIG,
+      maxParticipants: 4,
+      minParticipants: 2,
+      teamSize: 2,
+    };
+
+    function join(runtime: ReturnType<typeof createRuntime>, count: number) {
+      return Array.from({ length: count }, () => {
+        const conn = createMockConnection();
+        runtime.handleConnection(conn);
+        return conn;
+      });
+    }
+
+    function readyAll(
+      runtime: ReturnType<typeof createRuntime>,
+      conns: ReturnType<typeof createMockConnection>[]
+    ) {
+      for (const conn of conns) {
+        runtime.handleMessage(conn, JSON.stringify({ type: 'participant_ready' }));
+      }
+    }
+
+    function getTypes(conn: ReturnType<typeof createMockConnection>): unknown[] {
+      return conn.sentMessages.map((s) => (JSON.parse(s) as TestMessage).type);
+    }
+
+    it('should deal participants to teams in turn', () => {
+      const runtime = createRuntime(createTestHooks(), TWO_VS_TWO_CONFIG);
+      const [conn1] = join(runtime, 4);
+
+      expect(runtime.getAllParticipants().map((p) => p.teamId)).toEqual([1, 2, 1, 2]);
+      expect(runtime.getTeamMembers(1).map((p) => p.id)).toEqual([
+        'participant-1',
+        'participant-3',
+      ]);
+      expect(conn1 && parseMessage(conn1)).toMatchObject({ type: 'welcome', teamId: 1 });
+      expect(conn1 && parseMessage(conn1, 1)).toMatchObject({
+        type: 'opponent_joined',
+        participantId: 'participant-2',
+        teamId: 2,
+      });
+    });
+
+    it('should put every participant on its own team by default', () => {
+      const runtime = createRuntime();
+      join(runtime, 2);
+
+      expect(runtime.getAllParticipants().map((p) => p.teamId)).toEqual([1, 2]);
+    });
+
+    it('should not start until opposing teams are ready', () => {
+      const runtime = createRuntime(createTestHooks(), { ...TWO_VS_TWO_CONFIG, teamSize: 4 });
+      readyAll(runtime, join(runtime, 2));
+      expect(runtime.getPhase()).toBe('playing');
+
+      const twoTeams = createRuntime(createTestHooks(), TWO_VS_TWO_CONFIG);
+      const [conn1, conn2, conn3] = join(twoTeams, 3);
+      if (conn2) twoTeams.handleDisconnection(conn2);
+      readyAll(
+        twoTeams,
+        [conn1, conn3].filter((c) => c !== undefined)
+      );
+      // Both remaining participants play for team 1
+      expect(twoTeams.getPhase()).toBe('waiting');
+    });
+
+    it('should route team and opponents targets', () => {
+      const hooks = createTestHooks();
+      hooks.onMessage = () => [
+        { target: 'team', message: { type: 'to_team' } },
+        { target: 'opponents', message: { type: 'to_opponents' } },
+      ];
+      const runtime = createRuntime(hooks, TWO_VS_TWO_CONFIG);
+      const conns = join(runtime, 4);
+      for (const conn of conns) conn.sentMessages.splice(0);
+      const [conn1, conn2, conn3, conn4] = conns;
+
+      if (conn1) runtime.handleMessage(conn1, JSON.stringify({ type: 'trigger' }));
+
+      expect(conn1 && getTypes(conn1)).toEqual([]);
+      expect(conn3 && getTypes(conn3)).toEqual(['to_team']);
+      expect(conn2 && getTypes(conn2)).toEqual(['to_opponents']);
+      expect(conn4 && getTypes(conn4)).toEqual(['to_opponents']);
+    });
+
+    it('should name the winning team when an app condition is met', () => {
+      vi.useFakeTimers();
+      try {
+        const hooks = createTestHooks();
+        hooks.checkSessionEnd = () => ({ winnerTeamId: 2 });
+        hooks.onSessionEnd = vi.fn(() => ({ score: 7 }));
+        const runtime = createRuntime(hooks, {
+          ...TWO_VS_TWO_CONFIG,
+          tickEnabled: true,
+          tickIntervalMs: 10,
+        });
+        const conns = join(runtime, 4);
+        readyAll(runtime, conns);
+        const [conn1] = conns;
+        conn1?.sentMessages.splice(0);
+
+        vi.advanceTimersByTime(10);
+
+        expect(hooks.onSessionEnd).toHaveBeenCalledWith({
+          winnerTeamId: 2,
+          reason: 'app_condition',
+        });
+        expect(conn1 && parseMessage(conn1)).toEqual({
+          type: 'session_ended',
+          reason: 'app_condition',
+          winnerTeamId: 2,
+          appData: { score: 7 },
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should report the winner's team", () => {
+      const runtime = createRuntime(createTestHooks(), TWO_VS_TWO_CONFIG);
+      const conns = join(runtime, 4);
+      readyAll(runtime, conns);
+      const [conn1] = conns;
+      conn1?.sentMessages.splice(0);
+
+      runtime.endSession('participant-4', 4, 'app_condition');
+
+      expect(conn1 && parseMessage(conn1)).toEqual({
+        type: 'session_ended',
+        reason: 'app_condition',
+        winnerId: 'participant-4',
+        winnerNumber: 4,
+        winnerTeamId: 2,
+      });
+    });
+
+    it('should let the last team standing win', () => {
+      const runtime = createRuntime(createTestHooks(), TWO_VS_TWO_CONFIG);
+      const conns = join(runtime, 4);
+      readyAll(runtime, conns);
+      const [conn1, conn2, conn3, conn4] = conns;
+
+      if (conn2) runtime.handleDisconnection(conn2);
+      expect(runtime.getPhase()).toBe('playing');
+
+      conn1?.sentMessages.splice(0);
+      if (conn4) runtime.handleDisconnection(conn4);
+
+      expect(runtime.getPhase()).toBe('finished');
+      expect(conn3 && getTypes(conn3)).toContain('session_ended');
+      expect(conn1 && parseMessage(conn1)).toEqual({
+        type: 'session_ended',
+        reason: 'participant_left',
+        winnerTeamId: 1,
+      });
+    });
+
+    it('should reject team sizes that do not divide the session', () => {
+      expect(() => createRuntime(createTestHooks(), { ...TWO_VS_TWO_CONFIG, teamSize: 3 })).toThrow(
+        'maxParticipants (4) must be a multiple of teamSize (3)'
+      );
+      expect(() => createRuntime(createTestHooks(), { ...TWO_VS_TWO_CONFIG, teamSize: 0 })).toThrow(
+        RangeError
+      );
+    });
+  });
+
   describe('ready-state gating', () => {
     it('should not start session until both participants are ready', () => {
       const hooks = createTestHooks();
@@ -292,6 +673,230 @@ describe('SessionRuntime', () => {
     });
   });
 
+  describe('countdown', () => {
+    const COUNTDOWN_CONFIG: SessionRuntimeConfig = {
+      ...DEFAULT_RUNTIME_CONFIG,
+      countdownSeconds: 3,
+    };
+
+    function readyBoth(hooks = createTestHooks()) {
+      const runtime = createRuntime(hooks, COUNTDOWN_CONFIG);
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      conn1.sentMessages.length = 0;
+      conn2.sentMessages.length = 0;
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      return { runtime, hooks, conn1, conn2 };
+    }
+
+    function getTypes(conn: ReturnType<typeof createMockConnection>): unknown[] {
+      return conn.sentMessages.map((m) => (JSON.parse(m) as TestMessage).type);
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count down before starting the session', () => {
+      const { runtime, hooks, conn1 } = readyBoth();
+
+      expect(runtime.getPhase()).toBe('waiting');
+      expect(runtime.isCountdownActive()).toBe(true);
+      expect(parseMessage(conn1)).toEqual({ type: 'countdown', secondsRemaining: 3 });
+      expect(hooks.calls.filter((c) => c.method === 'onSessionStart')).toHaveLength(0);
+
+      vi.advanceTimersByTime(2000);
+      expect(parseMessage(conn1, 2)).toEqual({ type: 'countdown', secondsRemaining: 1 });
+      expect(runtime.getPhase()).toBe('waiting');
+
+      vi.advanceTimersByTime(1000);
+      expect(runtime.getPhase()).toBe('playing');
+      expect(runtime.isCountdownActive()).toBe(false);
+      expect(getTypes(conn1)).toEqual(['countdown', 'countdown', 'countdown', 'session_started']);
+      expect(hooks.calls.filter((c) => c.method === 'onSessionStart')).toHaveLength(1);
+    });
+
+    it('should cancel the countdown when a participant un-readies', () => {
+      const { runtime, hooks, conn1, conn2 } = readyBoth();
+      vi.advanceTimersByTime(1000);
+
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_unready' }));
+      vi.advanceTimersByTime(5000);
+
+      expect(runtime.getPhase()).toBe('waiting');
+      expect(runtime.getParticipant('participant-2')?.isReady).toBe(false);
+      expect(getTypes(conn1)).toEqual(['countdown', 'countdown', 'countdown_cancelled']);
+      expect(hooks.calls.filter((c) => c.method === 'onSessionStart')).toHaveLength(0);
+
+      // Readying again restarts the countdown from the top
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      expect(parseMessage(conn1, 3)).toEqual({ type: 'countdown', secondsRemaining: 3 });
+    });
+
+    it('should cancel the countdown when a participant leaves', () => {
+      const { runtime, hooks, conn1, conn2 } = readyBoth();
+
+      runtime.handleDisconnection(conn1);
+      vi.advanceTimersByTime(5000);
+
+      expect(runtime.getPhase()).toBe('waiting');
+      expect(getTypes(conn2)).toEqual(['countdown', 'countdown_cancelled', 'opponent_left']);
+      expect(hooks.calls.filter((c) => c.method === 'onSessionStart')).toHaveLength(0);
+    });
+
+    it('should not restart the countdown on repeated ready signals', () => {
+      const { runtime, conn1 } = readyBoth();
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+
+      expect(getTypes(conn1)).toEqual(['countdown']);
+      runtime.stop();
+    });
+
+    it('should ignore un-ready signals once playing', () => {
+      const { runtime, conn1 } = readyBoth();
+      vi.advanceTimersByTime(3000);
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_unready' }));
+
+      expect(runtime.getPhase()).toBe('playing');
+      expect(runtime.getParticipant('participant-1')?.isReady).toBe(true);
+    });
+  });
+
+  describe('pause and resume', () => {
+    function startPlaying(hooks = createTestHooks()) {
+      const runtime = createRuntime(hooks, { ...DEFAULT_RUNTIME_CONFIG, tickEnabled: true });
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn1.sentMessages.length = 0;
+      conn2.sentMessages.length = 0;
+      return { runtime, conn1, conn2 };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pause on request and notify both participants', () => {
+      const hooks = createTestHooks();
+      hooks.onSessionPause = (pausedBy) => {
+        hooks.calls.push({ method: 'onSessionPause', args: [pausedBy] });
+      };
+      const { runtime, conn1, conn2 } = startPlaying(hooks);
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+
+      expect(runtime.getPhase()).toBe('paused');
+      expect(parseMessage(conn1)).toEqual({ type: 'session_paused', pausedBy: 'participant-1' });
+      expect(parseMessage(conn2)).toEqual({ type: 'session_paused', pausedBy: 'participant-1' });
+      expect(hooks.calls.find((c) => c.method === 'onSessionPause')?.args[0]).toBe('participant-1');
+      runtime.stop();
+    });
+
+    it('should stop the tick loop while paused', () => {
+      const hooks = createTestHooks();
+      let ticks = 0;
+      hooks.onTick = () => {
+        ticks++;
+        return [];
+      };
+      const { runtime, conn1 } = startPlaying(hooks);
+      vi.advanceTimersByTime(DEFAULT_RUNTIME_CONFIG.tickIntervalMs * 3);
+      const ticksBeforePause = ticks;
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+      vi.advanceTimersByTime(DEFAULT_RUNTIME_CONFIG.tickIntervalMs * 10);
+
+      expect(ticksBeforePause).toBeGreaterThan(0);
+      expect(ticks).toBe(ticksBeforePause);
+      runtime.stop();
+    });
+
+    it('should ignore pause requests outside of playing', () => {
+      const runtime = createRuntime();
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+      conn.sentMessages.length = 0;
+
+      runtime.handleMessage(conn, JSON.stringify({ type: 'pause_request' }));
+
+      expect(runtime.getPhase()).toBe('waiting');
+      expect(conn.sentMessages).toHaveLength(0);
+    });
+
+    it('should resume once both participants are ready again', () => {
+      const hooks = createTestHooks();
+      hooks.onSessionResume = () => {
+        hooks.calls.push({ method: 'onSessionResume', args: [] });
+      };
+      let ticks = 0;
+      hooks.onTick = () => {
+        ticks++;
+        return [];
+      };
+      const { runtime, conn1, conn2 } = startPlaying(hooks);
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'pause_request' }));
+      conn1.sentMessages.length = 0;
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      expect(runtime.getPhase()).toBe('paused');
+      expect(conn1.sentMessages).toHaveLength(0);
+
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      expect(runtime.getPhase()).toBe('playing');
+      expect(parseMessage(conn1)).toEqual({ type: 'session_resumed' });
+      expect(hooks.calls.filter((c) => c.method === 'onSessionResume')).toHaveLength(1);
+      expect(hooks.calls.filter((c) => c.method === 'onSessionStart')).toHaveLength(1);
+
+      ticks = 0;
+      vi.advanceTimersByTime(DEFAULT_RUNTIME_CONFIG.tickIntervalMs * 3);
+      expect(ticks).toBeGreaterThan(0);
+      runtime.stop();
+    });
+
+    it('should only require humans to signal ready when a bot is present', () => {
+      const { runtime, conn1, conn2 } = startPlaying();
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'bot_identify' }));
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+
+      expect(runtime.getPhase()).toBe('playing');
+      runtime.stop();
+    });
+
+    it('should end the session when a participant leaves while paused', () => {
+      const { runtime, conn1, conn2 } = startPlaying();
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+      conn2.sentMessages.length = 0;
+
+      runtime.handleDisconnection(conn1);
+
+      expect(runtime.getPhase()).toBe('finished');
+      expect(parseMessage(conn2)).toMatchObject({
+        type: 'session_ended',
+        reason: 'participant_left',
+        winnerId: 'participant-2',
+      });
+    });
+  });
+
   describe('play-again voting', () => {
     let runtime: SessionRuntime<TestMessage, TestMessage, object, object>;
     let hooks: ReturnType<typeof createTestHooks>;
@@ -453,6 +1058,899 @@ describe('SessionRuntime', () => {
     });
   });
 
+  describe('spectators', () => {
+    function createSpectatorHooks() {
+      const hooks = createTestHooks() as ReturnType<typeof createTestHooks> &
+        AppHooks<TestMessage, TestMessage, object, object, undefined, undefined, object>;
+      hooks.onSpectatorJoin = (spectator) => {
+        hooks.calls.push({ method: 'onSpectatorJoin', args: [spectator] });
+        return { snapshot: 'state' };
+      };
+      hooks.onSpectatorLeave = (id) => {
+        hooks.calls.push({ method: 'onSpectatorLeave', args: [id] });
+      };
+      return hooks;
+    }
+
+    it('should admit spectators beyond the two participant slots', () => {
+      const runtime = createRuntime();
+      runtime.handleConnection(createMockConnection());
+      runtime.handleConnection(createMockConnection());
+      const spectatorConn = createMockConnection();
+
+      const spectator = runtime.handleSpectatorConnection(spectatorConn);
+
+      expect(spectator?.id).toBe('spectator-1');
+      expect(spectatorConn.closed).toBe(false);
+      expect(runtime.getParticipantCount()).toBe(2);
+      expect(runtime.getSpectatorCount()).toBe(1);
+    });
+
+    it('should send a spectator_welcome with the app snapshot', () => {
+      const hooks = createSpectatorHooks();
+      const runtime = createRuntime(hooks);
+      const conn = createMockConnection();
+
+      runtime.handleSpectatorConnection(conn);
+
+      const welcome = parseMessage(conn);
+      expect(welcome.type).toBe('spectator_welcome');
+      expect(welcome.spectatorId).toBe('spectator-1');
+      expect(welcome.sessionPhase).toBe('waiting');
+      expect(welcome.appData).toEqual({ snapshot: 'state' });
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantJoin')).toHaveLength(0);
+    });
+
+    it('should not notify participants when a spectator joins', () => {
+      const runtime = createRuntime();
+      const conn1 = createMockConnection();
+      runtime.handleConnection(conn1);
+      conn1.sentMessages.length = 0;
+
+      runtime.handleSpectatorConnection(createMockConnection());
+
+      expect(conn1.sentMessages).toHaveLength(0);
+    });
+
+    it('should deliver broadcasts to all but not opponent-routed messages', () => {
+      const hooks = createTestHooks();
+      hooks.onMessage = () => [
+        { target: 'opponent', message: { type: 'to_opponent' } },
+        { target: 'all', message: { type: 'to_all' } },
+      ];
+      const runtime = createRuntime(hooks);
+      const conn1 = createMockConnection();
+      const spectatorConn = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(createMockConnection());
+      runtime.handleSpectatorConnection(spectatorConn);
+      spectatorConn.sentMessages.length = 0;
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'trigger' }));
+      runtime.broadcast({ type: 'broadcast' });
+
+      const types = spectatorConn.sentMessages.map((s) => (JSON.parse(s) as TestMessage).type);
+      expect(types).toEqual(['to_all', 'broadcast']);
+    });
+
+    it('should reject messages from spectators', () => {
+      const hooks = createTestHooks();
+      const runtime = createRuntime(hooks);
+      const conn = createMockConnection();
+      runtime.handleConnection(createMockConnection());
+      runtime.handleSpectatorConnection(conn);
+      conn.sentMessages.length = 0;
+
+      runtime.handleMessage(conn, JSON.stringify({ type: 'custom_app_message' }));
+      runtime.handleMessage(conn, JSON.stringify({ type: 'participant_ready' }));
+
+      expect(hooks.calls.filter((c) => c.method === 'onMessage')).toHaveLength(0);
+      expect(runtime.getAllParticipants().some((p) => p.isReady)).toBe(false);
+      expect(parseMessage(conn).type).toBe('error');
+    });
+
+    it('should not count spectators for ready-gating or play-again voting', () => {
+      const runtime = createRuntime();
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      const spectatorConn = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleSpectatorConnection(spectatorConn);
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      expect(runtime.getPhase()).toBe('playing');
+
+      runtime.endSession('participant-1', 1, 'app_condition');
+      spectatorConn.sentMessages.length = 0;
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'play_again_vote' }));
+
+      const status = parseMessage(spectatorConn);
+      expect(status.type).toBe('play_again_status');
+      expect(status.totalParticipants).toBe(2);
+
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'play_again_vote' }));
+      expect(runtime.getPhase()).toBe('waiting');
+    });
+
+    it('should not end the session when a spectator leaves', () => {
+      const hooks = createSpectatorHooks();
+      const runtime = createRuntime(hooks);
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      const spectatorConn = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleSpectatorConnection(spectatorConn);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn1.sentMessages.length = 0;
+
+      runtime.handleDisconnection(spectatorConn);
+
+      expect(runtime.getPhase()).toBe('playing');
+      expect(runtime.getSpectatorCount()).toBe(0);
+      expect(conn1.sentMessages).toHaveLength(0);
+      expect(hooks.calls.filter((c) => c.method === 'onSpectatorLeave')[0]?.args[0]).toBe(
+        'spectator-1'
+      );
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantLeave')).toHaveLength(0);
+    });
+
+    it('should enforce maxSpectators', () => {
+      const runtime = new SessionRuntime<TestMessage, TestMessage, object, object>(
+        { ...DEFAULT_RUNTIME_CONFIG, maxSpectators: 1 },
+        createTestHooks(),
+        (msg) => JSON.stringify(msg),
+        (data) => JSON.parse(data) as TestMessage
+      );
+      runtime.handleSpectatorConnection(createMockConnection());
+      const rejected = createMockConnection();
+
+      expect(runtime.handleSpectatorConnection(rejected)).toBeNull();
+      expect(rejected.closed).toBe(true);
+      expect(parseMessage(rejected).type).toBe('error');
+    });
+  });
+
+  describe('resumption', () => {
+    const RESUME_CONFIG: SessionRuntimeConfig = {
+      ...DEFAULT_RUNTIME_CONFIG,
+      resumeGracePeriodMs: 10000,
+    };
+
+    function createResumeHooks() {
+      const hooks = createTestHooks();
+      hooks.onParticipantResume = (p) => {
+        hooks.calls.push({ method: 'onParticipantResume', args: [p] });
+        return { snapshot: 'resumed' };
+      };
+      return hooks;
+    }
+
+    function getResumeToken(conn: ReturnType<typeof createMockConnection>): unknown {
+      return parseMessage(conn).resumeToken;
+    }
+
+    function startPlaying(runtime: ReturnType<typeof createRuntime>) {
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      const token1 = getResumeToken(conn1) as string;
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn1.sentMessages.length = 0;
+      conn2.sentMessages.length = 0;
+      return { conn1, conn2, token1 };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not issue resume tokens unless enabled', () => {
+      const runtime = createRuntime(createResumeHooks());
+      const conn = createMockConnection();
+
+      runtime.handleConnection(conn);
+
+      expect(getResumeToken(conn)).toBeUndefined();
+    });
+
+    it('should not issue resume tokens when the app does not implement onParticipantResume', () => {
+      const runtime = createRuntime(createTestHooks(), RESUME_CONFIG);
+      const conn = createMockConnection();
+
+      runtime.handleConnection(conn);
+
+      expect(getResumeToken(conn)).toBeUndefined();
+    });
+
+    it('should issue a resume token in the welcome message', () => {
+      const runtime = createRuntime(createResumeHooks(), RESUME_CONFIG);
+      const conn = createMockConnection();
+
+      runtime.handleConnection(conn);
+
+      expect(typeof getResumeToken(conn)).toBe('string');
+    });
+
+    it('should hold the slot and keep playing during the grace window', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const { conn1, conn2 } = startPlaying(runtime);
+
+      runtime.handleDisconnection(conn1);
+
+      expect(runtime.getPhase()).toBe('playing');
+      expect(runtime.getParticipantCount()).toBe(2);
+      expect(runtime.isParticipantConnected('participant-1')).toBe(false);
+      expect(parseMessage(conn2)).toEqual({
+        type: 'opponent_disconnected',
+        participantId: 'participant-1',
+        gracePeriodMs: 10000,
+      });
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantLeave')).toHaveLength(0);
+
+      // A newcomer cannot take the held slot
+      expect(runtime.handleConnection(createMockConnection())).toBeNull();
+    });
+
+    it('should resume the participant with a state snapshot', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const { conn1, conn2, token1 } = startPlaying(runtime);
+      runtime.handleDisconnection(conn1);
+      conn2.sentMessages.length = 0;
+
+      const newConn = createMockConnection();
+      const participant = runtime.handleConnection(newConn, token1);
+
+      expect(participant?.id).toBe('participant-1');
+      expect(participant?.number).toBe(1);
+      const welcome = parseMessage(newConn);
+      expect(welcome).toMatchObject({
+        type: 'welcome',
+        participantId: 'participant-1',
+        participantNumber: 1,
+        sessionPhase: 'playing',
+        resumed: true,
+        appData: { snapshot: 'resumed' },
+      });
+      expect(welcome.resumeToken).not.toBe(token1);
+      expect(parseMessage(conn2)).toEqual({
+        type: 'opponent_reconnected',
+        participantId: 'participant-1',
+      });
+      expect(runtime.isParticipantConnected('participant-1')).toBe(true);
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantJoin')).toHaveLength(2);
+
+      // The grace timer was cancelled
+      vi.advanceTimersByTime(10000);
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should not start or resume without a held participant', () => {
+      const runtime = createRuntime(createResumeHooks(), RESUME_CONFIG);
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      const token1 = getResumeToken(conn1) as string;
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+
+      runtime.handleDisconnection(conn1);
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      expect(runtime.getPhase()).toBe('waiting');
+
+      // Returning ready starts the session; pausing and resuming works the same way
+      const resumed1 = createMockConnection();
+      runtime.handleConnection(resumed1, token1);
+      expect(runtime.getPhase()).toBe('playing');
+      expect(resumed1.sentMessages.map((m) => (JSON.parse(m) as TestMessage).type)).toEqual([
+        'welcome',
+        'session_started',
+      ]);
+
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'pause_request' }));
+      runtime.handleMessage(resumed1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleDisconnection(resumed1);
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      expect(runtime.getPhase()).toBe('paused');
+
+      runtime.handleConnection(createMockConnection(), getResumeToken(resumed1) as string);
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should route messages from the resumed connection', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const { conn1, token1 } = startPlaying(runtime);
+      runtime.handleDisconnection(conn1);
+      const newConn = createMockConnection();
+      runtime.handleConnection(newConn, token1);
+
+      runtime.handleMessage(newConn, JSON.stringify({ type: 'app_action' }));
+
+      const messageCall = hooks.calls.find((c) => c.method === 'onMessage');
+      expect(messageCall?.args[1]).toBe('participant-1');
+    });
+
+    it('should replace a stale connection that was not noticed as closed', () => {
+      const runtime = createRuntime(createResumeHooks(), RESUME_CONFIG);
+      const { conn1, conn2, token1 } = startPlaying(runtime);
+
+      const newConn = createMockConnection();
+      runtime.handleConnection(newConn, token1);
+
+      expect(conn1.closed).toBe(true);
+      expect(conn2.sentMessages).toHaveLength(0);
+
+      // The late close event for the stale connection is ignored
+      runtime.handleDisconnection(conn1);
+      expect(runtime.isParticipantConnected('participant-1')).toBe(true);
+    });
+
+    it('should reject a token that was already used', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const { conn1, token1 } = startPlaying(runtime);
+      runtime.handleDisconnection(conn1);
+      runtime.handleConnection(createMockConnection(), token1);
+
+      const replay = createMockConnection();
+      expect(runtime.handleConnection(replay, token1)).toBeNull();
+      expect(replay.closed).toBe(true);
+    });
+
+    it('should forfeit once the grace window expires', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const { conn1, conn2 } = startPlaying(runtime);
+
+      runtime.handleDisconnection(conn1);
+      vi.advanceTimersByTime(10000);
+
+      expect(runtime.getPhase()).toBe('finished');
+      expect(runtime.getParticipantCount()).toBe(1);
+      const messages = conn2.sentMessages.map((m) => JSON.parse(m) as TestMessage);
+      expect(messages.map((m) => m.type)).toEqual([
+        'opponent_disconnected',
+        'session_ended',
+        'opponent_left',
+      ]);
+      expect(messages[1]).toMatchObject({ reason: 'participant_left', winnerNumber: 2 });
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantLeave')).toHaveLength(1);
+    });
+
+    it('should fall back to a regular join for unknown tokens', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const conn = createMockConnection();
+
+      const participant = runtime.handleConnection(conn, 'unknown-token');
+
+      expect(participant?.number).toBe(1);
+      expect(parseMessage(conn).resumed).toBeUndefined();
+      expect(hooks.calls.filter((c) => c.method === 'onParticipantResume')).toHaveLength(0);
+    });
+
+    it('should release bots immediately', () => {
+      const hooks = createResumeHooks();
+      const runtime = createRuntime(hooks, RESUME_CONFIG);
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+      runtime.handleMessage(conn, JSON.stringify({ type: 'bot_identify' }));
+
+      runtime.handleDisconnection(conn);
+
+      expect(runtime.getParticipantCount()).toBe(0);
+    });
+  });
+
+  describe('state replication', () => {
+    function startReplicating(keyframeIntervalTicks = 100) {
+      let state: Record<string, Record<string, Record<string, unknown>>> = {
+        projectiles: { p1: { x: 0, color: 1 } },
+      };
+      const hooks = createTestHooks();
+      hooks.getReplicatedState = () => state;
+      const runtime = createRuntime(hooks, {
+        ...DEFAULT_RUNTIME_CONFIG,
+        tickEnabled: true,
+        tickIntervalMs: 50,
+        keyframeIntervalTicks,
+      });
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn1.sentMessages.length = 0;
+      conn2.sentMessages.length = 0;
+
+      const setState = (next: typeof state) => {
+        state = next;
+      };
+      return { runtime, conn1, conn2, setState };
+    }
+
+    function replicationMessages(conn: ReturnType<typeof createMockConnection>) {
+      return conn.sentMessages
+        .map((m) => JSON.parse(m) as TestMessage)
+        .filter((m) => m.type === 'state_keyframe' || m.type === 'state_delta');
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send a keyframe on the first tick', () => {
+      const { runtime, conn1 } = startReplicating();
+
+      vi.advanceTimersByTime(50);
+
+      expect(replicationMessages(conn1)).toEqual([
+        {
+          type: 'state_keyframe',
+          seq: 1,
+          tick: 1,
+          serverTime: 50,
+          state: { projectiles: { p1: { x: 0, color: 1 } } },
+        },
+      ]);
+      runtime.stop();
+    });
+
+    it('should send only changed fields afterwards and skip unchanged ticks', () => {
+      const { runtime, conn1, setState } = startReplicating();
+      vi.advanceTimersByTime(50);
+
+      vi.advanceTimersByTime(50);
+      setState({ projectiles: { p1: { x: 5, color: 1 }, p2: { x: 1, color: 2 } } });
+      vi.advanceTimersByTime(50);
+      setState({ projectiles: { p2: { x: 1, color: 2 } } });
+      vi.advanceTimersByTime(50);
+
+      expect(replicationMessages(conn1).slice(1)).toEqual([
+        {
+          type: 'state_delta',
+          seq: 2,
+          baseSeq: 1,
+          tick: 3,
+          serverTime: 150,
+          changes: { projectiles: { updated: { p1: { x: 5 }, p2: { x: 1, color: 2 } } } },
+        },
+        {
+          type: 'state_delta',
+          seq: 3,
+          baseSeq: 2,
+          tick: 4,
+          serverTime: 200,
+          changes: { projectiles: { removed: ['p1'] } },
+        },
+      ]);
+      runtime.stop();
+    });
+
+    it('should send periodic keyframes', () => {
+      const { runtime, conn1 } = startReplicating(2);
+
+      vi.advanceTimersByTime(50 * 4);
+
+      expect(replicationMessages(conn1).map((m) => m.type)).toEqual([
+        'state_keyframe',
+        'state_keyframe',
+      ]);
+      runtime.stop();
+    });
+
+    it('should send a keyframe after a spectator joins', () => {
+      const { runtime, conn1 } = startReplicating();
+      vi.advanceTimersByTime(50);
+
+      const spectator = createMockConnection();
+      runtime.handleSpectatorConnection(spectator);
+      vi.advanceTimersByTime(50);
+
+      expect(replicationMessages(conn1).map((m) => m.type)).toEqual([
+        'state_keyframe',
+        'state_keyframe',
+      ]);
+      expect(replicationMessages(spectator)).toHaveLength(1);
+      runtime.stop();
+    });
+
+    it('should not replicate without the hook', () => {
+      const runtime = createRuntime(createTestHooks(), {
+        ...DEFAULT_RUNTIME_CONFIG,
+        tickEnabled: true,
+        tickIntervalMs: 50,
+      });
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+
+      vi.advanceTimersByTime(200);
+
+      expect(replicationMessages(conn1)).toHaveLength(0);
+      runtime.stop();
+    });
+  });
+
+  describe('tick stamps and clock sync', () => {
+    function startTicking(hooks = createTestHooks()) {
+      const runtime = createRuntime(hooks, {
+        ...DEFAULT_RUNTIME_CONFIG,
+        tickEnabled: true,
+        tickIntervalMs: 50,
+      });
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn1.sentMessages.length = 0;
+      conn2.sentMessages.length = 0;
+      return { runtime, conn1, conn2 };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should stamp tick messages with the tick number and server time', () => {
+      const hooks = createTestHooks();
+      hooks.onTick = () => [{ type: 'world_update' }];
+      const { runtime, conn1, conn2 } = startTicking(hooks);
+
+      vi.advanceTimersByTime(100);
+
+      expect(parseMessage(conn1, 0)).toEqual({ type: 'world_update', tick: 1, serverTime: 1050 });
+      expect(parseMessage(conn1, 1)).toEqual({ type: 'world_update', tick: 2, serverTime: 1100 });
+      expect(parseMessage(conn2, 1)).toEqual(parseMessage(conn1, 1));
+      expect(runtime.getTick()).toBe(2);
+      runtime.stop();
+    });
+
+    it('should keep tick numbers increasing across rounds', () => {
+      const { runtime, conn1, conn2 } = startTicking();
+      vi.advanceTimersByTime(150);
+      expect(runtime.getTick()).toBe(3);
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'pause_request' }));
+      vi.advanceTimersByTime(150);
+      expect(runtime.getTick()).toBe(3);
+
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      vi.advanceTimersByTime(50);
+      expect(runtime.getTick()).toBe(4);
+      runtime.stop();
+    });
+
+    it('should answer clock pings with the server time', () => {
+      const runtime = createRuntime();
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+      conn.sentMessages.length = 0;
+
+      runtime.handleMessage(conn, JSON.stringify({ type: 'clock_ping', clientTime: 42 }));
+
+      expect(parseMessage(conn)).toEqual({ type: 'clock_pong', clientTime: 42, serverTime: 1000 });
+    });
+
+    it('should answer clock pings from spectators', () => {
+      const runtime = createRuntime();
+      const spectator = createMockConnection();
+      runtime.handleSpectatorConnection(spectator);
+      spectator.sentMessages.length = 0;
+
+      runtime.handleMessage(spectator, JSON.stringify({ type: 'clock_ping', clientTime: 7 }));
+      runtime.handleMessage(spectator, JSON.stringify({ type: 'participant_ready' }));
+
+      expect(parseMessage(spectator, 0)).toEqual({
+        type: 'clock_pong',
+        clientTime: 7,
+        serverTime: 1000,
+      });
+      expect(parseMessage(spectator, 1)).toEqual({
+        type: 'error',
+        message: 'Spectators cannot send messages',
+      });
+    });
+
+    it('should reject pings without a client time', () => {
+      const runtime = createRuntime();
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+      conn.sentMessages.length = 0;
+
+      runtime.handleMessage(conn, JSON.stringify({ type: 'clock_ping', clientTime: 'soon' }));
+
+      expect(parseMessage(conn)).toEqual({ type: 'error', message: 'Invalid message format' });
+    });
+  });
+
+  describe('wire codecs', () => {
+    function createBinaryConnection(): Connection & { frames: WireData[] } {
+      return {
+        frames: [],
+        readyState: 1,
+        OPEN: 1,
+        send(data: WireData) {
+          this.frames.push(data);
+        },
+        close() {},
+      };
+    }
+
+    function decodeFrame(conn: { frames: WireData[] }, index = 0): TestMessage {
+      const frame = conn.frames[index];
+      expect(frame).toBeInstanceOf(Uint8Array);
+      return MSGPACK_CODEC.decode(frame as Uint8Array) as TestMessage;
+    }
+
+    it('should send the welcome in the negotiated codec', () => {
+      const runtime = createRuntime();
+      const conn = createBinaryConnection();
+
+      runtime.setConnectionCodec(conn, MSGPACK_CODEC);
+      runtime.handleConnection(conn);
+
+      expect(decodeFrame(conn)).toMatchObject({
+        type: 'welcome',
+        participantId: 'participant-1',
+        appData: { customData: 'welcome' },
+      });
+    });
+
+    it('should encode broadcasts per connection codec', () => {
+      const runtime = createRuntime();
+      const binaryConn = createBinaryConnection();
+      const jsonConn = createMockConnection();
+
+      runtime.setConnectionCodec(binaryConn, MSGPACK_CODEC);
+      runtime.handleConnection(binaryConn);
+      runtime.handleConnection(jsonConn);
+
+      runtime.handleMessage(binaryConn, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(jsonConn, JSON.stringify({ type: 'participant_ready' }));
+
+      expect(decodeFrame(binaryConn, binaryConn.frames.length - 1).type).toBe('session_started');
+      expect(parseMessage(jsonConn, jsonConn.sentMessages.length - 1).type).toBe('session_started');
+    });
+
+    it('should accept framework messages in binary frames', () => {
+      const hooks = createTestHooks();
+      const runtime = createRuntime(hooks);
+      const conn1 = createBinaryConnection();
+      const conn2 = createBinaryConnection();
+
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, MSGPACK_CODEC.encode({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, MSGPACK_CODEC.encode({ type: 'participant_ready' }));
+
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should validate decoded app messages without a JSON round trip', () => {
+      const hooks = createTestHooks();
+      const parse = vi.fn(() => null);
+      const validate = vi.fn((message: unknown) => message as TestMessage);
+      const runtime = new SessionRuntime<TestMessage, TestMessage, object, object>(
+        DEFAULT_RUNTIME_CONFIG,
+        hooks,
+        (msg) => JSON.stringify(msg),
+        parse,
+        validate
+      );
+      const conn = createBinaryConnection();
+      runtime.handleConnection(conn);
+
+      runtime.handleMessage(conn, MSGPACK_CODEC.encode({ type: 'app_move', x: 1.5 }));
+
+      expect(parse).not.toHaveBeenCalled();
+      expect(validate).toHaveBeenCalledWith({ type: 'app_move', x: 1.5 });
+      expect(hooks.calls.find((c) => c.method === 'onMessage')?.args[0]).toEqual({
+        type: 'app_move',
+        x: 1.5,
+      });
+    });
+
+    it('should fall back to the string parser without a validator', () => {
+      const hooks = createTestHooks();
+      const runtime = createRuntime(hooks);
+      const conn = createBinaryConnection();
+      runtime.handleConnection(conn);
+
+      runtime.handleMessage(conn, MSGPACK_CODEC.encode({ type: 'app_move' }));
+
+      expect(hooks.calls.some((c) => c.method === 'onMessage')).toBe(true);
+    });
+
+    it('should reject malformed binary frames', () => {
+      const runtime = createRuntime();
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+
+      runtime.handleMessage(conn, new Uint8Array([0xc1]));
+
+      expect(parseMessage(conn, conn.sentMessages.length - 1)).toEqual({
+        type: 'error',
+        message: 'Invalid message format',
+      });
+    });
+  });
+
+  describe('runtime options', () => {
+    function createRuntimeWithOptions(
+      options: SessionRuntimeOptions,
+      config = DEFAULT_RUNTIME_CONFIG
+    ) {
+      return new SessionRuntime<TestMessage, TestMessage, object, object>(
+        config,
+        createTestHooks(),
+        (msg) => JSON.stringify(msg),
+        (data) => JSON.parse(data) as TestMessage,
+        undefined,
+        options
+      );
+    }
+
+    it('should answer clock pings with the injected clock', () => {
+      const runtime = createRuntimeWithOptions({ now: () => 12345 });
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+
+      runtime.handleMessage(conn, JSON.stringify({ type: 'clock_ping', clientTime: 1 }));
+
+      expect(parseMessage(conn, conn.sentMessages.length - 1)).toEqual({
+        type: 'clock_pong',
+        clientTime: 1,
+        serverTime: 12345,
+      });
+    });
+
+    it('should schedule ticks through the injected scheduler', () => {
+      const intervals: (() => void)[] = [];
+      const ticks: number[] = [];
+      const runtime = createRuntimeWithOptions(
+        {
+          now: () => 0,
+          scheduler: {
+            ...SYSTEM_SCHEDULER,
+            setInterval: (callback) => intervals.push(callback),
+          },
+          observer: { onTick: (tick) => ticks.push(tick) },
+        },
+        { ...DEFAULT_RUNTIME_CONFIG, tickEnabled: true }
+      );
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+
+      intervals[0]?.();
+      intervals[0]?.();
+
+      expect(ticks).toEqual([1, 2]);
+    });
+
+    it('should use the injected resume token generator', () => {
+      const runtime = new SessionRuntime<TestMessage, TestMessage, object, object>(
+        { ...DEFAULT_RUNTIME_CONFIG, resumeGracePeriodMs: 1000 },
+        { ...createTestHooks(), onParticipantResume: () => ({}) },
+        (msg) => JSON.stringify(msg),
+        (data) => JSON.parse(data) as TestMessage,
+        undefined,
+        { generateResumeToken: () => 'fixed-token' }
+      );
+      const conn = createMockConnection();
+
+      runtime.handleConnection(conn);
+
+      expect(parseMessage(conn).resumeToken).toBe('fixed-token');
+    });
+
+    it('should resume from the grace window with a scheduler returning falsy handles', () => {
+      const timeouts: (() => void)[] = [];
+      const runtime = new SessionRuntime<TestMessage, TestMessage, object, object>(
+        { ...DEFAULT_RUNTIME_CONFIG, resumeGracePeriodMs: 1000 },
+        { ...createTestHooks(), onParticipantResume: () => ({}) },
+        (msg) => JSON.stringify(msg),
+        (data) => JSON.parse(data) as TestMessage,
+        undefined,
+        {
+          scheduler: {
+            ...SYSTEM_SCHEDULER,
+            setTimeout: (callback) => {
+              timeouts.push(callback);
+              return 0;
+            },
+            clearTimeout: () => {},
+          },
+        }
+      );
+      const conn1 = createMockConnection();
+      const conn2 = createMockConnection();
+      runtime.handleConnection(conn1);
+      runtime.handleConnection(conn2);
+      runtime.handleMessage(conn1, JSON.stringify({ type: 'participant_ready' }));
+      runtime.handleDisconnection(conn1);
+      runtime.handleMessage(conn2, JSON.stringify({ type: 'participant_ready' }));
+      conn2.sentMessages.length = 0;
+
+      runtime.handleConnection(createMockConnection(), parseMessage(conn1).resumeToken as string);
+
+      expect(parseMessage(conn2)).toEqual({
+        type: 'opponent_reconnected',
+        participantId: 'participant-1',
+      });
+      expect(runtime.getPhase()).toBe('playing');
+    });
+
+    it('should show every addressed message to the observer, even on closed connections', () => {
+      const sent: object[] = [];
+      const runtime = createRuntimeWithOptions({
+        observer: { onSend: (_conn, message) => sent.push(message) },
+      });
+      const conn = createMockConnection();
+      runtime.handleConnection(conn);
+      conn.close();
+
+      runtime.broadcast({ type: 'broadcast' });
+
+      expect(sent.map((m) => (m as TestMessage).type)).toEqual(['welcome', 'broadcast']);
+      expect(conn.sentMessages).toHaveLength(1);
+    });
+
+    it('should number the matches of a session for the observer', () => {
+      const matchNumbers: number[] = [];
+      const runtime = createRuntimeWithOptions({
+        observer: { onSessionEnded: ({ matchNumber }) => matchNumbers.push(matchNumber) },
+      });
+      const conns = [createMockConnection(), createMockConnection()];
+      for (const conn of conns) runtime.handleConnection(conn);
+
+      for (let match = 0; match < 2; match++) {
+        for (const conn of conns) {
+          runtime.handleMessage(conn, JSON.stringify({ type: 'participant_ready' }));
+        }
+        runtime.endSession('participant-1', 1, 'app_condition');
+        for (const conn of conns) {
+          runtime.handleMessage(conn, JSON.stringify({ type: 'play_again_vote' }));
+        }
+      }
+
+      expect(matchNumbers).toEqual([1, 2]);
+    });
+  });
+
   describe('public API', () => {
     it('should expose participant queries', () => {
       const runtime = createRuntime();
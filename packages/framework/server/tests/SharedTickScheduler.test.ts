@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SharedTickScheduler } from '../src/index.js';
+
+describe('SharedTickScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run callbacks with the same period from one timer', () => {
+    const scheduler = new SharedTickScheduler();
+    const a = vi.fn();
+    const b = vi.fn();
+
+    scheduler.setInterval(a, 16);
+    scheduler.setInterval(b, 16);
+    scheduler.setInterval(() => {}, 1000);
+    vi.advanceTimersByTime(32);
+
+    expect(a).toHaveBeenCalledTimes(2);
+    expect(b).toHaveBeenCalledTimes(2);
+    expect(scheduler.getTimerCount()).toBe(2);
+    expect(scheduler.getMemberCount()).toBe(3);
+    expect(vi.getTimerCount()).toBe(2);
+  });
+
+  it('should stop the underlying timer with its last member', () => {
+    const scheduler = new SharedTickScheduler();
+    const a = vi.fn();
+    const handleA = scheduler.setInterval(a, 16);
+    const handleB = scheduler.setInterval(() => {}, 16);
+
+    scheduler.clearInterval(handleA);
+    vi.advanceTimersByTime(16);
+    expect(a).not.toHaveBeenCalled();
+    expect(scheduler.getTimerCount()).toBe(1);
+
+    scheduler.clearInterval(handleB);
+    expect(scheduler.getTimerCount()).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should give each registration its own handle', () => {
+    const scheduler = new SharedTickScheduler();
+    const callback = vi.fn();
+    const first = scheduler.setInterval(callback, 16);
+    scheduler.setInterval(callback, 16);
+
+    scheduler.clearInterval(first);
+    vi.advanceTimersByTime(16);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip members cleared earlier in the same beat', () => {
+    const scheduler = new SharedTickScheduler();
+    const second = vi.fn();
+    let handle: unknown;
+    scheduler.setInterval(() => scheduler.clearInterval(handle), 16);
+    handle = scheduler.setInterval(second, 16);
+
+    vi.advanceTimersByTime(16);
+
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should drop a callback that throws and keep the others ticking', () => {
+    const logger = { error: vi.fn() };
+    const scheduler = new SharedTickScheduler(undefined, logger);
+    const onError = vi.fn();
+    const failure = new Error('tick failed');
+    const after = vi.fn();
+
+    scheduler.forSession(onError).setInterval(() => {
+      throw failure;
+    }, 16);
+    scheduler.setInterval(() => {
+      throw failure;
+    }, 16);
+    scheduler.setInterval(after, 16);
+    vi.advanceTimersByTime(32);
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(failure);
+    expect(logger.error).toHaveBeenCalledOnce();
+    expect(logger.error).toHaveBeenCalledWith('Tick callback failed', { error: failure });
+    expect(after).toHaveBeenCalledTimes(2);
+    expect(scheduler.getMemberCount()).toBe(1);
+  });
+
+  it('should ignore unknown handles and pass timeouts through', () => {
+    const scheduler = new SharedTickScheduler();
+    const callback = vi.fn();
+
+    scheduler.clearInterval(undefined);
+    scheduler.clearInterval({ intervalMs: 16 });
+    scheduler.setTimeout(callback, 100);
+    vi.advanceTimersByTime(100);
+
+    expect(callback).toHaveBeenCalledOnce();
+  });
+});
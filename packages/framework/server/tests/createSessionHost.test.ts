@@ -0,0 +1,344 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AppHooks,
+  createSessionHost,
+  DEFAULT_RUNTIME_CONFIG,
+  DuplicateSessionError,
+  getSessionIdFromPath,
+  type Participant,
+  type SessionHostConfig,
+  SessionLimitError,
+  signPlayerToken,
+} from '../src/index.js';
+
+// ============ Test Helpers ============
+
+interface TestMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * Fake ws.WebSocket recording what it was sent.
+ */
+class FakeSocket {
+  readonly OPEN = 1;
+  readyState = 1;
+  readonly sent: TestMessage[] = [];
+  private readonly listeners = new Map<string, Listener[]>();
+
+  send(data: unknown): void {
+    this.sent.push(JSON.parse(String(data)) as TestMessage);
+  }
+
+  close(): void {
+    if (this.readyState !== this.OPEN) return;
+    this.readyState = 3;
+    this.emit('close');
+  }
+
+  on(event: string, callback: Listener): void {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), callback]);
+  }
+
+  emit(event: string, ...args: unknown[]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener(...args);
+    }
+  }
+}
+
+/**
+ * Fake ws.WebSocketServer that lets tests open connections by URL.
+ */
+class FakeServer {
+  static last: FakeServer | null = null;
+  private onConnection: Listener | null = null;
+
+  constructor(readonly options: { port: number }) {
+    FakeServer.last = this;
+  }
+
+  on(_event: 'connection', callback: Listener): void {
+    this.onConnection = callback;
+  }
+
+  close(callback?: () => void): void {
+    callback?.();
+  }
+
+  connect(url: string): FakeSocket {
+    const socket = new FakeSocket();
+    this.onConnection?.(socket, { url });
+    return socket;
+  }
+}
+
+function createHooks(): AppHooks<TestMessage, TestMessage, { room: number }> {
+  let joined = 0;
+  return {
+    generateParticipantId: (number) => `participant-${number}`,
+    onParticipantJoin: () => ({ room: ++joined }),
+    onParticipantLeave: () => {},
+    onMessage: (message) => [{ target: 'all', message: { type: 'echo', of: message.type } }],
+    onSessionStart: () => {},
+    onReset: () => undefined,
+  };
+}
+
+function startHost(overrides: Partial<SessionHostConfig<TestMessage, TestMessage, object>> = {}) {
+  const host = createSessionHost<TestMessage, TestMessage, object>(
+    {
+      port: 4100,
+      runtimeConfig: DEFAULT_RUNTIME_CONFIG,
+      hooks: createHooks,
+      parser: (data) => JSON.parse(data) as TestMessage,
+      logger: { info: () => {}, error: () => {} },
+      ...overrides,
+    },
+    FakeServer
+  );
+  const server = FakeServer.last;
+  if (!server) throw new Error('Server not created');
+  return { host, server };
+}
+
+// ============ Tests ============
+
+describe('getSessionIdFromPath', () => {
+  it('should extract the session ID from the connection URL', () => {
+    expect(getSessionIdFromPath('/ws/room-1')).toBe('room-1');
+    expect(getSessionIdFromPath('/ws/room-1/?codec=msgpack')).toBe('room-1');
+    expect(getSessionIdFromPath('/games/abc', '/games/')).toBe('abc');
+  });
+
+  it('should reject paths outside the prefix or with invalid IDs', () => {
+    expect(getSessionIdFromPath(undefined)).toBeNull();
+    expect(getSessionIdFromPath('/')).toBeNull();
+    expect(getSessionIdFromPath('/ws/')).toBeNull();
+    expect(getSessionIdFromPath('/ws/a/b')).toBeNull();
+    expect(getSessionIdFromPath('/other/room-1')).toBeNull();
+  });
+});
+
+describe('createSessionHost', () => {
+  let stop: (() => Promise<void>) | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    await stop?.();
+    stop = null;
+    vi.useRealTimers();
+  });
+
+  function start(overrides: Partial<SessionHostConfig<TestMessage, TestMessage, object>> = {}) {
+    const started = startHost(overrides);
+    stop = started.host.stop;
+    return started;
+  }
+
+  it('should route connections to separate sessions by path', () => {
+    const { host, server } = start();
+
+    const a1 = server.connect('/ws/a');
+    const a2 = server.connect('/ws/a');
+    const b1 = server.connect('/ws/b');
+
+    expect(host.getSessions().map((s) => s.id)).toEqual(['a', 'b']);
+    expect(host.getSession('a')?.runtime.getParticipantCount()).toBe(2);
+    expect(host.getSession('b')?.runtime.getParticipantCount()).toBe(1);
+    // Each session gets its own hooks instance
+    expect(a2.sent[0]).toMatchObject({
+      type: 'welcome',
+      participantNumber: 2,
+      appData: { room: 2 },
+    });
+    expect(b1.sent[0]).toMatchObject({
+      type: 'welcome',
+      participantNumber: 1,
+      appData: { room: 1 },
+    });
+
+    a1.emit('message', JSON.stringify({ type: 'ping' }));
+    expect(a2.sent.at(-1)).toEqual({ type: 'echo', of: 'ping' });
+    expect(b1.sent.at(-1)?.type).toBe('welcome');
+  });
+
+  it('should log connections with the session and participant IDs', () => {
+    const info = vi.fn();
+    const { server } = start({ logger: { info, error: () => {} } });
+
+    const socket = server.connect('/ws/a');
+    server.connect('/ws/a?role=spectator');
+    socket.close();
+
+    expect(info).toHaveBeenCalledWith('Participant connected', {
+      sessionId: 'a',
+      participantId: 'participant-1',
+    });
+    expect(info).toHaveBeenCalledWith(
+      'Spectator connected',
+      expect.objectContaining({ sessionId: 'a', spectatorId: expect.any(String) })
+    );
+    expect(info).toHaveBeenCalledWith('Participant disconnected', {
+      sessionId: 'a',
+      participantId: 'participant-1',
+    });
+  });
+
+  it('should reject connections outside the session path', () => {
+    const { host, server } = start();
+
+    const socket = server.connect('/');
+
+    expect(socket.sent).toEqual([{ type: 'error', message: 'Connect to /ws/<sessionId>.' }]);
+    expect(socket.readyState).toBe(3);
+    expect(host.getSessions()).toEqual([]);
+  });
+
+  it('should only serve created sessions when createOnConnect is off', () => {
+    const { host, server } = start({ createOnConnect: false });
+
+    const rejected = server.connect('/ws/unknown');
+    host.createSession('known');
+    const admitted = server.connect('/ws/known');
+
+    expect(rejected.sent).toEqual([{ type: 'error', message: 'Session unknown not found.' }]);
+    expect(admitted.sent[0]?.type).toBe('welcome');
+  });
+
+  it('should deliver verified player profiles to onParticipantJoin', () => {
+    const joined: Participant[] = [];
+    const { server } = start({
+      playerTokenSecret: 's3cret',
+      hooks: () => ({
+        ...createHooks(),
+        onParticipantJoin: (participant) => {
+          joined.push(participant);
+          return {};
+        },
+      }),
+    });
+    const profile = { id: 'player-42', displayName: 'Ada', avatarColor: '#3b82f6' };
+
+    server.connect(`/ws/a?player=${signPlayerToken(profile, 's3cret')}`);
+    server.connect(`/ws/a?player=${signPlayerToken(profile, 'forged')}`);
+
+    expect(joined[0]?.profile).toEqual(profile);
+    expect(joined[1]?.profile).toBeUndefined();
+  });
+
+  it('should only admit connections with an access key', () => {
+    const { server } = start({ accessKeys: ['invite-token', 'hunter2'] });
+
+    const denied = server.connect('/ws/a');
+    const forged = server.connect('/ws/a?access=guess');
+    const invited = server.connect('/ws/a?access=invite-token');
+    const spectator = server.connect('/ws/a?role=spectator&access=hunter2');
+
+    expect(denied.sent).toEqual([{ type: 'error', message: 'Access denied.' }]);
+    expect(denied.readyState).toBe(3);
+    expect(forged.sent).toEqual([{ type: 'error', message: 'Access denied.' }]);
+    expect(invited.sent[0]?.type).toBe('welcome');
+    expect(spectator.sent[0]?.type).toBe('spectator_welcome');
+  });
+
+  it('should enforce unique IDs and the session limit', () => {
+    const { host, server } = start({ maxSessions: 1 });
+    host.createSession('one');
+
+    expect(() => host.createSession('one')).toThrow(DuplicateSessionError);
+    expect(() => host.createSession('two')).toThrow(SessionLimitError);
+    expect(() => host.createSession('not a valid id')).toThrow(RangeError);
+    expect(server.connect('/ws/two').sent).toEqual([
+      { type: 'error', message: 'Session host is full. Only 1 sessions allowed.' },
+    ]);
+  });
+
+  it('should close a session and its connections', () => {
+    const { host, server } = start();
+    const socket = server.connect('/ws/a');
+
+    expect(host.closeSession('a')).toBe(true);
+
+    expect(socket.readyState).toBe(3);
+    expect(host.getSession('a')).toBeUndefined();
+    expect(host.closeSession('a')).toBe(false);
+  });
+
+  it('should tick every session from one shared timer', () => {
+    const { host, server } = start({
+      runtimeConfig: { ...DEFAULT_RUNTIME_CONFIG, tickEnabled: true, tickIntervalMs: 16 },
+    });
+
+    for (const sessionId of ['a', 'b', 'c']) {
+      for (const socket of [
+        server.connect(`/ws/${sessionId}`),
+        server.connect(`/ws/${sessionId}`),
+      ]) {
+        socket.emit('message', JSON.stringify({ type: 'participant_ready' }));
+      }
+    }
+    vi.advanceTimersByTime(48);
+
+    expect(host.tickScheduler.getTimerCount()).toBe(1);
+    expect(host.tickScheduler.getMemberCount()).toBe(3);
+    expect(host.getSessions().map((s) => s.runtime.getTick())).toEqual([3, 3, 3]);
+
+    host.closeSession('a');
+    expect(host.tickScheduler.getMemberCount()).toBe(2);
+  });
+
+  it('should close only the session whose tick throws', () => {
+    const error = vi.fn();
+    let created = 0;
+    const { host, server } = start({
+      runtimeConfig: { ...DEFAULT_RUNTIME_CONFIG, tickEnabled: true, tickIntervalMs: 16 },
+      logger: { info: () => {}, error },
+      hooks: () => {
+        const failing = ++created === 1;
+        return {
+          ...createHooks(),
+          onTick: () => {
+            if (failing) throw new Error('boom');
+            return [];
+          },
+        };
+      },
+    });
+
+    const sockets = ['bad', 'bad', 'good', 'good'].map((sessionId) =>
+      server.connect(`/ws/${sessionId}`)
+    );
+    for (const socket of sockets) {
+      socket.emit('message', JSON.stringify({ type: 'participant_ready' }));
+    }
+    vi.advanceTimersByTime(48);
+
+    expect(host.getSessions().map((s) => s.id)).toEqual(['good']);
+    expect(host.getSession('good')?.runtime.getTick()).toBe(3);
+    expect(sockets[0]?.readyState).toBe(3);
+    expect(error).toHaveBeenCalledWith('Session tick failed, closing the session', {
+      sessionId: 'bad',
+      error: expect.any(Error),
+    });
+  });
+
+  it('should close idle sessions and keep the host running', () => {
+    const { host, server } = start({ inactivity: { timeoutMs: 1000, checkIntervalMs: 500 } });
+    server.connect('/ws/idle');
+    const busy = server.connect('/ws/busy');
+
+    for (let elapsed = 0; elapsed < 1500; elapsed += 250) {
+      busy.emit('message', JSON.stringify({ type: 'move' }));
+      vi.advanceTimersByTime(250);
+    }
+
+    expect(host.getSessions().map((s) => s.id)).toEqual(['busy']);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE, serveMetrics } from '../src/index.js';
+
+describe('MetricsRegistry', () => {
+  it('should render counters with and without labels', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter({ name: 'requests_total', help: 'Requests served' });
+    const errors = registry.counter({
+      name: 'errors_total',
+      help: 'Errors, by app',
+      labelNames: ['app'],
+    });
+
+    requests.inc();
+    requests.inc({}, 2);
+    errors.inc({ app: 'blocks-cannons' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP requests_total Requests served',
+        '# TYPE requests_total counter',
+        'requests_total 3',
+        '# HELP errors_total Errors, by app',
+        '# TYPE errors_total counter',
+        'errors_total{app="blocks-cannons"} 1',
+        '',
+      ].join('\n')
+    );
+    expect(errors.get({ app: 'hello-hands' })).toBe(0);
+  });
+
+  it('should report unlabeled metrics from zero', () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: 'shutdowns_total', help: 'Shutdowns' });
+    registry.counter({ name: 'sent_total', help: 'Sent', labelNames: ['type'] });
+
+    expect(registry.render()).toContain('shutdowns_total 0\n');
+    expect(registry.render()).not.toContain('sent_total{');
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry
+      .counter({ name: 'messages_total', help: 'Messages', labelNames: ['type'] })
+      .inc({ type: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('messages_total{type="say \\"hi\\"\\\\\\n"} 1');
+  });
+
+  it('should let gauges collect their values when scraped', () => {
+    const registry = new MetricsRegistry();
+    let running = 2;
+    registry.gauge({
+      name: 'sessions',
+      help: 'Sessions running',
+      labelNames: ['app'],
+      collect: (gauge) => {
+        gauge.reset();
+        gauge.set(running, { app: 'blocks-cannons' });
+      },
+    });
+
+    expect(registry.render()).toContain('sessions{app="blocks-cannons"} 2');
+    running = 5;
+    expect(registry.render()).toContain('sessions{app="blocks-cannons"} 5');
+  });
+
+  it('should render histograms with cumulative buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram({
+      name: 'latency_seconds',
+      help: 'Latency',
+      labelNames: ['app'],
+      buckets: [0.1, 1],
+    });
+
+    latency.observe(0.05, { app: 'a' });
+    latency.observe(0.5, { app: 'a' });
+    latency.observe(3, { app: 'a' });
+
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{app="a",le="0.1"} 1',
+        'latency_seconds_bucket{app="a",le="1"} 2',
+        'latency_seconds_bucket{app="a",le="+Inf"} 3',
+        'latency_seconds_sum{app="a"} 3.55',
+        'latency_seconds_count{app="a"} 3',
+      ].join('\n')
+    );
+    expect(latency.getCount({ app: 'a' })).toBe(3);
+  });
+
+  it('should refuse duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: 'requests_total', help: 'Requests' });
+
+    expect(() => registry.gauge({ name: 'requests_total', help: 'Requests' })).toThrow(
+      'Metric already registered: requests_total'
+    );
+  });
+});
+
+describe('serveMetrics', () => {
+  let close: (() => void) | undefined;
+
+  afterEach(() => {
+    close?.();
+  });
+
+  it('should serve the metrics at /metrics', async () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: 'requests_total', help: 'Requests' }).inc();
+    const server = serveMetrics(registry, 0);
+    close = () => server.close();
+    await new Promise((resolve) => server.once('listening', resolve));
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+
+    const response = await fetch(`http://localhost:${port}/metrics`);
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(await response.text()).toContain('requests_total 1');
+
+    expect((await fetch(`http://localhost:${port}/other`)).status).toBe(404);
+  });
+});
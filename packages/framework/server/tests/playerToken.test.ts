@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { signPlayerToken, verifyPlayerToken } from '../src/index.js';
+
+const PROFILE = { id: 'player-42', displayName: 'Ada', avatarColor: '#3b82f6' };
+const SECRET = 's3cret';
+
+describe('player tokens', () => {
+  it('should round-trip the profile', () => {
+    const token = signPlayerToken(PROFILE, SECRET);
+
+    expect(verifyPlayerToken(token, SECRET)).toEqual(PROFILE);
+  });
+
+  it('should reject tokens signed with another secret or tampered with', () => {
+    const token = signPlayerToken(PROFILE, SECRET);
+    const [, signature] = token.split('.');
+    const claims = Buffer.from(
+      JSON.stringify({ ...PROFILE, displayName: 'Mallory', exp: Date.now() + 1000 })
+    ).toString('base64url');
+
+    expect(verifyPlayerToken(token, 'other')).toBeNull();
+    expect(verifyPlayerToken(`${claims}.${signature}`, SECRET)).toBeNull();
+  });
+
+  it('should reject expired and malformed tokens', () => {
+    const token = signPlayerToken(PROFILE, SECRET, { ttlMs: 1000, now: () => 5000 });
+
+    expect(verifyPlayerToken(token, SECRET, () => 5999)).toEqual(PROFILE);
+    expect(verifyPlayerToken(token, SECRET, () => 6000)).toBeNull();
+    expect(verifyPlayerToken('', SECRET)).toBeNull();
+    expect(verifyPlayerToken('a.b.c', SECRET)).toBeNull();
+    expect(verifyPlayerToken('not-a-token', SECRET)).toBeNull();
+  });
+});
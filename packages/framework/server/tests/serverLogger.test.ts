@@ -0,0 +1,40 @@
+import { createLogger } from '@gesture-app/framework-logging';
+import { describe, expect, it, vi } from 'vitest';
+import { withLogFields } from '../src/index.js';
+
+describe('withLogFields', () => {
+  it('should add fields to the entries of a plain logger', () => {
+    const logger = { info: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+    const scoped = withLogFields(logger, { sessionId: 'abc' });
+    scoped.info('Started', { port: 3001 });
+    scoped.debug?.('Tick');
+    scoped.child?.({ participantId: 'p1' }).error('Failed');
+
+    expect(logger.info).toHaveBeenCalledWith('Started', { sessionId: 'abc', port: 3001 });
+    expect(logger.debug).toHaveBeenCalledWith('Tick', { sessionId: 'abc' });
+    expect(logger.error).toHaveBeenCalledWith('Failed', { sessionId: 'abc', participantId: 'p1' });
+  });
+
+  it('should leave out debug when the logger has none', () => {
+    const scoped = withLogFields({ info: vi.fn(), error: vi.fn() }, { sessionId: 'abc' });
+
+    expect(scoped.debug).toBeUndefined();
+  });
+
+  it('should use child loggers of structured loggers', () => {
+    const lines: string[] = [];
+    const logger = createLogger({
+      fields: { appId: 'hello-hands' },
+      write: (line) => lines.push(line),
+    });
+
+    withLogFields(logger, { sessionId: 'abc' }).info('Started');
+
+    expect(JSON.parse(lines[0] ?? '{}')).toMatchObject({
+      msg: 'Started',
+      appId: 'hello-hands',
+      sessionId: 'abc',
+    });
+  });
+});
@@ -6,7 +6,7 @@
  */
 
 import type { AppManifest } from '@gesture-app/framework-protocol';
-import { globalRegistry } from '@gesture-app/framework-protocol';
+import { getPlayerLimits, globalRegistry } from '@gesture-app/framework-protocol';
 import { beforeEach, describe, expect, it } from 'vitest';
 
 /**
@@ -57,6 +57,12 @@ export function createAppManifestTests(appId: string, manifest: AppManifest): vo
       }
     });
 
+    it('should declare a valid player range', () => {
+      const { min, max } = getPlayerLimits(manifest);
+      expect(Number.isInteger(min) && min >= 1).toBe(true);
+      expect(max).toBeGreaterThanOrEqual(min);
+    });
+
     it('should have a valid manifest structure', () => {
       expect(manifest).toMatchObject({
         id: appId,
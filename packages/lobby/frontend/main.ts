@@ -24,6 +24,87 @@ interface CreateSessionResponse {
   appId: string;
   sessionUrl: string;
   joinUrl: string | null;
+  /** Set for private sessions */
+  joinCode: string | null;
+}
+
+/** Body of an API error */
+interface ErrorResponse {
+  error?: string;
+  /** Set for errors that can be retried, e.g. 'rate_limited' or 'server_busy' */
+  code?: string;
+  retryAfterSeconds?: number;
+}
+
+/** Response from joining a private session by code */
+interface JoinSessionResponse {
+  sessionId: string;
+  appId: string;
+  sessionUrl: string;
+}
+
+/** Options for a private session */
+interface PrivateSessionOptions {
+  password?: string;
+}
+
+/** Player profile shown on the leaderboard */
+interface PlayerProfile {
+  id: string;
+  displayName: string;
+  avatarColor: string;
+}
+
+/** A ranked player */
+interface LeaderboardEntry {
+  rank: number;
+  player: PlayerProfile;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/** Response from fetching an app's leaderboard */
+interface LeaderboardResponse {
+  appId: string;
+  entries: LeaderboardEntry[];
+}
+
+/** Session status as tracked by the lobby */
+type SessionStatus = 'starting' | 'waiting' | 'active' | 'finished' | 'ended' | 'error';
+
+/** Session as listed by the admin API */
+interface AdminSessionSummary {
+  sessionId: string;
+  appId: string;
+  status: SessionStatus;
+  opponentType: 'bot' | 'human';
+  participantCount: number;
+  private: boolean;
+  containerName: string;
+  createdAt: string;
+  ageMs: number;
+  health: { running: boolean; state: string; health?: string } | null;
+  errorMessage?: string;
+}
+
+/** Response from the admin session list */
+interface AdminSessionsResponse {
+  sessions: AdminSessionSummary[];
+}
+
+/** Response from the admin stats */
+interface AdminStatsResponse {
+  total: number;
+  byStatus: Record<SessionStatus, number>;
+  byApp: Record<string, Record<SessionStatus, number>>;
+}
+
+/** Response from an admin cleanup */
+interface AdminCleanupResponse {
+  stopped: string[];
+  removed: number;
 }
 
 // Screen management
@@ -31,8 +112,12 @@ const screens = {
   appSelect: document.getElementById('app-select-screen'),
   start: document.getElementById('start-screen'),
   botSettings: document.getElementById('bot-settings'),
+  privateSettings: document.getElementById('private-settings'),
+  joinCode: document.getElementById('join-code-screen'),
   loading: document.getElementById('loading-screen'),
   sessionReady: document.getElementById('session-ready'),
+  leaderboard: document.getElementById('leaderboard-screen'),
+  admin: document.getElementById('admin-screen'),
   error: document.getElementById('error-screen'),
 } as const;
 
@@ -58,12 +143,41 @@ const playHumanBtn = document.getElementById('play-human');
 const backFromBotBtn = document.getElementById('back-from-bot');
 const startBotSessionBtn = document.getElementById('start-bot-session');
 const difficultySlider = document.getElementById('difficulty') as HTMLInputElement | null;
+const playPrivateBtn = document.getElementById('play-private');
+const backFromPrivateBtn = document.getElementById('back-from-private');
+const startPrivateSessionBtn = document.getElementById('start-private-session');
+const roomPasswordInput = document.getElementById('room-password') as HTMLInputElement | null;
+const openJoinCodeBtn = document.getElementById('open-join-code');
+const backFromJoinCodeBtn = document.getElementById('back-from-join-code');
+const submitJoinCodeBtn = document.getElementById('submit-join-code');
+const joinCodeInput = document.getElementById('join-code-input') as HTMLInputElement | null;
+const joinPasswordInput = document.getElementById('join-password-input') as HTMLInputElement | null;
+const joinCodeError = document.getElementById('join-code-error');
+const joinCodeSection = document.getElementById('join-code-section');
+const joinCodeText = document.getElementById('join-code');
+const joinCodeHint = document.getElementById('join-code-hint');
 const loadingText = document.getElementById('loading-text');
 const shareSection = document.getElementById('share-section');
 const shareUrlInput = document.getElementById('share-url') as HTMLInputElement | null;
 const copyUrlBtn = document.getElementById('copy-url');
 const cancelSessionBtn = document.getElementById('cancel-session');
 const joinSessionBtn = document.getElementById('join-session');
+const showLeaderboardBtn = document.getElementById('show-leaderboard');
+const backFromLeaderboardBtn = document.getElementById('back-from-leaderboard');
+const leaderboardTitle = document.getElementById('leaderboard-title');
+const leaderboardList = document.getElementById('leaderboard');
+const adminLogin = document.getElementById('admin-login');
+const adminTokenInput = document.getElementById('admin-token-input') as HTMLInputElement | null;
+const adminLoginError = document.getElementById('admin-login-error');
+const adminSignInBtn = document.getElementById('admin-sign-in');
+const adminDashboard = document.getElementById('admin-dashboard');
+const adminStats = document.getElementById('admin-stats');
+const adminRefreshBtn = document.getElementById('admin-refresh');
+const adminCleanupBtn = document.getElementById('admin-cleanup');
+const adminSignOutBtn = document.getElementById('admin-sign-out');
+const adminMessage = document.getElementById('admin-message');
+const adminSessionsList = document.getElementById('admin-sessions');
+const adminLogs = document.getElementById('admin-logs');
 const errorMessage = document.getElementById('error-message');
 const tryAgainBtn = document.getElementById('try-again');
 
@@ -77,20 +191,54 @@ async function fetchApps(): Promise<AppManifest[]> {
   return data.apps;
 }
 
+/**
+ * Message for an API error, with a retry hint when the server sent one.
+ */
+function describeError(error: ErrorResponse, fallback: string): string {
+  const message = error.error || fallback;
+  return error.retryAfterSeconds
+    ? `${message} (try again in ${error.retryAfterSeconds} s)`
+    : message;
+}
+
 async function createSession(
   appId: string,
   opponentType: 'bot' | 'human',
-  botDifficulty?: number
+  botDifficulty?: number,
+  privateSession?: PrivateSessionOptions
 ): Promise<CreateSessionResponse> {
   const response = await fetch('/api/sessions', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ appId, opponentType, botDifficulty }),
+    body: JSON.stringify({
+      appId,
+      opponentType,
+      botDifficulty,
+      ...(privateSession && { private: true, ...privateSession }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error: ErrorResponse = await response.json();
+    throw new Error(describeError(error, 'Failed to create session'));
+  }
+
+  return response.json();
+}
+
+async function joinSessionByCode(
+  joinCode: string,
+  password?: string
+): Promise<JoinSessionResponse> {
+  const response = await fetch('/api/sessions/join', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ joinCode, password }),
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to create session');
+    throw new Error(error.error || 'Failed to join session');
   }
 
   return response.json();
@@ -100,6 +248,58 @@ async function deleteSession(sessionId: string): Promise<void> {
   await fetch(`/api/sessions/${sessionId}`, { method: 'DELETE' });
 }
 
+async function fetchLeaderboard(appId: string): Promise<LeaderboardEntry[]> {
+  const response = await fetch(`/api/apps/${encodeURIComponent(appId)}/leaderboard`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch leaderboard');
+  }
+  const data: LeaderboardResponse = await response.json();
+  return data.entries;
+}
+
+/** Session storage key of the admin token (kept for the tab only) */
+const ADMIN_TOKEN_KEY = 'lobby-admin-token';
+
+/**
+ * Call the admin API with the stored token.
+ */
+async function adminFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? ''}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Admin request failed (${response.status})`);
+  }
+  return response;
+}
+
+async function fetchAdminSessions(): Promise<AdminSessionSummary[]> {
+  const data: AdminSessionsResponse = await (await adminFetch('/sessions')).json();
+  return data.sessions;
+}
+
+async function fetchAdminStats(): Promise<AdminStatsResponse> {
+  return (await adminFetch('/stats')).json();
+}
+
+async function fetchSessionLogs(sessionId: string): Promise<string> {
+  return (await adminFetch(`/sessions/${encodeURIComponent(sessionId)}/logs`)).text();
+}
+
+async function stopSession(sessionId: string): Promise<void> {
+  await adminFetch(`/sessions/${encodeURIComponent(sessionId)}/stop`, { method: 'POST' });
+}
+
+async function cleanupSessions(): Promise<AdminCleanupResponse> {
+  return (await adminFetch('/cleanup', { method: 'POST', body: '{}' })).json();
+}
+
 // Render functions
 function renderAppCards(apps: AppManifest[]): void {
   if (!appGrid) return;
@@ -141,6 +341,138 @@ function renderAppCards(apps: AppManifest[]): void {
   }
 }
 
+function renderLeaderboard(entries: LeaderboardEntry[]): void {
+  if (!leaderboardList) return;
+
+  if (entries.length === 0) {
+    leaderboardList.innerHTML = `
+      <div class="no-apps">
+        <p>No rated matches yet. Sign in and beat a friend to get on the board!</p>
+      </div>
+    `;
+    return;
+  }
+
+  // Build rows with textContent: display names are chosen by players
+  const table = document.createElement('table');
+  table.innerHTML = `
+    <thead>
+      <tr><th>#</th><th>Player</th><th>Rating</th><th>W</th><th>L</th><th>D</th></tr>
+    </thead>
+  `;
+  const body = document.createElement('tbody');
+  for (const entry of entries) {
+    const row = document.createElement('tr');
+    const cells = [
+      entry.rank,
+      entry.player.displayName,
+      entry.rating,
+      entry.wins,
+      entry.losses,
+      entry.draws,
+    ];
+    for (const value of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = String(value);
+      row.append(cell);
+    }
+    const avatar = document.createElement('span');
+    avatar.className = 'avatar';
+    avatar.style.background = entry.player.avatarColor;
+    row.children[1]?.prepend(avatar);
+    body.append(row);
+  }
+  table.append(body);
+  leaderboardList.replaceChildren(table);
+}
+
+/**
+ * Format a duration as its largest unit, e.g. "5m" or "2h".
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return `${Math.floor(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
+
+function renderAdminStats(stats: AdminStatsResponse): void {
+  if (!adminStats) return;
+
+  const perApp = Object.entries(stats.byApp).map(([appId, counts]) => {
+    const live = counts.starting + counts.waiting + counts.active + counts.finished;
+    return `${appId}: ${live} live`;
+  });
+  adminStats.textContent = [
+    `${stats.total} sessions`,
+    `${stats.byStatus.active} active`,
+    `${stats.byStatus.error} failed`,
+    ...perApp,
+  ].join(' · ');
+}
+
+function renderAdminSessions(sessions: AdminSessionSummary[]): void {
+  if (!adminSessionsList) return;
+
+  if (sessions.length === 0) {
+    adminSessionsList.innerHTML = `
+      <div class="no-apps">
+        <p>No sessions</p>
+      </div>
+    `;
+    return;
+  }
+
+  // Build rows with textContent: error messages come from the backend
+  const table = document.createElement('table');
+  table.innerHTML = `
+    <thead>
+      <tr><th>Session</th><th>App</th><th>Age</th><th>Status</th><th>Opponent</th><th>Players</th><th>Server</th><th></th></tr>
+    </thead>
+  `;
+  const body = document.createElement('tbody');
+  for (const session of sessions) {
+    const row = document.createElement('tr');
+    const server = session.health
+      ? [session.health.state, session.health.health].filter(Boolean).join(', ')
+      : '—';
+    const cells = [
+      session.private ? `${session.sessionId} 🔒` : session.sessionId,
+      session.appId,
+      formatAge(session.ageMs),
+      session.errorMessage ? `${session.status}: ${session.errorMessage}` : session.status,
+      session.opponentType,
+      session.participantCount,
+      server,
+    ];
+    for (const value of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = String(value);
+      row.append(cell);
+    }
+
+    const actions = document.createElement('td');
+    if (session.status !== 'ended' && session.status !== 'error') {
+      const stopBtn = document.createElement('button');
+      stopBtn.className = 'btn secondary';
+      stopBtn.textContent = 'Stop';
+      stopBtn.addEventListener('click', () => handleAdminStop(session.sessionId));
+      actions.append(stopBtn);
+    }
+    const logsBtn = document.createElement('button');
+    logsBtn.className = 'btn secondary';
+    logsBtn.textContent = 'Logs';
+    logsBtn.addEventListener('click', () => handleAdminLogs(session.sessionId));
+    actions.append(logsBtn);
+    row.append(actions);
+
+    body.append(row);
+  }
+  table.append(body);
+  adminSessionsList.replaceChildren(table);
+}
+
 // Event handlers
 function handleSelectApp(app: AppManifest): void {
   selectedApp = app;
@@ -171,10 +503,85 @@ function handlePlayHuman(): void {
   startSession('human');
 }
 
+async function handleShowLeaderboard(): Promise<void> {
+  if (!selectedApp) return;
+
+  if (leaderboardTitle) {
+    leaderboardTitle.textContent = `${selectedApp.name} Leaderboard`;
+  }
+  if (leaderboardList) {
+    leaderboardList.innerHTML = `
+      <div class="loader">
+        <div class="spinner"></div>
+        <p>Loading leaderboard...</p>
+      </div>
+    `;
+  }
+  showScreen('leaderboard');
+
+  try {
+    renderLeaderboard(await fetchLeaderboard(selectedApp.id));
+  } catch (err) {
+    showError(err instanceof Error ? err.message : 'An unexpected error occurred');
+  }
+}
+
+function handleBackFromLeaderboard(): void {
+  showScreen('start');
+}
+
 function handleBackFromBot(): void {
   showScreen('start');
 }
 
+function handlePlayPrivate(): void {
+  if (roomPasswordInput) {
+    roomPasswordInput.value = '';
+  }
+  showScreen('privateSettings');
+}
+
+function handleBackFromPrivate(): void {
+  showScreen('start');
+}
+
+function handleStartPrivateSession(): void {
+  const password = roomPasswordInput?.value ?? '';
+  startSession('human', undefined, password ? { password } : {});
+}
+
+function handleOpenJoinCode(): void {
+  if (joinCodeInput) {
+    joinCodeInput.value = '';
+  }
+  if (joinPasswordInput) {
+    joinPasswordInput.value = '';
+  }
+  joinCodeError?.classList.add('hidden');
+  showScreen('joinCode');
+  joinCodeInput?.focus();
+}
+
+function handleBackFromJoinCode(): void {
+  showScreen('appSelect');
+}
+
+async function handleSubmitJoinCode(): Promise<void> {
+  const joinCode = joinCodeInput?.value.trim() ?? '';
+  const password = joinPasswordInput?.value || undefined;
+  if (!joinCode) return;
+
+  try {
+    const session = await joinSessionByCode(joinCode, password);
+    window.location.href = session.sessionUrl;
+  } catch (err) {
+    if (joinCodeError) {
+      joinCodeError.textContent = err instanceof Error ? err.message : 'Failed to join session';
+      joinCodeError.classList.remove('hidden');
+    }
+  }
+}
+
 function handleStartBotSession(): void {
   const difficulty = difficultySlider ? Number(difficultySlider.value) / 100 : 0.5;
   startSession('bot', difficulty);
@@ -183,7 +590,11 @@ function handleStartBotSession(): void {
 // Countdown duration in seconds before Join button is enabled
 const CONTAINER_READY_DELAY_SECONDS = 4;
 
-async function startSession(opponentType: 'bot' | 'human', botDifficulty?: number): Promise<void> {
+async function startSession(
+  opponentType: 'bot' | 'human',
+  botDifficulty?: number,
+  privateSession?: PrivateSessionOptions
+): Promise<void> {
   if (!selectedApp) {
     showError('No application selected');
     return;
@@ -195,7 +606,12 @@ async function startSession(opponentType: 'bot' | 'human', botDifficulty?: numbe
   }
 
   try {
-    currentSession = await createSession(selectedApp.id, opponentType, botDifficulty);
+    currentSession = await createSession(
+      selectedApp.id,
+      opponentType,
+      botDifficulty,
+      privateSession
+    );
 
     // Show session ready screen
     showScreen('sessionReady');
@@ -210,6 +626,13 @@ async function startSession(opponentType: 'bot' | 'human', botDifficulty?: numbe
       }
     }
 
+    // Show the join code for private sessions; password rooms have no invite link
+    if (joinCodeSection && joinCodeText) {
+      joinCodeSection.classList.toggle('hidden', !currentSession.joinCode);
+      joinCodeText.textContent = currentSession.joinCode ?? '';
+      joinCodeHint?.classList.toggle('hidden', currentSession.joinUrl !== null);
+    }
+
     // Disable Join button and show countdown while container starts
     startJoinCountdown();
   } catch (err) {
@@ -294,19 +717,124 @@ function handleTryAgain(): void {
   }
 }
 
+function setAdminMessage(message: string): void {
+  if (adminMessage) {
+    adminMessage.textContent = message;
+  }
+}
+
+function showAdminLogin(error?: string): void {
+  adminDashboard?.classList.add('hidden');
+  adminLogin?.classList.remove('hidden');
+  if (adminLoginError) {
+    adminLoginError.textContent = error ?? '';
+    adminLoginError.classList.toggle('hidden', !error);
+  }
+}
+
+async function loadAdminDashboard(): Promise<void> {
+  try {
+    const [sessions, stats] = await Promise.all([fetchAdminSessions(), fetchAdminStats()]);
+    adminLogin?.classList.add('hidden');
+    adminDashboard?.classList.remove('hidden');
+    renderAdminSessions(sessions);
+    renderAdminStats(stats);
+  } catch (err) {
+    showAdminLogin(err instanceof Error ? err.message : 'Failed to load sessions');
+  }
+}
+
+function handleAdminSignIn(): void {
+  const token = adminTokenInput?.value.trim() ?? '';
+  if (!token) return;
+  sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  loadAdminDashboard();
+}
+
+function handleAdminSignOut(): void {
+  sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  if (adminTokenInput) {
+    adminTokenInput.value = '';
+  }
+  showAdminLogin();
+}
+
+async function handleAdminStop(sessionId: string): Promise<void> {
+  if (!window.confirm(`Stop session ${sessionId}?`)) return;
+
+  try {
+    await stopSession(sessionId);
+    setAdminMessage(`Stopped ${sessionId}`);
+  } catch (err) {
+    setAdminMessage(err instanceof Error ? err.message : 'Failed to stop session');
+  }
+  await loadAdminDashboard();
+}
+
+async function handleAdminLogs(sessionId: string): Promise<void> {
+  if (!adminLogs) return;
+
+  adminLogs.classList.remove('hidden');
+  adminLogs.textContent = `Loading logs of ${sessionId}...`;
+  try {
+    adminLogs.textContent = (await fetchSessionLogs(sessionId)) || '(no output)';
+  } catch (err) {
+    adminLogs.textContent = err instanceof Error ? err.message : 'Failed to fetch logs';
+  }
+}
+
+async function handleAdminCleanup(): Promise<void> {
+  try {
+    const { stopped, removed } = await cleanupSessions();
+    setAdminMessage(`Stopped ${stopped.length} idle sessions, removed ${removed} old records`);
+  } catch (err) {
+    setAdminMessage(err instanceof Error ? err.message : 'Cleanup failed');
+  }
+  await loadAdminDashboard();
+}
+
 // Attach event listeners
 backToAppsBtn?.addEventListener('click', handleBackToApps);
 playBotBtn?.addEventListener('click', handlePlayBot);
 playHumanBtn?.addEventListener('click', handlePlayHuman);
 backFromBotBtn?.addEventListener('click', handleBackFromBot);
+playPrivateBtn?.addEventListener('click', handlePlayPrivate);
+backFromPrivateBtn?.addEventListener('click', handleBackFromPrivate);
+startPrivateSessionBtn?.addEventListener('click', handleStartPrivateSession);
+openJoinCodeBtn?.addEventListener('click', handleOpenJoinCode);
+backFromJoinCodeBtn?.addEventListener('click', handleBackFromJoinCode);
+submitJoinCodeBtn?.addEventListener('click', handleSubmitJoinCode);
+joinCodeInput?.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') handleSubmitJoinCode();
+});
+showLeaderboardBtn?.addEventListener('click', handleShowLeaderboard);
+backFromLeaderboardBtn?.addEventListener('click', handleBackFromLeaderboard);
 startBotSessionBtn?.addEventListener('click', handleStartBotSession);
 copyUrlBtn?.addEventListener('click', handleCopyUrl);
 cancelSessionBtn?.addEventListener('click', handleCancelSession);
 joinSessionBtn?.addEventListener('click', handleJoinSession);
 tryAgainBtn?.addEventListener('click', handleTryAgain);
+adminSignInBtn?.addEventListener('click', handleAdminSignIn);
+adminTokenInput?.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') handleAdminSignIn();
+});
+adminSignOutBtn?.addEventListener('click', handleAdminSignOut);
+adminRefreshBtn?.addEventListener('click', () => {
+  setAdminMessage('');
+  loadAdminDashboard();
+});
+adminCleanupBtn?.addEventListener('click', handleAdminCleanup);
 
 // Initialize
 async function init(): Promise<void> {
+  if (window.location.pathname === '/admin') {
+    showScreen('admin');
+    if (sessionStorage.getItem(ADMIN_TOKEN_KEY)) {
+      await loadAdminDashboard();
+    }
+    return;
+  }
+
   showScreen('appSelect');
 
   try {
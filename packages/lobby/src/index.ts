@@ -1,4 +1,20 @@
+import { logger } from './logger.js';
 import { createServer } from './server.js';
+import { DockerSpawner } from './services/DockerSpawner.js';
+import { JsonFileMatchStorage } from './services/JsonFileMatchStorage.js';
+import { JsonFileSessionStorage } from './services/JsonFileSessionStorage.js';
+import { LobbyMetrics } from './services/LobbyMetrics.js';
+import { LocalSpawner } from './services/LocalSpawner.js';
+import { MatchHistory } from './services/MatchHistory.js';
+import { Matchmaker } from './services/Matchmaker.js';
+import { type MatchStorage, MemoryMatchStorage } from './services/MatchStorage.js';
+import { PlayerAccounts } from './services/PlayerAccounts.js';
+import { RateLimiter } from './services/RateLimiter.js';
+import { reconcileSessions } from './services/reconcileSessions.js';
+import { SessionReaper } from './services/SessionReaper.js';
+import type { SessionSpawner } from './services/SessionSpawner.js';
+import { MemorySessionStorage, type SessionStorage } from './services/SessionStorage.js';
+import { SessionStore } from './services/SessionStore.js';
 
 // Import apps to register them with the global registry
 // Each app auto-registers when imported
@@ -8,23 +24,198 @@ import '@gesture-app/hello-hands';
 // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
 const PORT = Number(process.env['PORT']) || 3002;
 
-console.log('Starting Lobby Server...');
+// SESSION_BACKEND=local runs sessions as child processes instead of Docker containers
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_BACKEND = process.env['SESSION_BACKEND'] ?? 'docker';
+
+// Session servers report their lifecycle to the lobby when a shared secret is set
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const LIFECYCLE_WEBHOOK_SECRET = process.env['LIFECYCLE_WEBHOOK_SECRET'];
+// Lobby URL as seen from session servers (local sessions reach it on localhost)
+const LIFECYCLE_WEBHOOK_BASE_URL =
+  // biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+  process.env['LIFECYCLE_WEBHOOK_BASE_URL'] ??
+  (SESSION_BACKEND === 'local' ? `http://localhost:${PORT}` : undefined);
+
+// Player accounts are enabled when a token signing secret is set
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const PLAYER_TOKEN_SECRET = process.env['PLAYER_TOKEN_SECRET'];
+
+// How long matchmaking waits for a human opponent before offering a bot
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const MATCHMAKING_TIMEOUT_MS = Number(process.env['MATCHMAKING_TIMEOUT_MS']) || 60_000;
+
+// The admin API and dashboard are enabled when an admin token is set
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const ADMIN_TOKEN = process.env['ADMIN_TOKEN'];
+
+// Capacity: sessions running at once, overall and per app (per app unlimited unless set)
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const MAX_SESSIONS = Number(process.env['MAX_SESSIONS']) || 50;
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const MAX_SESSIONS_PER_APP = Number(process.env['MAX_SESSIONS_PER_APP']) || undefined;
+
+// Sessions each IP address may create per window
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_RATE_LIMIT = Number(process.env['SESSION_RATE_LIMIT']) || 10;
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_RATE_WINDOW_MS = Number(process.env['SESSION_RATE_WINDOW_MS']) || 60_000;
 
-const app = createServer();
+// Join-by-code attempts each IP address may make per window
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const JOIN_RATE_LIMIT = Number(process.env['JOIN_RATE_LIMIT']) || 10;
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const JOIN_RATE_WINDOW_MS = Number(process.env['JOIN_RATE_WINDOW_MS']) || 60_000;
+
+// The reaper stops sessions running longer than this and checks for vanished servers
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_MAX_LIFETIME_MS = Number(process.env['SESSION_MAX_LIFETIME_MS']) || 3 * 60 * 60_000;
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const REAPER_INTERVAL_MS = Number(process.env['REAPER_INTERVAL_MS']) || 60_000;
+
+// Proxies in front of the lobby, so rate limits see client IPs (hop count, "true" or addresses)
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const TRUST_PROXY = process.env['TRUST_PROXY'];
+
+// SESSION_STORE=sqlite|json persists sessions across restarts (default: memory)
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_STORE = process.env['SESSION_STORE'] ?? 'memory';
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const SESSION_STORE_PATH = process.env['SESSION_STORE_PATH'];
+// Match history uses the same kind of store (SQLite shares the sessions database)
+// biome-ignore lint/complexity/useLiteralKeys: Required for noPropertyAccessFromIndexSignature
+const MATCH_HISTORY_PATH = process.env['MATCH_HISTORY_PATH'];
+
+/**
+ * Create the configured session storage.
+ * SQLite is loaded on demand since `node:sqlite` needs a recent Node.
+ */
+async function createSessionStorage(): Promise<SessionStorage> {
+  switch (SESSION_STORE) {
+    case 'sqlite': {
+      const { SqliteSessionStorage } = await import('./services/SqliteSessionStorage.js');
+      return new SqliteSessionStorage(SESSION_STORE_PATH ?? 'data/sessions.db');
+    }
+    case 'json':
+      return new JsonFileSessionStorage(SESSION_STORE_PATH ?? 'data/sessions.json');
+    case 'memory':
+      return new MemorySessionStorage();
+    default:
+      throw new Error(`Unknown SESSION_STORE: ${SESSION_STORE}. Use memory, sqlite or json.`);
+  }
+}
+
+/**
+ * Create the configured match history storage.
+ */
+async function createMatchStorage(): Promise<MatchStorage> {
+  switch (SESSION_STORE) {
+    case 'sqlite': {
+      const { SqliteMatchStorage } = await import('./services/SqliteMatchStorage.js');
+      return new SqliteMatchStorage(MATCH_HISTORY_PATH ?? SESSION_STORE_PATH ?? 'data/sessions.db');
+    }
+    case 'json':
+      return new JsonFileMatchStorage(MATCH_HISTORY_PATH ?? 'data/matches.jsonl');
+    default:
+      return new MemoryMatchStorage();
+  }
+}
+
+/**
+ * Turn TRUST_PROXY into an Express `trust proxy` setting.
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string | undefined {
+  if (!value) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  const hops = Number(value);
+  return Number.isInteger(hops) ? hops : value;
+}
+
+logger.info('Starting lobby server', {
+  sessionBackend: SESSION_BACKEND,
+  sessionStore: SESSION_STORE,
+});
+
+const lifecycleWebhook =
+  LIFECYCLE_WEBHOOK_SECRET && LIFECYCLE_WEBHOOK_BASE_URL
+    ? { baseUrl: LIFECYCLE_WEBHOOK_BASE_URL, secret: LIFECYCLE_WEBHOOK_SECRET }
+    : undefined;
+if (!lifecycleWebhook) {
+  logger.info('Lifecycle webhooks disabled; session status will not follow the games');
+}
+
+if (!PLAYER_TOKEN_SECRET) {
+  logger.info('Player accounts disabled; everyone plays anonymously');
+}
+
+if (!ADMIN_TOKEN) {
+  logger.info('Admin API disabled; set ADMIN_TOKEN to manage sessions');
+}
+
+const sessionStore = new SessionStore({}, await createSessionStorage());
+const metrics = new LobbyMetrics(sessionStore);
+
+const backend: SessionSpawner =
+  SESSION_BACKEND === 'local'
+    ? new LocalSpawner({
+        lobbyUrl: `http://localhost:${PORT}`,
+        lifecycleWebhook,
+        playerTokenSecret: PLAYER_TOKEN_SECRET,
+      })
+    : new DockerSpawner({ lifecycleWebhook, playerTokenSecret: PLAYER_TOKEN_SECRET });
+const spawner = metrics.instrument(backend);
+
+// Re-adopt sessions that outlived the previous lobby process
+try {
+  await reconcileSessions(sessionStore, spawner);
+} catch (err) {
+  logger.error('Failed to reconcile sessions', { error: err });
+}
+
+// Keep the store in line with the running sessions from now on
+const reaper = new SessionReaper(sessionStore, spawner, {
+  intervalMs: REAPER_INTERVAL_MS,
+  maxLifetimeMs: SESSION_MAX_LIFETIME_MS,
+});
+reaper.start();
+
+const matchmaker = new Matchmaker(sessionStore, spawner, {
+  timeoutMs: MATCHMAKING_TIMEOUT_MS,
+  maxSessions: MAX_SESSIONS,
+  maxSessionsPerApp: MAX_SESSIONS_PER_APP,
+});
+
+const app = createServer({
+  spawner,
+  sessionStore,
+  matchmaker,
+  lifecycleSecret: LIFECYCLE_WEBHOOK_SECRET,
+  playerAccounts: PLAYER_TOKEN_SECRET ? new PlayerAccounts(PLAYER_TOKEN_SECRET) : undefined,
+  matchHistory: new MatchHistory(await createMatchStorage()),
+  adminToken: ADMIN_TOKEN,
+  maxSessions: MAX_SESSIONS,
+  maxSessionsPerApp: MAX_SESSIONS_PER_APP,
+  rateLimiter: new RateLimiter({ limit: SESSION_RATE_LIMIT, windowMs: SESSION_RATE_WINDOW_MS }),
+  joinRateLimiter: new RateLimiter({ limit: JOIN_RATE_LIMIT, windowMs: JOIN_RATE_WINDOW_MS }),
+  trustProxy: parseTrustProxy(TRUST_PROXY),
+  metrics,
+});
 
 const httpServer = app.listen(PORT, '0.0.0.0', () => {
-  console.log(`Lobby server running on port ${PORT}`);
+  logger.info(`Lobby server running on port ${PORT}`);
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down...');
+  logger.info('SIGTERM received, shutting down...');
+  reaper.stop();
   httpServer.close();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down...');
+  logger.info('SIGINT received, shutting down...');
+  reaper.stop();
   httpServer.close();
   process.exit(0);
 });
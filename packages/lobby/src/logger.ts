@@ -0,0 +1,8 @@
+import { logger as processLogger } from '@gesture-app/framework-logging';
+
+/**
+ * Logger of the lobby process.
+ * Entries about one session carry its `sessionId`, as do the entries of the
+ * session's server and bot.
+ */
+export const logger = processLogger.child({ component: 'lobby' });
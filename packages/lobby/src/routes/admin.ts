@@ -0,0 +1,261 @@
+import { timingSafeEqual } from 'node:crypto';
+import { type NextFunction, type Request, type Response, Router } from 'express';
+import { logger } from '../logger.js';
+import type { SessionSpawner } from '../services/SessionSpawner.js';
+import type { SessionStore } from '../services/SessionStore.js';
+import type {
+  AdminCleanupRequest,
+  AdminCleanupResponse,
+  AdminSessionHealth,
+  AdminSessionSummary,
+  AdminSessionsResponse,
+  AdminStatsResponse,
+  AppSession,
+  SessionStatus,
+} from '../types.js';
+
+/** Log lines returned when no tail is given */
+const DEFAULT_LOG_TAIL = 200;
+
+/** Largest accepted tail */
+const MAX_LOG_TAIL = 5000;
+
+/** Sessions older than this count as stale when the cleanup request names no age */
+const DEFAULT_STALE_AGE_MS = 60 * 60 * 1000;
+
+/** Statuses whose session server is gone */
+const OVER_STATUSES: readonly SessionStatus[] = ['ended', 'error'];
+
+/** Statuses a session with no players may sit in indefinitely */
+const IDLE_STATUSES: readonly SessionStatus[] = ['starting', 'waiting', 'finished'];
+
+/**
+ * Options for the admin router.
+ */
+export interface AdminRouterOptions {
+  /** Token admins send as `Authorization: Bearer <token>` (API disabled when unset) */
+  adminToken?: string;
+}
+
+/**
+ * Check the admin token sent with a request.
+ */
+function isAdmin(req: Request, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.get('authorization') ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Parse the `tail` query parameter.
+ * @returns The number of lines, or null if it is not an integer between 1 and MAX_LOG_TAIL
+ */
+function parseTail(req: Request): number | null {
+  const { tail } = req.query;
+  if (tail === undefined) return DEFAULT_LOG_TAIL;
+  const value = Number(tail);
+  return Number.isInteger(value) && value >= 1 && value <= MAX_LOG_TAIL ? value : null;
+}
+
+function emptyCounts(): Record<SessionStatus, number> {
+  return { starting: 0, waiting: 0, active: 0, finished: 0, ended: 0, error: 0 };
+}
+
+/**
+ * Ask the backend how a session's server is doing.
+ * @returns The server state, or null for sessions that are over or backends that cannot tell
+ */
+async function getHealth(
+  spawner: SessionSpawner,
+  session: AppSession
+): Promise<AdminSessionHealth | null> {
+  if (!spawner.inspect || OVER_STATUSES.includes(session.status)) return null;
+  try {
+    const { startedAt, ...health } = await spawner.inspect(session.containerName);
+    return { ...health, ...(startedAt && { startedAt: startedAt.toISOString() }) };
+  } catch {
+    return null;
+  }
+}
+
+async function toSummary(
+  spawner: SessionSpawner,
+  session: AppSession,
+  now: number
+): Promise<AdminSessionSummary> {
+  return {
+    sessionId: session.id,
+    appId: session.appId,
+    status: session.status,
+    opponentType: session.opponentType,
+    participantCount: session.participantCount,
+    private: session.access !== undefined,
+    containerName: session.containerName,
+    createdAt: session.createdAt.toISOString(),
+    ageMs: now - session.createdAt.getTime(),
+    health: await getHealth(spawner, session),
+    ...(session.errorMessage && { errorMessage: session.errorMessage }),
+  };
+}
+
+/**
+ * Stop a session's server and release what it left behind.
+ */
+async function stopSession(
+  sessionStore: SessionStore,
+  spawner: SessionSpawner,
+  session: AppSession
+): Promise<void> {
+  await spawner.stop(session.containerName);
+  await spawner.remove(session.containerName);
+  sessionStore.updateStatus(session.id, 'ended');
+}
+
+export function createAdminRouter(
+  sessionStore: SessionStore,
+  spawner: SessionSpawner,
+  options: AdminRouterOptions = {}
+): Router {
+  const router = Router();
+  const { adminToken } = options;
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!adminToken) {
+      res.status(503).json({ error: 'Admin API is disabled' });
+      return;
+    }
+    if (!isAdmin(req, adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  /**
+   * GET /api/admin/sessions - List all sessions with their server state, newest first
+   */
+  router.get('/sessions', async (_req: Request, res: Response) => {
+    const now = Date.now();
+    const sessions = sessionStore
+      .getAll()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const response: AdminSessionsResponse = {
+      sessions: await Promise.all(sessions.map((session) => toSummary(spawner, session, now))),
+    };
+    res.json(response);
+  });
+
+  /**
+   * GET /api/admin/sessions/:id/logs - Last lines the session's server logged
+   */
+  router.get('/sessions/:id/logs', async (req: Request, res: Response) => {
+    const { id = '' } = req.params;
+    const session = sessionStore.get(id);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    if (!spawner.logs) {
+      res.status(501).json({ error: 'The session backend does not keep logs' });
+      return;
+    }
+    const tail = parseTail(req);
+    if (tail === null) {
+      res.status(400).json({ error: `tail must be an integer from 1 to ${MAX_LOG_TAIL}` });
+      return;
+    }
+
+    try {
+      res.type('text/plain').send(await spawner.logs(session.containerName, tail));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch logs';
+      logger.error('Error fetching session logs', { sessionId: id, error: errorMessage });
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * POST /api/admin/sessions/:id/stop - Force-stop a session
+   */
+  router.post('/sessions/:id/stop', async (req: Request, res: Response) => {
+    const { id = '' } = req.params;
+    const session = sessionStore.get(id);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    try {
+      await stopSession(sessionStore, spawner, session);
+      res.json({ message: 'Session stopped' });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to stop session';
+      logger.error('Error stopping session', { sessionId: id, error: errorMessage });
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * GET /api/admin/stats - Session counts per status and per app
+   */
+  router.get('/stats', (_req: Request, res: Response) => {
+    const stats: AdminStatsResponse = { total: 0, byStatus: emptyCounts(), byApp: {} };
+
+    for (const session of sessionStore.getAll()) {
+      const appCounts = stats.byApp[session.appId] ?? emptyCounts();
+      appCounts[session.status]++;
+      stats.byApp[session.appId] = appCounts;
+      stats.byStatus[session.status]++;
+      stats.total++;
+    }
+    res.json(stats);
+  });
+
+  /**
+   * POST /api/admin/cleanup - Stop stale idle sessions and drop old records
+   *
+   * Sessions with a match in progress are never touched.
+   */
+  router.post('/cleanup', async (req: Request, res: Response) => {
+    const { olderThanMs = DEFAULT_STALE_AGE_MS } = (req.body ?? {}) as AdminCleanupRequest;
+    if (typeof olderThanMs !== 'number' || !Number.isFinite(olderThanMs) || olderThanMs < 0) {
+      res.status(400).json({ error: 'olderThanMs must be a non-negative number' });
+      return;
+    }
+
+    const cutoff = Date.now() - olderThanMs;
+    const stale = sessionStore
+      .getAll()
+      .filter(
+        (session) =>
+          IDLE_STATUSES.includes(session.status) &&
+          session.participantCount === 0 &&
+          session.createdAt.getTime() < cutoff
+      );
+
+    const stopped: string[] = [];
+    for (const session of stale) {
+      try {
+        await stopSession(sessionStore, spawner, session);
+        stopped.push(session.id);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to stop session';
+        logger.error('Error stopping stale session', {
+          sessionId: session.id,
+          error: errorMessage,
+        });
+      }
+    }
+
+    const response: AdminCleanupResponse = {
+      stopped,
+      removed: sessionStore.cleanup(olderThanMs),
+    };
+    res.json(response);
+  });
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import { globalRegistry } from '@gesture-app/framework-protocol';
+import { type Request, type Response, Router } from 'express';
+import { getOutcome, type MatchHistory } from '../services/MatchHistory.js';
+import type {
+  LeaderboardResponse,
+  MatchRecord,
+  PlayerHistoryEntry,
+  PlayerHistoryResponse,
+} from '../types.js';
+
+/** Entries returned when no limit is given */
+const DEFAULT_LIMIT = 20;
+
+/** Largest accepted limit */
+const MAX_LIMIT = 100;
+
+/**
+ * Parse the `limit` query parameter.
+ * @returns The limit, or null if it is not an integer between 1 and MAX_LIMIT
+ */
+function parseLimit(req: Request): number | null {
+  const { limit } = req.query;
+  if (limit === undefined) return DEFAULT_LIMIT;
+  const value = Number(limit);
+  return Number.isInteger(value) && value >= 1 && value <= MAX_LIMIT ? value : null;
+}
+
+function toHistoryEntry(match: MatchRecord, playerId: string): PlayerHistoryEntry {
+  const own = match.participants.find((participant) => participant.player?.id === playerId);
+  const ratingChange = match.ratingChanges[playerId];
+  return {
+    matchId: match.id,
+    sessionId: match.sessionId,
+    appId: match.appId,
+    endedAt: match.endedAt.toISOString(),
+    durationMs: match.durationMs,
+    reason: match.reason,
+    outcome: getOutcome(match, own?.teamId ?? -1),
+    participants: match.participants,
+    ...(match.appData !== undefined && { appData: match.appData }),
+    ...(ratingChange && { ratingChange }),
+  };
+}
+
+export function createMatchRouter(matchHistory: MatchHistory): Router {
+  const router = Router();
+
+  /**
+   * GET /api/apps/:appId/leaderboard - Highest-rated players of an app
+   */
+  router.get('/apps/:appId/leaderboard', (req: Request, res: Response) => {
+    const { appId = '' } = req.params;
+    if (!globalRegistry.has(appId)) {
+      res.status(404).json({ error: `Unknown application: ${appId}` });
+      return;
+    }
+
+    const limit = parseLimit(req);
+    if (limit === null) {
+      res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_LIMIT}` });
+      return;
+    }
+
+    const response: LeaderboardResponse = {
+      appId,
+      entries: matchHistory.getLeaderboard(appId, limit),
+    };
+    res.json(response);
+  });
+
+  /**
+   * GET /api/players/:playerId/history - A player's recent matches, newest first
+   */
+  router.get('/players/:playerId/history', (req: Request, res: Response) => {
+    const { playerId = '' } = req.params;
+    const limit = parseLimit(req);
+    if (limit === null) {
+      res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_LIMIT}` });
+      return;
+    }
+
+    const response: PlayerHistoryResponse = {
+      playerId,
+      matches: matchHistory
+        .getPlayerHistory(playerId, limit)
+        .map((match) => toHistoryEntry(match, playerId)),
+    };
+    res.json(response);
+  });
+
+  return router;
+}
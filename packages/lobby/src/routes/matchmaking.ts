@@ -0,0 +1,243 @@
+import {
+  type AppManifest,
+  AppNotFoundError,
+  globalRegistry,
+} from '@gesture-app/framework-protocol';
+import { type Request, type Response, Router } from 'express';
+import type { Matchmaker } from '../services/Matchmaker.js';
+import { type PlayerAccounts, withPlayerTokenParam } from '../services/PlayerAccounts.js';
+import type { RateLimiter } from '../services/RateLimiter.js';
+import type {
+  AcceptBotRequest,
+  EnqueueRequest,
+  MatchTicket,
+  TicketResponse,
+  TicketStatus,
+} from '../types.js';
+import { authenticatePlayer } from './players.js';
+import { getPairingError, sendRetryLater } from './sessions.js';
+
+/**
+ * Statuses after which a ticket no longer changes.
+ */
+const FINAL_STATUSES: ReadonlySet<TicketStatus> = new Set(['matched', 'cancelled', 'error']);
+
+/** Interval of comment lines keeping idle event streams open through proxies */
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+/** Longest accepted region tag */
+const MAX_REGION_LENGTH = 32;
+
+function toTicketResponse(ticket: MatchTicket): TicketResponse {
+  return {
+    ticketId: ticket.id,
+    appId: ticket.appId,
+    status: ticket.status,
+    botOffered: ticket.status === 'timed_out',
+    opponentType: ticket.opponentType,
+    sessionId: ticket.sessionId,
+    sessionUrl:
+      ticket.sessionUrl && ticket.playerToken
+        ? withPlayerTokenParam(ticket.sessionUrl, ticket.playerToken)
+        : ticket.sessionUrl,
+    errorMessage: ticket.errorMessage,
+    errorCode: ticket.errorCode,
+    retryAfterSeconds: ticket.retryAfterSeconds,
+  };
+}
+
+/**
+ * Count a session start against the client's budget, answering 429 when it is spent.
+ * @returns Whether the request may go on
+ */
+function consumeSessionBudget(req: Request, res: Response, rateLimiter?: RateLimiter): boolean {
+  const retryAfterMs = rateLimiter?.consume(req.ip ?? 'unknown') ?? 0;
+  if (retryAfterMs <= 0) return true;
+  sendRetryLater(res, 429, {
+    error: 'Too many sessions created. Please wait a moment.',
+    code: 'rate_limited',
+    retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+  });
+  return false;
+}
+
+/**
+ * Answer with a ticket that failed because the lobby or app was full.
+ * @returns false if the ticket did not fail that way
+ */
+function sendIfBusy(res: Response, ticket: MatchTicket): boolean {
+  const { errorMessage, errorCode, retryAfterSeconds } = ticket;
+  if (ticket.status !== 'error' || !errorMessage || !errorCode || !retryAfterSeconds) {
+    return false;
+  }
+  sendRetryLater(res, 503, { error: errorMessage, code: errorCode, retryAfterSeconds });
+  return true;
+}
+
+/**
+ * Options for the matchmaking router.
+ */
+export interface MatchmakingRouterOptions {
+  /** Player accounts; signed-in players get session links carrying their token */
+  playerAccounts?: PlayerAccounts;
+  /** Limits how many tickets and bot sessions each IP address may start (unlimited when unset) */
+  rateLimiter?: RateLimiter;
+}
+
+export function createMatchmakingRouter(
+  matchmaker: Matchmaker,
+  options: MatchmakingRouterOptions = {}
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/matchmaking/tickets/:ticketId - Get ticket status
+   */
+  router.get('/tickets/:ticketId', (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticket = matchmaker.get(ticketId ?? '');
+    if (!ticket) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+    res.json(toTicketResponse(ticket));
+  });
+
+  /**
+   * GET /api/matchmaking/tickets/:ticketId/events - Server-Sent Events with every ticket change.
+   * The stream closes once the ticket is matched, cancelled or failed.
+   */
+  router.get('/tickets/:ticketId/events', (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticket = matchmaker.get(ticketId ?? '');
+    if (!ticket) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+    const close = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    };
+    const send = (current: MatchTicket) => {
+      res.write(`data: ${JSON.stringify(toTicketResponse(current))}\n\n`);
+      if (FINAL_STATUSES.has(current.status)) {
+        close();
+        res.end();
+      }
+    };
+    const unsubscribe = matchmaker.subscribe(ticket.id, send);
+    req.on('close', close);
+
+    send(ticket);
+  });
+
+  /**
+   * POST /api/matchmaking/tickets/:ticketId/bot - Play a bot instead after a timeout
+   */
+  router.post('/tickets/:ticketId/bot', async (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticket = matchmaker.get(ticketId ?? '');
+    if (!ticket) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+    if (ticket.status !== 'timed_out') {
+      res.status(409).json({ error: `No bot offered for a ticket that is ${ticket.status}` });
+      return;
+    }
+
+    if (!consumeSessionBudget(req, res, options.rateLimiter)) return;
+
+    const { botDifficulty } = (req.body ?? {}) as AcceptBotRequest;
+    const started = (await matchmaker.acceptBot(ticket.id, botDifficulty)) ?? ticket;
+
+    if (sendIfBusy(res, started)) return;
+    if (started.status === 'error') {
+      res.status(500).json({ error: started.errorMessage });
+      return;
+    }
+    res.json(toTicketResponse(started));
+  });
+
+  /**
+   * DELETE /api/matchmaking/tickets/:ticketId - Leave the queue
+   */
+  router.delete('/tickets/:ticketId', (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticket = matchmaker.get(ticketId ?? '');
+    if (!ticket) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+    if (!matchmaker.cancel(ticket.id)) {
+      res.status(409).json({ error: `Cannot leave the queue once the ticket is ${ticket.status}` });
+      return;
+    }
+    res.json(toTicketResponse(ticket));
+  });
+
+  /**
+   * POST /api/matchmaking/:appId - Join the queue for an app
+   */
+  router.post('/:appId', (req: Request, res: Response) => {
+    const { appId = '' } = req.params;
+    let manifest: AppManifest;
+    try {
+      manifest = globalRegistry.get(appId);
+    } catch (err) {
+      if (err instanceof AppNotFoundError) {
+        res.status(400).json({
+          error: `Unknown application: ${appId}`,
+          availableApps: globalRegistry.listIds(),
+        });
+        return;
+      }
+      throw err;
+    }
+
+    // Matchmaking pairs two players per session
+    const pairingError = getPairingError(manifest);
+    if (pairingError) {
+      res.status(400).json({ error: pairingError });
+      return;
+    }
+
+    const { rating, region } = (req.body ?? {}) as EnqueueRequest;
+    if (rating !== undefined && (typeof rating !== 'number' || !Number.isFinite(rating))) {
+      res.status(400).json({ error: 'rating must be a number' });
+      return;
+    }
+    if (
+      region !== undefined &&
+      (typeof region !== 'string' || region.length === 0 || region.length > MAX_REGION_LENGTH)
+    ) {
+      res.status(400).json({
+        error: `region must be a non-empty string of at most ${MAX_REGION_LENGTH} characters`,
+      });
+      return;
+    }
+
+    if (!consumeSessionBudget(req, res, options.rateLimiter)) return;
+
+    const credentials = authenticatePlayer(req, options.playerAccounts);
+    const ticket = matchmaker.enqueue(appId, {
+      rating,
+      region,
+      playerId: credentials?.player.id,
+      playerToken: credentials?.token,
+      clientIp: req.ip,
+    });
+    if (sendIfBusy(res, ticket)) return;
+    res.status(202).json(toTicketResponse(ticket));
+  });
+
+  return router;
+}
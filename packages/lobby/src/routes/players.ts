@@ -0,0 +1,88 @@
+import { PlayerProfileSchema } from '@gesture-app/framework-protocol';
+import { type Request, type Response, Router } from 'express';
+import type { PlayerAccounts, PlayerCredentials } from '../services/PlayerAccounts.js';
+
+/**
+ * Fields a player chooses when signing up.
+ */
+const CreatePlayerSchema = PlayerProfileSchema.pick({ displayName: true, avatarColor: true });
+
+/**
+ * Fields a player may change later.
+ */
+const UpdatePlayerSchema = CreatePlayerSchema.partial();
+
+/**
+ * Resolve the player signed in with an `Authorization: Bearer <token>` header.
+ * @returns The player and the presented token, or null if absent or invalid
+ */
+export function authenticatePlayer(
+  req: Request,
+  playerAccounts: PlayerAccounts | undefined
+): PlayerCredentials | null {
+  const header = req.get('authorization');
+  if (!playerAccounts || !header?.startsWith('Bearer ')) return null;
+
+  const token = header.slice('Bearer '.length);
+  const player = playerAccounts.verify(token);
+  return player ? { player, token } : null;
+}
+
+export function createPlayerRouter(playerAccounts: PlayerAccounts | undefined): Router {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!playerAccounts) {
+      res.status(503).json({ error: 'Player accounts are disabled' });
+      return;
+    }
+    next();
+  });
+
+  /**
+   * POST /api/players - Create an account
+   */
+  router.post('/', (req: Request, res: Response) => {
+    const parsed = CreatePlayerSchema.safeParse(req.body);
+    if (!parsed.success || !playerAccounts) {
+      res.status(400).json({ error: 'displayName and avatarColor (e.g. "#3b82f6") are required' });
+      return;
+    }
+
+    const { displayName, avatarColor } = parsed.data;
+    res.status(201).json(playerAccounts.create(displayName, avatarColor));
+  });
+
+  /**
+   * GET /api/players/me - Get the signed-in player
+   */
+  router.get('/me', (req: Request, res: Response) => {
+    const credentials = authenticatePlayer(req, playerAccounts);
+    if (!credentials) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    res.json({ player: credentials.player });
+  });
+
+  /**
+   * PATCH /api/players/me - Change name or avatar color (returns a new token)
+   */
+  router.patch('/me', (req: Request, res: Response) => {
+    const credentials = authenticatePlayer(req, playerAccounts);
+    if (!credentials || !playerAccounts) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = UpdatePlayerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid displayName or avatarColor' });
+      return;
+    }
+
+    res.json(playerAccounts.update(credentials.player, parsed.data));
+  });
+
+  return router;
+}
@@ -1,16 +1,34 @@
+import { timingSafeEqual } from 'node:crypto';
 import {
   type AppManifest,
   AppNotFoundError,
+  getPlayerLimits,
   globalRegistry,
+  LIFECYCLE_SECRET_HEADER,
+  LifecycleWebhookPayloadSchema,
+  withAccessKey,
 } from '@gesture-app/framework-protocol';
 import { type Request, type Response, Router } from 'express';
+import { logger } from '../logger.js';
 import { DockerSpawner } from '../services/DockerSpawner.js';
+import { launchSession } from '../services/launchSession.js';
+import type { MatchHistory } from '../services/MatchHistory.js';
+import { type PlayerAccounts, withPlayerTokenParam } from '../services/PlayerAccounts.js';
+import { normalizeJoinCode, verifyPassword } from '../services/privateAccess.js';
+import type { RateLimiter } from '../services/RateLimiter.js';
+import type { SessionSpawner } from '../services/SessionSpawner.js';
 import type { SessionStore } from '../services/SessionStore.js';
+import { checkSessionCapacity, type SessionLimits } from '../services/sessionCapacity.js';
 import type {
+  AppSession,
   CreateSessionRequest,
   CreateSessionResponse,
+  ErrorResponse,
+  JoinSessionRequest,
+  JoinSessionResponse,
   SessionStatusResponse,
 } from '../types.js';
+import { authenticatePlayer } from './players.js';
 
 /**
  * Validate that an appId exists in the registry.
@@ -21,9 +39,72 @@ function validateAppId(appId: string): AppManifest {
   return globalRegistry.get(appId);
 }
 
-export function createSessionRouter(sessionStore: SessionStore): Router {
+/** Players the lobby seats when it pairs a session: two humans, or a human and a bot */
+const PAIRED_PLAYER_COUNT = 2;
+
+/**
+ * Check that an app can be played by a pair of players, as seated by
+ * matchmaking and bot sessions.
+ * @returns Why the app cannot be paired, or undefined if it can
+ */
+export function getPairingError(manifest: AppManifest): string | undefined {
+  const { min, max } = getPlayerLimits(manifest);
+  if (min <= PAIRED_PLAYER_COUNT && PAIRED_PLAYER_COUNT <= max) return undefined;
+  const range = min === max ? `${min}` : `${min} to ${max}`;
+  const players = max === 1 ? 'player' : 'players';
+  return `${manifest.name} is played by ${range} ${players}, not ${PAIRED_PLAYER_COUNT}`;
+}
+
+/** Accepted room password length */
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 64;
+
+/**
+ * Send an error the client may retry later, with a Retry-After header.
+ */
+export function sendRetryLater(res: Response, status: number, body: Required<ErrorResponse>): void {
+  res.set('Retry-After', String(body.retryAfterSeconds)).status(status).json(body);
+}
+
+/**
+ * Check the shared secret a session server sent with a lifecycle event.
+ */
+function isAuthorized(req: Request, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.get(LIFECYCLE_SECRET_HEADER) ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Options for the session router.
+ */
+export interface SessionRouterOptions extends SessionLimits {
+  /** Secret session servers must send with lifecycle events (events rejected when unset) */
+  lifecycleSecret?: string;
+  /** Player accounts; a signed-in creator gets a session link carrying their token */
+  playerAccounts?: PlayerAccounts;
+  /** Match history; records the results of ended matches */
+  matchHistory?: MatchHistory;
+  /** Limits how many sessions each IP address may create (unlimited when unset) */
+  rateLimiter?: RateLimiter;
+  /** Limits how many join attempts each IP address may make (unlimited when unset) */
+  joinRateLimiter?: RateLimiter;
+}
+
+export function createSessionRouter(
+  sessionStore: SessionStore,
+  spawner: SessionSpawner = new DockerSpawner(),
+  options: SessionRouterOptions = {}
+): Router {
   const router = Router();
-  const dockerSpawner = new DockerSpawner();
+
+  /**
+   * Add the signed-in player's token to their own session link.
+   */
+  const withPlayerCredentials = (req: Request, sessionUrl: string): string => {
+    const credentials = authenticatePlayer(req, options.playerAccounts);
+    return credentials ? withPlayerTokenParam(sessionUrl, credentials.token) : sessionUrl;
+  };
 
   /**
    * GET /api/apps - List available applications
@@ -39,7 +120,7 @@ export function createSessionRouter(sessionStore: SessionStore): Router {
   router.post('/', async (req: Request, res: Response) => {
     try {
       const body = req.body as CreateSessionRequest;
-      const { appId, opponentType, botDifficulty } = body;
+      const { appId, opponentType, botDifficulty, password } = body;
 
       // Validate appId
       if (!appId || typeof appId !== 'string') {
@@ -48,8 +129,9 @@ export function createSessionRouter(sessionStore: SessionStore): Router {
       }
 
       // Validate appId exists in registry
+      let manifest: AppManifest;
       try {
-        validateAppId(appId);
+        manifest = validateAppId(appId);
       } catch (err) {
         if (err instanceof AppNotFoundError) {
           res.status(400).json({
@@ -67,35 +149,126 @@ export function createSessionRouter(sessionStore: SessionStore): Router {
         return;
       }
 
-      // Generate session ID and create session record
-      const sessionId = sessionStore.generateSessionId();
-      const session = sessionStore.create(sessionId, appId, opponentType);
+      // Bot sessions seat the creator and one bot
+      const pairingError = opponentType === 'bot' ? getPairingError(manifest) : undefined;
+      if (pairingError) {
+        res.status(400).json({ error: pairingError });
+        return;
+      }
+
+      // Validate private session settings
+      if (
+        password !== undefined &&
+        (typeof password !== 'string' ||
+          password.length < MIN_PASSWORD_LENGTH ||
+          password.length > MAX_PASSWORD_LENGTH)
+      ) {
+        res.status(400).json({
+          error: `password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`,
+        });
+        return;
+      }
+      const isPrivate = body.private === true || password !== undefined;
+      if (isPrivate && opponentType !== 'human') {
+        res.status(400).json({ error: 'Only human sessions can be private' });
+        return;
+      }
+
+      // Protect the host from runaway session creation
+      const retryAfterMs = options.rateLimiter?.consume(req.ip ?? 'unknown') ?? 0;
+      if (retryAfterMs > 0) {
+        sendRetryLater(res, 429, {
+          error: 'Too many sessions created. Please wait a moment.',
+          code: 'rate_limited',
+          retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        });
+        return;
+      }
+      const busy = checkSessionCapacity(sessionStore, appId, options);
+      if (busy) {
+        sendRetryLater(res, 503, busy);
+        return;
+      }
 
-      // Spawn Docker container
+      // Record the session and spawn its server
+      let session: AppSession;
       try {
-        await dockerSpawner.spawn(sessionId, appId, opponentType === 'bot', botDifficulty);
-        sessionStore.updateStatus(sessionId, opponentType === 'bot' ? 'active' : 'waiting');
+        session = await launchSession(
+          sessionStore,
+          spawner,
+          appId,
+          opponentType,
+          botDifficulty,
+          isPrivate ? { ...(password && { password }) } : undefined
+        );
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to spawn container';
-        sessionStore.updateStatus(sessionId, 'error', errorMessage);
+        const errorMessage = err instanceof Error ? err.message : 'Failed to spawn session';
         res.status(500).json({ error: errorMessage });
         return;
       }
 
+      // The creator's own link identifies them; the shared joinUrl does not
+      const sessionUrl = session.access
+        ? withAccessKey(session.sessionUrl, session.access.inviteToken)
+        : session.sessionUrl;
       const response: CreateSessionResponse = {
         sessionId: session.id,
         appId: session.appId,
-        sessionUrl: session.sessionUrl,
+        sessionUrl: withPlayerCredentials(req, sessionUrl),
         joinUrl: session.joinUrl,
+        joinCode: session.access?.joinCode ?? null,
       };
 
       res.status(201).json(response);
     } catch (err) {
-      console.error('Error creating session:', err);
+      logger.error('Error creating session', { error: err });
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
+  /**
+   * POST /api/sessions/join - Get the link to a private session by its join code
+   */
+  router.post('/join', (req: Request, res: Response) => {
+    // Codes are short and every password check runs scrypt, so guessing is throttled
+    const retryAfterMs = options.joinRateLimiter?.consume(req.ip ?? 'unknown') ?? 0;
+    if (retryAfterMs > 0) {
+      sendRetryLater(res, 429, {
+        error: 'Too many join attempts. Please wait a moment.',
+        code: 'rate_limited',
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      });
+      return;
+    }
+
+    const { joinCode, password } = (req.body ?? {}) as Partial<JoinSessionRequest>;
+    if (typeof joinCode !== 'string' || (password !== undefined && typeof password !== 'string')) {
+      res.status(400).json({ error: 'joinCode is required' });
+      return;
+    }
+
+    const session = sessionStore.findByJoinCode(normalizeJoinCode(joinCode));
+    if (!session?.access) {
+      res.status(404).json({ error: 'No open session with this code' });
+      return;
+    }
+
+    // Password rooms never publish their invite token, so only players who
+    // passed the password check get it; the password itself stays out of URLs
+    const { passwordHash, inviteToken } = session.access;
+    if (passwordHash && !(password && verifyPassword(password, passwordHash))) {
+      res.status(403).json({ error: 'Wrong password' });
+      return;
+    }
+
+    const response: JoinSessionResponse = {
+      sessionId: session.id,
+      appId: session.appId,
+      sessionUrl: withPlayerCredentials(req, withAccessKey(session.sessionUrl, inviteToken)),
+    };
+    res.json(response);
+  });
+
   /**
    * GET /api/sessions/:id - Get session status
    */
@@ -112,14 +285,52 @@ export function createSessionRouter(sessionStore: SessionStore): Router {
       sessionId: session.id,
       appId: session.appId,
       status: session.status,
+      participantCount: session.participantCount,
       sessionUrl: session.sessionUrl,
-      joinUrl: session.joinUrl,
+      // Session IDs are guessable; the invite link only goes to the creator
+      joinUrl: session.access ? null : session.joinUrl,
       errorMessage: session.errorMessage,
     };
 
     res.json(response);
   });
 
+  /**
+   * POST /api/sessions/:id/events - Lifecycle event reported by the session server
+   */
+  router.post('/:id/events', (req: Request, res: Response) => {
+    if (!options.lifecycleSecret || !isAuthorized(req, options.lifecycleSecret)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = LifecycleWebhookPayloadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid lifecycle event' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { event } = parsed.data;
+    const session = sessionStore.applyLifecycleEvent(id ?? '', event);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    logger.info('Session lifecycle event', {
+      sessionId: session.id,
+      appId: session.appId,
+      event: event.type,
+      ...('participantId' in event && { participantId: event.participantId }),
+    });
+    if (event.type === 'session_ended') {
+      options.matchHistory?.record(session.id, session.appId, event);
+    }
+
+    res.status(204).end();
+  });
+
   /**
    * DELETE /api/sessions/:id - End a session
    */
@@ -133,13 +344,13 @@ export function createSessionRouter(sessionStore: SessionStore): Router {
     }
 
     try {
-      await dockerSpawner.stop(session.containerName);
-      await dockerSpawner.remove(session.containerName);
+      await spawner.stop(session.containerName);
+      await spawner.remove(session.containerName);
       sessionStore.updateStatus(id ?? '', 'ended');
       res.json({ message: 'Session ended' });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to stop container';
-      console.error('Error stopping session:', errorMessage);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to stop session';
+      logger.error('Error stopping session', { sessionId: id, error: errorMessage });
       res.status(500).json({ error: errorMessage });
     }
   });
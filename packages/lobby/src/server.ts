@@ -1,26 +1,115 @@
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { PROMETHEUS_CONTENT_TYPE } from '@gesture-app/framework-server';
 import express, { type Express } from 'express';
+import { createAdminRouter } from './routes/admin.js';
+import { createMatchRouter } from './routes/matches.js';
+import { createMatchmakingRouter } from './routes/matchmaking.js';
+import { createPlayerRouter } from './routes/players.js';
 import { createSessionRouter } from './routes/sessions.js';
+import { DockerSpawner } from './services/DockerSpawner.js';
+import type { LobbyMetrics } from './services/LobbyMetrics.js';
+import { MatchHistory } from './services/MatchHistory.js';
+import { Matchmaker } from './services/Matchmaker.js';
+import type { PlayerAccounts } from './services/PlayerAccounts.js';
+import type { RateLimiter } from './services/RateLimiter.js';
+import type { SessionSpawner } from './services/SessionSpawner.js';
 import { SessionStore } from './services/SessionStore.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-export function createServer(): Express {
+/**
+ * Options for creating the lobby server.
+ */
+export interface ServerOptions {
+  /** Session backend; defaults to Docker containers */
+  spawner?: SessionSpawner;
+  /** Session records; defaults to an in-memory store */
+  sessionStore?: SessionStore;
+  /** Secret session servers send with lifecycle events */
+  lifecycleSecret?: string;
+  /** Matchmaking queue; defaults to one spawning through `spawner` */
+  matchmaker?: Matchmaker;
+  /** Player accounts; disabled when unset */
+  playerAccounts?: PlayerAccounts;
+  /** Match results and ratings; defaults to in-memory history */
+  matchHistory?: MatchHistory;
+  /** Token for the admin API; disabled when unset */
+  adminToken?: string;
+  /** Most sessions running at once across all apps (unlimited when unset) */
+  maxSessions?: number;
+  /** Most sessions running at once for any one app (unlimited when unset) */
+  maxSessionsPerApp?: number;
+  /** Limits how many sessions each IP address may create or queue for (unlimited when unset) */
+  rateLimiter?: RateLimiter;
+  /** Limits how many join-by-code attempts each IP address may make (unlimited when unset) */
+  joinRateLimiter?: RateLimiter;
+  /** Express `trust proxy` setting, so client IPs are read from X-Forwarded-For */
+  trustProxy?: boolean | number | string;
+  /** Prometheus metrics served at `/metrics`; not served when unset */
+  metrics?: LobbyMetrics;
+}
+
+export function createServer(options: ServerOptions = {}): Express {
   const app = express();
-  const sessionStore = new SessionStore();
+  const sessionStore = options.sessionStore ?? new SessionStore();
+  const spawner = options.spawner ?? new DockerSpawner();
+  const matchmaker =
+    options.matchmaker ??
+    new Matchmaker(sessionStore, spawner, {
+      maxSessions: options.maxSessions,
+      maxSessionsPerApp: options.maxSessionsPerApp,
+    });
+  const matchHistory = options.matchHistory ?? new MatchHistory();
+
+  if (options.trustProxy !== undefined) {
+    app.set('trust proxy', options.trustProxy);
+  }
 
   // Middleware
   app.use(express.json());
 
   // API routes
-  app.use('/api/sessions', createSessionRouter(sessionStore));
+  app.use(
+    '/api/sessions',
+    createSessionRouter(sessionStore, spawner, {
+      lifecycleSecret: options.lifecycleSecret,
+      playerAccounts: options.playerAccounts,
+      matchHistory,
+      maxSessions: options.maxSessions,
+      maxSessionsPerApp: options.maxSessionsPerApp,
+      rateLimiter: options.rateLimiter,
+      joinRateLimiter: options.joinRateLimiter,
+    })
+  );
+  app.use(
+    '/api/matchmaking',
+    createMatchmakingRouter(matchmaker, {
+      playerAccounts: options.playerAccounts,
+      rateLimiter: options.rateLimiter,
+    })
+  );
+  // Before the player router, which answers 503 when accounts are disabled
+  app.use('/api', createMatchRouter(matchHistory));
+  app.use('/api/players', createPlayerRouter(options.playerAccounts));
+  app.use(
+    '/api/admin',
+    createAdminRouter(sessionStore, spawner, { adminToken: options.adminToken })
+  );
 
   // Health check
   app.get('/api/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
+  // Prometheus metrics
+  const { metrics } = options;
+  if (metrics) {
+    app.get('/metrics', (_req, res) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+    });
+  }
+
   // Serve static frontend files
   const publicDir = join(__dirname, '..', 'public');
   app.use(express.static(publicDir));
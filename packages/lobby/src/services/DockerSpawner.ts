@@ -1,5 +1,16 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
+import { logger } from '../logger.js';
+import {
+  getLifecycleWebhookEnv,
+  getPlayerTokenEnv,
+  getSessionAccessEnv,
+  type LifecycleWebhookTarget,
+  type SessionAccessKeys,
+  type SessionHealth,
+  type SessionSpawner,
+  type SpawnedSession,
+} from './SessionSpawner.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -19,6 +30,10 @@ export interface DockerSpawnerConfig {
    * Example: xf46zra-blocks-cannons-gestures.dx-tooling.org
    */
   baseDomain: string;
+  /** Where containers report their lifecycle (disabled when unset) */
+  lifecycleWebhook?: LifecycleWebhookTarget;
+  /** Secret player tokens are signed with (players join anonymously when unset) */
+  playerTokenSecret?: string;
 }
 
 /**
@@ -34,7 +49,7 @@ const DEFAULT_CONFIG: DockerSpawnerConfig = {
 /**
  * Docker spawner that uses the docker-cli-wrapper.sh script.
  */
-export class DockerSpawner {
+export class DockerSpawner implements SessionSpawner {
   private readonly config: DockerSpawnerConfig;
 
   constructor(config: Partial<DockerSpawnerConfig> = {}) {
@@ -62,8 +77,9 @@ export class DockerSpawner {
     sessionId: string,
     appId: string,
     withBot: boolean,
-    botDifficulty = 0.5
-  ): Promise<void> {
+    botDifficulty = 0.5,
+    accessKeys?: SessionAccessKeys
+  ): Promise<SpawnedSession> {
     const containerName = `session-${appId}-${sessionId}`;
     const hostname = `${sessionId}-${appId}-gestures.${this.config.baseDomain}`;
     const routerName = `session-${appId}-${sessionId}`;
@@ -86,6 +102,11 @@ export class DockerSpawner {
       `WITH_BOT=${withBot}`,
       '-e',
       `BOT_DIFFICULTY=${botDifficulty}`,
+      ...Object.entries({
+        ...getLifecycleWebhookEnv(this.config.lifecycleWebhook, sessionId),
+        ...getPlayerTokenEnv(this.config.playerTokenSecret),
+        ...getSessionAccessEnv(accessKeys),
+      }).flatMap(([name, value]) => ['-e', `${name}=${value}`]),
       // Traefik labels
       '-l',
       'traefik.enable=true',
@@ -107,9 +128,15 @@ export class DockerSpawner {
 
     try {
       await this.exec(args);
-      console.log(`Spawned container: ${containerName}`);
+      logger.info('Spawned container', { sessionId, appId, container: containerName });
+      return { sessionUrl: `https://${hostname}` };
     } catch (err) {
-      console.error(`Failed to spawn container ${containerName}:`, err);
+      logger.error('Failed to spawn container', {
+        sessionId,
+        appId,
+        container: containerName,
+        error: err,
+      });
       throw err;
     }
   }
@@ -120,9 +147,9 @@ export class DockerSpawner {
   async stop(containerName: string): Promise<void> {
     try {
       await this.exec(['stop', containerName]);
-      console.log(`Stopped container: ${containerName}`);
+      logger.info('Stopped container', { container: containerName });
     } catch (err) {
-      console.error(`Failed to stop container ${containerName}:`, err);
+      logger.error('Failed to stop container', { container: containerName, error: err });
       throw err;
     }
   }
@@ -133,9 +160,9 @@ export class DockerSpawner {
   async remove(containerName: string): Promise<void> {
     try {
       await this.exec(['rm', containerName]);
-      console.log(`Removed container: ${containerName}`);
+      logger.info('Removed container', { container: containerName });
     } catch (err) {
-      console.error(`Failed to remove container ${containerName}:`, err);
+      logger.error('Failed to remove container', { container: containerName, error: err });
       throw err;
     }
   }
@@ -151,11 +178,38 @@ export class DockerSpawner {
         .split('\n')
         .filter((line) => line.length > 0);
     } catch (err) {
-      console.error('Failed to list containers:', err);
+      logger.error('Failed to list containers', { error: err });
       throw err;
     }
   }
 
+  /**
+   * Report a container's state and health check from `docker inspect`.
+   */
+  async inspect(containerName: string): Promise<SessionHealth> {
+    const { stdout } = await this.exec(['inspect', '--format', '{{json .State}}', containerName]);
+    const state = JSON.parse(stdout) as {
+      Status: string;
+      Running: boolean;
+      StartedAt?: string;
+      Health?: { Status: string };
+    };
+    return {
+      running: state.Running,
+      state: state.Status,
+      ...(state.Health && { health: state.Health.Status }),
+      ...(state.StartedAt && { startedAt: new Date(state.StartedAt) }),
+    };
+  }
+
+  /**
+   * Fetch a container's last log lines (stdout and stderr).
+   */
+  async logs(containerName: string, tail: number): Promise<string> {
+    const { stdout, stderr } = await this.exec(['logs', '--tail', String(tail), containerName]);
+    return stdout + stderr;
+  }
+
   /**
    * Execute a docker command via the wrapper script.
    * The wrapper script is executed directly (no sudo) since the container
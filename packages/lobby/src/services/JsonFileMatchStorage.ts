@@ -0,0 +1,33 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { MatchRecord } from '../types.js';
+import type { MatchStorage } from './MatchStorage.js';
+
+/**
+ * Match as written to the file.
+ */
+type StoredMatch = Omit<MatchRecord, 'endedAt'> & { endedAt: string };
+
+/**
+ * Storage that appends matches to a JSON Lines file (one match per line).
+ * History only grows, so appending avoids rewriting the whole file.
+ */
+export class JsonFileMatchStorage implements MatchStorage {
+  constructor(private readonly path: string) {}
+
+  load(): MatchRecord[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => {
+        const stored = JSON.parse(line) as StoredMatch;
+        return { ...stored, endedAt: new Date(stored.endedAt) };
+      });
+  }
+
+  save(match: MatchRecord): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(match)}\n`);
+  }
+}
@@ -0,0 +1,57 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { AppSession } from '../types.js';
+import type { SessionStorage } from './SessionStorage.js';
+
+/**
+ * Session record as written to the JSON file.
+ */
+type StoredSession = Omit<AppSession, 'createdAt' | 'participantCount'> & {
+  createdAt: string;
+  /** Missing in files written before participant counts were tracked */
+  participantCount?: number;
+};
+
+/**
+ * Storage that keeps all sessions in one JSON file.
+ * The file is rewritten on every change (via a temp file and rename, so a
+ * crash mid-write never leaves it truncated).
+ */
+export class JsonFileSessionStorage implements SessionStorage {
+  private readonly sessions = new Map<string, AppSession>();
+
+  constructor(private readonly path: string) {}
+
+  load(): AppSession[] {
+    this.sessions.clear();
+    if (existsSync(this.path)) {
+      const stored = JSON.parse(readFileSync(this.path, 'utf8')) as StoredSession[];
+      for (const session of stored) {
+        this.sessions.set(session.id, {
+          ...session,
+          participantCount: session.participantCount ?? 0,
+          createdAt: new Date(session.createdAt),
+        });
+      }
+    }
+    return Array.from(this.sessions.values());
+  }
+
+  save(session: AppSession): void {
+    this.sessions.set(session.id, { ...session });
+    this.write();
+  }
+
+  delete(id: string): void {
+    if (this.sessions.delete(id)) {
+      this.write();
+    }
+  }
+
+  private write(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(Array.from(this.sessions.values()), null, 2));
+    renameSync(tempPath, this.path);
+  }
+}
@@ -0,0 +1,102 @@
+import { type Counter, type Histogram, MetricsRegistry } from '@gesture-app/framework-server';
+import { LIVE_STATUSES } from './reconcileSessions.js';
+import type { SessionSpawner } from './SessionSpawner.js';
+import type { SessionStore } from './SessionStore.js';
+
+/** Spawn duration buckets, in seconds (containers take a few seconds to come up) */
+const SPAWN_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+/**
+ * Options for lobby metrics.
+ */
+export interface LobbyMetricsOptions {
+  /** Registry to add the metrics to (default: a new one) */
+  registry?: MetricsRegistry;
+  /** Clock in milliseconds for spawn durations (default: performance.now) */
+  now?: () => number;
+}
+
+/**
+ * Prometheus metrics of the lobby.
+ *
+ * Spawns are counted by wrapping the spawner with `instrument`; live session
+ * counts are read from the store whenever the metrics are scraped.
+ */
+export class LobbyMetrics {
+  readonly registry: MetricsRegistry;
+  private readonly now: () => number;
+  private readonly created: Counter;
+  private readonly failed: Counter;
+  private readonly spawnDuration: Histogram;
+
+  constructor(sessionStore: SessionStore, options: LobbyMetricsOptions = {}) {
+    this.registry = options.registry ?? new MetricsRegistry();
+    this.now = options.now ?? (() => performance.now());
+
+    this.created = this.registry.counter({
+      name: 'lobby_sessions_created_total',
+      help: 'Session servers started, by app',
+      labelNames: ['app'],
+    });
+    this.failed = this.registry.counter({
+      name: 'lobby_sessions_failed_total',
+      help: 'Session servers that failed to start, by app',
+      labelNames: ['app'],
+    });
+    this.spawnDuration = this.registry.histogram({
+      name: 'lobby_spawn_duration_seconds',
+      help: 'Time taken to start a session server, by app',
+      labelNames: ['app'],
+      buckets: SPAWN_DURATION_BUCKETS,
+    });
+    this.registry.gauge({
+      name: 'lobby_sessions',
+      help: 'Live sessions, by app and status',
+      labelNames: ['app', 'status'],
+      collect: (gauge) => {
+        gauge.reset();
+        for (const session of sessionStore.getAll()) {
+          if (LIVE_STATUSES.has(session.status)) {
+            gauge.inc({ app: session.appId, status: session.status });
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Wrap a spawner so every spawn is timed and counted.
+   */
+  instrument(spawner: SessionSpawner): SessionSpawner {
+    const inspect = spawner.inspect?.bind(spawner);
+    const logs = spawner.logs?.bind(spawner);
+
+    return {
+      spawn: async (sessionId, appId, ...rest) => {
+        const startedAt = this.now();
+        try {
+          const spawned = await spawner.spawn(sessionId, appId, ...rest);
+          this.created.inc({ app: appId });
+          return spawned;
+        } catch (err) {
+          this.failed.inc({ app: appId });
+          throw err;
+        } finally {
+          this.spawnDuration.observe((this.now() - startedAt) / 1000, { app: appId });
+        }
+      },
+      stop: (name) => spawner.stop(name),
+      remove: (name) => spawner.remove(name),
+      list: () => spawner.list(),
+      ...(inspect && { inspect }),
+      ...(logs && { logs }),
+    };
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format.
+   */
+  render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,279 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { connect, createServer } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { logger } from '../logger.js';
+import {
+  getLifecycleWebhookEnv,
+  getPlayerTokenEnv,
+  getSessionAccessEnv,
+  type LifecycleWebhookTarget,
+  type SessionAccessKeys,
+  type SessionHealth,
+  type SessionSpawner,
+  type SpawnedSession,
+} from './SessionSpawner.js';
+
+/**
+ * How to run one app's session server locally.
+ */
+export interface LocalAppConfig {
+  /** Built app server script; listens on the PORT it is given */
+  serverScript: string;
+  /** Built bot script; receives the session's WebSocket URL as its argument */
+  botScript?: string;
+  /** App client that players open (e.g. its Vite dev server) */
+  clientUrl: string;
+  /** Working directory for the app's processes (apps read config relative to it) */
+  cwd?: string;
+}
+
+/**
+ * Configuration for local spawner.
+ */
+export interface LocalSpawnerConfig {
+  /** Host the session servers listen on */
+  host: string;
+  /** Lobby URL handed to the app client for its "back to lobby" link */
+  lobbyUrl: string;
+  /** Per-app servers, keyed by appId */
+  apps: Record<string, LocalAppConfig>;
+  /** How long to wait for a session server to accept connections */
+  startupTimeoutMs: number;
+  /** Where session servers report their lifecycle (disabled when unset) */
+  lifecycleWebhook?: LifecycleWebhookTarget;
+  /** Secret player tokens are signed with (players join anonymously when unset) */
+  playerTokenSecret?: string;
+}
+
+/**
+ * Resolve a path relative to an app package's dist folder.
+ */
+function resolveAppScript(packageName: string, path: string): string {
+  return fileURLToPath(new URL(path, import.meta.resolve(packageName)));
+}
+
+/**
+ * Apps bundled with the lobby. Resolved lazily so the lobby does not
+ * require them to be built unless sessions are spawned locally.
+ */
+function getDefaultApps(): Record<string, LocalAppConfig> {
+  return {
+    'blocks-cannons': {
+      serverScript: resolveAppScript('@gesture-app/blocks-cannons', './server/server.js'),
+      botScript: resolveAppScript('@gesture-app/blocks-cannons', './server/bot/index.js'),
+      clientUrl: 'http://localhost:5173',
+      cwd: resolveAppScript('@gesture-app/blocks-cannons', '..'),
+    },
+    'hello-hands': {
+      serverScript: resolveAppScript('@gesture-app/hello-hands', './server/server.js'),
+      clientUrl: 'http://localhost:5174',
+      cwd: resolveAppScript('@gesture-app/hello-hands', '..'),
+    },
+  };
+}
+
+/**
+ * Processes making up one local session.
+ */
+interface LocalSession {
+  server: ChildProcess;
+  bot: ChildProcess | null;
+  startedAt: Date;
+}
+
+/**
+ * Spawner that runs app servers (and bots) as child processes on free
+ * local ports, so the lobby works without a Docker daemon.
+ */
+export class LocalSpawner implements SessionSpawner {
+  private readonly config: LocalSpawnerConfig;
+  private readonly sessions = new Map<string, LocalSession>();
+
+  constructor(config: Partial<LocalSpawnerConfig> = {}) {
+    this.config = {
+      host: 'localhost',
+      lobbyUrl: 'http://localhost:3002',
+      startupTimeoutMs: 10000,
+      ...config,
+      apps: config.apps ?? getDefaultApps(),
+    };
+  }
+
+  /**
+   * Spawn a new app session server.
+   * Resolves once the server accepts connections and the bot was started.
+   */
+  async spawn(
+    sessionId: string,
+    appId: string,
+    withBot: boolean,
+    botDifficulty = 0.5,
+    accessKeys?: SessionAccessKeys
+  ): Promise<SpawnedSession> {
+    const name = `session-${appId}-${sessionId}`;
+    const app = this.config.apps[appId];
+    if (!app) {
+      throw new Error(`No local server configured for app: ${appId}`);
+    }
+
+    const port = await findFreePort(this.config.host);
+    const wsUrl = `ws://${this.config.host}:${port}`;
+    const server = this.startProcess(app, app.serverScript, [], {
+      PORT: String(port),
+      SESSION_ID: sessionId,
+      APP_ID: appId,
+      ...getLifecycleWebhookEnv(this.config.lifecycleWebhook, sessionId),
+      ...getPlayerTokenEnv(this.config.playerTokenSecret),
+      ...getSessionAccessEnv(accessKeys),
+    });
+    const session: LocalSession = { server, bot: null, startedAt: new Date() };
+    this.sessions.set(name, session);
+
+    // A session server exits on its own when idle; take its bot along
+    server.once('exit', () => {
+      session.bot?.kill();
+      if (this.sessions.get(name) === session) {
+        this.sessions.delete(name);
+      }
+    });
+
+    try {
+      await waitForPort(this.config.host, port, server, this.config.startupTimeoutMs);
+    } catch (err) {
+      server.kill();
+      logger.error('Failed to spawn session', { sessionId, appId, name, error: err });
+      throw err;
+    }
+
+    if (withBot && app.botScript) {
+      session.bot = this.startProcess(app, app.botScript, [wsUrl], {
+        BOT_DIFFICULTY: String(botDifficulty),
+        SESSION_ID: sessionId,
+        APP_ID: appId,
+      });
+    }
+
+    logger.info('Spawned session', { sessionId, appId, name, port });
+
+    const sessionUrl = new URL(app.clientUrl);
+    sessionUrl.searchParams.set('appId', appId);
+    sessionUrl.searchParams.set('wsUrl', wsUrl);
+    sessionUrl.searchParams.set('lobbyUrl', this.config.lobbyUrl);
+    return { sessionUrl: sessionUrl.toString() };
+  }
+
+  /**
+   * Stop a session's processes and wait for the server to exit.
+   */
+  async stop(name: string): Promise<void> {
+    const session = this.sessions.get(name);
+    if (!session) {
+      throw new Error(`Session not running: ${name}`);
+    }
+
+    session.bot?.kill();
+    if (session.server.exitCode === null && session.server.signalCode === null) {
+      const exited = new Promise((resolve) => session.server.once('exit', resolve));
+      session.server.kill();
+      await exited;
+    }
+    logger.info('Stopped session', { name });
+  }
+
+  /**
+   * Forget a session. Stopped sessions are released on exit, so this
+   * only matters for sessions whose exit was not observed yet.
+   */
+  async remove(name: string): Promise<void> {
+    this.sessions.delete(name);
+  }
+
+  /**
+   * List running sessions.
+   */
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Report whether a session's server process is still running.
+   * Logs go to the lobby's own output, so this backend has no `logs`.
+   */
+  async inspect(name: string): Promise<SessionHealth> {
+    const session = this.sessions.get(name);
+    const running =
+      session !== undefined &&
+      session.server.exitCode === null &&
+      session.server.signalCode === null;
+    return {
+      running,
+      state: running ? 'running' : 'exited',
+      ...(session && { startedAt: session.startedAt }),
+    };
+  }
+
+  private startProcess(
+    app: LocalAppConfig,
+    script: string,
+    args: string[],
+    env: Record<string, string>
+  ): ChildProcess {
+    return spawn(process.execPath, [script, ...args], {
+      cwd: app.cwd,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'inherit', 'inherit'],
+    });
+  }
+}
+
+/**
+ * Ask the OS for a port nobody is listening on.
+ */
+function findFreePort(host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, host, () => {
+      const address = probe.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Poll until something accepts connections on the port.
+ * @throws Error if the process exits or the timeout passes first
+ */
+async function waitForPort(
+  host: string,
+  port: number,
+  child: ChildProcess,
+  timeoutMs: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      throw new Error(`Session server exited before listening on port ${port}`);
+    }
+    if (await canConnect(host, port)) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`Session server did not listen on port ${port} within ${timeoutMs}ms`);
+}
+
+function canConnect(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect({ host, port });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => {
+      socket.destroy();
+      resolve(false);
+    });
+  });
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  LifecycleEvent,
+  MatchParticipant,
+  PlayerProfile,
+} from '@gesture-app/framework-protocol';
+import type { LeaderboardEntry, MatchOutcome, MatchRecord, RatingChange } from '../types.js';
+import { INITIAL_RATING, updateRating } from './elo.js';
+import { type MatchStorage, MemoryMatchStorage } from './MatchStorage.js';
+
+type SessionEndedEvent = Extract<LifecycleEvent, { type: 'session_ended' }>;
+
+/**
+ * A player's rating and record in one app.
+ */
+interface Standing {
+  /** Profile as of the player's latest match */
+  player: PlayerProfile;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/**
+ * Outcome of a match for one team.
+ */
+export function getOutcome(match: MatchRecord, teamId: number): MatchOutcome {
+  if (match.winnerTeamId === null) return 'draw';
+  return match.winnerTeamId === teamId ? 'win' : 'loss';
+}
+
+/**
+ * Match history with per-app Elo ratings.
+ *
+ * A match is rated when exactly two teams of signed-in humans played it;
+ * matches with bots or anonymous players are kept in history only. Ratings
+ * and standings are rebuilt from the stored matches on startup.
+ */
+export class MatchHistory {
+  private readonly matches: MatchRecord[] = [];
+  /** Matches by ID, to recognize repeated deliveries */
+  private readonly matchesById = new Map<string, MatchRecord>();
+  /** Standings by app ID, then by player ID */
+  private readonly standings = new Map<string, Map<string, Standing>>();
+
+  constructor(private readonly storage: MatchStorage = new MemoryMatchStorage()) {
+    for (const match of storage.load()) {
+      this.apply(match);
+    }
+  }
+
+  /**
+   * Record a match a session server reported as ended and update ratings.
+   * A repeated report of the same numbered match (e.g. a webhook retry) is
+   * neither stored nor rated again.
+   * @returns The recorded match, or the one recorded before for a repeat
+   */
+  record(
+    sessionId: string,
+    appId: string,
+    event: SessionEndedEvent,
+    endedAt: Date = new Date()
+  ): MatchRecord {
+    const id = event.matchNumber !== undefined ? `${sessionId}:${event.matchNumber}` : randomUUID();
+    const recorded = this.matchesById.get(id);
+    if (recorded) return recorded;
+
+    const participants = event.participants ?? [];
+    const winnerTeamId = event.winnerTeamId ?? null;
+    const match: MatchRecord = {
+      id,
+      sessionId,
+      appId,
+      endedAt,
+      durationMs: event.durationMs ?? null,
+      reason: event.reason,
+      winnerTeamId,
+      participants,
+      ...(event.appData !== undefined && { appData: event.appData }),
+      ratingChanges: this.rate(appId, participants, winnerTeamId),
+    };
+
+    this.storage.save(match);
+    this.apply(match);
+    return match;
+  }
+
+  /**
+   * Current rating of a player in an app.
+   */
+  getRating(appId: string, playerId: string): number {
+    return this.standings.get(appId)?.get(playerId)?.rating ?? INITIAL_RATING;
+  }
+
+  /**
+   * Highest-rated players of an app.
+   */
+  getLeaderboard(appId: string, limit = 20): LeaderboardEntry[] {
+    const standings = Array.from(this.standings.get(appId)?.values() ?? []);
+    return standings
+      .sort((a, b) => b.rating - a.rating || b.wins - a.wins)
+      .slice(0, limit)
+      .map((standing, index) => ({ rank: index + 1, ...standing }));
+  }
+
+  /**
+   * Matches a player took part in, newest first.
+   */
+  getPlayerHistory(playerId: string, limit = 20): MatchRecord[] {
+    const history: MatchRecord[] = [];
+    for (let i = this.matches.length - 1; i >= 0 && history.length < limit; i--) {
+      const match = this.matches[i];
+      if (match?.participants.some((participant) => participant.player?.id === playerId)) {
+        history.push(match);
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Compute rating changes, or none if the match is unrated.
+   */
+  private rate(
+    appId: string,
+    participants: readonly MatchParticipant[],
+    winnerTeamId: number | null
+  ): Record<string, RatingChange> {
+    if (participants.some((participant) => participant.isBot || !participant.player)) return {};
+
+    // Player IDs by team (a player connected twice counts once)
+    const teams = new Map<number, Set<string>>();
+    for (const { teamId, player } of participants) {
+      if (!player) continue;
+      const team = teams.get(teamId) ?? new Set<string>();
+      team.add(player.id);
+      teams.set(teamId, team);
+    }
+
+    const [first, second, ...rest] = Array.from(teams.entries());
+    if (!first || !second || rest.length > 0) return {};
+    if (Array.from(first[1]).some((playerId) => second[1].has(playerId))) return {};
+
+    const average = (playerIds: Set<string>) =>
+      Array.from(playerIds).reduce((sum, id) => sum + this.getRating(appId, id), 0) /
+      playerIds.size;
+
+    const changes: Record<string, RatingChange> = {};
+    const rateTeam = (teamId: number, playerIds: Set<string>, opponentIds: Set<string>) => {
+      const score = winnerTeamId === null ? 0.5 : winnerTeamId === teamId ? 1 : 0;
+      const opponentRating = average(opponentIds);
+      for (const playerId of playerIds) {
+        const before = this.getRating(appId, playerId);
+        changes[playerId] = { before, after: updateRating(before, opponentRating, score) };
+      }
+    };
+    rateTeam(first[0], first[1], second[1]);
+    rateTeam(second[0], second[1], first[1]);
+    return changes;
+  }
+
+  /**
+   * Add a match to the in-memory history and standings.
+   */
+  private apply(match: MatchRecord): void {
+    this.matches.push(match);
+    this.matchesById.set(match.id, match);
+
+    const standings = this.standings.get(match.appId) ?? new Map<string, Standing>();
+    this.standings.set(match.appId, standings);
+
+    const seen = new Set<string>();
+    for (const { teamId, player } of match.participants) {
+      const change = player && match.ratingChanges[player.id];
+      if (!player || !change || seen.has(player.id)) continue;
+      seen.add(player.id);
+
+      const standing = standings.get(player.id) ?? {
+        player,
+        rating: INITIAL_RATING,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+      };
+      const outcome = getOutcome(match, teamId);
+      standing.player = player;
+      standing.rating = change.after;
+      standing.wins += outcome === 'win' ? 1 : 0;
+      standing.losses += outcome === 'loss' ? 1 : 0;
+      standing.draws += outcome === 'draw' ? 1 : 0;
+      standings.set(player.id, standing);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { MatchRecord } from '../types.js';
+
+/**
+ * Backend that persists finished matches.
+ *
+ * Matches never change once recorded, so backends only need to load once
+ * and append.
+ */
+export interface MatchStorage {
+  /**
+   * Load every stored match, oldest first (called once when history is created).
+   */
+  load(): MatchRecord[];
+
+  /**
+   * Append a match.
+   */
+  save(match: MatchRecord): void;
+}
+
+/**
+ * Storage that keeps nothing beyond the process lifetime.
+ */
+export class MemoryMatchStorage implements MatchStorage {
+  private readonly matches: MatchRecord[] = [];
+
+  load(): MatchRecord[] {
+    return [...this.matches];
+  }
+
+  save(match: MatchRecord): void {
+    this.matches.push(match);
+  }
+}
@@ -0,0 +1,275 @@
+import { randomUUID } from 'node:crypto';
+import type { MatchTicket, OpponentType, TicketStatus } from '../types.js';
+import { launchSession } from './launchSession.js';
+import type { SessionSpawner } from './SessionSpawner.js';
+import type { SessionStore } from './SessionStore.js';
+import { checkSessionCapacity, type SessionLimits } from './sessionCapacity.js';
+
+/**
+ * Configuration for matchmaking.
+ */
+export interface MatchmakerConfig extends SessionLimits {
+  /** How long a player waits for a human opponent before a bot is offered */
+  timeoutMs: number;
+  /** Largest rating difference between paired players (when both are rated) */
+  maxRatingGap: number;
+  /** How long tickets stay queryable after they left the queue */
+  retentionMs: number;
+}
+
+/**
+ * Default configuration.
+ */
+const DEFAULT_CONFIG: MatchmakerConfig = {
+  timeoutMs: 60_000,
+  maxRatingGap: 200,
+  retentionMs: 5 * 60_000,
+};
+
+/**
+ * Called with the ticket after every change.
+ */
+export type TicketListener = (ticket: MatchTicket) => void;
+
+/**
+ * Pairs players waiting for a human opponent and spawns their session.
+ * Tickets live in memory only; players simply queue again after a restart.
+ */
+export class Matchmaker {
+  private readonly tickets = new Map<string, MatchTicket>();
+  private readonly listeners = new Map<string, Set<TicketListener>>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly config: MatchmakerConfig;
+
+  constructor(
+    private readonly sessionStore: SessionStore,
+    private readonly spawner: SessionSpawner,
+    config: Partial<MatchmakerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Put a player in the queue for an app.
+   * If a compatible player is already waiting, their session starts right away.
+   */
+  enqueue(
+    appId: string,
+    options: Pick<MatchTicket, 'rating' | 'region' | 'playerId' | 'playerToken' | 'clientIp'> = {}
+  ): MatchTicket {
+    const ticket: MatchTicket = {
+      id: randomUUID(),
+      appId,
+      ...(options.rating !== undefined && { rating: options.rating }),
+      ...(options.region !== undefined && { region: options.region }),
+      ...(options.playerId !== undefined && { playerId: options.playerId }),
+      ...(options.playerToken !== undefined && { playerToken: options.playerToken }),
+      ...(options.clientIp !== undefined && { clientIp: options.clientIp }),
+      status: 'queued',
+      opponentType: null,
+      sessionId: null,
+      sessionUrl: null,
+      enqueuedAt: new Date(),
+    };
+    this.tickets.set(ticket.id, ticket);
+
+    const opponent = this.findOpponent(ticket);
+    if (opponent) {
+      void this.startMatch([opponent, ticket], 'human');
+    } else {
+      this.schedule(ticket.id, this.config.timeoutMs, () => this.update(ticket, 'timed_out'));
+    }
+    return ticket;
+  }
+
+  /**
+   * Get a ticket by ID.
+   */
+  get(id: string): MatchTicket | undefined {
+    return this.tickets.get(id);
+  }
+
+  /**
+   * Take a player out of the queue.
+   * @returns false if the ticket does not exist or its session is already starting
+   */
+  cancel(id: string): boolean {
+    const ticket = this.tickets.get(id);
+    if (!ticket || (ticket.status !== 'queued' && ticket.status !== 'timed_out')) {
+      return false;
+    }
+    this.update(ticket, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Start a bot session for a player whose wait timed out.
+   * Resolves once the session is spawned (or failed); other statuses are left alone.
+   */
+  async acceptBot(id: string, botDifficulty?: number): Promise<MatchTicket | undefined> {
+    const ticket = this.tickets.get(id);
+    if (ticket?.status === 'timed_out') {
+      await this.startMatch([ticket], 'bot', botDifficulty);
+    }
+    return ticket;
+  }
+
+  /**
+   * Listen for changes to a ticket.
+   * @returns Function removing the listener
+   */
+  subscribe(id: string, listener: TicketListener): () => void {
+    let listeners = this.listeners.get(id);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(id, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Players currently waiting for an opponent, optionally for one app.
+   */
+  getQueued(appId?: string): MatchTicket[] {
+    return Array.from(this.tickets.values()).filter(
+      (t) => t.status === 'queued' && (appId === undefined || t.appId === appId)
+    );
+  }
+
+  /**
+   * Stop all timers (tickets are kept).
+   */
+  close(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Find the longest-waiting player the ticket can be paired with.
+   */
+  private findOpponent(ticket: MatchTicket): MatchTicket | undefined {
+    return this.getQueued(ticket.appId).find(
+      (other) =>
+        other.id !== ticket.id &&
+        !this.isSamePlayer(other, ticket) &&
+        (other.region === undefined ||
+          ticket.region === undefined ||
+          other.region === ticket.region) &&
+        (other.rating === undefined ||
+          ticket.rating === undefined ||
+          Math.abs(other.rating - ticket.rating) <= this.config.maxRatingGap)
+    );
+  }
+
+  /**
+   * Whether two tickets may come from the same player: the same account, or,
+   * when either is anonymous, the same address.
+   */
+  private isSamePlayer(a: MatchTicket, b: MatchTicket): boolean {
+    if (a.playerId !== undefined && b.playerId !== undefined) {
+      return a.playerId === b.playerId;
+    }
+    return a.clientIp !== undefined && a.clientIp === b.clientIp;
+  }
+
+  /**
+   * Spawn one session for the given tickets and point them all at it.
+   * Tickets fail with a busy error if the lobby or app is at capacity.
+   */
+  private async startMatch(
+    tickets: MatchTicket[],
+    opponentType: OpponentType,
+    botDifficulty?: number
+  ): Promise<void> {
+    const appId = tickets[0]?.appId ?? '';
+    const busy = checkSessionCapacity(this.sessionStore, appId, this.config);
+    if (busy) {
+      for (const ticket of tickets) {
+        this.update(ticket, 'error', {
+          errorMessage: busy.error,
+          errorCode: busy.code,
+          retryAfterSeconds: busy.retryAfterSeconds,
+        });
+      }
+      return;
+    }
+
+    for (const ticket of tickets) {
+      this.update(ticket, 'starting', { opponentType });
+    }
+
+    try {
+      const session = await launchSession(
+        this.sessionStore,
+        this.spawner,
+        appId,
+        opponentType,
+        botDifficulty
+      );
+      for (const ticket of tickets) {
+        this.update(ticket, 'matched', {
+          sessionId: session.id,
+          sessionUrl: session.sessionUrl,
+        });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to spawn session';
+      for (const ticket of tickets) {
+        this.update(ticket, 'error', { errorMessage });
+      }
+    }
+  }
+
+  /**
+   * Change a ticket's status and notify its listeners.
+   * Tickets that left the queue are forgotten after the retention period.
+   */
+  private update(
+    ticket: MatchTicket,
+    status: TicketStatus,
+    changes: Partial<Omit<MatchTicket, 'id' | 'status'>> = {}
+  ): void {
+    Object.assign(ticket, changes);
+    ticket.status = status;
+
+    if (status === 'starting') {
+      this.clearTimer(ticket.id);
+    } else if (status !== 'queued') {
+      this.schedule(ticket.id, this.config.retentionMs, () => this.forget(ticket.id));
+    }
+
+    for (const listener of this.listeners.get(ticket.id) ?? []) {
+      listener(ticket);
+    }
+  }
+
+  private forget(id: string): void {
+    this.clearTimer(id);
+    this.tickets.delete(id);
+    this.listeners.delete(id);
+  }
+
+  private schedule(id: string, delayMs: number, callback: () => void): void {
+    this.clearTimer(id);
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      callback();
+    }, delayMs);
+    // Pending tickets must not keep the process alive
+    timer.unref();
+    this.timers.set(id, timer);
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
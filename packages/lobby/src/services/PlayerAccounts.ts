@@ -0,0 +1,63 @@
+import { randomUUID } from 'node:crypto';
+import { PLAYER_TOKEN_QUERY_PARAM, type PlayerProfile } from '@gesture-app/framework-protocol';
+import { signPlayerToken, verifyPlayerToken } from '@gesture-app/framework-server';
+
+/**
+ * A player account together with its signed token.
+ */
+export interface PlayerCredentials {
+  player: PlayerProfile;
+  token: string;
+}
+
+/**
+ * Lightweight player accounts.
+ * Accounts are not stored: the signed token is the account, so it works
+ * across lobby restarts and is verified by session servers sharing the secret.
+ */
+export class PlayerAccounts {
+  constructor(
+    private readonly secret: string,
+    private readonly ttlMs?: number
+  ) {}
+
+  /**
+   * Create an account with a new stable player ID.
+   */
+  create(displayName: string, avatarColor: string): PlayerCredentials {
+    return this.issue({ id: randomUUID(), displayName, avatarColor });
+  }
+
+  /**
+   * Re-issue a token after the player changed its profile.
+   * The player ID stays the same.
+   */
+  update(player: PlayerProfile, changes: Partial<Omit<PlayerProfile, 'id'>>): PlayerCredentials {
+    return this.issue({ ...player, ...changes, id: player.id });
+  }
+
+  /**
+   * Verify a token.
+   * @returns The player's profile, or null if the token is invalid or expired
+   */
+  verify(token: string): PlayerProfile | null {
+    return verifyPlayerToken(token, this.secret);
+  }
+
+  private issue(player: PlayerProfile): PlayerCredentials {
+    const token = signPlayerToken(player, this.secret, {
+      ...(this.ttlMs !== undefined && { ttlMs: this.ttlMs }),
+    });
+    return { player, token };
+  }
+}
+
+/**
+ * Add a player's token to their own copy of a session link.
+ * The app client forwards it to the session server.
+ */
+export function withPlayerTokenParam(sessionUrl: string, token: string): string {
+  const url = new URL(sessionUrl);
+  url.searchParams.set(PLAYER_TOKEN_QUERY_PARAM, token);
+  return url.toString();
+}
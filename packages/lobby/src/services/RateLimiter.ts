@@ -0,0 +1,72 @@
+/**
+ * Configuration for rate limiting.
+ */
+export interface RateLimiterConfig {
+  /** Requests a client may make per window */
+  limit: number;
+  /** Length of the sliding window */
+  windowMs: number;
+}
+
+/**
+ * Default configuration.
+ */
+const DEFAULT_CONFIG: RateLimiterConfig = {
+  limit: 10,
+  windowMs: 60_000,
+};
+
+/**
+ * Sliding-window rate limiter keyed by client (e.g. IP address).
+ * Counts live in memory only.
+ */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private readonly config: RateLimiterConfig;
+  private lastSweep = Date.now();
+
+  constructor(config: Partial<RateLimiterConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Count a request from a client if it is within the limit.
+   * @returns 0 if the request is allowed, otherwise how long until the client may retry
+   */
+  consume(key: string): number {
+    const now = Date.now();
+    this.sweep(now);
+
+    const recent = this.getRecent(key, now);
+    if (recent.length >= this.config.limit) {
+      const oldest = recent[0] ?? now;
+      return oldest + this.config.windowMs - now;
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  private getRecent(key: string, now: number): number[] {
+    const since = now - this.config.windowMs;
+    return (this.hits.get(key) ?? []).filter((time) => time > since);
+  }
+
+  /**
+   * Forget clients that have not made a request within the window.
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.config.windowMs) return;
+    this.lastSweep = now;
+
+    for (const key of this.hits.keys()) {
+      const recent = this.getRecent(key, now);
+      if (recent.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, recent);
+      }
+    }
+  }
+}
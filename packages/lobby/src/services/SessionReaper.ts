@@ -0,0 +1,200 @@
+import { logger } from '../logger.js';
+import { LIVE_STATUSES, listRunning } from './reconcileSessions.js';
+import type { SessionSpawner } from './SessionSpawner.js';
+import type { SessionStore } from './SessionStore.js';
+
+/**
+ * Configuration for the session reaper.
+ */
+export interface SessionReaperConfig {
+  /** Time between passes */
+  intervalMs: number;
+  /** Sessions running longer than this are stopped */
+  maxLifetimeMs: number;
+  /** Ended and failed session records are dropped after this long */
+  recordRetentionMs: number;
+}
+
+/**
+ * Default configuration.
+ */
+const DEFAULT_CONFIG: SessionReaperConfig = {
+  intervalMs: 60_000,
+  maxLifetimeMs: 3 * 60 * 60 * 1000,
+  recordRetentionMs: 60 * 60 * 1000,
+};
+
+/**
+ * What one pass did, by session name.
+ */
+export interface ReapResult {
+  /** Sessions stopped for running past the maximum lifetime */
+  expired: string[];
+  /** Sessions whose server was gone; now marked ended */
+  vanished: string[];
+  /** Running sessions without a stored record (left alone) */
+  orphaned: string[];
+  /** Number of old ended or failed records dropped */
+  removed: number;
+  /** Sessions that could not be stopped */
+  failed: string[];
+}
+
+/**
+ * Totals over all passes since the lobby started.
+ */
+export interface ReaperStats {
+  runs: number;
+  expired: number;
+  vanished: number;
+  removed: number;
+  failed: number;
+  /** Orphans seen by the last pass */
+  orphaned: number;
+  /** When the last pass finished */
+  lastRunAt: Date | null;
+  /** How long the last pass took */
+  lastRunDurationMs: number;
+}
+
+/**
+ * Periodically reconciles stored sessions with the sessions the spawner runs.
+ *
+ * Each pass stops sessions that outlived the maximum lifetime, marks sessions
+ * whose server exited on its own as ended, and drops old ended records.
+ */
+export class SessionReaper {
+  private readonly config: SessionReaperConfig;
+  private readonly stats: ReaperStats = {
+    runs: 0,
+    expired: 0,
+    vanished: 0,
+    removed: 0,
+    failed: 0,
+    orphaned: 0,
+    lastRunAt: null,
+    lastRunDurationMs: 0,
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly sessionStore: SessionStore,
+    private readonly spawner: SessionSpawner,
+    config: Partial<SessionReaperConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start reaping every `intervalMs`.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.reap().catch((err) => logger.error('Session reaper failed', { error: err }));
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop reaping. A pass in progress still completes.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Totals over all passes so far.
+   */
+  getStats(): Readonly<ReaperStats> {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run one pass.
+   * @returns What the pass did, or null if a pass was already running
+   */
+  async reap(): Promise<ReapResult | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      return await this.runPass();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runPass(): Promise<ReapResult> {
+    const startedAt = Date.now();
+    // Drop old records first, so sessions ended by this pass stay visible until the next
+    const removed = this.sessionStore.cleanup(this.config.recordRetentionMs);
+    // Sessions still spawning are not listed yet; only check the ones that were up before listing
+    const settled = new Set(
+      this.sessionStore
+        .getAll()
+        .filter((session) => LIVE_STATUSES.has(session.status) && session.status !== 'starting')
+        .map((session) => session.id)
+    );
+    const running = await listRunning(this.spawner);
+    const result: ReapResult = { expired: [], vanished: [], orphaned: [], removed, failed: [] };
+    const known = new Set<string>();
+
+    for (const session of this.sessionStore.getAll()) {
+      known.add(session.containerName);
+      if (!settled.has(session.id) || !LIVE_STATUSES.has(session.status)) continue;
+
+      if (!running.has(session.containerName)) {
+        this.sessionStore.updateStatus(session.id, 'ended');
+        result.vanished.push(session.containerName);
+      } else if (startedAt - session.createdAt.getTime() > this.config.maxLifetimeMs) {
+        try {
+          await this.spawner.stop(session.containerName);
+          await this.spawner.remove(session.containerName);
+          this.sessionStore.updateStatus(session.id, 'ended');
+          result.expired.push(session.containerName);
+        } catch (err) {
+          logger.error('Failed to stop expired session', {
+            sessionId: session.id,
+            name: session.containerName,
+            error: err,
+          });
+          result.failed.push(session.containerName);
+        }
+      }
+    }
+
+    for (const name of running) {
+      if (!known.has(name)) result.orphaned.push(name);
+    }
+
+    this.record(result, startedAt);
+    return result;
+  }
+
+  private record(result: ReapResult, startedAt: number): void {
+    this.stats.runs++;
+    this.stats.expired += result.expired.length;
+    this.stats.vanished += result.vanished.length;
+    this.stats.removed += result.removed;
+    this.stats.failed += result.failed.length;
+    this.stats.orphaned = result.orphaned.length;
+    this.stats.lastRunAt = new Date();
+    this.stats.lastRunDurationMs = this.stats.lastRunAt.getTime() - startedAt;
+
+    if (
+      result.expired.length + result.vanished.length + result.removed + result.failed.length >
+      0
+    ) {
+      logger.info('Reaped sessions', {
+        expired: result.expired,
+        vanished: result.vanished,
+        removed: result.removed,
+        failed: result.failed,
+      });
+    }
+  }
+}
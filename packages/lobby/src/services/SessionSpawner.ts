@@ -0,0 +1,118 @@
+/**
+ * Where a spawned session can be reached.
+ */
+export interface SpawnedSession {
+  /** URL players open to join the session */
+  sessionUrl: string;
+}
+
+/**
+ * State of a session's server as its backend sees it.
+ */
+export interface SessionHealth {
+  /** Whether the server is running */
+  running: boolean;
+  /** Backend state, e.g. Docker's "running" or "exited" */
+  state: string;
+  /** Health check result, if the backend runs one ("healthy", "unhealthy", "starting") */
+  health?: string;
+  /** When the server started */
+  startedAt?: Date;
+}
+
+/**
+ * Lobby endpoint that session servers report lifecycle events to.
+ */
+export interface LifecycleWebhookTarget {
+  /** Lobby base URL as reachable from session servers */
+  baseUrl: string;
+  /** Secret shared with the session servers */
+  secret: string;
+}
+
+/**
+ * Environment variables telling a session server where to report its lifecycle.
+ */
+export function getLifecycleWebhookEnv(
+  target: LifecycleWebhookTarget | undefined,
+  sessionId: string
+): Record<string, string> {
+  if (!target) return {};
+  return {
+    LIFECYCLE_WEBHOOK_URL: `${target.baseUrl}/api/sessions/${sessionId}/events`,
+    LIFECYCLE_WEBHOOK_SECRET: target.secret,
+  };
+}
+
+/**
+ * Environment variables letting a session server verify player tokens.
+ */
+export function getPlayerTokenEnv(secret: string | undefined): Record<string, string> {
+  return secret ? { PLAYER_TOKEN_SECRET: secret } : {};
+}
+
+/**
+ * Keys a private session server admits players with.
+ * Room passwords are checked by the lobby and never reach the server.
+ */
+export interface SessionAccessKeys {
+  /** Carried by invite links and by links the lobby hands out after a join code */
+  inviteToken: string;
+}
+
+/**
+ * Environment variables making a session server private.
+ */
+export function getSessionAccessEnv(keys: SessionAccessKeys | undefined): Record<string, string> {
+  if (!keys) return {};
+  return { SESSION_INVITE_TOKEN: keys.inviteToken };
+}
+
+/**
+ * Backend that starts and stops app session servers for the lobby.
+ *
+ * Sessions are addressed by name (`session-{appId}-{sessionId}`), which is
+ * the container name for the Docker backend.
+ */
+export interface SessionSpawner {
+  /**
+   * Start a session server, plus a bot opponent when requested.
+   * With access keys the server only admits players presenting one.
+   */
+  spawn(
+    sessionId: string,
+    appId: string,
+    withBot: boolean,
+    botDifficulty?: number,
+    accessKeys?: SessionAccessKeys
+  ): Promise<SpawnedSession>;
+
+  /**
+   * Stop a running session.
+   */
+  stop(name: string): Promise<void>;
+
+  /**
+   * Release whatever a stopped session left behind.
+   */
+  remove(name: string): Promise<void>;
+
+  /**
+   * List running sessions.
+   * Each entry starts with the session name; backends may append status
+   * details after a space (e.g. `docker ps` output).
+   */
+  list(): Promise<string[]>;
+
+  /**
+   * Report the state of a session's server.
+   * Optional: backends without insight into their sessions leave it out.
+   */
+  inspect?(name: string): Promise<SessionHealth>;
+
+  /**
+   * Fetch the last lines a session's server logged.
+   * Optional: backends that do not keep logs leave it out.
+   */
+  logs?(name: string, tail: number): Promise<string>;
+}
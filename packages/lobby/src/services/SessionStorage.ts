@@ -0,0 +1,44 @@
+import type { AppSession } from '../types.js';
+
+/**
+ * Backend that persists the lobby's session records.
+ *
+ * SessionStore keeps the working set in memory and writes every change
+ * through, so backends only need to load once and save or delete single
+ * records.
+ */
+export interface SessionStorage {
+  /**
+   * Load every stored session (called once when the store is created).
+   */
+  load(): AppSession[];
+
+  /**
+   * Insert or replace a session.
+   */
+  save(session: AppSession): void;
+
+  /**
+   * Delete a session.
+   */
+  delete(id: string): void;
+}
+
+/**
+ * Storage that keeps nothing beyond the process lifetime.
+ */
+export class MemorySessionStorage implements SessionStorage {
+  private readonly sessions = new Map<string, AppSession>();
+
+  load(): AppSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  save(session: AppSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+}
@@ -1,4 +1,7 @@
-import type { AppSession, OpponentType, SessionStatus } from '../types.js';
+import { type LifecycleEvent, withAccessKey } from '@gesture-app/framework-protocol';
+import type { AppSession, OpponentType, PrivateAccess, SessionStatus } from '../types.js';
+import { generateJoinCode } from './privateAccess.js';
+import { MemorySessionStorage, type SessionStorage } from './SessionStorage.js';
 
 /**
  * Configuration for session URL generation.
@@ -20,14 +23,22 @@ const DEFAULT_CONFIG: SessionStoreConfig = {
 };
 
 /**
- * In-memory store for app sessions.
+ * Store for app sessions.
+ * Sessions are served from memory and every change is written through to
+ * the storage backend, so a persistent backend survives lobby restarts.
  */
 export class SessionStore {
   private sessions = new Map<string, AppSession>();
   private readonly config: SessionStoreConfig;
 
-  constructor(config: Partial<SessionStoreConfig> = {}) {
+  constructor(
+    config: Partial<SessionStoreConfig> = {},
+    private readonly storage: SessionStorage = new MemorySessionStorage()
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    for (const session of storage.load()) {
+      this.sessions.set(session.id, session);
+    }
   }
 
   /**
@@ -56,12 +67,26 @@ export class SessionStore {
     return `https://${sessionId}-${appId}-gestures.${this.config.baseDomain}`;
   }
 
+  /**
+   * Generate a join code no open session uses.
+   */
+  generateJoinCode(): string {
+    const code = generateJoinCode();
+    return this.findByJoinCode(code) ? this.generateJoinCode() : code;
+  }
+
   /**
    * Create a new session.
+   * Private sessions are only joinable with a key: the shared link carries
+   * the invite token unless a password is required instead.
    */
-  create(id: string, appId: string, opponentType: OpponentType): AppSession {
+  create(
+    id: string,
+    appId: string,
+    opponentType: OpponentType,
+    access?: PrivateAccess
+  ): AppSession {
     const sessionUrl = this.generateSessionUrl(id, appId);
-    const joinUrl = opponentType === 'human' ? sessionUrl : null;
     const containerName = `session-${appId}-${id}`;
 
     const session: AppSession = {
@@ -69,16 +94,36 @@ export class SessionStore {
       appId,
       opponentType,
       status: 'starting',
+      participantCount: 0,
       sessionUrl,
-      joinUrl,
+      joinUrl: null,
+      ...(access && { access }),
       containerName,
       createdAt: new Date(),
     };
+    session.joinUrl = getJoinUrl(session);
 
     this.sessions.set(id, session);
+    this.storage.save(session);
     return session;
   }
 
+  /**
+   * Find the open private session with a join code.
+   */
+  findByJoinCode(joinCode: string): AppSession | undefined {
+    for (const session of this.sessions.values()) {
+      if (
+        session.access?.joinCode === joinCode &&
+        session.status !== 'ended' &&
+        session.status !== 'error'
+      ) {
+        return session;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Get a session by ID.
    */
@@ -96,6 +141,52 @@ export class SessionStore {
       if (errorMessage) {
         session.errorMessage = errorMessage;
       }
+      this.storage.save(session);
+    }
+  }
+
+  /**
+   * Update a session from a lifecycle event its server reported.
+   * @returns The updated session, or undefined if it does not exist
+   */
+  applyLifecycleEvent(id: string, event: LifecycleEvent): AppSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+
+    switch (event.type) {
+      case 'participant_joined':
+      case 'participant_left':
+        session.participantCount = event.participantCount;
+        if (session.status === 'starting') {
+          session.status = 'waiting';
+        }
+        break;
+      case 'session_started':
+        session.status = 'active';
+        break;
+      case 'session_ended':
+        session.status = 'finished';
+        break;
+      case 'shutdown':
+        session.status = 'ended';
+        session.participantCount = 0;
+        break;
+    }
+
+    this.storage.save(session);
+    return session;
+  }
+
+  /**
+   * Point a session at the URL its backend reported once spawned.
+   * Human sessions share the same URL with the opponent.
+   */
+  setSessionUrl(id: string, sessionUrl: string): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.sessionUrl = sessionUrl;
+      session.joinUrl = getJoinUrl(session);
+      this.storage.save(session);
     }
   }
 
@@ -103,6 +194,7 @@ export class SessionStore {
    * Delete a session.
    */
   delete(id: string): boolean {
+    this.storage.delete(id);
     return this.sessions.delete(id);
   }
 
@@ -121,18 +213,35 @@ export class SessionStore {
   }
 
   /**
-   * Clean up old sessions (ended or error status older than 1 hour).
+   * Count sessions whose server is starting or running, optionally for one app.
+   */
+  countLive(appId?: string): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (
+        session.status !== 'ended' &&
+        session.status !== 'error' &&
+        (appId === undefined || session.appId === appId)
+      ) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Clean up old sessions (ended or error status, older than 1 hour by default).
    */
-  cleanup(): number {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  cleanup(maxAgeMs = 60 * 60 * 1000): number {
+    const cutoff = new Date(Date.now() - maxAgeMs);
     let cleaned = 0;
 
     for (const [id, session] of this.sessions) {
       if (
         (session.status === 'ended' || session.status === 'error') &&
-        session.createdAt < oneHourAgo
+        session.createdAt < cutoff
       ) {
-        this.sessions.delete(id);
+        this.delete(id);
         cleaned++;
       }
     }
@@ -140,3 +249,13 @@ export class SessionStore {
     return cleaned;
   }
 }
+
+/**
+ * Link to share with the opponent, if the session has one.
+ */
+function getJoinUrl(session: AppSession): string | null {
+  if (session.opponentType !== 'human') return null;
+  if (!session.access) return session.sessionUrl;
+  if (session.access.passwordHash) return null;
+  return withAccessKey(session.sessionUrl, session.access.inviteToken);
+}
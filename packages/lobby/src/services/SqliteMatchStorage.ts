@@ -0,0 +1,98 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import type { SessionEndedReason } from '@gesture-app/framework-protocol';
+import type { MatchRecord } from '../types.js';
+import type { MatchStorage } from './MatchStorage.js';
+
+/**
+ * Row shape of the matches table.
+ */
+interface MatchRow {
+  id: string;
+  session_id: string;
+  app_id: string;
+  ended_at: string;
+  duration_ms: number | null;
+  reason: string;
+  winner_team_id: number | null;
+  participants: string;
+  app_data: string | null;
+  rating_changes: string;
+}
+
+/**
+ * Storage backed by a SQLite file (Node's built-in `node:sqlite`).
+ * Participants, app data and rating changes are stored as JSON columns.
+ */
+export class SqliteMatchStorage implements MatchStorage {
+  private readonly db: DatabaseSync;
+  private readonly insert: StatementSync;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS matches (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        app_id TEXT NOT NULL,
+        ended_at TEXT NOT NULL,
+        duration_ms INTEGER,
+        reason TEXT NOT NULL,
+        winner_team_id INTEGER,
+        participants TEXT NOT NULL,
+        app_data TEXT,
+        rating_changes TEXT NOT NULL
+      )
+    `);
+    this.insert = this.db.prepare(`
+      INSERT INTO matches (id, session_id, app_id, ended_at, duration_ms, reason,
+        winner_team_id, participants, app_data, rating_changes)
+      VALUES (:id, :session_id, :app_id, :ended_at, :duration_ms, :reason,
+        :winner_team_id, :participants, :app_data, :rating_changes)
+    `);
+  }
+
+  load(): MatchRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM matches ORDER BY ended_at, rowid')
+      .all() as unknown as MatchRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      sessionId: row.session_id,
+      appId: row.app_id,
+      endedAt: new Date(row.ended_at),
+      durationMs: row.duration_ms,
+      reason: row.reason as SessionEndedReason,
+      winnerTeamId: row.winner_team_id,
+      participants: JSON.parse(row.participants),
+      ...(row.app_data !== null && { appData: JSON.parse(row.app_data) }),
+      ratingChanges: JSON.parse(row.rating_changes),
+    }));
+  }
+
+  save(match: MatchRecord): void {
+    this.insert.run({
+      id: match.id,
+      session_id: match.sessionId,
+      app_id: match.appId,
+      ended_at: match.endedAt.toISOString(),
+      duration_ms: match.durationMs,
+      reason: match.reason,
+      winner_team_id: match.winnerTeamId,
+      participants: JSON.stringify(match.participants),
+      app_data: match.appData === undefined ? null : JSON.stringify(match.appData),
+      rating_changes: JSON.stringify(match.ratingChanges),
+    });
+  }
+
+  /**
+   * Close the database file.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,144 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import type { AppSession, OpponentType, SessionStatus } from '../types.js';
+import type { SessionStorage } from './SessionStorage.js';
+
+/**
+ * Row shape of the sessions table.
+ */
+interface SessionRow {
+  id: string;
+  app_id: string;
+  opponent_type: string;
+  status: string;
+  participant_count: number;
+  session_url: string;
+  join_url: string | null;
+  container_name: string;
+  created_at: string;
+  error_message: string | null;
+  join_code: string | null;
+  invite_token: string | null;
+  password_hash: string | null;
+}
+
+/**
+ * Storage backed by a SQLite file (Node's built-in `node:sqlite`).
+ */
+export class SqliteSessionStorage implements SessionStorage {
+  private readonly db: DatabaseSync;
+  private readonly upsert: StatementSync;
+  private readonly remove: StatementSync;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        app_id TEXT NOT NULL,
+        opponent_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        participant_count INTEGER NOT NULL DEFAULT 0,
+        session_url TEXT NOT NULL,
+        join_url TEXT,
+        container_name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        error_message TEXT,
+        join_code TEXT,
+        invite_token TEXT,
+        password_hash TEXT
+      )
+    `);
+    this.migrate();
+    this.upsert = this.db.prepare(`
+      INSERT INTO sessions (id, app_id, opponent_type, status, participant_count, session_url,
+        join_url, container_name, created_at, error_message, join_code, invite_token, password_hash)
+      VALUES (:id, :app_id, :opponent_type, :status, :participant_count, :session_url,
+        :join_url, :container_name, :created_at, :error_message, :join_code, :invite_token,
+        :password_hash)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        participant_count = excluded.participant_count,
+        session_url = excluded.session_url,
+        join_url = excluded.join_url,
+        error_message = excluded.error_message
+    `);
+    this.remove = this.db.prepare('DELETE FROM sessions WHERE id = ?');
+  }
+
+  load(): AppSession[] {
+    const rows = this.db
+      .prepare('SELECT * FROM sessions ORDER BY created_at')
+      .all() as unknown as SessionRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      appId: row.app_id,
+      opponentType: row.opponent_type as OpponentType,
+      status: row.status as SessionStatus,
+      participantCount: row.participant_count,
+      sessionUrl: row.session_url,
+      joinUrl: row.join_url,
+      containerName: row.container_name,
+      createdAt: new Date(row.created_at),
+      ...(row.error_message !== null && { errorMessage: row.error_message }),
+      ...(row.join_code !== null &&
+        row.invite_token !== null && {
+          access: {
+            joinCode: row.join_code,
+            inviteToken: row.invite_token,
+            ...(row.password_hash !== null && { passwordHash: row.password_hash }),
+          },
+        }),
+    }));
+  }
+
+  save(session: AppSession): void {
+    this.upsert.run({
+      id: session.id,
+      app_id: session.appId,
+      opponent_type: session.opponentType,
+      status: session.status,
+      participant_count: session.participantCount,
+      session_url: session.sessionUrl,
+      join_url: session.joinUrl,
+      container_name: session.containerName,
+      created_at: session.createdAt.toISOString(),
+      error_message: session.errorMessage ?? null,
+      join_code: session.access?.joinCode ?? null,
+      invite_token: session.access?.inviteToken ?? null,
+      password_hash: session.access?.passwordHash ?? null,
+    });
+  }
+
+  delete(id: string): void {
+    this.remove.run(id);
+  }
+
+  /**
+   * Add columns introduced after the table was first created.
+   */
+  private migrate(): void {
+    const columns = this.db.prepare('PRAGMA table_info(sessions)').all() as unknown as {
+      name: string;
+    }[];
+    if (!columns.some((column) => column.name === 'participant_count')) {
+      this.db.exec('ALTER TABLE sessions ADD COLUMN participant_count INTEGER NOT NULL DEFAULT 0');
+    }
+    if (!columns.some((column) => column.name === 'join_code')) {
+      this.db.exec('ALTER TABLE sessions ADD COLUMN join_code TEXT');
+      this.db.exec('ALTER TABLE sessions ADD COLUMN invite_token TEXT');
+      this.db.exec('ALTER TABLE sessions ADD COLUMN password_hash TEXT');
+    }
+  }
+
+  /**
+   * Close the database file.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Elo ratings for match results.
+ */
+
+/** Rating of a player before their first rated match in an app */
+export const INITIAL_RATING = 1500;
+
+/** Largest rating change a single match can cause */
+export const K_FACTOR = 32;
+
+/**
+ * Expected score of a player against an opponent (the chance to win, counting
+ * draws as half a win).
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+/**
+ * Rating after a match.
+ * @param score 1 for a win, 0.5 for a draw, 0 for a loss
+ */
+export function updateRating(
+  rating: number,
+  opponentRating: number,
+  score: number,
+  kFactor = K_FACTOR
+): number {
+  return Math.round(rating + kFactor * (score - expectedScore(rating, opponentRating)));
+}
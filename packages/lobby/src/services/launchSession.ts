@@ -0,0 +1,59 @@
+import type { AppSession, OpponentType, PrivateAccess } from '../types.js';
+import { generateInviteToken, hashPassword } from './privateAccess.js';
+import type { SessionAccessKeys, SessionSpawner } from './SessionSpawner.js';
+import type { SessionStore } from './SessionStore.js';
+
+/**
+ * Settings of a private session.
+ */
+export interface PrivateSessionOptions {
+  /** Password players must present instead of an invite link */
+  password?: string;
+}
+
+/**
+ * Record a new session and spawn its server.
+ * On failure the session is kept with status 'error' and the spawn error is rethrown.
+ */
+export async function launchSession(
+  sessionStore: SessionStore,
+  spawner: SessionSpawner,
+  appId: string,
+  opponentType: OpponentType,
+  botDifficulty?: number,
+  privateSession?: PrivateSessionOptions
+): Promise<AppSession> {
+  const sessionId = sessionStore.generateSessionId();
+
+  // The store only keeps the password's hash; the server only gets the invite token
+  let access: PrivateAccess | undefined;
+  let accessKeys: SessionAccessKeys | undefined;
+  if (privateSession) {
+    const { password } = privateSession;
+    accessKeys = { inviteToken: generateInviteToken() };
+    access = {
+      joinCode: sessionStore.generateJoinCode(),
+      inviteToken: accessKeys.inviteToken,
+      ...(password && { passwordHash: hashPassword(password) }),
+    };
+  }
+  const session = sessionStore.create(sessionId, appId, opponentType, access);
+
+  try {
+    const spawned = await spawner.spawn(
+      sessionId,
+      appId,
+      opponentType === 'bot',
+      botDifficulty,
+      accessKeys
+    );
+    sessionStore.setSessionUrl(sessionId, spawned.sessionUrl);
+    sessionStore.updateStatus(sessionId, opponentType === 'bot' ? 'active' : 'waiting');
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to spawn session';
+    sessionStore.updateStatus(sessionId, 'error', errorMessage);
+    throw err;
+  }
+
+  return session;
+}
@@ -0,0 +1,57 @@
+import { randomBytes, randomInt, scryptSync, timingSafeEqual } from 'node:crypto';
+
+/** Join code characters, leaving out look-alikes (0/O, 1/I/L) */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** Join code length */
+export const JOIN_CODE_LENGTH = 6;
+
+/** Scrypt output length in bytes */
+const PASSWORD_KEY_LENGTH = 32;
+
+/**
+ * Generate a random, human-readable join code.
+ */
+export function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize a join code as typed by a player (case, spaces and dashes do not matter).
+ */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate the invite token a private session server admits players with.
+ */
+export function generateInviteToken(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+/**
+ * Hash a room password for storage.
+ * @returns `<salt>:<key>`, both hex
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword.
+ */
+export function verifyPassword(password: string, hash: string): boolean {
+  const [salt, key] = hash.split(':');
+  if (!salt || !key) return false;
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), PASSWORD_KEY_LENGTH);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,92 @@
+import { logger } from '../logger.js';
+import type { SessionStatus } from '../types.js';
+import type { SessionSpawner } from './SessionSpawner.js';
+import type { SessionStore } from './SessionStore.js';
+
+/**
+ * Statuses of sessions that should have a running server.
+ */
+export const LIVE_STATUSES: ReadonlySet<SessionStatus> = new Set([
+  'starting',
+  'waiting',
+  'active',
+  'finished',
+]);
+
+/**
+ * Options for startup reconciliation.
+ */
+export interface ReconcileOptions {
+  /** Stop and remove running sessions the store has no record of */
+  stopOrphans?: boolean;
+}
+
+/**
+ * Outcome of reconciling the store with the spawner, by session name.
+ */
+export interface ReconcileResult {
+  /** Stored live sessions whose server is still running */
+  adopted: string[];
+  /** Stored live sessions whose server is gone; now marked ended */
+  ended: string[];
+  /** Running sessions without a stored record */
+  orphaned: string[];
+}
+
+/**
+ * Names of the sessions the spawner is running.
+ */
+export async function listRunning(spawner: SessionSpawner): Promise<Set<string>> {
+  return new Set((await spawner.list()).map((entry) => entry.split(' ')[0] ?? entry));
+}
+
+/**
+ * Bring stored sessions in line with what the spawner is actually running.
+ * Called on lobby startup so a restart neither forgets live games nor keeps
+ * reporting games whose servers exited while the lobby was down.
+ */
+export async function reconcileSessions(
+  store: SessionStore,
+  spawner: SessionSpawner,
+  options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+  const running = await listRunning(spawner);
+  const result: ReconcileResult = { adopted: [], ended: [], orphaned: [] };
+  const known = new Set<string>();
+
+  for (const session of store.getAll()) {
+    known.add(session.containerName);
+    if (!LIVE_STATUSES.has(session.status)) continue;
+
+    if (running.has(session.containerName)) {
+      // The lobby may have gone down between spawning and recording success
+      if (session.status === 'starting') {
+        store.updateStatus(session.id, session.opponentType === 'bot' ? 'active' : 'waiting');
+      }
+      result.adopted.push(session.containerName);
+    } else {
+      store.updateStatus(session.id, 'ended');
+      result.ended.push(session.containerName);
+    }
+  }
+
+  for (const name of running) {
+    if (known.has(name)) continue;
+    result.orphaned.push(name);
+    if (options.stopOrphans) {
+      try {
+        await spawner.stop(name);
+        await spawner.remove(name);
+      } catch (err) {
+        logger.error('Failed to stop orphaned session', { name, error: err });
+      }
+    }
+  }
+
+  logger.info('Reconciled sessions', {
+    adopted: result.adopted.length,
+    ended: result.ended,
+    orphaned: result.orphaned,
+  });
+  return result;
+}
@@ -0,0 +1,45 @@
+import type { ErrorResponse } from '../types.js';
+import type { SessionStore } from './SessionStore.js';
+
+/** Retry hint sent when the lobby or an app is at capacity */
+export const BUSY_RETRY_AFTER_SECONDS = 30;
+
+/**
+ * Limits on sessions running at once, shared by every way of starting one.
+ */
+export interface SessionLimits {
+  /** Most sessions running at once across all apps (unlimited when unset) */
+  maxSessions?: number;
+  /** Most sessions running at once for any one app (unlimited when unset) */
+  maxSessionsPerApp?: number;
+}
+
+/**
+ * Check whether another session of an app fits within the limits.
+ * Call right before launching it; the store counts the new session from then on.
+ * @returns The error to send if the lobby or the app is full, otherwise null
+ */
+export function checkSessionCapacity(
+  sessionStore: SessionStore,
+  appId: string,
+  limits: SessionLimits
+): Required<ErrorResponse> | null {
+  if (limits.maxSessions !== undefined && sessionStore.countLive() >= limits.maxSessions) {
+    return {
+      error: 'All game servers are busy. Please try again shortly.',
+      code: 'server_busy',
+      retryAfterSeconds: BUSY_RETRY_AFTER_SECONDS,
+    };
+  }
+  if (
+    limits.maxSessionsPerApp !== undefined &&
+    sessionStore.countLive(appId) >= limits.maxSessionsPerApp
+  ) {
+    return {
+      error: 'This app has no free game servers. Please try again shortly.',
+      code: 'app_busy',
+      retryAfterSeconds: BUSY_RETRY_AFTER_SECONDS,
+    };
+  }
+  return null;
+}
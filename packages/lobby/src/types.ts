@@ -2,9 +2,35 @@
  * App session types for the lobby.
  */
 
+import type {
+  MatchParticipant,
+  PlayerProfile,
+  SessionEndedReason,
+} from '@gesture-app/framework-protocol';
+
 export type OpponentType = 'bot' | 'human';
 
-export type SessionStatus = 'starting' | 'waiting' | 'active' | 'ended' | 'error';
+/**
+ * - starting: server is being spawned
+ * - waiting: server runs, waiting for players to join and get ready
+ * - active: a match is being played
+ * - finished: the last match ended; players may play again
+ * - ended: the server is gone
+ * - error: spawning failed
+ */
+export type SessionStatus = 'starting' | 'waiting' | 'active' | 'finished' | 'ended' | 'error';
+
+/**
+ * Access settings of a private session.
+ */
+export interface PrivateAccess {
+  /** Short code players enter in the lobby to join */
+  joinCode: string;
+  /** Key the session server admits invited players with */
+  inviteToken: string;
+  /** Hash of the room password, if one was set */
+  passwordHash?: string;
+}
 
 export interface AppSession {
   /** Unique session identifier (alphanumeric, lowercase) */
@@ -15,11 +41,15 @@ export interface AppSession {
   opponentType: OpponentType;
   /** Current session status */
   status: SessionStatus;
+  /** Participants connected, as last reported by the session server */
+  participantCount: number;
   /** URL to join the session */
   sessionUrl: string;
-  /** URL to share with opponent (for human sessions) */
+  /** URL to share with opponent (human sessions; null for password-protected ones) */
   joinUrl: string | null;
-  /** Docker container name */
+  /** Set for private sessions, which only admit players holding a key */
+  access?: PrivateAccess;
+  /** Name the session backend knows it by (the Docker container name) */
   containerName: string;
   /** When the session was created */
   createdAt: Date;
@@ -34,6 +64,10 @@ export interface CreateSessionRequest {
   opponentType: OpponentType;
   /** Bot difficulty (0.0 - 1.0), only used when opponentType is 'bot' */
   botDifficulty?: number;
+  /** Create a private session joined by code or invite link (human sessions only) */
+  private?: boolean;
+  /** Password players must enter with the join code (implies private) */
+  password?: string;
 }
 
 export interface CreateSessionResponse {
@@ -41,13 +75,228 @@ export interface CreateSessionResponse {
   appId: string;
   sessionUrl: string;
   joinUrl: string | null;
+  /** Code to join a private session from the lobby */
+  joinCode: string | null;
+}
+
+export interface JoinSessionRequest {
+  joinCode: string;
+  /** Required if the session has a password */
+  password?: string;
+}
+
+export interface JoinSessionResponse {
+  sessionId: string;
+  appId: string;
+  sessionUrl: string;
+}
+
+/**
+ * - rate_limited: the client created too many sessions recently
+ * - server_busy: the lobby runs as many sessions as it may
+ * - app_busy: the app runs as many sessions as it may
+ */
+export type ErrorCode = 'rate_limited' | 'server_busy' | 'app_busy';
+
+/**
+ * Body of an error response.
+ */
+export interface ErrorResponse {
+  /** Message to show the user */
+  error: string;
+  /** Machine-readable reason, for errors the client may handle */
+  code?: ErrorCode;
+  /** When to try again (also sent as the Retry-After header) */
+  retryAfterSeconds?: number;
 }
 
 export interface SessionStatusResponse {
   sessionId: string;
   appId: string;
   status: SessionStatus;
+  participantCount: number;
   sessionUrl: string;
   joinUrl: string | null;
   errorMessage?: string;
 }
+
+export interface AdminSessionSummary {
+  sessionId: string;
+  appId: string;
+  status: SessionStatus;
+  opponentType: OpponentType;
+  participantCount: number;
+  /** Whether the session only admits players with a key */
+  private: boolean;
+  containerName: string;
+  createdAt: string;
+  /** Time since the session was created */
+  ageMs: number;
+  /** Server state from the backend (null if it cannot tell or the session is over) */
+  health: AdminSessionHealth | null;
+  errorMessage?: string;
+}
+
+export interface AdminSessionHealth {
+  running: boolean;
+  state: string;
+  health?: string;
+  startedAt?: string;
+}
+
+export interface AdminSessionsResponse {
+  sessions: AdminSessionSummary[];
+}
+
+export interface AdminStatsResponse {
+  total: number;
+  /** Session counts by status */
+  byStatus: Record<SessionStatus, number>;
+  /** Session counts by app, then by status */
+  byApp: Record<string, Record<SessionStatus, number>>;
+}
+
+export interface AdminCleanupRequest {
+  /** Sessions created longer ago than this count as stale (default: 1 hour) */
+  olderThanMs?: number;
+}
+
+export interface AdminCleanupResponse {
+  /** Idle sessions whose servers were stopped */
+  stopped: string[];
+  /** Number of ended or failed session records removed */
+  removed: number;
+}
+
+/**
+ * - queued: waiting for a human opponent
+ * - starting: opponent found (or bot accepted), session server is being spawned
+ * - matched: the session is ready to join
+ * - timed_out: no opponent found in time; a bot session may be requested instead
+ * - cancelled: the player left the queue
+ * - error: spawning the session failed, or the lobby or app was full
+ */
+export type TicketStatus = 'queued' | 'starting' | 'matched' | 'timed_out' | 'cancelled' | 'error';
+
+export interface MatchTicket {
+  /** Unique ticket identifier (hard to guess; whoever holds it controls the ticket) */
+  id: string;
+  /** Application identifier */
+  appId: string;
+  /** Skill rating used to pair players of similar strength */
+  rating?: number;
+  /** Region tag; only players with the same tag are paired */
+  region?: string;
+  /** Account of the signed-in player, never paired with itself */
+  playerId?: string;
+  /** Address the ticket was requested from; anonymous tickets are never paired with their own */
+  clientIp?: string;
+  /** Token of the signed-in player, added to their session link */
+  playerToken?: string;
+  /** Current ticket status */
+  status: TicketStatus;
+  /** Opponent of the session the ticket led to */
+  opponentType: OpponentType | null;
+  /** Session the ticket led to */
+  sessionId: string | null;
+  /** URL to join once matched */
+  sessionUrl: string | null;
+  /** When the player joined the queue */
+  enqueuedAt: Date;
+  /** Error message if status is 'error' */
+  errorMessage?: string;
+  /** Machine-readable reason if status is 'error' because the lobby or app was full */
+  errorCode?: ErrorCode;
+  /** When to queue again if status is 'error' because the lobby or app was full */
+  retryAfterSeconds?: number;
+}
+
+export interface EnqueueRequest {
+  /** Skill rating (any finite number; players are paired within a rating gap) */
+  rating?: number;
+  /** Region tag, e.g. "eu" */
+  region?: string;
+}
+
+export interface AcceptBotRequest {
+  /** Bot difficulty (0.0 - 1.0) */
+  botDifficulty?: number;
+}
+
+export interface TicketResponse {
+  ticketId: string;
+  appId: string;
+  status: TicketStatus;
+  /** Whether a bot session can be requested instead of waiting */
+  botOffered: boolean;
+  opponentType: OpponentType | null;
+  sessionId: string | null;
+  sessionUrl: string | null;
+  errorMessage?: string;
+  errorCode?: ErrorCode;
+  retryAfterSeconds?: number;
+}
+
+export interface RatingChange {
+  before: number;
+  after: number;
+}
+
+export interface MatchRecord {
+  /**
+   * Unique match identifier: `<sessionId>:<matchNumber>` when the session
+   * server numbered the match, otherwise a random UUID
+   */
+  id: string;
+  /** Session the match was played in (a session may host several matches) */
+  sessionId: string;
+  /** Application identifier */
+  appId: string;
+  /** When the match ended */
+  endedAt: Date;
+  /** Time from match start to end (null if the session server did not report it) */
+  durationMs: number | null;
+  reason: SessionEndedReason;
+  /** Winning team (null for a draw or an unfinished match) */
+  winnerTeamId: number | null;
+  /** Participants when the match started */
+  participants: MatchParticipant[];
+  /** App-specific results reported by the session server */
+  appData?: unknown;
+  /** Rating of each signed-in player before and after the match (empty if unrated) */
+  ratingChanges: Record<string, RatingChange>;
+}
+
+export type MatchOutcome = 'win' | 'loss' | 'draw';
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: PlayerProfile;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface LeaderboardResponse {
+  appId: string;
+  entries: LeaderboardEntry[];
+}
+
+export interface PlayerHistoryEntry {
+  matchId: string;
+  sessionId: string;
+  appId: string;
+  endedAt: string;
+  durationMs: number | null;
+  reason: SessionEndedReason;
+  outcome: MatchOutcome;
+  participants: MatchParticipant[];
+  appData?: unknown;
+  ratingChange?: RatingChange;
+}
+
+export interface PlayerHistoryResponse {
+  playerId: string;
+  matches: PlayerHistoryEntry[];
+}
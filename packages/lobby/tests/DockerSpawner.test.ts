@@ -80,6 +80,29 @@ describe('DockerSpawner', () => {
       expect(args).toContain('BOT_DIFFICULTY=0.5'); // default value
     });
 
+    it('should pass the lifecycle webhook and player token secret to the container', async () => {
+      const reporting = new DockerSpawner({
+        lifecycleWebhook: { baseUrl: 'http://gestures-lobby', secret: 's3cret' },
+        playerTokenSecret: 'players',
+      });
+      await reporting.spawn('abc123', 'blocks-cannons', false);
+
+      const [, args] = mockExecFile.mock.calls[0] as [string, string[]];
+      expect(args).toContain(
+        'LIFECYCLE_WEBHOOK_URL=http://gestures-lobby/api/sessions/abc123/events'
+      );
+      expect(args).toContain('LIFECYCLE_WEBHOOK_SECRET=s3cret');
+      expect(args).toContain('PLAYER_TOKEN_SECRET=players');
+      // Image stays last
+      expect(args[args.length - 1]).toBe('blocks-cannons-gestures-app');
+    });
+
+    it('should return the routed session URL', async () => {
+      const spawned = await spawner.spawn('abc123', 'blocks-cannons', false);
+
+      expect(spawned.sessionUrl).toBe('https://abc123-blocks-cannons-gestures.dx-tooling.org');
+    });
+
     it('should use default bot difficulty if not provided', async () => {
       await spawner.spawn('test1', 'blocks-cannons', true);
 
@@ -176,4 +199,56 @@ describe('DockerSpawner', () => {
       expect(containers).toHaveLength(0);
     });
   });
+
+  describe('inspect', () => {
+    it('should parse the container state', async () => {
+      mockExecFile.mockImplementation((_cmd, _args, callback) => {
+        if (typeof callback === 'function') {
+          callback(null, {
+            stdout: `${JSON.stringify({
+              Status: 'running',
+              Running: true,
+              StartedAt: '2025-01-01T10:00:00.000Z',
+              Health: { Status: 'healthy' },
+            })}\n`,
+            stderr: '',
+          });
+        }
+        return {} as ReturnType<typeof childProcess.execFile>;
+      });
+
+      const health = await spawner.inspect('session-blocks-cannons-abc123');
+
+      const [, args] = mockExecFile.mock.calls[0] as [string, string[]];
+      expect(args.slice(1)).toEqual([
+        'inspect',
+        '--format',
+        '{{json .State}}',
+        'session-blocks-cannons-abc123',
+      ]);
+      expect(health).toEqual({
+        running: true,
+        state: 'running',
+        health: 'healthy',
+        startedAt: new Date('2025-01-01T10:00:00.000Z'),
+      });
+    });
+  });
+
+  describe('logs', () => {
+    it('should call wrapper with logs command and return both streams', async () => {
+      mockExecFile.mockImplementation((_cmd, _args, callback) => {
+        if (typeof callback === 'function') {
+          callback(null, { stdout: 'listening\n', stderr: 'warning\n' });
+        }
+        return {} as ReturnType<typeof childProcess.execFile>;
+      });
+
+      const logs = await spawner.logs('session-blocks-cannons-abc123', 50);
+
+      const [, args] = mockExecFile.mock.calls[0] as [string, string[]];
+      expect(args.slice(1)).toEqual(['logs', '--tail', '50', 'session-blocks-cannons-abc123']);
+      expect(logs).toBe('listening\nwarning\n');
+    });
+  });
 });
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LobbyMetrics } from '../src/services/LobbyMetrics.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+function createSpawner(): SessionSpawner {
+  return {
+    spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `http://localhost/${sessionId}` })),
+    stop: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue(['session-blocks-cannons-abc']),
+  };
+}
+
+describe('LobbyMetrics', () => {
+  let store: SessionStore;
+  let spawner: SessionSpawner;
+  let clock: number;
+  let metrics: LobbyMetrics;
+
+  beforeEach(() => {
+    store = new SessionStore();
+    spawner = createSpawner();
+    clock = 0;
+    metrics = new LobbyMetrics(store, { now: () => clock });
+  });
+
+  it('should count and time spawns per app', async () => {
+    vi.mocked(spawner.spawn).mockImplementation(async (sessionId) => {
+      clock += 1500;
+      return { sessionUrl: `http://localhost/${sessionId}` };
+    });
+    const instrumented = metrics.instrument(spawner);
+
+    const spawned = await instrumented.spawn('abc', 'blocks-cannons', true, 0.5);
+
+    expect(spawned.sessionUrl).toBe('http://localhost/abc');
+    expect(spawner.spawn).toHaveBeenCalledWith('abc', 'blocks-cannons', true, 0.5);
+    const output = metrics.render();
+    expect(output).toContain('lobby_sessions_created_total{app="blocks-cannons"} 1');
+    expect(output).toContain('lobby_spawn_duration_seconds_bucket{app="blocks-cannons",le="1"} 0');
+    expect(output).toContain(
+      'lobby_spawn_duration_seconds_bucket{app="blocks-cannons",le="2.5"} 1'
+    );
+    expect(output).toContain('lobby_spawn_duration_seconds_sum{app="blocks-cannons"} 1.5');
+  });
+
+  it('should count failed spawns and rethrow', async () => {
+    vi.mocked(spawner.spawn).mockRejectedValue(new Error('no capacity'));
+    const instrumented = metrics.instrument(spawner);
+
+    await expect(instrumented.spawn('abc', 'hello-hands', false)).rejects.toThrow('no capacity');
+
+    const output = metrics.render();
+    expect(output).toContain('lobby_sessions_failed_total{app="hello-hands"} 1');
+    expect(output).not.toContain('lobby_sessions_created_total{');
+    expect(output).toContain('lobby_spawn_duration_seconds_count{app="hello-hands"} 1');
+  });
+
+  it('should pass the other calls through', async () => {
+    const instrumented = metrics.instrument(spawner);
+
+    await instrumented.stop('session-blocks-cannons-abc');
+    await instrumented.remove('session-blocks-cannons-abc');
+
+    expect(await instrumented.list()).toEqual(['session-blocks-cannons-abc']);
+    expect(spawner.stop).toHaveBeenCalledWith('session-blocks-cannons-abc');
+    expect(spawner.remove).toHaveBeenCalledWith('session-blocks-cannons-abc');
+    // Optional capabilities stay optional
+    expect(instrumented.inspect).toBeUndefined();
+    expect(instrumented.logs).toBeUndefined();
+
+    spawner.logs = vi.fn().mockResolvedValue('ready\n');
+    expect(await metrics.instrument(spawner).logs?.('session-blocks-cannons-abc', 10)).toBe(
+      'ready\n'
+    );
+  });
+
+  it('should report live sessions by app and status when scraped', () => {
+    store.create('a', 'blocks-cannons', 'human').status = 'active';
+    store.create('b', 'blocks-cannons', 'bot').status = 'active';
+    store.create('c', 'hello-hands', 'human').status = 'waiting';
+    store.create('d', 'hello-hands', 'human').status = 'ended';
+
+    let output = metrics.render();
+    expect(output).toContain('lobby_sessions{app="blocks-cannons",status="active"} 2');
+    expect(output).toContain('lobby_sessions{app="hello-hands",status="waiting"} 1');
+    expect(output).not.toContain('status="ended"');
+
+    store.updateStatus('c', 'ended');
+    output = metrics.render();
+    expect(output).not.toContain('lobby_sessions{app="hello-hands"');
+  });
+});
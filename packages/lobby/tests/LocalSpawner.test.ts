@@ -0,0 +1,122 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalSpawner } from '../src/services/LocalSpawner.js';
+
+describe('LocalSpawner', () => {
+  let dir: string;
+  let botOutput: string;
+  let spawner: LocalSpawner;
+
+  beforeAll(() => {
+    // Stand-ins for built app server and bot scripts
+    dir = mkdtempSync(join(tmpdir(), 'local-spawner-'));
+    botOutput = join(dir, 'bot.json');
+    writeFileSync(
+      join(dir, 'server.mjs'),
+      "import { createServer } from 'node:net';\n" +
+        "createServer((socket) => socket.end()).listen(Number(process.env.PORT), 'localhost');\n"
+    );
+    writeFileSync(
+      join(dir, 'bot.mjs'),
+      "import { writeFileSync } from 'node:fs';\n" +
+        `writeFileSync(${JSON.stringify(botOutput)}, JSON.stringify({ ` +
+        'url: process.argv[2], difficulty: process.env.BOT_DIFFICULTY, ' +
+        'sessionId: process.env.SESSION_ID, appId: process.env.APP_ID }));\n' +
+        'setInterval(() => {}, 1000);\n'
+    );
+    writeFileSync(join(dir, 'crash.mjs'), 'process.exit(1);\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    spawner = new LocalSpawner({
+      lobbyUrl: 'http://localhost:3002',
+      apps: {
+        'blocks-cannons': {
+          serverScript: join(dir, 'server.mjs'),
+          botScript: join(dir, 'bot.mjs'),
+          clientUrl: 'http://localhost:5173',
+        },
+        broken: {
+          serverScript: join(dir, 'crash.mjs'),
+          clientUrl: 'http://localhost:5174',
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    for (const name of await spawner.list()) {
+      await spawner.stop(name);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('should start a server on a free port and link the client to it', async () => {
+    const { sessionUrl } = await spawner.spawn('abc123', 'blocks-cannons', false);
+
+    const url = new URL(sessionUrl);
+    expect(url.origin).toBe('http://localhost:5173');
+    expect(url.searchParams.get('appId')).toBe('blocks-cannons');
+    expect(url.searchParams.get('wsUrl')).toMatch(/^ws:\/\/localhost:\d+$/);
+    expect(url.searchParams.get('lobbyUrl')).toBe('http://localhost:3002');
+    expect(await spawner.list()).toEqual(['session-blocks-cannons-abc123']);
+  });
+
+  it('should start the bot against the session server, tagged with the session', async () => {
+    const { sessionUrl } = await spawner.spawn('bot1', 'blocks-cannons', true, 0.8);
+
+    await vi.waitFor(() => expect(existsSync(botOutput)).toBe(true));
+    expect(JSON.parse(readFileSync(botOutput, 'utf8'))).toEqual({
+      url: new URL(sessionUrl).searchParams.get('wsUrl'),
+      difficulty: '0.8',
+      sessionId: 'bot1',
+      appId: 'blocks-cannons',
+    });
+  });
+
+  it('should stop a session and forget it', async () => {
+    await spawner.spawn('stop1', 'blocks-cannons', true);
+
+    await spawner.stop('session-blocks-cannons-stop1');
+    await spawner.remove('session-blocks-cannons-stop1');
+
+    expect(await spawner.list()).toEqual([]);
+    await expect(spawner.stop('session-blocks-cannons-stop1')).rejects.toThrow(
+      'Session not running: session-blocks-cannons-stop1'
+    );
+  });
+
+  it('should report whether a session server is running', async () => {
+    await spawner.spawn('health1', 'blocks-cannons', false);
+
+    const running = await spawner.inspect('session-blocks-cannons-health1');
+    expect(running).toMatchObject({ running: true, state: 'running' });
+    expect(running.startedAt).toBeInstanceOf(Date);
+
+    expect(await spawner.inspect('session-blocks-cannons-unknown')).toEqual({
+      running: false,
+      state: 'exited',
+    });
+  });
+
+  it('should reject apps without a local server', async () => {
+    await expect(spawner.spawn('x', 'hello-hands', false)).rejects.toThrow(
+      'No local server configured for app: hello-hands'
+    );
+  });
+
+  it('should fail when the server exits before listening', async () => {
+    await expect(spawner.spawn('crash1', 'broken', false)).rejects.toThrow(
+      /exited before listening/
+    );
+    expect(await spawner.list()).toEqual([]);
+  });
+});
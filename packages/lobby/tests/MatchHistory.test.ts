@@ -0,0 +1,202 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MatchParticipant } from '@gesture-app/framework-protocol';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { expectedScore, INITIAL_RATING, updateRating } from '../src/services/elo.js';
+import { JsonFileMatchStorage } from '../src/services/JsonFileMatchStorage.js';
+import { MatchHistory } from '../src/services/MatchHistory.js';
+import { type MatchStorage, MemoryMatchStorage } from '../src/services/MatchStorage.js';
+
+// node:sqlite ships with Node 22.5+; skip its suite on older runtimes
+const sqlite = await import('node:sqlite').catch(() => null);
+
+function participant(teamId: number, playerId?: string): MatchParticipant {
+  return {
+    participantId: `conn-${teamId}-${playerId ?? 'anon'}`,
+    participantNumber: teamId,
+    teamId,
+    isBot: false,
+    ...(playerId && {
+      player: { id: playerId, displayName: playerId.toUpperCase(), avatarColor: '#3b82f6' },
+    }),
+  };
+}
+
+function ended(participants: MatchParticipant[], winnerTeamId?: number) {
+  return {
+    type: 'session_ended' as const,
+    reason: 'app_condition' as const,
+    ...(winnerTeamId !== undefined && { winnerTeamId }),
+    participants,
+    durationMs: 90_000,
+    appData: { shots: 12 },
+  };
+}
+
+describe('elo', () => {
+  it('should expect even odds between equal ratings', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1900, 1500)).toBeCloseTo(10 / 11);
+  });
+
+  it('should move ratings by the surprise of the result', () => {
+    expect(updateRating(1500, 1500, 1)).toBe(1516);
+    expect(updateRating(1500, 1500, 0)).toBe(1484);
+    expect(updateRating(1500, 1500, 0.5)).toBe(1500);
+    expect(updateRating(1900, 1500, 1)).toBe(1903);
+    expect(updateRating(1500, 1900, 1)).toBe(1529);
+  });
+});
+
+describe('MatchHistory', () => {
+  let history: MatchHistory;
+
+  beforeEach(() => {
+    history = new MatchHistory();
+  });
+
+  it('should rate matches between two signed-in players', () => {
+    const match = history.record(
+      'abc123',
+      'blocks-cannons',
+      ended([participant(1, 'ada'), participant(2, 'bob')], 1),
+      new Date(1000)
+    );
+
+    expect(match).toMatchObject({
+      sessionId: 'abc123',
+      appId: 'blocks-cannons',
+      endedAt: new Date(1000),
+      durationMs: 90_000,
+      reason: 'app_condition',
+      winnerTeamId: 1,
+      appData: { shots: 12 },
+      ratingChanges: { ada: { before: 1500, after: 1516 }, bob: { before: 1500, after: 1484 } },
+    });
+    expect(history.getRating('blocks-cannons', 'ada')).toBe(1516);
+    expect(history.getRating('hello-hands', 'ada')).toBe(INITIAL_RATING);
+  });
+
+  it('should keep unrated matches in history only', () => {
+    const bot = { ...participant(2), isBot: true };
+    history.record('s1', 'blocks-cannons', ended([participant(1, 'ada'), bot], 1));
+    history.record('s2', 'blocks-cannons', ended([participant(1, 'ada'), participant(2)], 1));
+    history.record('s3', 'blocks-cannons', ended([participant(1, 'ada'), participant(1, 'bob')]));
+    history.record('s4', 'blocks-cannons', ended([participant(1, 'ada'), participant(2, 'ada')]));
+    history.record('s5', 'blocks-cannons', { type: 'session_ended', reason: 'timeout' });
+
+    expect(history.getPlayerHistory('ada').map((match) => match.ratingChanges)).toEqual([
+      {},
+      {},
+      {},
+      {},
+    ]);
+    expect(history.getLeaderboard('blocks-cannons')).toEqual([]);
+  });
+
+  it('should rank players by rating with their record', () => {
+    const app = 'blocks-cannons';
+    history.record('s1', app, ended([participant(1, 'ada'), participant(2, 'bob')], 1));
+    history.record('s2', app, ended([participant(1, 'ada'), participant(2, 'cy')], 1));
+    history.record('s3', app, ended([participant(1, 'bob'), participant(2, 'cy')]));
+
+    const leaderboard = history.getLeaderboard(app);
+    expect(leaderboard.map((entry) => entry.player.id)).toEqual(['ada', 'cy', 'bob']);
+    expect(leaderboard).toEqual([
+      expect.objectContaining({ rank: 1, rating: 1531, wins: 2, losses: 0, draws: 0 }),
+      expect.objectContaining({ rank: 2, rating: 1485, wins: 0, losses: 1, draws: 1 }),
+      expect.objectContaining({ rank: 3, rating: 1484, wins: 0, losses: 1, draws: 1 }),
+    ]);
+    expect(history.getLeaderboard(app, 1)).toHaveLength(1);
+  });
+
+  it('should ignore repeated reports of a numbered match, also after a restart', () => {
+    const storage = new MemoryMatchStorage();
+    history = new MatchHistory(storage);
+    const event = { ...ended([participant(1, 'ada'), participant(2, 'bob')], 1), matchNumber: 1 };
+
+    const first = history.record('s1', 'blocks-cannons', event);
+    const repeat = history.record('s1', 'blocks-cannons', event);
+    new MatchHistory(storage).record('s1', 'blocks-cannons', event);
+
+    expect(first.id).toBe('s1:1');
+    expect(repeat).toBe(first);
+    expect(storage.load()).toEqual([first]);
+    expect(history.getRating('blocks-cannons', 'ada')).toBe(1516);
+  });
+
+  it('should list a player’s matches newest first', () => {
+    history.record('s1', 'blocks-cannons', ended([participant(1, 'ada'), participant(2, 'bob')]));
+    history.record('s2', 'hello-hands', ended([participant(1, 'cy'), participant(2, 'bob')]));
+    history.record('s3', 'hello-hands', ended([participant(1, 'ada'), participant(2)]));
+
+    expect(history.getPlayerHistory('ada').map((match) => match.sessionId)).toEqual(['s3', 's1']);
+    expect(history.getPlayerHistory('bob', 1).map((match) => match.sessionId)).toEqual(['s2']);
+    expect(history.getPlayerHistory('nobody')).toEqual([]);
+  });
+});
+
+interface Backend {
+  name: string;
+  /** Open the storage at the test's location; called again to simulate a restart */
+  open: (dir: string) => MatchStorage;
+}
+
+const backends: Backend[] = [
+  {
+    name: 'JsonFileMatchStorage',
+    open: (dir) => new JsonFileMatchStorage(join(dir, 'nested', 'matches.jsonl')),
+  },
+];
+
+if (sqlite) {
+  const { SqliteMatchStorage } = await import('../src/services/SqliteMatchStorage.js');
+  backends.push({
+    name: 'SqliteMatchStorage',
+    open: (dir) => new SqliteMatchStorage(join(dir, 'nested', 'sessions.db')),
+  });
+}
+
+describe.each(backends)('$name', ({ open }) => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'match-storage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restore history and ratings across restarts', () => {
+    const before = new MatchHistory(open(dir));
+    const first = before.record(
+      's1',
+      'blocks-cannons',
+      ended([participant(1, 'ada'), participant(2, 'bob')], 2),
+      new Date(1000)
+    );
+    const second = before.record(
+      's1',
+      'blocks-cannons',
+      { type: 'session_ended', reason: 'participant_left' },
+      new Date(2000)
+    );
+
+    const after = new MatchHistory(open(dir));
+
+    expect(open(dir).load()).toEqual([first, second]);
+    expect(after.getLeaderboard('blocks-cannons')).toEqual(before.getLeaderboard('blocks-cannons'));
+    expect(after.getRating('blocks-cannons', 'bob')).toBe(1516);
+  });
+});
+
+describe('MemoryMatchStorage', () => {
+  it('should return recorded matches', () => {
+    const storage = new MemoryMatchStorage();
+    const match = new MatchHistory(storage).record('s1', 'hello-hands', ended([]));
+
+    expect(storage.load()).toEqual([match]);
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Matchmaker } from '../src/services/Matchmaker.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+function createSpawner(): SessionSpawner {
+  return {
+    spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `http://localhost/${sessionId}` })),
+    stop: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([]),
+  };
+}
+
+describe('Matchmaker', () => {
+  let store: SessionStore;
+  let spawner: SessionSpawner;
+  let matchmaker: Matchmaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new SessionStore();
+    spawner = createSpawner();
+    matchmaker = new Matchmaker(store, spawner, {
+      timeoutMs: 30_000,
+      maxRatingGap: 100,
+      retentionMs: 60_000,
+    });
+  });
+
+  afterEach(() => {
+    matchmaker.close();
+    vi.useRealTimers();
+  });
+
+  it('should pair two players into one human session', async () => {
+    const first = matchmaker.enqueue('blocks-cannons');
+    expect(first.status).toBe('queued');
+
+    const second = matchmaker.enqueue('blocks-cannons');
+    expect(second.status).toBe('starting');
+    await vi.waitFor(() => expect(second.status).toBe('matched'));
+
+    expect(first.status).toBe('matched');
+    expect(first.sessionId).toBe(second.sessionId);
+    expect(first.sessionUrl).toBe(`http://localhost/${first.sessionId}`);
+    expect(spawner.spawn).toHaveBeenCalledTimes(1);
+    expect(spawner.spawn).toHaveBeenCalledWith(
+      first.sessionId,
+      'blocks-cannons',
+      false,
+      undefined,
+      undefined
+    );
+    expect(store.get(first.sessionId ?? '')?.status).toBe('waiting');
+  });
+
+  it('should only pair players of the same app, region and rating range', () => {
+    matchmaker.enqueue('hello-hands');
+    matchmaker.enqueue('blocks-cannons', { region: 'us' });
+    matchmaker.enqueue('blocks-cannons', { rating: 1000, region: 'eu' });
+    matchmaker.enqueue('blocks-cannons', { rating: 1200, region: 'eu' });
+
+    expect(matchmaker.getQueued()).toHaveLength(4);
+    expect(spawner.spawn).not.toHaveBeenCalled();
+  });
+
+  it('should never pair a player with itself', () => {
+    matchmaker.enqueue('blocks-cannons', { playerId: 'p1' });
+    const again = matchmaker.enqueue('blocks-cannons', { playerId: 'p1' });
+    expect(again.status).toBe('queued');
+
+    const other = matchmaker.enqueue('blocks-cannons', { playerId: 'p2' });
+    expect(other.status).toBe('starting');
+  });
+
+  it('should not pair anonymous tickets from the same address', () => {
+    matchmaker.enqueue('blocks-cannons', { clientIp: '10.0.0.1' });
+    const again = matchmaker.enqueue('blocks-cannons', { clientIp: '10.0.0.1' });
+    const signedIn = matchmaker.enqueue('blocks-cannons', { playerId: 'p1', clientIp: '10.0.0.1' });
+    expect(again.status).toBe('queued');
+    expect(signedIn.status).toBe('queued');
+
+    // Different accounts behind one address may still play each other
+    const housemate = matchmaker.enqueue('blocks-cannons', {
+      playerId: 'p2',
+      clientIp: '10.0.0.1',
+    });
+    expect(housemate.status).toBe('starting');
+    expect(signedIn.status).toBe('starting');
+  });
+
+  it('should pair the longest-waiting compatible player', () => {
+    const far = matchmaker.enqueue('blocks-cannons', { rating: 1500, region: 'eu' });
+    const close = matchmaker.enqueue('blocks-cannons', { rating: 1050, region: 'eu' });
+    const any = matchmaker.enqueue('blocks-cannons');
+
+    expect(far.status).toBe('starting');
+    expect(any.status).toBe('starting');
+    expect(close.status).toBe('queued');
+
+    const rated = matchmaker.enqueue('blocks-cannons', { rating: 1000 });
+    expect(close.status).toBe('starting');
+    expect(rated.status).toBe('starting');
+  });
+
+  it('should offer a bot after the timeout and spawn it on acceptance', async () => {
+    const ticket = matchmaker.enqueue('blocks-cannons');
+    const statuses: string[] = [];
+    matchmaker.subscribe(ticket.id, (t) => statuses.push(t.status));
+
+    vi.advanceTimersByTime(30_000);
+    expect(ticket.status).toBe('timed_out');
+    expect(statuses).toEqual(['timed_out']);
+    expect(matchmaker.getQueued()).toHaveLength(0);
+
+    // Timed-out players are no longer paired
+    expect(matchmaker.enqueue('blocks-cannons').status).toBe('queued');
+
+    await matchmaker.acceptBot(ticket.id, 0.3);
+    expect(ticket.status).toBe('matched');
+    expect(ticket.opponentType).toBe('bot');
+    expect(spawner.spawn).toHaveBeenCalledWith(
+      ticket.sessionId,
+      'blocks-cannons',
+      true,
+      0.3,
+      undefined
+    );
+    expect(statuses).toEqual(['timed_out', 'starting', 'matched']);
+  });
+
+  it('should report spawn failures on both tickets', async () => {
+    vi.mocked(spawner.spawn).mockRejectedValue(new Error('no capacity'));
+
+    const first = matchmaker.enqueue('blocks-cannons');
+    const second = matchmaker.enqueue('blocks-cannons');
+    await vi.waitFor(() => expect(second.status).toBe('error'));
+
+    expect(first.status).toBe('error');
+    expect(first.errorMessage).toBe('no capacity');
+    expect(store.getAll()[0]?.status).toBe('error');
+  });
+
+  it('should fail tickets with a busy error while the lobby is at capacity', () => {
+    store.create('running', 'blocks-cannons', 'bot');
+    matchmaker.close();
+    matchmaker = new Matchmaker(store, spawner, { maxSessions: 1 });
+
+    const first = matchmaker.enqueue('blocks-cannons');
+    const second = matchmaker.enqueue('blocks-cannons');
+
+    for (const ticket of [first, second]) {
+      expect(ticket).toMatchObject({
+        status: 'error',
+        errorMessage: 'All game servers are busy. Please try again shortly.',
+        errorCode: 'server_busy',
+        retryAfterSeconds: 30,
+      });
+    }
+    expect(spawner.spawn).not.toHaveBeenCalled();
+    expect(store.countLive()).toBe(1);
+  });
+
+  it('should cancel waiting tickets and forget them after the retention period', () => {
+    const ticket = matchmaker.enqueue('blocks-cannons');
+
+    expect(matchmaker.cancel(ticket.id)).toBe(true);
+    expect(ticket.status).toBe('cancelled');
+    expect(matchmaker.cancel(ticket.id)).toBe(false);
+    expect(matchmaker.enqueue('blocks-cannons').status).toBe('queued');
+
+    vi.advanceTimersByTime(60_000);
+    expect(matchmaker.get(ticket.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../src/services/RateLimiter.js';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter({ limit: 2, windowMs: 10_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow requests up to the limit', () => {
+    expect(limiter.consume('1.2.3.4')).toBe(0);
+    expect(limiter.consume('1.2.3.4')).toBe(0);
+    expect(limiter.consume('1.2.3.4')).toBe(10_000);
+  });
+
+  it('should limit each client separately', () => {
+    limiter.consume('1.2.3.4');
+    limiter.consume('1.2.3.4');
+
+    expect(limiter.consume('5.6.7.8')).toBe(0);
+  });
+
+  it('should allow requests again as old ones leave the window', () => {
+    limiter.consume('1.2.3.4');
+    vi.advanceTimersByTime(4_000);
+    limiter.consume('1.2.3.4');
+
+    vi.advanceTimersByTime(2_000);
+    expect(limiter.consume('1.2.3.4')).toBe(4_000);
+
+    vi.advanceTimersByTime(4_000);
+    expect(limiter.consume('1.2.3.4')).toBe(0);
+    expect(limiter.consume('1.2.3.4')).toBe(4_000);
+  });
+
+  it('should not count refused requests', () => {
+    limiter.consume('1.2.3.4');
+    limiter.consume('1.2.3.4');
+    limiter.consume('1.2.3.4');
+
+    vi.advanceTimersByTime(10_000);
+    expect(limiter.consume('1.2.3.4')).toBe(0);
+    expect(limiter.consume('1.2.3.4')).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionReaper } from '../src/services/SessionReaper.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+import type { SessionStatus } from '../src/types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SessionReaper', () => {
+  let store: SessionStore;
+  let spawner: SessionSpawner;
+  let reaper: SessionReaper;
+
+  function addSession(id: string, status: SessionStatus, ageMs = 0): void {
+    store.create(id, 'blocks-cannons', 'human');
+    store.updateStatus(id, status);
+    const session = store.get(id);
+    if (session) {
+      session.createdAt = new Date(Date.now() - ageMs);
+    }
+  }
+
+  function setRunning(ids: string[]): void {
+    spawner.list = vi
+      .fn()
+      .mockResolvedValue(ids.map((id) => `session-blocks-cannons-${id} Up 5 minutes`));
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new SessionStore();
+    spawner = {
+      spawn: vi.fn(),
+      stop: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue([]),
+    };
+    reaper = new SessionReaper(store, spawner, {
+      intervalMs: 1000,
+      maxLifetimeMs: 2 * HOUR_MS,
+      recordRetentionMs: HOUR_MS,
+    });
+  });
+
+  afterEach(() => {
+    reaper.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should stop sessions running past the maximum lifetime', async () => {
+    addSession('old', 'active', 3 * HOUR_MS);
+    addSession('young', 'active', HOUR_MS);
+    setRunning(['old', 'young']);
+
+    const result = await reaper.reap();
+
+    expect(result?.expired).toEqual(['session-blocks-cannons-old']);
+    expect(spawner.stop).toHaveBeenCalledWith('session-blocks-cannons-old');
+    expect(spawner.remove).toHaveBeenCalledWith('session-blocks-cannons-old');
+    expect(store.get('old')?.status).toBe('ended');
+    expect(store.get('young')?.status).toBe('active');
+  });
+
+  it('should mark sessions whose server is gone as ended', async () => {
+    addSession('gone', 'waiting');
+    addSession('here', 'waiting');
+    setRunning(['here']);
+
+    const result = await reaper.reap();
+
+    expect(result?.vanished).toEqual(['session-blocks-cannons-gone']);
+    expect(store.get('gone')?.status).toBe('ended');
+    expect(store.get('here')?.status).toBe('waiting');
+    expect(spawner.stop).not.toHaveBeenCalled();
+  });
+
+  it('should leave sessions alone that are still spawning', async () => {
+    addSession('spawning', 'starting');
+    // Spawned while the running sessions were listed
+    addSession('spawned', 'starting');
+    spawner.list = vi.fn(async () => {
+      store.updateStatus('spawned', 'waiting');
+      return [];
+    });
+
+    const result = await reaper.reap();
+
+    expect(result?.vanished).toEqual([]);
+    expect(store.get('spawning')?.status).toBe('starting');
+    expect(store.get('spawned')?.status).toBe('waiting');
+  });
+
+  it('should drop old ended records and report orphans', async () => {
+    addSession('ended', 'ended', 2 * HOUR_MS);
+    addSession('recent', 'ended');
+    setRunning(['unknown']);
+
+    const result = await reaper.reap();
+
+    expect(result?.removed).toBe(1);
+    expect(result?.orphaned).toEqual(['session-blocks-cannons-unknown']);
+    expect(store.get('ended')).toBeUndefined();
+    expect(store.get('recent')).toBeDefined();
+    expect(spawner.stop).not.toHaveBeenCalled();
+  });
+
+  it('should report sessions it failed to stop', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    addSession('stuck', 'active', 3 * HOUR_MS);
+    setRunning(['stuck']);
+    vi.mocked(spawner.stop).mockRejectedValue(new Error('Docker is down'));
+
+    const result = await reaper.reap();
+
+    expect(result?.failed).toEqual(['session-blocks-cannons-stuck']);
+    expect(store.get('stuck')?.status).toBe('active');
+  });
+
+  it('should keep totals across passes', async () => {
+    addSession('gone', 'waiting');
+    addSession('old', 'active', 3 * HOUR_MS);
+    setRunning(['old']);
+
+    await reaper.reap();
+    setRunning([]);
+    await reaper.reap();
+
+    expect(reaper.getStats()).toMatchObject({
+      runs: 2,
+      expired: 1,
+      vanished: 1,
+      // The expired session's record is dropped by the second pass
+      removed: 1,
+      failed: 0,
+      orphaned: 0,
+    });
+    expect(reaper.getStats().lastRunAt).toBeInstanceOf(Date);
+  });
+
+  it('should run on an interval once started', async () => {
+    vi.useFakeTimers();
+    addSession('gone', 'waiting');
+
+    reaper.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(store.get('gone')?.status).toBe('ended');
+    expect(reaper.getStats().runs).toBe(1);
+
+    reaper.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(reaper.getStats().runs).toBe(1);
+  });
+
+  it('should skip a pass while one is running', async () => {
+    let finishList: (entries: string[]) => void = () => {};
+    spawner.list = vi.fn(
+      () =>
+        new Promise<string[]>((resolve) => {
+          finishList = resolve;
+        })
+    );
+
+    const first = reaper.reap();
+    expect(await reaper.reap()).toBeNull();
+    finishList([]);
+
+    expect(await first).not.toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JsonFileSessionStorage } from '../src/services/JsonFileSessionStorage.js';
+import { MemorySessionStorage, type SessionStorage } from '../src/services/SessionStorage.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+// node:sqlite ships with Node 22.5+; skip its suite on older runtimes
+const sqlite = await import('node:sqlite').catch(() => null);
+
+interface Backend {
+  name: string;
+  /** Open the storage at the test's location; called again to simulate a restart */
+  open: (dir: string) => SessionStorage;
+  persistent: boolean;
+}
+
+const backends: Backend[] = [
+  { name: 'MemorySessionStorage', open: () => new MemorySessionStorage(), persistent: false },
+  {
+    name: 'JsonFileSessionStorage',
+    open: (dir) => new JsonFileSessionStorage(join(dir, 'nested', 'sessions.json')),
+    persistent: true,
+  },
+];
+
+if (sqlite) {
+  const { SqliteSessionStorage } = await import('../src/services/SqliteSessionStorage.js');
+  backends.push({
+    name: 'SqliteSessionStorage',
+    open: (dir) => new SqliteSessionStorage(join(dir, 'nested', 'sessions.db')),
+    persistent: true,
+  });
+}
+
+describe.each(backends)('$name', ({ open, persistent }) => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'session-storage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save and load sessions', () => {
+    const storage = open(dir);
+    const store = new SessionStore({}, storage);
+    store.create('abc123', 'blocks-cannons', 'human');
+    store.updateStatus('abc123', 'error', 'Container failed to start');
+
+    expect(storage.load()).toEqual([store.get('abc123')]);
+  });
+
+  it.runIf(persistent)('should keep sessions across restarts', () => {
+    const before = new SessionStore({}, open(dir));
+    const session = before.create('abc123', 'blocks-cannons', 'human');
+    before.setSessionUrl('abc123', 'http://localhost:5173/?wsUrl=ws://localhost:41000');
+    before.updateStatus('abc123', 'waiting');
+    before.create('gone12', 'hello-hands', 'bot');
+    before.delete('gone12');
+
+    const after = new SessionStore({}, open(dir));
+
+    expect(after.getAll()).toEqual([
+      {
+        ...session,
+        status: 'waiting',
+        sessionUrl: 'http://localhost:5173/?wsUrl=ws://localhost:41000',
+        joinUrl: 'http://localhost:5173/?wsUrl=ws://localhost:41000',
+      },
+    ]);
+    expect(after.get('abc123')?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it.runIf(persistent)('should keep the access settings of private sessions', () => {
+    const access = { joinCode: 'K7QXP2', inviteToken: 'invite', passwordHash: 'salt:key' };
+    new SessionStore({}, open(dir)).create('abc123', 'blocks-cannons', 'human', access);
+
+    const after = new SessionStore({}, open(dir));
+
+    expect(after.get('abc123')?.access).toEqual(access);
+    expect(after.findByJoinCode('K7QXP2')?.id).toBe('abc123');
+  });
+});
@@ -105,6 +105,57 @@ describe('SessionStore', () => {
     });
   });
 
+  describe('applyLifecycleEvent', () => {
+    it('should track participants and match progress', () => {
+      store.create('sess1', 'blocks-cannons', 'human');
+
+      store.applyLifecycleEvent('sess1', {
+        type: 'participant_joined',
+        participantId: 'p1',
+        participantNumber: 1,
+        participantCount: 1,
+      });
+      expect(store.get('sess1')).toMatchObject({ status: 'waiting', participantCount: 1 });
+
+      store.applyLifecycleEvent('sess1', { type: 'session_started' });
+      expect(store.get('sess1')?.status).toBe('active');
+
+      store.applyLifecycleEvent('sess1', {
+        type: 'participant_left',
+        participantId: 'p1',
+        participantNumber: 1,
+        participantCount: 0,
+      });
+      store.applyLifecycleEvent('sess1', { type: 'session_ended', reason: 'participant_left' });
+      expect(store.get('sess1')).toMatchObject({ status: 'finished', participantCount: 0 });
+
+      store.applyLifecycleEvent('sess1', { type: 'shutdown', reason: 'signal' });
+      expect(store.get('sess1')?.status).toBe('ended');
+    });
+
+    it('should return undefined for non-existent session', () => {
+      expect(store.applyLifecycleEvent('nonexistent', { type: 'session_started' })).toBeUndefined();
+    });
+  });
+
+  describe('setSessionUrl', () => {
+    it('should update the session URL', () => {
+      store.create('sess1', 'blocks-cannons', 'bot');
+      store.setSessionUrl('sess1', 'http://localhost:5173/?wsUrl=ws://localhost:41000');
+
+      const session = store.get('sess1');
+      expect(session?.sessionUrl).toBe('http://localhost:5173/?wsUrl=ws://localhost:41000');
+      expect(session?.joinUrl).toBeNull();
+    });
+
+    it('should share the new URL with a human opponent', () => {
+      store.create('sess2', 'blocks-cannons', 'human');
+      store.setSessionUrl('sess2', 'http://localhost:5173/');
+
+      expect(store.get('sess2')?.joinUrl).toBe('http://localhost:5173/');
+    });
+  });
+
   describe('delete', () => {
     it('should remove a session', () => {
       store.create('todelete', 'blocks-cannons', 'bot');
@@ -165,6 +216,21 @@ describe('SessionStore', () => {
     });
   });
 
+  describe('countLive', () => {
+    it('should count sessions that are not over, optionally per app', () => {
+      store.create('sess1', 'blocks-cannons', 'bot');
+      store.create('sess2', 'blocks-cannons', 'human');
+      store.create('sess3', 'other-app', 'bot');
+      store.create('sess4', 'other-app', 'bot');
+      store.updateStatus('sess2', 'ended');
+      store.updateStatus('sess4', 'error', 'Test error');
+
+      expect(store.countLive()).toBe(2);
+      expect(store.countLive('blocks-cannons')).toBe(1);
+      expect(store.countLive('unknown-app')).toBe(0);
+    });
+  });
+
   describe('cleanup', () => {
     it('should remove old ended sessions', () => {
       // Create a session and mark it as ended
@@ -0,0 +1,259 @@
+import express from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAdminRouter } from '../src/routes/admin.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+import type { AppSession, OpponentType, SessionStatus } from '../src/types.js';
+
+const ADMIN_TOKEN = 'admin-secret';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Admin Router', () => {
+  let sessionStore: SessionStore;
+  let spawner: SessionSpawner;
+
+  beforeEach(() => {
+    sessionStore = new SessionStore();
+    spawner = {
+      spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `http://localhost/${sessionId}` })),
+      stop: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue([]),
+      inspect: vi.fn().mockResolvedValue({
+        running: true,
+        state: 'running',
+        health: 'healthy',
+        startedAt: new Date('2025-01-01T10:00:00.000Z'),
+      }),
+      logs: vi.fn().mockResolvedValue('listening on 3001\n'),
+    };
+  });
+
+  /**
+   * Add a session created some time ago.
+   */
+  function addSession(
+    id: string,
+    status: SessionStatus,
+    options: { ageMs?: number; participantCount?: number; opponentType?: OpponentType } = {}
+  ): AppSession {
+    const session = sessionStore.create(id, 'blocks-cannons', options.opponentType ?? 'human');
+    session.status = status;
+    session.participantCount = options.participantCount ?? 0;
+    session.createdAt = new Date(Date.now() - (options.ageMs ?? 0));
+    return session;
+  }
+
+  async function request(
+    method: string,
+    path: string,
+    options: { body?: object; token?: string | null; adminToken?: string } = {}
+  ) {
+    const app = express();
+    app.use(express.json());
+    app.use(
+      '/api/admin',
+      createAdminRouter(sessionStore, spawner, {
+        adminToken: 'adminToken' in options ? options.adminToken : ADMIN_TOKEN,
+      })
+    );
+
+    const server = app.listen(0);
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 3000;
+    const token = options.token === undefined ? ADMIN_TOKEN : options.token;
+
+    try {
+      const response = await fetch(`http://localhost:${port}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token !== null && { Authorization: `Bearer ${token}` }),
+        },
+        ...(options.body && { body: JSON.stringify(options.body) }),
+      });
+      const data = response.headers.get('content-type')?.includes('json')
+        ? await response.json()
+        : await response.text();
+      return { status: response.status, data };
+    } finally {
+      server.close();
+    }
+  }
+
+  describe('authentication', () => {
+    it('should be disabled without an admin token', async () => {
+      const { status, data } = await request('GET', '/api/admin/sessions', {
+        adminToken: undefined,
+      });
+
+      expect(status).toBe(503);
+      expect(data.error).toBe('Admin API is disabled');
+    });
+
+    it('should reject missing and wrong tokens', async () => {
+      expect((await request('GET', '/api/admin/sessions', { token: null })).status).toBe(401);
+      expect((await request('GET', '/api/admin/sessions', { token: 'wrong' })).status).toBe(401);
+    });
+  });
+
+  describe('GET /api/admin/sessions', () => {
+    it('should list sessions newest first with their server state', async () => {
+      addSession('old', 'waiting', { ageMs: 2 * HOUR_MS, opponentType: 'bot' });
+      addSession('new', 'active', { participantCount: 2 });
+      addSession('gone', 'ended', { ageMs: HOUR_MS });
+
+      const { status, data } = await request('GET', '/api/admin/sessions');
+
+      expect(status).toBe(200);
+      expect(data.sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual([
+        'new',
+        'gone',
+        'old',
+      ]);
+      expect(data.sessions[0]).toMatchObject({
+        appId: 'blocks-cannons',
+        status: 'active',
+        opponentType: 'human',
+        participantCount: 2,
+        private: false,
+        containerName: 'session-blocks-cannons-new',
+        health: {
+          running: true,
+          state: 'running',
+          health: 'healthy',
+          startedAt: '2025-01-01T10:00:00.000Z',
+        },
+      });
+      expect(data.sessions[2].ageMs).toBeGreaterThanOrEqual(2 * HOUR_MS);
+      // Sessions that are over are not inspected
+      expect(data.sessions[1].health).toBeNull();
+      expect(spawner.inspect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave out the server state when the backend cannot tell', async () => {
+      addSession('abc', 'waiting');
+      spawner.inspect = vi.fn().mockRejectedValue(new Error('No such container'));
+
+      const { data } = await request('GET', '/api/admin/sessions');
+
+      expect(data.sessions[0].health).toBeNull();
+    });
+  });
+
+  describe('GET /api/admin/sessions/:id/logs', () => {
+    it('should return the last log lines as text', async () => {
+      addSession('abc', 'active');
+
+      const { status, data } = await request('GET', '/api/admin/sessions/abc/logs?tail=50');
+
+      expect(status).toBe(200);
+      expect(data).toBe('listening on 3001\n');
+      expect(spawner.logs).toHaveBeenCalledWith('session-blocks-cannons-abc', 50);
+    });
+
+    it('should reject unknown sessions and invalid tails', async () => {
+      addSession('abc', 'active');
+
+      expect((await request('GET', '/api/admin/sessions/unknown/logs')).status).toBe(404);
+      expect((await request('GET', '/api/admin/sessions/abc/logs?tail=0')).status).toBe(400);
+    });
+
+    it('should answer 501 when the backend keeps no logs', async () => {
+      addSession('abc', 'active');
+      delete spawner.logs;
+
+      const { status } = await request('GET', '/api/admin/sessions/abc/logs');
+
+      expect(status).toBe(501);
+    });
+  });
+
+  describe('POST /api/admin/sessions/:id/stop', () => {
+    it('should stop and remove the session server', async () => {
+      addSession('abc', 'active', { participantCount: 2 });
+
+      const { status } = await request('POST', '/api/admin/sessions/abc/stop');
+
+      expect(status).toBe(200);
+      expect(spawner.stop).toHaveBeenCalledWith('session-blocks-cannons-abc');
+      expect(spawner.remove).toHaveBeenCalledWith('session-blocks-cannons-abc');
+      expect(sessionStore.get('abc')?.status).toBe('ended');
+    });
+
+    it('should report failures', async () => {
+      addSession('abc', 'active');
+      vi.mocked(spawner.stop).mockRejectedValue(new Error('Container not found'));
+
+      const { status, data } = await request('POST', '/api/admin/sessions/abc/stop');
+
+      expect(status).toBe(500);
+      expect(data.error).toBe('Container not found');
+    });
+
+    it('should return 404 for unknown sessions', async () => {
+      const { status } = await request('POST', '/api/admin/sessions/unknown/stop');
+
+      expect(status).toBe(404);
+    });
+  });
+
+  describe('GET /api/admin/stats', () => {
+    it('should count sessions by status and app', async () => {
+      addSession('a', 'active');
+      addSession('b', 'active');
+      addSession('c', 'error');
+      sessionStore.create('d', 'hello-hands', 'bot');
+
+      const { data } = await request('GET', '/api/admin/stats');
+
+      expect(data.total).toBe(4);
+      expect(data.byStatus).toMatchObject({ active: 2, error: 1, starting: 1, ended: 0 });
+      expect(data.byApp['blocks-cannons']).toMatchObject({ active: 2, error: 1, starting: 0 });
+      expect(data.byApp['hello-hands']).toMatchObject({ starting: 1 });
+    });
+  });
+
+  describe('POST /api/admin/cleanup', () => {
+    it('should stop stale idle sessions and drop old records', async () => {
+      addSession('idle', 'waiting', { ageMs: 2 * HOUR_MS });
+      addSession('stuck', 'starting', { ageMs: 2 * HOUR_MS });
+      addSession('playing', 'active', { ageMs: 2 * HOUR_MS, participantCount: 2 });
+      addSession('lobby', 'waiting', { ageMs: 2 * HOUR_MS, participantCount: 1 });
+      addSession('fresh', 'waiting');
+      addSession('old-error', 'error', { ageMs: 2 * HOUR_MS });
+
+      const { status, data } = await request('POST', '/api/admin/cleanup');
+
+      expect(status).toBe(200);
+      expect(data.stopped).toEqual(['idle', 'stuck']);
+      expect(spawner.stop).toHaveBeenCalledTimes(2);
+      // The stopped sessions and the failed one are gone
+      expect(data.removed).toBe(3);
+      expect(
+        sessionStore
+          .getAll()
+          .map((s) => s.id)
+          .sort()
+      ).toEqual(['fresh', 'lobby', 'playing']);
+    });
+
+    it('should accept a custom age', async () => {
+      addSession('idle', 'finished', { ageMs: 10 * 60 * 1000 });
+
+      const { data } = await request('POST', '/api/admin/cleanup', {
+        body: { olderThanMs: 5 * 60 * 1000 },
+      });
+
+      expect(data.stopped).toEqual(['idle']);
+    });
+
+    it('should reject an invalid age', async () => {
+      const { status } = await request('POST', '/api/admin/cleanup', {
+        body: { olderThanMs: 'old' },
+      });
+
+      expect(status).toBe(400);
+    });
+  });
+});
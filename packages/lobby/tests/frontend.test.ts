@@ -4,7 +4,7 @@
  * These tests verify that the frontend correctly communicates with the backend API.
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -31,6 +31,15 @@ interface CreateSessionResponse {
   joinUrl: string | null;
 }
 
+interface LeaderboardEntry {
+  rank: number;
+  player: { id: string; displayName: string; avatarColor: string };
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
 // Re-implement frontend functions for testing (avoiding DOM dependencies)
 async function fetchApps(): Promise<AppManifest[]> {
   const response = await fetch('/api/sessions/apps');
@@ -41,6 +50,16 @@ async function fetchApps(): Promise<AppManifest[]> {
   return data.apps;
 }
 
+function describeError(
+  error: { error?: string; retryAfterSeconds?: number },
+  fallback: string
+): string {
+  const message = error.error || fallback;
+  return error.retryAfterSeconds
+    ? `${message} (try again in ${error.retryAfterSeconds} s)`
+    : message;
+}
+
 async function createSession(
   appId: string,
   opponentType: 'bot' | 'human',
@@ -54,12 +73,55 @@ async function createSession(
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to create session');
+    throw new Error(describeError(error, 'Failed to create session'));
+  }
+
+  return response.json();
+}
+
+async function joinSessionByCode(
+  joinCode: string,
+  password?: string
+): Promise<{ sessionId: string; appId: string; sessionUrl: string }> {
+  const response = await fetch('/api/sessions/join', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ joinCode, password }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to join session');
   }
 
   return response.json();
 }
 
+async function fetchLeaderboard(appId: string): Promise<LeaderboardEntry[]> {
+  const response = await fetch(`/api/apps/${encodeURIComponent(appId)}/leaderboard`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch leaderboard');
+  }
+  const data: { appId: string; entries: LeaderboardEntry[] } = await response.json();
+  return data.entries;
+}
+
+async function adminFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${sessionStorage.getItem('lobby-admin-token') ?? ''}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Admin request failed (${response.status})`);
+  }
+  return response;
+}
+
 describe('Frontend API Client', () => {
   beforeEach(() => {
     mockFetch.mockReset();
@@ -198,6 +260,21 @@ describe('Frontend API Client', () => {
       await expect(createSession('some-app', 'bot')).rejects.toThrow('Failed to create session');
     });
 
+    it('should tell the user when to retry a busy server', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({
+          error: 'All game servers are busy. Please try again shortly.',
+          code: 'server_busy',
+          retryAfterSeconds: 30,
+        }),
+      });
+
+      await expect(createSession('blocks-cannons', 'bot')).rejects.toThrow(
+        'All game servers are busy. Please try again shortly. (try again in 30 s)'
+      );
+    });
+
     it('should include botDifficulty only for bot sessions', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -215,4 +292,94 @@ describe('Frontend API Client', () => {
       expect(callBody.botDifficulty).toBe(0.75);
     });
   });
+
+  describe('joinSessionByCode', () => {
+    it('should send the code and password', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          sessionId: 'abc123',
+          appId: 'blocks-cannons',
+          sessionUrl: 'https://abc123-blocks-cannons-gestures.dx-tooling.org/?access=invite',
+        }),
+      });
+
+      const session = await joinSessionByCode('K7QXP2', 'hunter2');
+
+      expect(session.sessionUrl).toContain('access=invite');
+      expect(mockFetch).toHaveBeenCalledWith('/api/sessions/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ joinCode: 'K7QXP2', password: 'hunter2' }),
+      });
+    });
+
+    it('should throw the server error for wrong codes', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({ error: 'No open session with this code' }),
+      });
+
+      await expect(joinSessionByCode('NOPE22')).rejects.toThrow('No open session with this code');
+    });
+  });
+
+  describe('fetchLeaderboard', () => {
+    it('should fetch the ranked players of an app', async () => {
+      const entries: LeaderboardEntry[] = [
+        {
+          rank: 1,
+          player: { id: 'p1', displayName: 'Ada', avatarColor: '#3b82f6' },
+          rating: 1516,
+          wins: 1,
+          losses: 0,
+          draws: 0,
+        },
+      ];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ appId: 'blocks-cannons', entries }),
+      });
+
+      expect(await fetchLeaderboard('blocks-cannons')).toEqual(entries);
+      expect(mockFetch).toHaveBeenCalledWith('/api/apps/blocks-cannons/leaderboard');
+    });
+
+    it('should throw error on failed fetch', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchLeaderboard('unknown')).rejects.toThrow('Failed to fetch leaderboard');
+    });
+  });
+
+  describe('adminFetch', () => {
+    beforeEach(() => {
+      vi.stubGlobal('sessionStorage', { getItem: () => 'admin-secret' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send the stored admin token', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      await adminFetch('/sessions/abc/stop', { method: 'POST' });
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/admin/sessions/abc/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer admin-secret' },
+      });
+    });
+
+    it('should throw the server error for rejected tokens', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: 'Unauthorized' }),
+      });
+
+      await expect(adminFetch('/sessions')).rejects.toThrow('Unauthorized');
+    });
+  });
 });
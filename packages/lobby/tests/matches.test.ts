@@ -0,0 +1,114 @@
+import { globalRegistry, type MatchParticipant } from '@gesture-app/framework-protocol';
+import express from 'express';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMatchRouter } from '../src/routes/matches.js';
+import { MatchHistory } from '../src/services/MatchHistory.js';
+
+function participant(teamId: number, playerId: string): MatchParticipant {
+  return {
+    participantId: `conn-${playerId}`,
+    participantNumber: teamId,
+    teamId,
+    isBot: false,
+    player: { id: playerId, displayName: playerId.toUpperCase(), avatarColor: '#3b82f6' },
+  };
+}
+
+describe('Match Router', () => {
+  let app: express.Express;
+  let matchHistory: MatchHistory;
+
+  beforeEach(() => {
+    globalRegistry.clear();
+    globalRegistry.register({ id: 'blocks-cannons', name: 'Blocks & Cannons', version: '1.0.0' });
+
+    matchHistory = new MatchHistory();
+    matchHistory.record(
+      's1',
+      'blocks-cannons',
+      {
+        type: 'session_ended',
+        reason: 'app_condition',
+        winnerTeamId: 1,
+        participants: [participant(1, 'ada'), participant(2, 'bob')],
+        durationMs: 60_000,
+        appData: { score: [3, 1] },
+      },
+      new Date('2026-01-01T12:00:00Z')
+    );
+
+    app = express();
+    app.use('/api', createMatchRouter(matchHistory));
+  });
+
+  async function request(path: string) {
+    const server = app.listen(0);
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 3000;
+
+    try {
+      const response = await fetch(`http://localhost:${port}${path}`);
+      return { status: response.status, data: await response.json() };
+    } finally {
+      server.close();
+    }
+  }
+
+  describe('GET /api/apps/:appId/leaderboard', () => {
+    it('should rank the players of an app', async () => {
+      const { status, data } = await request('/api/apps/blocks-cannons/leaderboard');
+
+      expect(status).toBe(200);
+      expect(data.appId).toBe('blocks-cannons');
+      expect(data.entries).toEqual([
+        {
+          rank: 1,
+          player: { id: 'ada', displayName: 'ADA', avatarColor: '#3b82f6' },
+          rating: 1516,
+          wins: 1,
+          losses: 0,
+          draws: 0,
+        },
+        expect.objectContaining({ rank: 2, rating: 1484 }),
+      ]);
+    });
+
+    it('should reject unknown apps and invalid limits', async () => {
+      expect((await request('/api/apps/unknown-app/leaderboard')).status).toBe(404);
+      expect((await request('/api/apps/blocks-cannons/leaderboard?limit=0')).status).toBe(400);
+      expect((await request('/api/apps/blocks-cannons/leaderboard?limit=x')).status).toBe(400);
+
+      const { data } = await request('/api/apps/blocks-cannons/leaderboard?limit=1');
+      expect(data.entries).toHaveLength(1);
+    });
+  });
+
+  describe('GET /api/players/:playerId/history', () => {
+    it('should list the player’s matches from their side', async () => {
+      const { status, data } = await request('/api/players/bob/history');
+
+      expect(status).toBe(200);
+      expect(data.playerId).toBe('bob');
+      expect(data.matches).toEqual([
+        {
+          matchId: expect.any(String),
+          sessionId: 's1',
+          appId: 'blocks-cannons',
+          endedAt: '2026-01-01T12:00:00.000Z',
+          durationMs: 60_000,
+          reason: 'app_condition',
+          outcome: 'loss',
+          participants: [participant(1, 'ada'), participant(2, 'bob')],
+          appData: { score: [3, 1] },
+          ratingChange: { before: 1500, after: 1484 },
+        },
+      ]);
+    });
+
+    it('should return an empty history for unknown players', async () => {
+      const { data } = await request('/api/players/nobody/history');
+
+      expect(data.matches).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { globalRegistry } from '@gesture-app/framework-protocol';
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMatchmakingRouter } from '../src/routes/matchmaking.js';
+import { Matchmaker } from '../src/services/Matchmaker.js';
+import { RateLimiter } from '../src/services/RateLimiter.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+describe('Matchmaking Router', () => {
+  let app: express.Express;
+  let spawner: SessionSpawner;
+  let matchmaker: Matchmaker;
+
+  beforeEach(() => {
+    globalRegistry.clear();
+    globalRegistry.register({
+      id: 'blocks-cannons',
+      name: 'Blocks & Cannons',
+      version: '1.0.0',
+    });
+
+    spawner = {
+      spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `http://localhost/${sessionId}` })),
+      stop: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue([]),
+    };
+    matchmaker = new Matchmaker(new SessionStore(), spawner, { timeoutMs: 50 });
+    app = createApp();
+  });
+
+  function createApp(options: Parameters<typeof createMatchmakingRouter>[1] = {}) {
+    const created = express();
+    // Tests pose as different clients through X-Forwarded-For
+    created.set('trust proxy', true);
+    created.use(express.json());
+    created.use('/api/matchmaking', createMatchmakingRouter(matchmaker, options));
+    return created;
+  }
+
+  afterEach(() => {
+    matchmaker.close();
+  });
+
+  /**
+   * Run a callback against the app listening on a random port.
+   */
+  async function withServer<T>(callback: (baseUrl: string) => Promise<T>): Promise<T> {
+    const server = app.listen(0);
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 3000;
+    try {
+      return await callback(`http://localhost:${port}`);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  }
+
+  async function request(method: string, path: string, body?: object, clientIp = '10.0.0.1') {
+    return withServer(async (baseUrl) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': clientIp },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      return { status: response.status, data };
+    });
+  }
+
+  describe('POST /api/matchmaking/:appId', () => {
+    it('should queue a player', async () => {
+      const { status, data } = await request('POST', '/api/matchmaking/blocks-cannons', {
+        rating: 1200,
+        region: 'eu',
+      });
+
+      expect(status).toBe(202);
+      expect(data.ticketId).toBeDefined();
+      expect(data.status).toBe('queued');
+      expect(data.botOffered).toBe(false);
+      expect(matchmaker.get(data.ticketId)).toMatchObject({ rating: 1200, region: 'eu' });
+    });
+
+    it('should start a session once a second player queues', async () => {
+      await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.1');
+      const { data } = await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.2');
+
+      expect(data.status).toBe('starting');
+      expect(spawner.spawn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not pair anonymous tickets from the same client', async () => {
+      await request('POST', '/api/matchmaking/blocks-cannons');
+      const { data } = await request('POST', '/api/matchmaking/blocks-cannons');
+
+      expect(data.status).toBe('queued');
+      expect(spawner.spawn).not.toHaveBeenCalled();
+    });
+
+    it('should refuse matches while the lobby is at capacity', async () => {
+      const sessionStore = new SessionStore();
+      sessionStore.create('running', 'blocks-cannons', 'bot');
+      matchmaker.close();
+      matchmaker = new Matchmaker(sessionStore, spawner, { timeoutMs: 50, maxSessions: 1 });
+      app = createApp();
+
+      const first = await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.1');
+      const { status, data } = await request(
+        'POST',
+        '/api/matchmaking/blocks-cannons',
+        {},
+        '10.0.0.2'
+      );
+
+      expect(status).toBe(503);
+      expect(data).toEqual({
+        error: 'All game servers are busy. Please try again shortly.',
+        code: 'server_busy',
+        retryAfterSeconds: 30,
+      });
+      expect(matchmaker.get(first.data.ticketId)).toMatchObject({
+        status: 'error',
+        errorCode: 'server_busy',
+      });
+      expect(spawner.spawn).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit queueing per client', async () => {
+      app = createApp({ rateLimiter: new RateLimiter({ limit: 1, windowMs: 60_000 }) });
+
+      const allowed = await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.1');
+      const limited = await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.1');
+      const other = await request('POST', '/api/matchmaking/blocks-cannons', {}, '10.0.0.2');
+
+      expect(allowed.status).toBe(202);
+      expect(limited.status).toBe(429);
+      expect(limited.data.code).toBe('rate_limited');
+      expect(other.status).toBe(202);
+    });
+
+    it('should reject unknown apps and invalid options', async () => {
+      const unknown = await request('POST', '/api/matchmaking/unknown-app');
+      expect(unknown.status).toBe(400);
+      expect(unknown.data.error).toContain('Unknown application: unknown-app');
+
+      const rating = await request('POST', '/api/matchmaking/blocks-cannons', { rating: 'high' });
+      expect(rating.status).toBe(400);
+      expect(rating.data.error).toContain('rating');
+
+      const region = await request('POST', '/api/matchmaking/blocks-cannons', { region: '' });
+      expect(region.status).toBe(400);
+      expect(region.data.error).toContain('region');
+    });
+
+    it('should reject apps that cannot be played by two players', async () => {
+      globalRegistry.register({
+        id: 'solo',
+        name: 'Solo',
+        version: '1.0.0',
+        minPlayers: 1,
+        maxPlayers: 1,
+      });
+      globalRegistry.register({
+        id: 'free-for-all',
+        name: 'Free for All',
+        version: '1.0.0',
+        minPlayers: 3,
+        maxPlayers: 4,
+      });
+
+      const solo = await request('POST', '/api/matchmaking/solo');
+      expect(solo.status).toBe(400);
+      expect(solo.data.error).toBe('Solo is played by 1 player, not 2');
+
+      const ffa = await request('POST', '/api/matchmaking/free-for-all');
+      expect(ffa.status).toBe(400);
+      expect(ffa.data.error).toBe('Free for All is played by 3 to 4 players, not 2');
+      expect(spawner.spawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/matchmaking/tickets/:ticketId/events', () => {
+    it('should stream ticket changes until matched', async () => {
+      const first = matchmaker.enqueue('blocks-cannons');
+
+      const events = await withServer(async (baseUrl) => {
+        const response = await fetch(`${baseUrl}/api/matchmaking/tickets/${first.id}/events`);
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        matchmaker.enqueue('blocks-cannons');
+        const text = await response.text();
+        return text
+          .split('\n\n')
+          .filter((chunk) => chunk.startsWith('data: '))
+          .map((chunk) => JSON.parse(chunk.slice('data: '.length)));
+      });
+
+      expect(events.map((event) => event.status)).toEqual(['queued', 'starting', 'matched']);
+      expect(events[2].sessionUrl).toBe(`http://localhost/${first.sessionId}`);
+    });
+
+    it('should return 404 for unknown tickets', async () => {
+      const { status } = await request('GET', '/api/matchmaking/tickets/unknown/events');
+
+      expect(status).toBe(404);
+    });
+  });
+
+  describe('POST /api/matchmaking/tickets/:ticketId/bot', () => {
+    it('should start a bot session after the timeout', async () => {
+      const ticket = matchmaker.enqueue('blocks-cannons');
+      await vi.waitFor(() => expect(ticket.status).toBe('timed_out'));
+
+      const status = await request('GET', `/api/matchmaking/tickets/${ticket.id}`);
+      expect(status.data.botOffered).toBe(true);
+
+      const { data } = await request('POST', `/api/matchmaking/tickets/${ticket.id}/bot`, {
+        botDifficulty: 0.8,
+      });
+
+      expect(data.status).toBe('matched');
+      expect(data.opponentType).toBe('bot');
+      expect(spawner.spawn).toHaveBeenCalledWith(
+        data.sessionId,
+        'blocks-cannons',
+        true,
+        0.8,
+        undefined
+      );
+    });
+
+    it('should refuse a bot session while the app is at capacity', async () => {
+      const sessionStore = new SessionStore();
+      sessionStore.create('running', 'blocks-cannons', 'bot');
+      matchmaker.close();
+      matchmaker = new Matchmaker(sessionStore, spawner, { timeoutMs: 50, maxSessionsPerApp: 1 });
+      app = createApp();
+      const ticket = matchmaker.enqueue('blocks-cannons');
+      await vi.waitFor(() => expect(ticket.status).toBe('timed_out'));
+
+      const { status, data } = await request('POST', `/api/matchmaking/tickets/${ticket.id}/bot`);
+
+      expect(status).toBe(503);
+      expect(data.code).toBe('app_busy');
+      expect(spawner.spawn).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit bot sessions per client', async () => {
+      const rateLimiter = new RateLimiter({ limit: 1, windowMs: 60_000 });
+      rateLimiter.consume('10.0.0.1');
+      app = createApp({ rateLimiter });
+      const ticket = matchmaker.enqueue('blocks-cannons');
+      await vi.waitFor(() => expect(ticket.status).toBe('timed_out'));
+
+      const { status, data } = await request('POST', `/api/matchmaking/tickets/${ticket.id}/bot`);
+
+      expect(status).toBe(429);
+      expect(data.code).toBe('rate_limited');
+      expect(ticket.status).toBe('timed_out');
+    });
+
+    it('should refuse a bot while still queued', async () => {
+      const ticket = matchmaker.enqueue('blocks-cannons');
+
+      const { status } = await request('POST', `/api/matchmaking/tickets/${ticket.id}/bot`);
+
+      expect(status).toBe(409);
+    });
+  });
+
+  describe('DELETE /api/matchmaking/tickets/:ticketId', () => {
+    it('should take the player out of the queue', async () => {
+      const ticket = matchmaker.enqueue('blocks-cannons');
+
+      const { status, data } = await request('DELETE', `/api/matchmaking/tickets/${ticket.id}`);
+
+      expect(status).toBe(200);
+      expect(data.status).toBe('cancelled');
+      expect(matchmaker.getQueued()).toHaveLength(0);
+    });
+
+    it('should return 404 for unknown tickets', async () => {
+      const { status } = await request('DELETE', '/api/matchmaking/tickets/unknown');
+
+      expect(status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { globalRegistry } from '@gesture-app/framework-protocol';
+import { verifyPlayerToken } from '@gesture-app/framework-server';
+import express from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPlayerRouter } from '../src/routes/players.js';
+import { createSessionRouter } from '../src/routes/sessions.js';
+import { PlayerAccounts } from '../src/services/PlayerAccounts.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+const SECRET = 's3cret';
+
+describe('Players Router', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    globalRegistry.clear();
+    globalRegistry.register({ id: 'blocks-cannons', name: 'Blocks & Cannons', version: '1.0.0' });
+
+    const playerAccounts = new PlayerAccounts(SECRET);
+    const spawner: SessionSpawner = {
+      spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `http://localhost/${sessionId}` })),
+      stop: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue([]),
+    };
+    app = express();
+    app.use(express.json());
+    app.use('/api/players', createPlayerRouter(playerAccounts));
+    app.use('/api/sessions', createSessionRouter(new SessionStore(), spawner, { playerAccounts }));
+  });
+
+  async function request(method: string, path: string, body?: object, token?: string) {
+    const server = app.listen(0);
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 3000;
+
+    try {
+      const response = await fetch(`http://localhost:${port}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      return { status: response.status, data };
+    } finally {
+      server.close();
+    }
+  }
+
+  it('should create an account with a signed token', async () => {
+    const { status, data } = await request('POST', '/api/players', {
+      displayName: 'Ada',
+      avatarColor: '#3b82f6',
+    });
+
+    expect(status).toBe(201);
+    expect(data.player).toMatchObject({ displayName: 'Ada', avatarColor: '#3b82f6' });
+    expect(verifyPlayerToken(data.token, SECRET)).toEqual(data.player);
+
+    const me = await request('GET', '/api/players/me', undefined, data.token);
+    expect(me.data.player).toEqual(data.player);
+  });
+
+  it('should reject invalid profiles and tokens', async () => {
+    const invalid = await request('POST', '/api/players', { displayName: '', avatarColor: 'red' });
+    expect(invalid.status).toBe(400);
+
+    const anonymous = await request('GET', '/api/players/me');
+    expect(anonymous.status).toBe(401);
+
+    const forged = await request('GET', '/api/players/me', undefined, 'forged.token');
+    expect(forged.status).toBe(401);
+  });
+
+  it('should keep the player ID when the profile changes', async () => {
+    const created = await request('POST', '/api/players', {
+      displayName: 'Ada',
+      avatarColor: '#3b82f6',
+    });
+
+    const { status, data } = await request(
+      'PATCH',
+      '/api/players/me',
+      { displayName: 'Ada L.' },
+      created.data.token
+    );
+
+    expect(status).toBe(200);
+    expect(data.player).toEqual({ ...created.data.player, displayName: 'Ada L.' });
+    expect(verifyPlayerToken(data.token, SECRET)?.displayName).toBe('Ada L.');
+  });
+
+  it('should give a signed-in creator a session link carrying their token', async () => {
+    const created = await request('POST', '/api/players', {
+      displayName: 'Ada',
+      avatarColor: '#3b82f6',
+    });
+
+    const { data } = await request(
+      'POST',
+      '/api/sessions',
+      { appId: 'blocks-cannons', opponentType: 'human' },
+      created.data.token
+    );
+
+    expect(new URL(data.sessionUrl).searchParams.get('playerToken')).toBe(created.data.token);
+    expect(data.joinUrl).toBe(`http://localhost/${data.sessionId}`);
+  });
+
+  it('should answer 503 when accounts are disabled', async () => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/players', createPlayerRouter(undefined));
+
+    const { status } = await request('POST', '/api/players', {
+      displayName: 'Ada',
+      avatarColor: '#3b82f6',
+    });
+
+    expect(status).toBe(503);
+  });
+});
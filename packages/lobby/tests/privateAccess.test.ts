@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateInviteToken,
+  generateJoinCode,
+  hashPassword,
+  JOIN_CODE_LENGTH,
+  normalizeJoinCode,
+  verifyPassword,
+} from '../src/services/privateAccess.js';
+
+describe('privateAccess', () => {
+  it('should generate readable join codes without look-alike characters', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateJoinCode();
+      expect(code).toHaveLength(JOIN_CODE_LENGTH);
+      expect(code).not.toMatch(/[01ILO]/);
+      expect(normalizeJoinCode(code)).toBe(code);
+    }
+  });
+
+  it('should ignore case, spaces and dashes in typed codes', () => {
+    expect(normalizeJoinCode(' abc-d2f ')).toBe('ABCD2F');
+  });
+
+  it('should generate distinct invite tokens', () => {
+    expect(generateInviteToken()).not.toBe(generateInviteToken());
+  });
+
+  it('should verify passwords against salted hashes', () => {
+    const hash = hashPassword('hunter2');
+
+    expect(hash).not.toBe(hashPassword('hunter2'));
+    expect(verifyPassword('hunter2', hash)).toBe(true);
+    expect(verifyPassword('hunter3', hash)).toBe(false);
+    expect(verifyPassword('hunter2', 'garbage')).toBe(false);
+  });
+});
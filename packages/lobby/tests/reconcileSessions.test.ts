@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { reconcileSessions } from '../src/services/reconcileSessions.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
+import { SessionStore } from '../src/services/SessionStore.js';
+
+describe('reconcileSessions', () => {
+  let store: SessionStore;
+  let spawner: SessionSpawner;
+
+  function setRunning(entries: string[]): void {
+    spawner.list = vi.fn().mockResolvedValue(entries);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new SessionStore();
+    spawner = {
+      spawn: vi.fn(),
+      stop: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue([]),
+    };
+  });
+
+  it('should re-adopt stored sessions that are still running', async () => {
+    store.create('live01', 'blocks-cannons', 'human');
+    store.updateStatus('live01', 'waiting');
+    setRunning(['session-blocks-cannons-live01 Up 5 minutes']);
+
+    const result = await reconcileSessions(store, spawner);
+
+    expect(result.adopted).toEqual(['session-blocks-cannons-live01']);
+    expect(store.get('live01')?.status).toBe('waiting');
+  });
+
+  it('should finish recording sessions whose spawn outlived the lobby', async () => {
+    store.create('bot001', 'blocks-cannons', 'bot');
+    store.create('human1', 'blocks-cannons', 'human');
+    setRunning(['session-blocks-cannons-bot001', 'session-blocks-cannons-human1']);
+
+    await reconcileSessions(store, spawner);
+
+    expect(store.get('bot001')?.status).toBe('active');
+    expect(store.get('human1')?.status).toBe('waiting');
+  });
+
+  it('should end stored sessions whose server is gone', async () => {
+    store.create('gone01', 'blocks-cannons', 'bot');
+    store.updateStatus('gone01', 'active');
+    store.create('done01', 'blocks-cannons', 'bot');
+    store.updateStatus('done01', 'ended');
+
+    const result = await reconcileSessions(store, spawner);
+
+    expect(result.ended).toEqual(['session-blocks-cannons-gone01']);
+    expect(store.get('gone01')?.status).toBe('ended');
+  });
+
+  it('should report orphaned sessions and only stop them when asked', async () => {
+    setRunning(['session-hello-hands-orphan Up 1 hour']);
+
+    const kept = await reconcileSessions(store, spawner);
+    expect(kept.orphaned).toEqual(['session-hello-hands-orphan']);
+    expect(spawner.stop).not.toHaveBeenCalled();
+
+    await reconcileSessions(store, spawner, { stopOrphans: true });
+    expect(spawner.stop).toHaveBeenCalledWith('session-hello-hands-orphan');
+    expect(spawner.remove).toHaveBeenCalledWith('session-hello-hands-orphan');
+  });
+});
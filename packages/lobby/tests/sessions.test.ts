@@ -2,13 +2,18 @@ import { globalRegistry } from '@gesture-app/framework-protocol';
 import express from 'express';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { createSessionRouter } from '../src/routes/sessions.js';
+import { MatchHistory } from '../src/services/MatchHistory.js';
+import { RateLimiter } from '../src/services/RateLimiter.js';
+import type { SessionSpawner } from '../src/services/SessionSpawner.js';
 import { SessionStore } from '../src/services/SessionStore.js';
 
 // Mock DockerSpawner
 vi.mock('../src/services/DockerSpawner.js', () => {
   return {
     DockerSpawner: class MockDockerSpawner {
-      spawn = vi.fn().mockResolvedValue(undefined);
+      spawn = vi.fn(async (sessionId: string, appId: string) => ({
+        sessionUrl: `https://${sessionId}-${appId}-gestures.dx-tooling.org`,
+      }));
       stop = vi.fn().mockResolvedValue(undefined);
       remove = vi.fn().mockResolvedValue(undefined);
     },
@@ -54,7 +59,7 @@ describe('Sessions Router', () => {
     try {
       const response = await fetch(`http://localhost:${port}${path}`, options);
       const data = await response.json().catch(() => ({}));
-      return { status: response.status, data };
+      return { status: response.status, data, headers: response.headers };
     } finally {
       server.close();
     }
@@ -97,6 +102,55 @@ describe('Sessions Router', () => {
       expect(data.joinUrl).toBe(data.sessionUrl);
     });
 
+    it('should use the session URL reported by the spawner', async () => {
+      const spawner: SessionSpawner = {
+        spawn: vi.fn().mockResolvedValue({ sessionUrl: 'http://localhost:5173/?wsUrl=local' }),
+        stop: vi.fn().mockResolvedValue(undefined),
+        remove: vi.fn().mockResolvedValue(undefined),
+        list: vi.fn().mockResolvedValue([]),
+      };
+      app = express();
+      app.use(express.json());
+      app.use('/api/sessions', createSessionRouter(sessionStore, spawner));
+
+      const { status, data } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+      });
+
+      expect(status).toBe(201);
+      expect(spawner.spawn).toHaveBeenCalledWith(
+        data.sessionId,
+        'blocks-cannons',
+        false,
+        undefined,
+        undefined
+      );
+      expect(data.sessionUrl).toBe('http://localhost:5173/?wsUrl=local');
+      expect(data.joinUrl).toBe('http://localhost:5173/?wsUrl=local');
+    });
+
+    it('should report spawn failures', async () => {
+      const spawner: SessionSpawner = {
+        spawn: vi.fn().mockRejectedValue(new Error('No local server configured for app: x')),
+        stop: vi.fn(),
+        remove: vi.fn(),
+        list: vi.fn(),
+      };
+      app = express();
+      app.use(express.json());
+      app.use('/api/sessions', createSessionRouter(sessionStore, spawner));
+
+      const { status, data } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'bot',
+      });
+
+      expect(status).toBe(500);
+      expect(data.error).toBe('No local server configured for app: x');
+      expect(sessionStore.getAll()[0]?.status).toBe('error');
+    });
+
     it('should reject missing appId', async () => {
       const { status, data } = await request('POST', '/api/sessions', {
         opponentType: 'bot',
@@ -127,6 +181,24 @@ describe('Sessions Router', () => {
       expect(data.error).toContain('Invalid opponentType');
     });
 
+    it('should reject bot sessions for apps that need more than two players', async () => {
+      globalRegistry.register({
+        id: 'free-for-all',
+        name: 'Free for All',
+        version: '1.0.0',
+        minPlayers: 3,
+        maxPlayers: 4,
+      });
+
+      const { status, data } = await request('POST', '/api/sessions', {
+        appId: 'free-for-all',
+        opponentType: 'bot',
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Free for All is played by 3 to 4 players, not 2');
+    });
+
     it('should reject missing opponentType', async () => {
       const { status, data } = await request('POST', '/api/sessions', {
         appId: 'blocks-cannons',
@@ -162,6 +234,363 @@ describe('Sessions Router', () => {
     });
   });
 
+  describe('private sessions', () => {
+    let spawner: SessionSpawner;
+
+    beforeEach(() => {
+      spawner = {
+        spawn: vi.fn(async (sessionId: string) => ({ sessionUrl: `https://${sessionId}.test` })),
+        stop: vi.fn().mockResolvedValue(undefined),
+        remove: vi.fn().mockResolvedValue(undefined),
+        list: vi.fn().mockResolvedValue([]),
+      };
+      app = express();
+      app.use(express.json());
+      app.use('/api/sessions', createSessionRouter(sessionStore, spawner));
+    });
+
+    it('should create a session joined by invite link or code', async () => {
+      const { status, data } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+        private: true,
+      });
+
+      expect(status).toBe(201);
+      expect(data.joinCode).toMatch(/^[A-Z2-9]{6}$/);
+      const { inviteToken } = sessionStore.get(data.sessionId)?.access ?? {};
+      expect(spawner.spawn).toHaveBeenCalledWith(
+        data.sessionId,
+        'blocks-cannons',
+        false,
+        undefined,
+        {
+          inviteToken,
+        }
+      );
+      expect(data.sessionUrl).toBe(`https://${data.sessionId}.test/?access=${inviteToken}`);
+      expect(data.joinUrl).toBe(data.sessionUrl);
+
+      // The status endpoint is open to anyone who guesses the ID
+      const { data: status2 } = await request('GET', `/api/sessions/${data.sessionId}`);
+      expect(status2.joinUrl).toBeNull();
+
+      const joined = await request('POST', '/api/sessions/join', {
+        joinCode: ` ${data.joinCode.toLowerCase()} `,
+      });
+      expect(joined.status).toBe(200);
+      expect(joined.data).toEqual({
+        sessionId: data.sessionId,
+        appId: 'blocks-cannons',
+        sessionUrl: data.sessionUrl,
+      });
+    });
+
+    it('should require the password with the join code', async () => {
+      const { data } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+        password: 'hunter2',
+      });
+
+      const session = sessionStore.get(data.sessionId);
+      expect(session?.access?.passwordHash).not.toContain('hunter2');
+      expect(spawner.spawn).toHaveBeenCalledWith(
+        data.sessionId,
+        'blocks-cannons',
+        false,
+        undefined,
+        {
+          inviteToken: session?.access?.inviteToken,
+        }
+      );
+      expect(data.joinUrl).toBeNull();
+
+      const missing = await request('POST', '/api/sessions/join', { joinCode: data.joinCode });
+      expect(missing.status).toBe(403);
+      const wrong = await request('POST', '/api/sessions/join', {
+        joinCode: data.joinCode,
+        password: 'hunter3',
+      });
+      expect(wrong.status).toBe(403);
+
+      const joined = await request('POST', '/api/sessions/join', {
+        joinCode: data.joinCode,
+        password: 'hunter2',
+      });
+      // The password never ends up in a URL
+      expect(joined.data.sessionUrl).toBe(
+        `https://${data.sessionId}.test/?access=${session?.access?.inviteToken}`
+      );
+    });
+
+    it('should reject unknown codes and ended sessions', async () => {
+      const { data } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+        private: true,
+      });
+      sessionStore.updateStatus(data.sessionId, 'ended');
+
+      expect(
+        (await request('POST', '/api/sessions/join', { joinCode: data.joinCode })).status
+      ).toBe(404);
+      expect((await request('POST', '/api/sessions/join', {})).status).toBe(400);
+    });
+
+    it('should reject private bot sessions and invalid passwords', async () => {
+      const bot = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'bot',
+        private: true,
+      });
+      expect(bot.status).toBe(400);
+
+      const short = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+        password: 'abc',
+      });
+      expect(short.status).toBe(400);
+      expect(short.data.error).toContain('password');
+      expect(spawner.spawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/sessions/:id/events', () => {
+    const SECRET = 'test-secret';
+    let matchHistory: MatchHistory;
+
+    beforeEach(() => {
+      matchHistory = new MatchHistory();
+      app = express();
+      app.use(express.json());
+      app.use(
+        '/api/sessions',
+        createSessionRouter(sessionStore, undefined, { lifecycleSecret: SECRET, matchHistory })
+      );
+    });
+
+    async function postEvent(sessionId: string, event: object, secret = SECRET) {
+      const server = app.listen(0);
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 3000;
+      try {
+        const response = await fetch(`http://localhost:${port}/api/sessions/${sessionId}/events`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+          body: JSON.stringify({ event, timestamp: 1000 }),
+        });
+        return response.status;
+      } finally {
+        server.close();
+      }
+    }
+
+    it('should follow the session through its lifecycle', async () => {
+      const { data: created } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+      });
+      const id = created.sessionId;
+
+      const joined = { type: 'participant_joined', participantId: 'p1', participantNumber: 1 };
+      expect(await postEvent(id, { ...joined, participantCount: 1 })).toBe(204);
+      expect(
+        await postEvent(id, {
+          ...joined,
+          participantId: 'p2',
+          participantNumber: 2,
+          participantCount: 2,
+        })
+      ).toBe(204);
+      let { data } = await request('GET', `/api/sessions/${id}`);
+      expect(data).toMatchObject({ status: 'waiting', participantCount: 2 });
+
+      await postEvent(id, { type: 'session_started' });
+      ({ data } = await request('GET', `/api/sessions/${id}`));
+      expect(data.status).toBe('active');
+
+      await postEvent(id, { type: 'session_ended', reason: 'app_condition', winnerTeamId: 1 });
+      ({ data } = await request('GET', `/api/sessions/${id}`));
+      expect(data.status).toBe('finished');
+
+      await postEvent(id, { type: 'shutdown', reason: 'inactivity' });
+      ({ data } = await request('GET', `/api/sessions/${id}`));
+      expect(data).toMatchObject({ status: 'ended', participantCount: 0 });
+    });
+
+    it('should record ended matches', async () => {
+      const { data: created } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'bot',
+      });
+      const player = { id: 'ada', displayName: 'Ada', avatarColor: '#3b82f6' };
+
+      await postEvent(created.sessionId, {
+        type: 'session_ended',
+        reason: 'app_condition',
+        winnerTeamId: 1,
+        participants: [
+          { participantId: 'p1', participantNumber: 1, teamId: 1, isBot: false, player },
+          { participantId: 'bot', participantNumber: 2, teamId: 2, isBot: true },
+        ],
+        durationMs: 42_000,
+      });
+
+      expect(matchHistory.getPlayerHistory('ada')).toEqual([
+        expect.objectContaining({
+          sessionId: created.sessionId,
+          appId: 'blocks-cannons',
+          durationMs: 42_000,
+          winnerTeamId: 1,
+        }),
+      ]);
+    });
+
+    it('should record and rate a repeated match delivery once', async () => {
+      const { data: created } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'human',
+      });
+      const profile = (id: string) => ({ id, displayName: id, avatarColor: '#3b82f6' });
+      const match = (matchNumber: number) => ({
+        type: 'session_ended',
+        reason: 'app_condition',
+        winnerTeamId: 1,
+        matchNumber,
+        participants: [
+          {
+            participantId: 'p1',
+            participantNumber: 1,
+            teamId: 1,
+            isBot: false,
+            player: profile('ada'),
+          },
+          {
+            participantId: 'p2',
+            participantNumber: 2,
+            teamId: 2,
+            isBot: false,
+            player: profile('bob'),
+          },
+        ],
+      });
+
+      expect(await postEvent(created.sessionId, match(1))).toBe(204);
+      expect(await postEvent(created.sessionId, match(1))).toBe(204);
+
+      expect(matchHistory.getPlayerHistory('ada')).toHaveLength(1);
+      expect(matchHistory.getRating('blocks-cannons', 'ada')).toBe(1516);
+
+      // The next match of the same session counts again
+      await postEvent(created.sessionId, match(2));
+      expect(matchHistory.getPlayerHistory('ada')).toHaveLength(2);
+    });
+
+    it('should reject events without the shared secret', async () => {
+      const { data: created } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'bot',
+      });
+
+      expect(await postEvent(created.sessionId, { type: 'session_started' }, 'wrong')).toBe(401);
+      expect(sessionStore.get(created.sessionId)?.status).toBe('active');
+    });
+
+    it('should reject events when no secret is configured', async () => {
+      app = express();
+      app.use(express.json());
+      app.use('/api/sessions', createSessionRouter(sessionStore));
+
+      expect(await postEvent('abc123', { type: 'session_started' })).toBe(401);
+    });
+
+    it('should reject invalid events and unknown sessions', async () => {
+      const { data: created } = await request('POST', '/api/sessions', {
+        appId: 'blocks-cannons',
+        opponentType: 'bot',
+      });
+
+      expect(await postEvent(created.sessionId, { type: 'exploded' })).toBe(400);
+      expect(await postEvent('nonexistent', { type: 'session_started' })).toBe(404);
+    });
+  });
+
+  describe('session limits', () => {
+    const botSession = { appId: 'blocks-cannons', opponentType: 'bot' };
+
+    function useRouter(options: Parameters<typeof createSessionRouter>[2]): void {
+      app = express();
+      app.use(express.json());
+      app.use('/api/sessions', createSessionRouter(sessionStore, undefined, options));
+    }
+
+    it('should refuse new sessions when the lobby is full', async () => {
+      useRouter({ maxSessions: 2 });
+      sessionStore.create('a', 'blocks-cannons', 'bot');
+      sessionStore.create('b', 'hello-hands', 'bot');
+
+      const { status, data, headers } = await request('POST', '/api/sessions', botSession);
+
+      expect(status).toBe(503);
+      expect(data).toEqual({
+        error: 'All game servers are busy. Please try again shortly.',
+        code: 'server_busy',
+        retryAfterSeconds: 30,
+      });
+      expect(headers.get('retry-after')).toBe('30');
+    });
+
+    it('should not count sessions that are over', async () => {
+      useRouter({ maxSessions: 1 });
+      sessionStore.create('a', 'blocks-cannons', 'bot');
+      sessionStore.updateStatus('a', 'ended');
+
+      const { status } = await request('POST', '/api/sessions', botSession);
+
+      expect(status).toBe(201);
+    });
+
+    it('should refuse new sessions when the app is full', async () => {
+      useRouter({ maxSessionsPerApp: 1 });
+      sessionStore.create('a', 'blocks-cannons', 'bot');
+      sessionStore.create('b', 'hello-hands', 'bot');
+
+      const { status, data } = await request('POST', '/api/sessions', botSession);
+
+      expect(status).toBe(503);
+      expect(data.code).toBe('app_busy');
+    });
+
+    it('should rate limit session creation per client', async () => {
+      useRouter({ rateLimiter: new RateLimiter({ limit: 2, windowMs: 60_000 }) });
+
+      expect((await request('POST', '/api/sessions', botSession)).status).toBe(201);
+      expect((await request('POST', '/api/sessions', botSession)).status).toBe(201);
+      const { status, data, headers } = await request('POST', '/api/sessions', botSession);
+
+      expect(status).toBe(429);
+      expect(data.code).toBe('rate_limited');
+      expect(data.retryAfterSeconds).toBeGreaterThan(0);
+      expect(headers.get('retry-after')).toBe(String(data.retryAfterSeconds));
+    });
+
+    it('should rate limit join attempts per client on their own', async () => {
+      useRouter({ joinRateLimiter: new RateLimiter({ limit: 2, windowMs: 60_000 }) });
+      const guess = { joinCode: 'AAAAAA', password: 'guess' };
+
+      expect((await request('POST', '/api/sessions/join', guess)).status).toBe(404);
+      expect((await request('POST', '/api/sessions/join', guess)).status).toBe(404);
+      const { status, data, headers } = await request('POST', '/api/sessions/join', guess);
+
+      expect(status).toBe(429);
+      expect(data.code).toBe('rate_limited');
+      expect(headers.get('retry-after')).toBe(String(data.retryAfterSeconds));
+      expect((await request('POST', '/api/sessions', botSession)).status).toBe(201);
+    });
+  });
+
   describe('DELETE /api/sessions/:id', () => {
     it('should end a session', async () => {
       // First create a session